@@ -2,6 +2,7 @@ using System;
 using System.Collections.Concurrent;
 using System.Collections.Generic;
 using System.Diagnostics;
+using System.IO;
 using System.Linq;
 using System.Text.Json;
 using System.Threading;
@@ -11,12 +12,12 @@ using thuvu.Tools;
 namespace thuvu.Models
 {
     /// <summary>
-    /// JSON-RPC request from TypeScript sandbox
+    /// JSON-RPC request from TypeScript sandbox (a notification when Id is null)
     /// </summary>
     public class JsonRpcRequest
     {
         public string Jsonrpc { get; set; } = "2.0";
-        public int Id { get; set; }
+        public int? Id { get; set; }
         public string Method { get; set; } = string.Empty;
         public JsonElement? Params { get; set; }
     }
@@ -32,6 +33,16 @@ namespace thuvu.Models
         public JsonRpcError? Error { get; set; }
     }
 
+    /// <summary>
+    /// JSON-RPC notification to TypeScript sandbox
+    /// </summary>
+    public class JsonRpcNotification
+    {
+        public string Jsonrpc { get; set; } = "2.0";
+        public string Method { get; set; } = string.Empty;
+        public object? Params { get; set; }
+    }
+
     /// <summary>
     /// JSON-RPC error
     /// </summary>
@@ -48,8 +59,12 @@ namespace thuvu.Models
     public class McpBridge
     {
         private readonly ConcurrentDictionary<string, Func<string, CancellationToken, Task<string>>> _toolHandlers = new();
+        /// <summary>Tools that can report their output while they run, by name</summary>
+        private readonly ConcurrentDictionary<string, Func<string, Action<string>, CancellationToken, Task<string>>> _streamingToolHandlers = new();
         private readonly List<ToolCallLog> _toolCallLogs = new();
         private readonly object _logLock = new();
+        /// <summary>Cancellation for each request still running, by request id</summary>
+        private readonly ConcurrentDictionary<int, CancellationTokenSource> _runningRequests = new();
 
         public McpBridge()
         {
@@ -69,12 +84,17 @@ namespace thuvu.Models
             RegisterTool("apply_patch", (args, ct) => Task.FromResult(ApplyPatchToolImpl.ApplyPatchTool(args)));
 
             // Process tools
-            RegisterTool("run_process", (args, ct) => RunProcessToolImpl.RunProcessToolAsync(args));
+            RegisterStreamingTool("run_process", (args, onOutput, ct) => RunProcessToolImpl.RunProcessToolAsync(args, ct, onOutput));
+            RegisterTool("process_start", (args, ct) => Tools.ProcessManagement.ProcessToolImpl.ProcessStartAsync(args));
+            RegisterTool("process_read", (args, ct) => Tools.ProcessManagement.ProcessToolImpl.ProcessReadAsync(args));
+            RegisterTool("process_write", (args, ct) => Tools.ProcessManagement.ProcessToolImpl.ProcessWriteAsync(args));
+            RegisterTool("process_status", (args, ct) => Tools.ProcessManagement.ProcessToolImpl.ProcessStatusAsync(args));
+            RegisterTool("process_stop", (args, ct) => Tools.ProcessManagement.ProcessToolImpl.ProcessStopAsync(args));
 
             // Dotnet tools
             RegisterTool("dotnet_restore", (args, ct) => DotnetToolImpl.DotnetRestoreTool(args));
-            RegisterTool("dotnet_build", (args, ct) => DotnetToolImpl.DotnetBuildTool(args));
-            RegisterTool("dotnet_test", (args, ct) => DotnetToolImpl.DotnetTestTool(args));
+            RegisterStreamingTool("dotnet_build", (args, onOutput, ct) => DotnetToolImpl.DotnetBuildTool(args, ct, onOutput));
+            RegisterStreamingTool("dotnet_test", (args, onOutput, ct) => DotnetToolImpl.DotnetTestTool(args, ct, onOutput));
             RegisterTool("dotnet_run", (args, ct) => DotnetToolImpl.DotnetRunTool(args));
             RegisterTool("dotnet_new", (args, ct) => DotnetToolImpl.DotnetNewTool(args));
 
@@ -90,6 +110,29 @@ namespace thuvu.Models
             RegisterTool("rag_clear", (args, ct) => RagToolImpl.RagClearTool(args, ct));
             RegisterTool("rag_stats", (args, ct) => RagToolImpl.RagStatsTool(args, ct));
 
+            // Code index and database tools (SQLite)
+            RegisterTool("code_index", (args, ct) => ToolExecutor.ExecuteCodeIndexAsync(args, ct));
+            RegisterTool("code_query", (args, ct) => ToolExecutor.ExecuteCodeQueryAsync(args, ct));
+            RegisterTool("sqlite_query", (args, ct) => SqliteToolImpl.SqliteQueryAsync(args, ct));
+            RegisterTool("sqlite_execute", (args, ct) => SqliteToolImpl.SqliteExecuteAsync(args, ct));
+
+            // Browser tools (Playwright)
+            RegisterTool("browser_navigate", (args, ct) => BrowserToolImpl.BrowseUrlAsync(args, ct));
+            RegisterTool("browser_click", (args, ct) => BrowserToolImpl.ClickElementAsync(args, ct));
+            RegisterTool("browser_type", (args, ct) => BrowserToolImpl.TypeTextAsync(args, ct));
+            RegisterTool("browser_get_elements", (args, ct) => BrowserToolImpl.GetElementsAsync(args, ct));
+            RegisterTool("browser_screenshot", (args, ct) => BrowserToolImpl.ScreenshotAsync(args, ct));
+            RegisterTool("browser_script", (args, ct) => BrowserToolImpl.ExecuteScriptAsync(args, ct));
+            RegisterTool("browser_close", (args, ct) => BrowserToolImpl.CloseBrowserAsync());
+
+            // Agent tools
+            RegisterTool("agent_list", (args, ct) => AgentCommunicationToolImpl.AgentListAsync(ct));
+            RegisterTool("agent_submit", (args, ct) => ToolExecutor.ExecuteAgentSubmitAsync(args, ct));
+            RegisterTool("agent_status", (args, ct) => ToolExecutor.ExecuteAgentStatusAsync(args, ct));
+            RegisterTool("agent_result", (args, ct) => ToolExecutor.ExecuteAgentResultAsync(args, ct));
+            RegisterTool("agent_cancel", (args, ct) => ToolExecutor.ExecuteAgentCancelAsync(args, ct));
+            RegisterTool("delegate_to_agent", (args, ct) => DelegateToAgentToolImpl.ExecuteAsync(args, ct));
+
             // Catalog tools for progressive discovery
             RegisterTool("catalog_list", (args, ct) => Task.FromResult(GetToolCatalogList()));
             RegisterTool("catalog_search", (args, ct) => Task.FromResult(SearchToolCatalog(args)));
@@ -153,6 +196,11 @@ namespace thuvu.Models
             "search_files" => "Search for files by glob pattern and content",
             "apply_patch" => "Apply a unified diff patch",
             "run_process" => "Run a whitelisted command",
+            "process_start" => "Start a background process session",
+            "process_read" => "Read new output from a process session",
+            "process_write" => "Write input to a process session",
+            "process_status" => "Get the status of a process session",
+            "process_stop" => "Stop a process session",
             "dotnet_restore" => "Restore .NET dependencies",
             "dotnet_build" => "Build .NET project",
             "dotnet_test" => "Run .NET tests",
@@ -164,6 +212,23 @@ namespace thuvu.Models
             "rag_search" => "Semantic search indexed content",
             "rag_clear" => "Clear RAG index",
             "rag_stats" => "Get RAG index statistics",
+            "code_index" => "Index source files for symbol queries",
+            "code_query" => "Query indexed symbols and references",
+            "sqlite_query" => "Run a SELECT with bound parameters",
+            "sqlite_execute" => "Run a write statement with bound parameters",
+            "browser_navigate" => "Open a url in the browser page",
+            "browser_click" => "Click an element in the browser page",
+            "browser_type" => "Type text into an input in the browser page",
+            "browser_get_elements" => "Query elements in the browser page",
+            "browser_screenshot" => "Take a screenshot of the browser page",
+            "browser_script" => "Run JavaScript in the browser page",
+            "browser_close" => "Close the browser",
+            "agent_list" => "List remote agents",
+            "agent_submit" => "Submit a job to a remote agent",
+            "agent_status" => "Get a remote agent's status",
+            "agent_result" => "Get the state and result of an agent job",
+            "agent_cancel" => "Cancel an agent job",
+            "delegate_to_agent" => "Delegate a task to a sub-agent",
             "catalog_list" => "List all available tools",
             "catalog_search" => "Search for tools by name",
             "catalog_schema" => "Get tool schema",
@@ -179,14 +244,80 @@ namespace thuvu.Models
         }
 
         /// <summary>
-        /// Handle a JSON-RPC request from the sandbox
+        /// Register a tool whose handler reports each line of output as it is printed.
+        /// Calls that carry a progress token get the lines as $/progress notifications.
+        /// </summary>
+        public void RegisterStreamingTool(string name, Func<string, Action<string>, CancellationToken, Task<string>> handler)
+        {
+            _streamingToolHandlers[name] = handler;
+            _toolHandlers[name] = (args, ct) => handler(args, _ => { }, ct);
+        }
+
+        /// <summary>
+        /// The progress token the sandbox put in a request's params._meta, if any
+        /// </summary>
+        private static object? GetProgressToken(JsonElement? parameters)
+        {
+            if (parameters is not { ValueKind: JsonValueKind.Object } ||
+                !parameters.Value.TryGetProperty("_meta", out var meta) || meta.ValueKind != JsonValueKind.Object ||
+                !meta.TryGetProperty("progressToken", out var token))
+            {
+                return null;
+            }
+            return token.ValueKind switch
+            {
+                JsonValueKind.Number => token.GetInt64(),
+                JsonValueKind.String => token.GetString(),
+                _ => null
+            };
+        }
+
+        /// <summary>
+        /// Handle a JSON-RPC notification from the sandbox. Notifications never get a response.
+        /// $/cancelRequest with params { id } cancels that request if it is still running.
         /// </summary>
-        public async Task<JsonRpcResponse> HandleRequestAsync(JsonRpcRequest request, CancellationToken ct)
+        public void HandleNotification(JsonRpcRequest notification)
+        {
+            if (notification.Method != "$/cancelRequest") return;
+
+            var parameters = notification.Params;
+            if (parameters is { ValueKind: JsonValueKind.Object } &&
+                parameters.Value.TryGetProperty("id", out var id) && id.ValueKind == JsonValueKind.Number &&
+                id.TryGetInt32(out var requestId) &&
+                _runningRequests.TryGetValue(requestId, out var cts))
+            {
+                try
+                {
+                    cts.Cancel();
+                }
+                catch (ObjectDisposedException)
+                {
+                    // The request finished while the notification was on its way
+                }
+            }
+        }
+
+        /// <summary>
+        /// Handle a JSON-RPC request from the sandbox. Requests may run concurrently;
+        /// each one can be cancelled with a $/cancelRequest notification. Streaming tools
+        /// send their output through notify as $/progress while they run.
+        /// </summary>
+        public async Task<JsonRpcResponse> HandleRequestAsync(
+            JsonRpcRequest request, CancellationToken ct, Action<JsonRpcNotification>? notify = null)
         {
             var sw = Stopwatch.StartNew();
             var toolName = request.Method;
             var argsJson = request.Params?.GetRawText() ?? "{}";
+            var requestId = request.Id ?? 0;
+
+            // The sandbox's policy gate asks the user about a call; this is not a tool
+            if (toolName == "$/requestApproval")
+            {
+                return await HandleApprovalRequestAsync(request);
+            }
 
+            using var requestCts = CancellationTokenSource.CreateLinkedTokenSource(ct);
+            _runningRequests[requestId] = requestCts;
             try
             {
                 // Validate paths for file operations
@@ -195,7 +326,7 @@ namespace thuvu.Models
                 {
                     return new JsonRpcResponse
                     {
-                        Id = request.Id,
+                        Id = requestId,
                         Error = new JsonRpcError
                         {
                             Code = -32600,
@@ -209,7 +340,7 @@ namespace thuvu.Models
                 {
                     return new JsonRpcResponse
                     {
-                        Id = request.Id,
+                        Id = requestId,
                         Error = new JsonRpcError
                         {
                             Code = -32600,
@@ -223,7 +354,7 @@ namespace thuvu.Models
                 {
                     return new JsonRpcResponse
                     {
-                        Id = request.Id,
+                        Id = requestId,
                         Error = new JsonRpcError
                         {
                             Code = -32601,
@@ -232,8 +363,15 @@ namespace thuvu.Models
                     };
                 }
 
-                // Execute tool
-                var result = await handler(argsJson, ct);
+                // Execute tool, forwarding its output if the sandbox asked for progress
+                var progressToken = notify != null ? GetProgressToken(request.Params) : null;
+                var result = progressToken != null && _streamingToolHandlers.TryGetValue(toolName, out var streaming)
+                    ? await streaming(argsJson, line => notify!(new JsonRpcNotification
+                    {
+                        Method = "$/progress",
+                        Params = new { token = progressToken, stdout = line + "\n" }
+                    }), requestCts.Token)
+                    : await handler(argsJson, requestCts.Token);
                 sw.Stop();
 
                 // Log the call
@@ -243,7 +381,7 @@ namespace thuvu.Models
                 using var doc = JsonDocument.Parse(result);
                 return new JsonRpcResponse
                 {
-                    Id = request.Id,
+                    Id = requestId,
                     Result = doc.RootElement.Clone()
                 };
             }
@@ -254,7 +392,7 @@ namespace thuvu.Models
 
                 return new JsonRpcResponse
                 {
-                    Id = request.Id,
+                    Id = requestId,
                     Error = new JsonRpcError
                     {
                         Code = -32603,
@@ -262,6 +400,112 @@ namespace thuvu.Models
                     }
                 };
             }
+            finally
+            {
+                _runningRequests.TryRemove(requestId, out _);
+            }
+        }
+
+        /// <summary>
+        /// Answer a $/requestApproval request: params are { tool, args, reason, checks },
+        /// the result is { approved }. A prompt that fails counts as a refusal.
+        /// </summary>
+        private static async Task<JsonRpcResponse> HandleApprovalRequestAsync(JsonRpcRequest request)
+        {
+            var approved = false;
+            try
+            {
+                var parameters = request.Params;
+                if (parameters is { ValueKind: JsonValueKind.Object } &&
+                    parameters.Value.TryGetProperty("tool", out var tool) && tool.ValueKind == JsonValueKind.String)
+                {
+                    var argsJson = parameters.Value.TryGetProperty("args", out var args) ? args.GetRawText() : "{}";
+                    var reason = parameters.Value.TryGetProperty("reason", out var r) && r.ValueKind == JsonValueKind.String
+                        ? r.GetString()
+                        : null;
+                    approved = await PermissionManager.RequestApprovalAsync(tool.GetString()!, argsJson, reason);
+                }
+            }
+            catch (Exception ex)
+            {
+                AgentLogger.LogError("[MCP] Approval prompt failed: {Error}", ex.Message);
+            }
+
+            using var doc = JsonDocument.Parse(approved ? "{\"approved\":true}" : "{\"approved\":false}");
+            return new JsonRpcResponse
+            {
+                Id = request.Id ?? 0,
+                Result = doc.RootElement.Clone()
+            };
+        }
+
+        /// <summary>
+        /// Answer bridge requests read as JSON lines from input until it closes, writing
+        /// responses and $/progress notifications to output. This is the protocol the
+        /// sandbox speaks on the Deno process's stdio, served for other clients such as
+        /// mcp/server.ts. Requests run concurrently, as they do for the sandbox.
+        /// </summary>
+        public async Task ServeAsync(TextReader input, TextWriter output, CancellationToken ct)
+        {
+            var jsonOptions = new JsonSerializerOptions { PropertyNamingPolicy = JsonNamingPolicy.CamelCase };
+            var readOptions = new JsonSerializerOptions { PropertyNameCaseInsensitive = true };
+            var outputLock = new SemaphoreSlim(1, 1);
+            var running = new List<Task>();
+
+            void Write(object message)
+            {
+                outputLock.Wait(CancellationToken.None);
+                try
+                {
+                    output.Write(JsonSerializer.Serialize(message, jsonOptions) + "\n");
+                    output.Flush();
+                }
+                finally
+                {
+                    outputLock.Release();
+                }
+            }
+
+            async Task RespondAsync(JsonRpcRequest request)
+            {
+                try
+                {
+                    var response = await HandleRequestAsync(request, ct, notification => Write(notification));
+                    Write(response);
+                }
+                catch (Exception ex)
+                {
+                    AgentLogger.LogError("[MCP] Error answering {Tool}: {Error}", request.Method, ex.Message);
+                }
+            }
+
+            string? line;
+            while ((line = await input.ReadLineAsync(ct)) != null)
+            {
+                if (!line.StartsWith("{")) continue;
+
+                JsonRpcRequest? request;
+                try
+                {
+                    request = JsonSerializer.Deserialize<JsonRpcRequest>(line, readOptions);
+                }
+                catch (JsonException)
+                {
+                    continue;
+                }
+
+                if (request == null) continue;
+                if (request.Id == null)
+                {
+                    HandleNotification(request);
+                }
+                else
+                {
+                    running.Add(Task.Run(() => RespondAsync(request), CancellationToken.None));
+                }
+            }
+
+            await Task.WhenAll(running);
         }
 
         /// <summary>
@@ -315,7 +559,7 @@ namespace thuvu.Models
             var pathTools = new HashSet<string>(StringComparer.OrdinalIgnoreCase)
             {
                 "read_file", "write_file", "search_files", "apply_patch",
-                "rag_index", "dotnet_build", "dotnet_test", "dotnet_run", "dotnet_new"
+                "rag_index", "code_index", "dotnet_build", "dotnet_test", "dotnet_run", "dotnet_new"
             };
 
             if (!pathTools.Contains(toolName))
@@ -116,18 +116,32 @@ namespace thuvu.Models
                     };
                 }
 
-                // Get permission flags - use work directory
+                // The project's policy decides the sandbox's Deno flags - use work directory
                 var workDir = AgentConfig.GetWorkDirectory();
-                var permissionFlags = GetPermissionFlags(workDir);
+                var (permissionFlags, policy, policyError) = await ResolveSandboxLaunchAsync(workDir, ct);
+                if (policyError != null)
+                {
+                    return new McpExecutionResult
+                    {
+                        Success = false,
+                        Error = policyError,
+                        Duration = sw.Elapsed
+                    };
+                }
+
+                // The policy's time limit caps the request's timeout
+                if (policy.TryGetProperty("maxExecutionTime", out var maxTime) &&
+                    maxTime.TryGetInt32(out var maxMs) && maxMs < effectiveTimeout.TotalMilliseconds)
+                {
+                    effectiveTimeout = TimeSpan.FromMilliseconds(maxMs);
+                }
 
                 // Build command arguments
                 var sandboxPath = Path.Combine(_mcpPath, "runtime", "sandbox.ts");
-                var args = $"run {permissionFlags} \"{sandboxPath}\"";
 
                 var psi = new ProcessStartInfo
                 {
                     FileName = McpConfig.Instance.DenoPath,
-                    Arguments = args,
                     WorkingDirectory = workDir,
                     RedirectStandardInput = true,
                     RedirectStandardOutput = true,
@@ -138,6 +152,14 @@ namespace thuvu.Models
                     StandardOutputEncoding = Encoding.UTF8,
                     StandardErrorEncoding = Encoding.UTF8
                 };
+                psi.ArgumentList.Add("run");
+                foreach (var flag in permissionFlags)
+                {
+                    psi.ArgumentList.Add(flag);
+                }
+                // Skills import the SDK as thuvu/..., wherever the skills directory is
+                psi.ArgumentList.Add($"--import-map={Path.Combine(_mcpPath, "import_map.json")}");
+                psi.ArgumentList.Add(sandboxPath);
 
                 _denoProcess = Process.Start(psi);
                 if (_denoProcess == null)
@@ -178,15 +200,22 @@ namespace thuvu.Models
                 var executionRequest = new
                 {
                     code = typeScriptCode,
-                    timeout = (int)effectiveTimeout.TotalMilliseconds
+                    timeout = (int)effectiveTimeout.TotalMilliseconds,
+                    projectRoot = workDir,
+                    // The same policy the flags were built from, for the sandbox's policy gate
+                    policy
                 };
                 var requestLine = "EXECUTE:" + JsonSerializer.Serialize(executionRequest) + "\n";
                 await _denoProcess.StandardInput.WriteAsync(requestLine);
                 await _denoProcess.StandardInput.FlushAsync();
 
-                // Process stdout: handle both JSON-RPC requests and collect output
+                // Process stdout: handle both JSON-RPC requests and collect output.
+                // Requests run concurrently so a $/cancelRequest can reach one that is still running;
+                // their responses share stdin, so writes are serialized.
                 string? resultLine = null;
                 var stdoutLines = new List<string>();
+                var runningRequests = new List<Task>();
+                using var stdinLock = new SemaphoreSlim(1, 1);
                 
                 try
                 {
@@ -216,16 +245,18 @@ namespace thuvu.Models
                                     PropertyNameCaseInsensitive = true
                                 });
 
-                                if (request != null)
+                                if (request == null)
                                 {
-                                    var response = await _bridge.HandleRequestAsync(request, cts.Token);
-                                    var responseLine = JsonSerializer.Serialize(response, new JsonSerializerOptions
-                                    {
-                                        PropertyNamingPolicy = JsonNamingPolicy.CamelCase
-                                    }) + "\n";
-
-                                    await _denoProcess.StandardInput.WriteAsync(responseLine);
-                                    await _denoProcess.StandardInput.FlushAsync();
+                                    continue;
+                                }
+                                if (request.Id == null)
+                                {
+                                    // Notifications ($/cancelRequest) never get a response
+                                    _bridge.HandleNotification(request);
+                                }
+                                else
+                                {
+                                    runningRequests.Add(RespondAsync(request, _denoProcess.StandardInput, stdinLock, cts.Token));
                                 }
                             }
                             catch (JsonException)
@@ -242,6 +273,7 @@ namespace thuvu.Models
                 catch (OperationCanceledException)
                 {
                     _denoProcess.Kill(entireProcessTree: true);
+                    await Task.WhenAll(runningRequests);
                     return new McpExecutionResult
                     {
                         Success = false,
@@ -252,6 +284,7 @@ namespace thuvu.Models
                 }
 
                 // Wait for process to fully exit
+                await Task.WhenAll(runningRequests);
                 await _denoProcess.WaitForExitAsync();
                 var stderr = await stderrTask;
 
@@ -324,6 +357,55 @@ namespace thuvu.Models
             }
         }
 
+        /// <summary>
+        /// Run one sandbox request and write its response to the sandbox's stdin.
+        /// Progress notifications for the request are written as they arrive.
+        /// Never throws: a response that cannot be written is logged.
+        /// </summary>
+        private async Task RespondAsync(JsonRpcRequest request, StreamWriter stdin, SemaphoreSlim stdinLock, CancellationToken ct)
+        {
+            var jsonOptions = new JsonSerializerOptions { PropertyNamingPolicy = JsonNamingPolicy.CamelCase };
+            void Notify(JsonRpcNotification notification)
+            {
+                // Called from the tool's output thread while the request is still running
+                stdinLock.Wait(CancellationToken.None);
+                try
+                {
+                    stdin.Write(JsonSerializer.Serialize(notification, jsonOptions) + "\n");
+                    stdin.Flush();
+                }
+                catch (Exception ex)
+                {
+                    AgentLogger.LogError("[MCP] Error sending progress: {Error}", ex.Message);
+                }
+                finally
+                {
+                    stdinLock.Release();
+                }
+            }
+
+            try
+            {
+                var response = await _bridge.HandleRequestAsync(request, ct, Notify);
+                var responseLine = JsonSerializer.Serialize(response, jsonOptions) + "\n";
+
+                await stdinLock.WaitAsync(CancellationToken.None);
+                try
+                {
+                    await stdin.WriteAsync(responseLine);
+                    await stdin.FlushAsync();
+                }
+                finally
+                {
+                    stdinLock.Release();
+                }
+            }
+            catch (Exception ex)
+            {
+                AgentLogger.LogError("[MCP] Error handling request: {Error}", ex.Message);
+            }
+        }
+
         /// <summary>
         /// Read all output from a stream
         /// </summary>
@@ -342,50 +424,61 @@ namespace thuvu.Models
         }
 
         /// <summary>
-        /// Get Deno permission flags based on config
+        /// Ask the runtime for the project's policy and the Deno flags that enforce it.
+        /// The project's .thuvu-policy.json decides them; without one the default policy
+        /// applies at the configured permission level and memory limit.
         /// </summary>
-        private string GetPermissionFlags(string projectRoot)
+        /// <returns>The flags and the policy, or the error that kept the policy from loading</returns>
+        private async Task<(List<string> Flags, JsonElement Policy, string? Error)> ResolveSandboxLaunchAsync(
+            string projectRoot,
+            CancellationToken ct)
         {
             var config = McpConfig.Instance;
-            var flags = new StringBuilder();
-            
-            // Always need to read the MCP directory for sandbox and tool scripts
-            var mcpDir = _mcpPath;
+            var psi = new ProcessStartInfo
+            {
+                FileName = config.DenoPath,
+                WorkingDirectory = projectRoot,
+                RedirectStandardOutput = true,
+                RedirectStandardError = true,
+                UseShellExecute = false,
+                CreateNoWindow = true,
+                StandardOutputEncoding = Encoding.UTF8,
+                StandardErrorEncoding = Encoding.UTF8
+            };
+            foreach (var arg in new[]
+            {
+                "run", "--allow-read", "--no-prompt", Path.Combine(_mcpPath, "scripts", "sandbox-flags.ts"),
+                "--project", projectRoot,
+                "--runtime-dir", _mcpPath,
+                // Check requests write the module they type-check here
+                "--temp-dir", Path.GetTempPath().TrimEnd(Path.DirectorySeparatorChar),
+                "--level", config.PermissionLevel,
+                "--max-memory", config.MaxMemoryMb.ToString()
+            })
+            {
+                psi.ArgumentList.Add(arg);
+            }
 
-            switch (config.PermissionLevel.ToLowerInvariant())
+            using var process = Process.Start(psi);
+            if (process == null)
             {
-                case "readonly":
-                    flags.Append($"--allow-read=\"{projectRoot}\",\"{mcpDir}\" ");
-                    break;
-
-                case "readwrite":
-                    flags.Append($"--allow-read=\"{projectRoot}\",\"{mcpDir}\" ");
-                    flags.Append($"--allow-write=\"{projectRoot}\" ");
-                    break;
-
-                case "execute":
-                    flags.Append($"--allow-read=\"{projectRoot}\",\"{mcpDir}\" ");
-                    flags.Append($"--allow-write=\"{projectRoot}\" ");
-                    flags.Append("--allow-run=dotnet,git,npm,node ");
-                    break;
-
-                case "full":
-                    flags.Append("--allow-all ");
-                    break;
-
-                default:
-                    flags.Append($"--allow-read=\"{projectRoot}\",\"{mcpDir}\" ");
-                    flags.Append($"--allow-write=\"{projectRoot}\" ");
-                    break;
+                return (new List<string>(), default, "Failed to start Deno to load the policy");
             }
 
-            // Always deny network unless full permissions
-            if (config.PermissionLevel.ToLowerInvariant() != "full")
+            var stdoutTask = process.StandardOutput.ReadToEndAsync(ct);
+            var stderr = await process.StandardError.ReadToEndAsync(ct);
+            var stdout = await stdoutTask;
+            await process.WaitForExitAsync(ct);
+            if (process.ExitCode != 0)
             {
-                flags.Append("--deny-net ");
+                return (new List<string>(), default, stderr.Trim());
             }
 
-            return flags.ToString().Trim();
+            using var doc = JsonDocument.Parse(stdout);
+            var flags = doc.RootElement.GetProperty("flags").EnumerateArray()
+                .Select(flag => flag.GetString()!)
+                .ToList();
+            return (flags, doc.RootElement.GetProperty("policy").Clone(), null);
         }
 
         public void Dispose()
@@ -66,7 +66,8 @@ namespace thuvu.Models
             "search_files", "read_file", "git_status", "git_diff", "nuget_search",
             "rag_search", "rag_stats",
             "process_status", "process_read",  // Process read operations
-            "code_query", "context_get", "index_stats"  // Code indexing read operations
+            "code_query", "context_get", "index_stats",  // Code indexing read operations
+            "sqlite_query"  // Database reads (the connection is query-only)
         };
 
         private static readonly HashSet<string> WriteTools = new(StringComparer.OrdinalIgnoreCase)
@@ -75,7 +76,8 @@ namespace thuvu.Models
             "dotnet_test", "dotnet_run", "dotnet_new", "nuget_add",
             "rag_index", "rag_clear",
             "process_start", "process_write", "process_stop",  // Process management
-            "code_index", "context_store", "index_clear"  // Code indexing write operations
+            "code_index", "context_store", "index_clear",  // Code indexing write operations
+            "sqlite_execute"  // Database writes
         };
         
         // UI Automation tools - require global permission first
@@ -283,6 +285,26 @@ namespace thuvu.Models
             return PromptForPermission(toolName, argsJson, permissionKey);
         }
 
+        /// <summary>
+        /// Ask the user about one call that the sandbox's policy marks as "ask"
+        /// ($/requestApproval). The policy asks on every such call, so saved and
+        /// session permissions are not consulted; choosing Always or Session
+        /// still records them for the host's own per-tool prompt.
+        /// </summary>
+        public static async Task<bool> RequestApprovalAsync(string toolName, string argsJson, string? reason)
+        {
+            AgentLogger.LogDebug("Policy asks for approval of {Tool}: {Reason}", toolName, reason ?? "");
+            string permissionKey = GetPermissionKey(toolName);
+
+            if (AsyncPermissionPrompt != null)
+            {
+                var choice = await AsyncPermissionPrompt(toolName, argsJson);
+                return HandlePermissionChoice(choice, permissionKey);
+            }
+
+            return PromptForPermission(toolName, argsJson, permissionKey);
+        }
+
         private static string GetPermissionKey(string toolName)
         {
             var repoPath = _currentRepoPath ?? Directory.GetCurrentDirectory();
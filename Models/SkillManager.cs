@@ -2,6 +2,7 @@ using System;
 using System.Collections.Generic;
 using System.IO;
 using System.Text.Json;
+using System.Text.RegularExpressions;
 using System.Text.Json.Serialization;
 using System.Threading;
 using System.Threading.Tasks;
@@ -25,6 +26,13 @@ namespace thuvu.Models
         [JsonPropertyName("file")]
         public string File { get; set; } = string.Empty;
 
+        /// <summary>
+        /// "module" if the file default-exports a skill made with defineSkill(),
+        /// "script" if it defines an execute() function
+        /// </summary>
+        [JsonPropertyName("kind")]
+        public string Kind { get; set; } = "script";
+
         [JsonPropertyName("createdAt")]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
@@ -73,6 +81,8 @@ namespace thuvu.Models
         private static string IndexPath => 
             Path.Combine(SkillsDirectory, "index.json");
 
+        private static readonly Regex DefaultExportPattern = new(@"^\s*export\s+default\b", RegexOptions.Multiline);
+
         /// <summary>
         /// Ensure skills directory exists
         /// </summary>
@@ -142,8 +152,9 @@ namespace thuvu.Models
             var fileName = $"{safeName}.ts";
             var filePath = Path.Combine(SkillsDirectory, fileName);
 
-            // Add metadata export if not present
-            if (!code.Contains("export const metadata"))
+            // Modules carry their metadata in defineSkill(); scripts get a metadata export
+            var kind = DefaultExportPattern.IsMatch(code) ? "module" : "script";
+            if (kind == "script" && !code.Contains("export const metadata"))
             {
                 var metadataBlock = $@"
 export const metadata = {{
@@ -171,6 +182,7 @@ export const metadata = {{
                 Name = name,
                 Description = description,
                 File = fileName,
+                Kind = kind,
                 CreatedAt = DateTime.UtcNow
             });
 
@@ -221,17 +233,32 @@ export const metadata = {{
             string? paramsJson = null,
             CancellationToken ct = default)
         {
+            var skill = GetSkill(name);
             var code = LoadSkillCode(name);
-            if (code == null) return null;
+            if (skill == null || code == null) return null;
 
-            // Wrap code to execute the skill
-            var executeCode = $@"
+            string executeCode;
+            if (skill.Kind == "module")
+            {
+                // Skills made with defineSkill() are modules; run() checks the
+                // parameters, fills in defaults and lets the skill invoke others
+                var moduleUrl = new Uri(Path.GetFullPath(Path.Combine(SkillsDirectory, skill.File))).AbsoluteUri;
+                executeCode = $@"
+const {{ default: skill }} = await import('{moduleUrl}');
+return await skill.run({paramsJson ?? "{}"});
+";
+            }
+            else
+            {
+                // Wrap code to execute the skill
+                executeCode = $@"
 {code}
 
 // Execute the skill
 const result = await execute({paramsJson ?? "{}"});
 return result;
 ";
+            }
 
             using var executor = new McpCodeExecutor();
             return await executor.ExecuteAsync(executeCode, ct);
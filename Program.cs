@@ -97,6 +97,7 @@ namespace thuvu
             bool testUiAutomation = false;
             bool testProcessMgmt = false;
             bool testSqlite = false;
+            bool toolHost = false;     // --tool-host: answer bridge tool calls on stdio
             string? customConfigPath = null;
             int? customPort = null;
             
@@ -113,6 +114,7 @@ namespace thuvu
                 else if (arg == "--test-ui") testUiAutomation = true;
                 else if (arg == "--test-process") testProcessMgmt = true;
                 else if (arg == "--test-sqlite") testSqlite = true;
+                else if (arg == "--tool-host") toolHost = true;
                 else if (arg == "--config" && i + 1 < args.Length)
                 {
                     customConfigPath = args[++i];
@@ -153,6 +155,13 @@ namespace thuvu
             // Initialize permission manager with work directory
             PermissionManager.SetCurrentRepoPath(AgentConfig.GetWorkDirectory());;
             
+            // Tool host mode: serve the bridge to mcp/server.ts and exit when it closes stdin
+            if (toolHost)
+            {
+                await RunToolHostAsync();
+                return;
+            }
+
             // If UI automation test mode, run tests and exit
             if (testUiAutomation)
             {
@@ -1430,6 +1439,24 @@ namespace thuvu
             return client;
         }
 
+        /// <summary>
+        /// Answer tool calls from mcp/server.ts (deno run ... mcp/server.ts -- thuvu --tool-host)
+        /// with the bridge protocol on stdin/stdout. Stdout carries the protocol, so console
+        /// output goes to stderr. Nobody can answer a permission prompt here, so calls that
+        /// would need one are refused; tools already allowed for the repo still run.
+        /// </summary>
+        private static async Task RunToolHostAsync()
+        {
+            var protocol = new StreamWriter(Console.OpenStandardOutput(), new UTF8Encoding(false)) { AutoFlush = true };
+            Console.SetOut(Console.Error);
+            PermissionManager.CustomPermissionPrompt = null;
+            PermissionManager.AsyncPermissionPrompt = (_, _) => Task.FromResult('N');
+
+            using var input = new StreamReader(Console.OpenStandardInput(), new UTF8Encoding(false));
+            AgentLogger.LogInfo("Serving bridge tools on stdio");
+            await new McpBridge().ServeAsync(input, protocol, CancellationToken.None);
+        }
+
         /// <summary>
         /// Run the CLI in client mode — connects to a running agent server via HTTP+SSE.
         /// Falls back to auto-spawning a server if none is found.
@@ -356,7 +356,7 @@ namespace thuvu
         /// <summary>
         /// Execute code_index tool
         /// </summary>
-        private static async Task<string> ExecuteCodeIndexAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteCodeIndexAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -377,7 +377,7 @@ namespace thuvu
         /// <summary>
         /// Execute code_query tool
         /// </summary>
-        private static async Task<string> ExecuteCodeQueryAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteCodeQueryAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -453,7 +453,7 @@ namespace thuvu
 
         #region Agent Communication Helpers
 
-        private static async Task<string> ExecuteAgentSubmitAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentSubmitAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -476,7 +476,7 @@ namespace thuvu
             }
         }
 
-        private static async Task<string> ExecuteAgentStatusAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentStatusAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -496,7 +496,7 @@ namespace thuvu
             }
         }
 
-        private static async Task<string> ExecuteAgentResultAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentResultAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -519,7 +519,7 @@ namespace thuvu
             }
         }
 
-        private static async Task<string> ExecuteAgentCancelAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentCancelAsync(string argsJson, CancellationToken ct)
         {
             try
             {
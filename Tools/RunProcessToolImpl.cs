@@ -29,7 +29,10 @@ namespace thuvu.Tools
         public static Task<string> RunProcessToolAsync(string rawArgs) 
             => RunProcessToolAsync(rawArgs, CancellationToken.None);
 
-        public static async Task<string> RunProcessToolAsync(string rawArgs, CancellationToken ct)
+        /// <summary>
+        /// Run a whitelisted command. onOutput, if given, receives each stdout line as it is printed.
+        /// </summary>
+        public static async Task<string> RunProcessToolAsync(string rawArgs, CancellationToken ct, Action<string>? onOutput = null)
         {
             using var doc = JsonDocument.Parse(rawArgs);
             var cmd = doc.RootElement.GetProperty("cmd").GetString()!;
@@ -71,7 +74,12 @@ namespace thuvu.Tools
             var stdout = new StringBuilder();
             var stderr = new StringBuilder();
 
-            p.OutputDataReceived += (_, e) => { if (e.Data != null) stdout.AppendLine(e.Data); };
+            p.OutputDataReceived += (_, e) =>
+            {
+                if (e.Data == null) return;
+                stdout.AppendLine(e.Data);
+                onOutput?.Invoke(e.Data);
+            };
             p.ErrorDataReceived += (_, e) => { if (e.Data != null) stderr.AppendLine(e.Data); };
 
             p.Start();
@@ -0,0 +1,2529 @@
+// Generated by scripts/generate-catalog.ts from the tool wrappers and types/tools.d.ts.
+// Do not edit by hand; regenerate with:
+//   deno run --allow-read --allow-write --allow-run mcp/scripts/generate-catalog.ts
+
+import type { ToolInfo, ToolSchema } from './catalog.ts';
+
+export const TOOL_CATALOG: ToolInfo[] = [
+  {
+    "name": "readFile",
+    "server": "filesystem",
+    "description": "Read the contents of a file and get its SHA256 hash",
+    "signature": "readFile(path: string): Promise<{ content: string, sha256: string, encoding: string }>",
+    "category": "io",
+    "examples": [
+      "const file = await readFile(\"src/main.ts\");",
+      "const { content } = await readFile(path);"
+    ]
+  },
+  {
+    "name": "writeFile",
+    "server": "filesystem",
+    "description": "Write content to a file with optional optimistic locking via SHA256",
+    "signature": "writeFile(path: string, content: string, expectedSha256?: string): Promise<{ success: boolean, sha256: string, bytes_written: number }>",
+    "category": "io",
+    "examples": [
+      "await writeFile(\"output.txt\", \"Hello World\");"
+    ]
+  },
+  {
+    "name": "searchFiles",
+    "server": "filesystem",
+    "description": "Search for files matching a glob pattern and optionally containing specific text",
+    "signature": "searchFiles(glob?: string, query?: string): Promise<string[]>",
+    "category": "search",
+    "examples": [
+      "const csFiles = await searchFiles(\"**/*.cs\");",
+      "const files = await searchFiles(\"src/**/*.ts\", \"import\");"
+    ]
+  },
+  {
+    "name": "applyPatch",
+    "server": "filesystem",
+    "description": "Apply a unified diff patch to modify files",
+    "signature": "applyPatch(patch: string): Promise<{ success: boolean, files_modified: string[], error?: string }>",
+    "category": "io",
+    "examples": [
+      "await applyPatch(unifiedDiff);"
+    ]
+  },
+  {
+    "name": "status",
+    "server": "git",
+    "description": "Get git repository status",
+    "signature": "status(paths?: string[], root?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "vcs",
+    "examples": [
+      "const { stdout } = await status();"
+    ]
+  },
+  {
+    "name": "diff",
+    "server": "git",
+    "description": "Get git diff for staged or unstaged changes",
+    "signature": "diff(args?: GitDiffArgs): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "vcs",
+    "examples": [
+      "const { stdout } = await diff({ staged: true });",
+      "const changes = await diff({ paths: [\"src/\"] });"
+    ]
+  },
+  {
+    "name": "diffStaged",
+    "server": "git",
+    "description": "Get staged changes diff",
+    "signature": "diffStaged(paths?: string[], context?: number): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "vcs",
+    "examples": [
+      "const { stdout } = await diffStaged();"
+    ]
+  },
+  {
+    "name": "diffUnstaged",
+    "server": "git",
+    "description": "Get unstaged changes diff",
+    "signature": "diffUnstaged(paths?: string[], context?: number): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "vcs",
+    "examples": [
+      "const { stdout } = await diffUnstaged([\"src\"]);"
+    ]
+  },
+  {
+    "name": "commit",
+    "server": "git",
+    "description": "Create a git commit with a message",
+    "signature": "commit(message: string, paths?: string[], root?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "vcs",
+    "examples": [
+      "await commit(\"Fix bug in parser\");"
+    ]
+  },
+  {
+    "name": "build",
+    "server": "dotnet",
+    "description": "Build a .NET solution or project",
+    "signature": "build(solutionOrProject?: string, configuration?: string): ProgressCall<{ stdout: string, stderr: string, exit_code: number, success: boolean }>",
+    "category": "build",
+    "examples": [
+      "await dotnet.build();",
+      "await dotnet.build(\"MyApp.sln\", \"Release\");",
+      "for await (const p of dotnet.build()) console.log(p.stdout);"
+    ]
+  },
+  {
+    "name": "test",
+    "server": "dotnet",
+    "description": "Run .NET tests and get results",
+    "signature": "test(solutionOrProject?: string, filter?: string, logger?: string): ProgressCall<{ stdout: string, stderr: string, exit_code: number, passed: number, failed: number, skipped: number }>",
+    "category": "test",
+    "examples": [
+      "const results = await dotnet.test();",
+      "await dotnet.test(undefined, \"FullyQualifiedName~MyTest\");"
+    ]
+  },
+  {
+    "name": "newProject",
+    "server": "dotnet",
+    "description": "Create a new .NET project from a template",
+    "signature": "newProject(template: string, name?: string, output?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "scaffold",
+    "examples": [
+      "await newProject(\"console\", \"MyApp\");",
+      "await newProject(\"webapi\", \"MyApi\", \"./src\");"
+    ]
+  },
+  {
+    "name": "index",
+    "server": "rag",
+    "description": "Index files for semantic search",
+    "signature": "index(path: string, recursive?: boolean, pattern?: string): ProgressCall<{ success: boolean, indexed_files: number, indexed_chunks: number, error?: string }>",
+    "category": "index",
+    "examples": [
+      "await rag.index(\"src/\", true, \"*.cs\");",
+      "for await (const p of rag.index(\"src/\")) console.log(p.percent, p.message);"
+    ]
+  },
+  {
+    "name": "clear",
+    "server": "rag",
+    "description": "Clear indexed content",
+    "signature": "clear(sourcePath?: string): Promise<{ success: boolean, deleted_chunks: number, scope: string }>",
+    "category": "index",
+    "examples": [
+      "await rag.clear();",
+      "await rag.clear(\"src/old/\");"
+    ]
+  },
+  {
+    "name": "stats",
+    "server": "rag",
+    "description": "Get RAG index statistics",
+    "signature": "stats(): Promise<{ enabled: boolean, total_chunks: number, total_sources: number, total_characters: number }>",
+    "category": "info",
+    "examples": [
+      "const { total_chunks } = await rag.stats();"
+    ]
+  },
+  {
+    "name": "search",
+    "server": "rag",
+    "description": "Search indexed content using semantic similarity",
+    "signature": "search(query: string, topK?: number): Promise<{ results: Array<{ content: string, source: string, similarity: number, metadata?: Record<string, unknown> }>, count: number }>",
+    "category": "search",
+    "examples": [
+      "const results = await rag.search(\"HTTP request handling\");"
+    ]
+  },
+  {
+    "name": "run",
+    "server": "process",
+    "description": "Run a whitelisted process",
+    "signature": "run(cmd: string, args?: string[], cwd?: string, timeoutMs?: number): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "shell",
+    "examples": [
+      "await process.run(\"dotnet\", [\"build\"]);",
+      "await process.run(\"git\", [\"log\", \"--oneline\", \"-5\"]);"
+    ]
+  },
+  {
+    "name": "git",
+    "server": "process",
+    "description": "Run a git command",
+    "signature": "git(args: string[], cwd?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "shell",
+    "examples": [
+      "await process.git([\"log\", \"--oneline\", \"-10\"]);"
+    ]
+  },
+  {
+    "name": "dotnet",
+    "server": "process",
+    "description": "Run a dotnet command",
+    "signature": "dotnet(args: string[], cwd?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>",
+    "category": "shell",
+    "examples": [
+      "await process.dotnet([\"nuget\", \"list\"]);"
+    ]
+  },
+  {
+    "name": "start",
+    "server": "process",
+    "description": "Start an interactive background process (dev server, REPL, watcher) and drive it with write/readUntil/lines/stop",
+    "signature": "start(cmd: string, args?: string[], cwd?: string): Promise<ProcessSession>",
+    "category": "shell",
+    "examples": [
+      "const srv = await process.start(\"dotnet\", [\"watch\", \"run\"]); await srv.readUntil(/Now listening on/, 60000);",
+      "for await (const line of session) { if (line.includes(\"error\")) break; }",
+      "await session.stop();"
+    ]
+  },
+  {
+    "name": "sql",
+    "server": "sqlite",
+    "description": "Tagged template that turns every interpolation into a bound parameter.",
+    "signature": "sql(strings: TemplateStringsArray, ...values: SqlInterpolation[]): SqlQuery",
+    "category": "database",
+    "examples": [
+      "sql`SELECT * FROM ${sql.identifier(table)} WHERE id IN ${ids}`",
+      "const rows = await query(sql`SELECT * FROM symbols WHERE kind = ${kind} AND name IN ${names}`);"
+    ]
+  },
+  {
+    "name": "query",
+    "server": "sqlite",
+    "description": "Run a SQL SELECT with bound parameters and return rows as records",
+    "signature": "query<T extends SqlRow = SqlRow>(statement: SqlQuery): Promise<T[]>",
+    "category": "database",
+    "examples": [
+      "const rows = await sqlite.query(sql`SELECT name, kind FROM symbols WHERE kind = ${kind} LIMIT ${10}`);"
+    ]
+  },
+  {
+    "name": "execute",
+    "server": "sqlite",
+    "description": "Run an INSERT, UPDATE, DELETE or DDL statement with bound parameters",
+    "signature": "execute(statement: SqlQuery): Promise<{ success: boolean, changes: number, last_insert_rowid: number, error?: string }>",
+    "category": "database",
+    "examples": [
+      "await sqlite.execute(sql`DELETE FROM context WHERE key = ${key}`);"
+    ]
+  },
+  {
+    "name": "listTables",
+    "server": "sqlite",
+    "description": "List the tables in the database",
+    "signature": "listTables(): Promise<string[]>",
+    "category": "database",
+    "examples": [
+      "const tables = await listTables();"
+    ]
+  },
+  {
+    "name": "describeTable",
+    "server": "sqlite",
+    "description": "Describe the columns of a table",
+    "signature": "describeTable(table: string): Promise<SqliteColumnInfo[]>",
+    "category": "database",
+    "examples": [
+      "const columns = await describeTable(\"symbols\");"
+    ]
+  },
+  {
+    "name": "delegate",
+    "server": "agents",
+    "description": "Delegate a task to an in-process sub-agent role and wait for its summary",
+    "signature": "delegate(role: string, task: string, contextFiles?: string[], successCriteria?: string): Promise<{ success: boolean, status: string, summary: string, details?: string, files_modified?: string[], files_created?: string[], suggestions?: string[], error?: string, iteration_count: number, duration_ms: number, bailout_reason?: string, role: string }>",
+    "category": "agents",
+    "examples": [
+      "const review = await delegate(\"reviewer\", \"Review the changes in src/Parser.cs\");"
+    ]
+  },
+  {
+    "name": "submit",
+    "server": "agents",
+    "description": "Submit a prompt to a named remote agent; await handle.result() for its answer",
+    "signature": "submit(agent: string, prompt: string): Promise<AgentJobHandle>",
+    "category": "agents",
+    "examples": [
+      "const job = await agents.submit(\"tester\", \"Run the integration tests\"); const text = await job.result();"
+    ]
+  },
+  {
+    "name": "cancel",
+    "server": "agents",
+    "description": "Cancel a job on a remote agent",
+    "signature": "cancel(agent: string, jobId: string): Promise<{ success: boolean, message?: string, error?: string }>",
+    "category": "agents",
+    "examples": [
+      "await agents.cancel(\"tester\", job.jobId);"
+    ]
+  },
+  {
+    "name": "list",
+    "server": "agents",
+    "description": "List known remote agents and whether they are online",
+    "signature": "list(): Promise<AgentInfo[]>",
+    "category": "agents",
+    "examples": [
+      "const online = (await agents.list()).filter(a => a.online);"
+    ]
+  },
+  {
+    "name": "fanOut",
+    "server": "agents",
+    "description": "Run tasks across several agents with bounded concurrency.",
+    "signature": "fanOut(tasks: FanOutTask[], options?: FanOutOptions): Promise<FanOutResult[]>",
+    "category": "agents",
+    "examples": [
+      "const results = await fanOut(files.map(f => ({ role: \"reviewer\", task: `Review ${f}` })), { concurrency: 2 });"
+    ]
+  },
+  {
+    "name": "openPage",
+    "server": "browser",
+    "description": "Create a page, optionally navigating to a url. The host drives a single browser page, so all Page objects share it.",
+    "signature": "openPage(url?: string): Page",
+    "category": "browser",
+    "examples": [
+      "const page = openPage(); await page.goto(\"http://localhost:5000\").type(\"#q\", \"hello\", { pressEnter: true }).state();",
+      "const rows = await page.$$(\"table tr\");",
+      "const count = await page.evaluate(() => document.querySelectorAll(\".item\").length);"
+    ]
+  },
+  {
+    "name": "indexCode",
+    "server": "code",
+    "description": "Index source files so their symbols can be queried",
+    "signature": "indexCode(path?: string, force?: boolean): Promise<{ success: boolean, path?: string, totalFiles?: number, indexedFiles?: number, skippedFiles?: number, indexed?: boolean, message?: string, errors?: string[], error?: string }>",
+    "category": "index",
+    "examples": [
+      "await indexCode(\"src/\");",
+      "await indexCode(\".\", true);"
+    ]
+  },
+  {
+    "name": "queryCode",
+    "server": "code",
+    "description": "Query the code index directly",
+    "signature": "queryCode(args: CodeQueryArgs): Promise<{ success: boolean, query?: string, kind?: string, file?: string, count?: number, symbol?: CodeSymbol, symbols?: CodeSymbol[], references?: CodeReference[], message?: string, stats?: { totalSymbols: number, totalFiles: number, totalReferences: number, symbolsByKind: Record<string, number>, databaseSize: string }, error?: string }>",
+    "category": "navigation",
+    "examples": [
+      "const { symbols } = await queryCode({ search: \"Parse\", kind: \"method\" });"
+    ]
+  },
+  {
+    "name": "findSymbol",
+    "server": "code",
+    "description": "Find class, method, property or other symbol definitions by name",
+    "signature": "findSymbol(name: string, kind?: string, limit?: number): Promise<CodeSymbol[]>",
+    "category": "navigation",
+    "examples": [
+      "const [cls] = await findSymbol(\"McpBridge\", \"class\");",
+      "const methods = await findSymbol(\"Execute\", \"method\", 10);"
+    ]
+  },
+  {
+    "name": "getSymbol",
+    "server": "code",
+    "description": "Get a single symbol by its index id",
+    "signature": "getSymbol(id: number): Promise<CodeSymbol>",
+    "category": "navigation",
+    "examples": [
+      "const symbol = await getSymbol(42);"
+    ]
+  },
+  {
+    "name": "findReferences",
+    "server": "code",
+    "description": "Find all references to a symbol by id or name",
+    "signature": "findReferences(symbol: number | string | CodeSymbol, kind?: string): Promise<{ symbol: CodeSymbol, references: CodeReference[] }>",
+    "category": "navigation",
+    "examples": [
+      "const { references } = await findReferences(\"HandleRequestAsync\");",
+      "const refs = await findReferences(symbol.id);"
+    ]
+  },
+  {
+    "name": "listSymbolsInFile",
+    "server": "code",
+    "description": "List all symbols declared in a file",
+    "signature": "listSymbolsInFile(file: string): Promise<CodeSymbol[]>",
+    "category": "navigation",
+    "examples": [
+      "const symbols = await listSymbolsInFile(\"Models/McpBridge.cs\");"
+    ]
+  }
+];
+
+export const TOOL_SCHEMAS: Record<string, ToolSchema> = {
+  "filesystem.readFile": {
+    "name": "readFile",
+    "description": "Read the contents of a file and get its SHA256 hash",
+    "tool": "read_file",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "path": {
+          "type": "string",
+          "description": "Path to the file to read"
+        }
+      },
+      "required": [
+        "path"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "content": {
+          "type": "string"
+        },
+        "sha256": {
+          "type": "string"
+        },
+        "encoding": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "content",
+        "sha256",
+        "encoding"
+      ],
+      "description": "File content, SHA256 hash, and encoding"
+    }
+  },
+  "filesystem.writeFile": {
+    "name": "writeFile",
+    "description": "Write content to a file with optional optimistic locking via SHA256",
+    "tool": "write_file",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "path": {
+          "type": "string",
+          "description": "Path to the file to write"
+        },
+        "content": {
+          "type": "string",
+          "description": "Content to write"
+        },
+        "expected_sha256": {
+          "type": "string",
+          "description": "Optional SHA256 of expected current content (for optimistic locking)"
+        }
+      },
+      "required": [
+        "path",
+        "content"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "sha256": {
+          "type": "string"
+        },
+        "bytes_written": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "success",
+        "sha256",
+        "bytes_written"
+      ],
+      "description": "Write result with new SHA256 hash"
+    }
+  },
+  "filesystem.searchFiles": {
+    "name": "searchFiles",
+    "description": "Search for files matching a glob pattern and optionally containing specific text",
+    "tool": "search_files",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "glob": {
+          "type": "string",
+          "description": "Glob pattern to match files",
+          "default": "**/*"
+        },
+        "query": {
+          "type": "string",
+          "description": "Optional text to search for within files"
+        }
+      }
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "string"
+      },
+      "description": "Array of matching file paths"
+    }
+  },
+  "filesystem.applyPatch": {
+    "name": "applyPatch",
+    "description": "Apply a unified diff patch to modify files",
+    "tool": "apply_patch",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "patch": {
+          "type": "string",
+          "description": "Unified diff patch content"
+        }
+      },
+      "required": [
+        "patch"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "files_modified": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "error": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success",
+        "files_modified"
+      ],
+      "description": "Result indicating success and files modified"
+    }
+  },
+  "git.status": {
+    "name": "status",
+    "description": "Get git repository status",
+    "tool": "git_status",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "paths": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Optional paths to check status for"
+        },
+        "root": {
+          "type": "string",
+          "description": "Optional repository root path"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ],
+      "description": "Git status output"
+    }
+  },
+  "git.diff": {
+    "name": "diff",
+    "description": "Get git diff for staged or unstaged changes",
+    "tool": "git_diff",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "paths": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "staged": {
+          "type": "boolean"
+        },
+        "context": {
+          "type": "number",
+          "description": "Lines of context around each change",
+          "default": 3
+        },
+        "root": {
+          "type": "string"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ],
+      "description": "Git diff output"
+    }
+  },
+  "git.diffStaged": {
+    "name": "diffStaged",
+    "description": "Get staged changes diff",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "paths": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Optional paths to diff"
+        },
+        "context": {
+          "type": "number",
+          "description": "Lines of context around each change"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ]
+    }
+  },
+  "git.diffUnstaged": {
+    "name": "diffUnstaged",
+    "description": "Get unstaged changes diff",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "paths": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Optional paths to diff"
+        },
+        "context": {
+          "type": "number",
+          "description": "Lines of context around each change"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ]
+    }
+  },
+  "git.commit": {
+    "name": "commit",
+    "description": "Create a git commit with a message",
+    "tool": "git_commit",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "message": {
+          "type": "string",
+          "description": "Commit message"
+        },
+        "paths": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Optional paths to commit"
+        },
+        "root": {
+          "type": "string",
+          "description": "Optional repository root path"
+        }
+      },
+      "required": [
+        "message"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ],
+      "description": "Commit result"
+    }
+  },
+  "dotnet.build": {
+    "name": "build",
+    "description": "Build a .NET solution or project",
+    "tool": "dotnet_build",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "solution_or_project": {
+          "type": "string",
+          "description": "Optional path to solution or project file"
+        },
+        "configuration": {
+          "type": "string",
+          "description": "Build configuration (Debug, Release)",
+          "default": "Debug"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        },
+        "success": {
+          "type": "boolean"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code",
+        "success"
+      ],
+      "description": "Build result with stdout/stderr and exit code; iterate it to stream build output"
+    }
+  },
+  "dotnet.test": {
+    "name": "test",
+    "description": "Run .NET tests and get results",
+    "tool": "dotnet_test",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "solution_or_project": {
+          "type": "string",
+          "description": "Optional path to solution or project file"
+        },
+        "filter": {
+          "type": "string",
+          "description": "Optional test filter expression"
+        },
+        "logger": {
+          "type": "string",
+          "description": "Logger type (trx, console); console output is always reported as well",
+          "default": "trx"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        },
+        "passed": {
+          "type": "number"
+        },
+        "failed": {
+          "type": "number"
+        },
+        "skipped": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code",
+        "passed",
+        "failed",
+        "skipped"
+      ],
+      "description": "Test result with pass/fail counts; iterate it to stream test output"
+    }
+  },
+  "dotnet.newProject": {
+    "name": "newProject",
+    "description": "Create a new .NET project from a template",
+    "tool": "dotnet_new",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "template": {
+          "type": "string",
+          "description": "Template name (console, classlib, webapi, etc.)"
+        },
+        "name": {
+          "type": "string",
+          "description": "Project name"
+        },
+        "output": {
+          "type": "string",
+          "description": "Output directory"
+        }
+      },
+      "required": [
+        "template"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ],
+      "description": "Result with stdout/stderr and exit code"
+    }
+  },
+  "rag.index": {
+    "name": "index",
+    "description": "Index files for semantic search",
+    "tool": "rag_index",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "path": {
+          "type": "string",
+          "description": "Path to file or directory to index"
+        },
+        "recursive": {
+          "type": "boolean",
+          "description": "Whether to recursively index directories",
+          "default": false
+        },
+        "pattern": {
+          "type": "string",
+          "description": "Simple file pattern like *.cs",
+          "default": "*.cs"
+        }
+      },
+      "required": [
+        "path"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "indexed_files": {
+          "type": "number"
+        },
+        "indexed_chunks": {
+          "type": "number"
+        },
+        "error": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success",
+        "indexed_files",
+        "indexed_chunks"
+      ],
+      "description": "Index result with file and chunk counts; iterate it to stream indexing progress"
+    }
+  },
+  "rag.clear": {
+    "name": "clear",
+    "description": "Clear indexed content",
+    "tool": "rag_clear",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "source_path": {
+          "type": "string",
+          "description": "Optional source path to clear (clears all if not specified)"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "deleted_chunks": {
+          "type": "number"
+        },
+        "scope": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success",
+        "deleted_chunks",
+        "scope"
+      ],
+      "description": "Clear result with deleted chunk count"
+    }
+  },
+  "rag.stats": {
+    "name": "stats",
+    "description": "Get RAG index statistics",
+    "parameters": {
+      "type": "object",
+      "properties": {}
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "enabled": {
+          "type": "boolean"
+        },
+        "total_chunks": {
+          "type": "number"
+        },
+        "total_sources": {
+          "type": "number"
+        },
+        "total_characters": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "enabled",
+        "total_chunks",
+        "total_sources",
+        "total_characters"
+      ],
+      "description": "Stats including total chunks, sources, and characters"
+    }
+  },
+  "rag.search": {
+    "name": "search",
+    "description": "Search indexed content using semantic similarity",
+    "tool": "rag_search",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "query": {
+          "type": "string",
+          "description": "Search query"
+        },
+        "top_k": {
+          "type": "number",
+          "description": "Number of results to return (default: the TopK in the host's RAG settings)"
+        }
+      },
+      "required": [
+        "query"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "results": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "properties": {
+              "content": {
+                "type": "string"
+              },
+              "source": {
+                "type": "string"
+              },
+              "similarity": {
+                "type": "number"
+              },
+              "metadata": {
+                "type": "object",
+                "additionalProperties": {}
+              }
+            },
+            "required": [
+              "content",
+              "source",
+              "similarity"
+            ]
+          }
+        },
+        "count": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "results",
+        "count"
+      ],
+      "description": "Search results with similarity scores"
+    }
+  },
+  "process.run": {
+    "name": "run",
+    "description": "Run a whitelisted process",
+    "tool": "run_process",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "cmd": {
+          "type": "string",
+          "description": "Command to run (must be in whitelist: dotnet, git, bash, powershell, etc.)"
+        },
+        "args": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Command arguments"
+        },
+        "cwd": {
+          "type": "string",
+          "description": "Working directory"
+        },
+        "timeout_ms": {
+          "type": "number",
+          "description": "Timeout in milliseconds",
+          "default": 120000
+        }
+      },
+      "required": [
+        "cmd"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ],
+      "description": "Process result with stdout/stderr and exit code"
+    }
+  },
+  "process.git": {
+    "name": "git",
+    "description": "Run a git command",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "args": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "git arguments"
+        },
+        "cwd": {
+          "type": "string",
+          "description": "Working directory"
+        }
+      },
+      "required": [
+        "args"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ]
+    }
+  },
+  "process.dotnet": {
+    "name": "dotnet",
+    "description": "Run a dotnet command",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "args": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "dotnet arguments"
+        },
+        "cwd": {
+          "type": "string",
+          "description": "Working directory"
+        }
+      },
+      "required": [
+        "args"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "stdout": {
+          "type": "string"
+        },
+        "stderr": {
+          "type": "string"
+        },
+        "exit_code": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "stdout",
+        "stderr",
+        "exit_code"
+      ]
+    }
+  },
+  "process.start": {
+    "name": "start",
+    "description": "Start an interactive background process (dev server, REPL, watcher) and drive it with write/readUntil/lines/stop",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "cmd": {
+          "type": "string",
+          "description": "Command to run (must be in the host's whitelist)"
+        },
+        "args": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Command arguments"
+        },
+        "cwd": {
+          "type": "string",
+          "description": "Working directory"
+        }
+      },
+      "required": [
+        "cmd"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "description": "A session for writing input and reading output"
+    }
+  },
+  "sqlite.sql": {
+    "name": "sql",
+    "description": "Tagged template that turns every interpolation into a bound parameter.\n\n- Scalars become `?` placeholders\n- Arrays become `(?, ?, ...)` lists for IN clauses\n- Nested sql`` fragments are spliced in with their parameters\n- sql.identifier(name) inserts a validated, quoted identifier",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "strings": {},
+        "values": {
+          "type": "array",
+          "items": {}
+        }
+      },
+      "required": [
+        "strings"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "description": "SqlQuery instance"
+    }
+  },
+  "sqlite.query": {
+    "name": "query",
+    "description": "Run a SQL SELECT with bound parameters and return rows as records",
+    "tool": "sqlite_query",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "sql": {
+          "type": "string"
+        },
+        "params": {
+          "type": "array",
+          "items": {
+            "anyOf": [
+              {
+                "type": "string"
+              },
+              {
+                "type": "number"
+              },
+              {
+                "type": "boolean"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        }
+      },
+      "required": [
+        "sql"
+      ]
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "additionalProperties": {}
+      },
+      "description": "Rows keyed by column name"
+    }
+  },
+  "sqlite.execute": {
+    "name": "execute",
+    "description": "Run an INSERT, UPDATE, DELETE or DDL statement with bound parameters",
+    "tool": "sqlite_execute",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "sql": {
+          "type": "string"
+        },
+        "params": {
+          "type": "array",
+          "items": {
+            "anyOf": [
+              {
+                "type": "string"
+              },
+              {
+                "type": "number"
+              },
+              {
+                "type": "boolean"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        }
+      },
+      "required": [
+        "sql"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "changes": {
+          "type": "number"
+        },
+        "last_insert_rowid": {
+          "type": "number"
+        },
+        "error": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success",
+        "changes",
+        "last_insert_rowid"
+      ],
+      "description": "Number of changed rows and the last inserted rowid"
+    }
+  },
+  "sqlite.listTables": {
+    "name": "listTables",
+    "description": "List the tables in the database",
+    "parameters": {
+      "type": "object",
+      "properties": {}
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "string"
+      },
+      "description": "Table names, sorted"
+    }
+  },
+  "sqlite.describeTable": {
+    "name": "describeTable",
+    "description": "Describe the columns of a table",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "table": {
+          "type": "string",
+          "description": "Table name"
+        }
+      },
+      "required": [
+        "table"
+      ]
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "cid": {
+            "type": "number"
+          },
+          "name": {
+            "type": "string"
+          },
+          "type": {
+            "type": "string"
+          },
+          "notnull": {
+            "type": "number"
+          },
+          "dflt_value": {
+            "anyOf": [
+              {
+                "type": "string"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "pk": {
+            "type": "number"
+          }
+        },
+        "required": [
+          "cid",
+          "name",
+          "type",
+          "notnull",
+          "dflt_value",
+          "pk"
+        ]
+      },
+      "description": "Column definitions as reported by PRAGMA table_info"
+    }
+  },
+  "agents.delegate": {
+    "name": "delegate",
+    "description": "Delegate a task to an in-process sub-agent role and wait for its summary",
+    "tool": "delegate_to_agent",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "role": {
+          "type": "string",
+          "description": "Sub-agent role (coder, tester, reviewer, debugger, planner)"
+        },
+        "task": {
+          "type": "string",
+          "description": "Task description for the sub-agent"
+        },
+        "context_files": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          },
+          "description": "Files the sub-agent should read first"
+        },
+        "success_criteria": {
+          "type": "string",
+          "description": "How the sub-agent knows it is done"
+        }
+      },
+      "required": [
+        "role",
+        "task"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "status": {
+          "type": "string"
+        },
+        "summary": {
+          "type": "string"
+        },
+        "details": {
+          "type": "string"
+        },
+        "files_modified": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "files_created": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "suggestions": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "error": {
+          "type": "string"
+        },
+        "iteration_count": {
+          "type": "number"
+        },
+        "duration_ms": {
+          "type": "number"
+        },
+        "bailout_reason": {
+          "type": "string"
+        },
+        "role": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success",
+        "status",
+        "summary",
+        "iteration_count",
+        "duration_ms",
+        "role"
+      ],
+      "description": "Sub-agent summary, modified files and suggestions"
+    }
+  },
+  "agents.submit": {
+    "name": "submit",
+    "description": "Submit a prompt to a named remote agent; await handle.result() for its answer",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "agent": {
+          "type": "string",
+          "description": "Agent name as listed by list()"
+        },
+        "prompt": {
+          "type": "string",
+          "description": "Prompt for the agent"
+        }
+      },
+      "required": [
+        "agent",
+        "prompt"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "description": "A handle whose result() can be awaited"
+    }
+  },
+  "agents.cancel": {
+    "name": "cancel",
+    "description": "Cancel a job on a remote agent",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "agent": {
+          "type": "string",
+          "description": "Agent name"
+        },
+        "jobId": {
+          "type": "string",
+          "description": "Job id returned by submit()"
+        }
+      },
+      "required": [
+        "agent",
+        "jobId"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "message": {
+          "type": "string"
+        },
+        "error": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success"
+      ]
+    }
+  },
+  "agents.list": {
+    "name": "list",
+    "description": "List known remote agents and whether they are online",
+    "parameters": {
+      "type": "object",
+      "properties": {}
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "name": {
+            "type": "string"
+          },
+          "url": {
+            "type": "string"
+          },
+          "description": {
+            "type": "string"
+          },
+          "status": {
+            "type": "string"
+          },
+          "currentJob": {
+            "anyOf": [
+              {
+                "type": "string"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "online": {
+            "type": "boolean"
+          }
+        },
+        "required": [
+          "name",
+          "url",
+          "status",
+          "currentJob",
+          "online"
+        ]
+      }
+    }
+  },
+  "agents.fanOut": {
+    "name": "fanOut",
+    "description": "Run tasks across several agents with bounded concurrency.\n\nResults are returned in input order regardless of completion order, so\nmerging them is deterministic. A remote agent only runs one job at a\ntime, so tasks for the same agent are queued behind each other.",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "tasks": {
+          "type": "array",
+          "items": {
+            "anyOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "agent": {
+                    "type": "string"
+                  },
+                  "prompt": {
+                    "type": "string"
+                  }
+                },
+                "required": [
+                  "agent",
+                  "prompt"
+                ]
+              },
+              {
+                "type": "object",
+                "properties": {
+                  "role": {
+                    "type": "string"
+                  },
+                  "task": {
+                    "type": "string"
+                  },
+                  "context_files": {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  },
+                  "success_criteria": {
+                    "type": "string"
+                  }
+                },
+                "required": [
+                  "role",
+                  "task"
+                ]
+              }
+            ]
+          },
+          "description": "Remote agent prompts ({ agent, prompt }) or sub-agent tasks ({ role, task })"
+        },
+        "options": {
+          "type": "object",
+          "properties": {
+            "concurrency": {
+              "type": "number",
+              "description": "Maximum number of tasks running at once (default 4)"
+            },
+            "timeoutMs": {
+              "type": "number",
+              "description": "Per-task timeout for remote agent jobs"
+            },
+            "failFast": {
+              "type": "boolean",
+              "description": "Stop starting new tasks after the first failure (default false)"
+            },
+            "signal": {
+              "description": "Abort running tasks and skip the rest"
+            }
+          },
+          "description": "Concurrency, timeout and failure handling"
+        }
+      },
+      "required": [
+        "tasks"
+      ]
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "index": {
+            "type": "number",
+            "description": "Position of the task in the input array"
+          },
+          "task": {
+            "anyOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "agent": {
+                    "type": "string"
+                  },
+                  "prompt": {
+                    "type": "string"
+                  }
+                },
+                "required": [
+                  "agent",
+                  "prompt"
+                ]
+              },
+              {
+                "type": "object",
+                "properties": {
+                  "role": {
+                    "type": "string"
+                  },
+                  "task": {
+                    "type": "string"
+                  },
+                  "context_files": {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  },
+                  "success_criteria": {
+                    "type": "string"
+                  }
+                },
+                "required": [
+                  "role",
+                  "task"
+                ]
+              }
+            ]
+          },
+          "success": {
+            "type": "boolean"
+          },
+          "output": {
+            "type": "string",
+            "description": "Remote agent result text, or the sub-agent summary"
+          },
+          "delegation": {
+            "type": "object",
+            "properties": {
+              "success": {
+                "type": "boolean"
+              },
+              "status": {
+                "type": "string"
+              },
+              "summary": {
+                "type": "string"
+              },
+              "details": {
+                "type": "string"
+              },
+              "files_modified": {
+                "type": "array",
+                "items": {
+                  "type": "string"
+                }
+              },
+              "files_created": {
+                "type": "array",
+                "items": {
+                  "type": "string"
+                }
+              },
+              "suggestions": {
+                "type": "array",
+                "items": {
+                  "type": "string"
+                }
+              },
+              "error": {
+                "type": "string"
+              },
+              "iteration_count": {
+                "type": "number"
+              },
+              "duration_ms": {
+                "type": "number"
+              },
+              "bailout_reason": {
+                "type": "string"
+              },
+              "role": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "success",
+              "status",
+              "summary",
+              "iteration_count",
+              "duration_ms",
+              "role"
+            ],
+            "description": "Full sub-agent result for role tasks"
+          },
+          "error": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "index",
+          "task",
+          "success"
+        ]
+      },
+      "description": "One result per task, in input order"
+    }
+  },
+  "browser.openPage": {
+    "name": "openPage",
+    "description": "Create a page, optionally navigating to a url.\nThe host drives a single browser page, so all Page objects share it.",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "url": {
+          "type": "string",
+          "description": "Optional url to open"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "description": "Page instance"
+    }
+  },
+  "code.indexCode": {
+    "name": "indexCode",
+    "description": "Index source files so their symbols can be queried",
+    "tool": "code_index",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "path": {
+          "type": "string",
+          "description": "File or directory to index (defaults to the work directory)"
+        },
+        "force": {
+          "type": "boolean",
+          "description": "Re-index files even if they are unchanged"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "path": {
+          "type": "string"
+        },
+        "totalFiles": {
+          "type": "number"
+        },
+        "indexedFiles": {
+          "type": "number"
+        },
+        "skippedFiles": {
+          "type": "number"
+        },
+        "indexed": {
+          "type": "boolean"
+        },
+        "message": {
+          "type": "string"
+        },
+        "errors": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "error": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success"
+      ],
+      "description": "Index result with file counts"
+    }
+  },
+  "code.queryCode": {
+    "name": "queryCode",
+    "description": "Query the code index directly",
+    "tool": "code_query",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "search": {
+          "type": "string"
+        },
+        "kind": {
+          "type": "string"
+        },
+        "file": {
+          "type": "string"
+        },
+        "symbol_id": {
+          "type": "number"
+        },
+        "find_references": {
+          "type": "boolean"
+        },
+        "limit": {
+          "type": "number"
+        }
+      }
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "success": {
+          "type": "boolean"
+        },
+        "query": {
+          "type": "string"
+        },
+        "kind": {
+          "type": "string"
+        },
+        "file": {
+          "type": "string"
+        },
+        "count": {
+          "type": "number"
+        },
+        "symbol": {
+          "type": "object",
+          "properties": {
+            "id": {
+              "type": "number"
+            },
+            "name": {
+              "type": "string"
+            },
+            "fullName": {
+              "type": "string"
+            },
+            "kind": {
+              "type": "string"
+            },
+            "file": {
+              "type": "string"
+            },
+            "line": {
+              "type": "number"
+            },
+            "lineEnd": {
+              "type": "number"
+            },
+            "signature": {
+              "type": "string"
+            },
+            "returnType": {
+              "type": "string"
+            },
+            "visibility": {
+              "type": "string"
+            },
+            "isStatic": {
+              "type": "boolean"
+            },
+            "documentation": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "id",
+            "name",
+            "kind",
+            "file",
+            "line",
+            "lineEnd",
+            "isStatic"
+          ]
+        },
+        "symbols": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "properties": {
+              "id": {
+                "type": "number"
+              },
+              "name": {
+                "type": "string"
+              },
+              "fullName": {
+                "type": "string"
+              },
+              "kind": {
+                "type": "string"
+              },
+              "file": {
+                "type": "string"
+              },
+              "line": {
+                "type": "number"
+              },
+              "lineEnd": {
+                "type": "number"
+              },
+              "signature": {
+                "type": "string"
+              },
+              "returnType": {
+                "type": "string"
+              },
+              "visibility": {
+                "type": "string"
+              },
+              "isStatic": {
+                "type": "boolean"
+              },
+              "documentation": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id",
+              "name",
+              "kind",
+              "file",
+              "line",
+              "lineEnd",
+              "isStatic"
+            ]
+          }
+        },
+        "references": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "properties": {
+              "file": {
+                "type": "string"
+              },
+              "line": {
+                "type": "number"
+              },
+              "column": {
+                "type": "number"
+              },
+              "context": {
+                "type": "string"
+              },
+              "kind": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "file",
+              "line",
+              "column"
+            ]
+          }
+        },
+        "message": {
+          "type": "string"
+        },
+        "stats": {
+          "type": "object",
+          "properties": {
+            "totalSymbols": {
+              "type": "number"
+            },
+            "totalFiles": {
+              "type": "number"
+            },
+            "totalReferences": {
+              "type": "number"
+            },
+            "symbolsByKind": {
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "databaseSize": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "totalSymbols",
+            "totalFiles",
+            "totalReferences",
+            "symbolsByKind",
+            "databaseSize"
+          ]
+        },
+        "error": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "success"
+      ],
+      "description": "Raw query result from the host"
+    }
+  },
+  "code.findSymbol": {
+    "name": "findSymbol",
+    "description": "Find class, method, property or other symbol definitions by name",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "description": "Symbol name or partial name to search for"
+        },
+        "kind": {
+          "type": "string",
+          "description": "Optional symbol kind filter (class, method, property, field, interface, enum)"
+        },
+        "limit": {
+          "type": "number",
+          "description": "Maximum number of symbols to return"
+        }
+      },
+      "required": [
+        "name"
+      ]
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "id": {
+            "type": "number"
+          },
+          "name": {
+            "type": "string"
+          },
+          "fullName": {
+            "type": "string"
+          },
+          "kind": {
+            "type": "string"
+          },
+          "file": {
+            "type": "string"
+          },
+          "line": {
+            "type": "number"
+          },
+          "lineEnd": {
+            "type": "number"
+          },
+          "signature": {
+            "type": "string"
+          },
+          "returnType": {
+            "type": "string"
+          },
+          "visibility": {
+            "type": "string"
+          },
+          "isStatic": {
+            "type": "boolean"
+          },
+          "documentation": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "id",
+          "name",
+          "kind",
+          "file",
+          "line",
+          "lineEnd",
+          "isStatic"
+        ]
+      },
+      "description": "Matching symbols"
+    }
+  },
+  "code.getSymbol": {
+    "name": "getSymbol",
+    "description": "Get a single symbol by its index id",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "type": "number",
+          "description": "Symbol id as returned by findSymbol"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "type": "number"
+        },
+        "name": {
+          "type": "string"
+        },
+        "fullName": {
+          "type": "string"
+        },
+        "kind": {
+          "type": "string"
+        },
+        "file": {
+          "type": "string"
+        },
+        "line": {
+          "type": "number"
+        },
+        "lineEnd": {
+          "type": "number"
+        },
+        "signature": {
+          "type": "string"
+        },
+        "returnType": {
+          "type": "string"
+        },
+        "visibility": {
+          "type": "string"
+        },
+        "isStatic": {
+          "type": "boolean"
+        },
+        "documentation": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "id",
+        "name",
+        "kind",
+        "file",
+        "line",
+        "lineEnd",
+        "isStatic"
+      ],
+      "description": "The symbol"
+    }
+  },
+  "code.findReferences": {
+    "name": "findReferences",
+    "description": "Find all references to a symbol by id or name",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "symbol": {
+          "anyOf": [
+            {
+              "type": "number"
+            },
+            {
+              "type": "string"
+            },
+            {
+              "type": "object",
+              "properties": {
+                "id": {
+                  "type": "number"
+                },
+                "name": {
+                  "type": "string"
+                },
+                "fullName": {
+                  "type": "string"
+                },
+                "kind": {
+                  "type": "string"
+                },
+                "file": {
+                  "type": "string"
+                },
+                "line": {
+                  "type": "number"
+                },
+                "lineEnd": {
+                  "type": "number"
+                },
+                "signature": {
+                  "type": "string"
+                },
+                "returnType": {
+                  "type": "string"
+                },
+                "visibility": {
+                  "type": "string"
+                },
+                "isStatic": {
+                  "type": "boolean"
+                },
+                "documentation": {
+                  "type": "string"
+                }
+              },
+              "required": [
+                "id",
+                "name",
+                "kind",
+                "file",
+                "line",
+                "lineEnd",
+                "isStatic"
+              ]
+            }
+          ],
+          "description": "Symbol id, a symbol returned by findSymbol, or a symbol name"
+        },
+        "kind": {
+          "type": "string",
+          "description": "Optional kind filter used when resolving a symbol name"
+        }
+      },
+      "required": [
+        "symbol"
+      ]
+    },
+    "returns": {
+      "type": "object",
+      "properties": {
+        "symbol": {
+          "type": "object",
+          "properties": {
+            "id": {
+              "type": "number"
+            },
+            "name": {
+              "type": "string"
+            },
+            "fullName": {
+              "type": "string"
+            },
+            "kind": {
+              "type": "string"
+            },
+            "file": {
+              "type": "string"
+            },
+            "line": {
+              "type": "number"
+            },
+            "lineEnd": {
+              "type": "number"
+            },
+            "signature": {
+              "type": "string"
+            },
+            "returnType": {
+              "type": "string"
+            },
+            "visibility": {
+              "type": "string"
+            },
+            "isStatic": {
+              "type": "boolean"
+            },
+            "documentation": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "id",
+            "name",
+            "kind",
+            "file",
+            "line",
+            "lineEnd",
+            "isStatic"
+          ]
+        },
+        "references": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "properties": {
+              "file": {
+                "type": "string"
+              },
+              "line": {
+                "type": "number"
+              },
+              "column": {
+                "type": "number"
+              },
+              "context": {
+                "type": "string"
+              },
+              "kind": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "file",
+              "line",
+              "column"
+            ]
+          }
+        }
+      },
+      "required": [
+        "symbol",
+        "references"
+      ],
+      "description": "The resolved symbol and its references"
+    }
+  },
+  "code.listSymbolsInFile": {
+    "name": "listSymbolsInFile",
+    "description": "List all symbols declared in a file",
+    "parameters": {
+      "type": "object",
+      "properties": {
+        "file": {
+          "type": "string",
+          "description": "Path to the file"
+        }
+      },
+      "required": [
+        "file"
+      ]
+    },
+    "returns": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "id": {
+            "type": "number"
+          },
+          "name": {
+            "type": "string"
+          },
+          "fullName": {
+            "type": "string"
+          },
+          "kind": {
+            "type": "string"
+          },
+          "file": {
+            "type": "string"
+          },
+          "line": {
+            "type": "number"
+          },
+          "lineEnd": {
+            "type": "number"
+          },
+          "signature": {
+            "type": "string"
+          },
+          "returnType": {
+            "type": "string"
+          },
+          "visibility": {
+            "type": "string"
+          },
+          "isStatic": {
+            "type": "boolean"
+          },
+          "documentation": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "id",
+          "name",
+          "kind",
+          "file",
+          "line",
+          "lineEnd",
+          "isStatic"
+        ]
+      },
+      "description": "Symbols in the file"
+    }
+  }
+};
@@ -1,8 +1,13 @@
 /**
  * Tool catalog for progressive tool discovery
  * Allows searching and loading tool definitions on-demand
+ *
+ * TOOL_CATALOG and TOOL_SCHEMAS are generated from the wrappers' JSDoc and
+ * types/tools.d.ts into catalog.generated.ts by scripts/generate-catalog.ts.
  */
 
+import { TOOL_CATALOG, TOOL_SCHEMAS } from './catalog.generated.ts';
+
 export interface ToolInfo {
   name: string;
   server: string;
@@ -12,349 +17,269 @@ export interface ToolInfo {
   examples?: string[];
 }
 
+/**
+ * The subset of JSON Schema the generated tool schemas use
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+  default?: unknown;
+}
+
 export interface ToolSchema {
   name: string;
   description: string;
-  parameters: {
-    type: string;
-    properties: Record<string, {
-      type: string;
-      description: string;
-      required?: boolean;
-      default?: unknown;
-    }>;
-    required?: string[];
-  };
-  returns: {
-    type: string;
-    description: string;
-    properties?: Record<string, unknown>;
-  };
+  /** Host tool the wrapper sends its arguments to unchanged, if it does */
+  tool?: string;
+  /** Object schema of the tool's arguments */
+  parameters: JsonSchema;
+  /** Schema of the value the call resolves to */
+  returns: JsonSchema;
+}
+
+/** Catalog fields searchTools scores, and how much a match in each counts */
+export type ToolSearchField = 'name' | 'description' | 'signature' | 'examples' | 'category' | 'server';
+
+const FIELD_WEIGHTS: Record<ToolSearchField, number> = {
+  name: 3,
+  category: 2,
+  description: 1.5,
+  server: 1.5,
+  signature: 1,
+  examples: 0.5,
+};
+
+export interface ToolSearchOptions {
+  /** Return at most this many tools, best first */
+  topK?: number;
 }
 
 /**
- * Complete catalog of all available tools
+ * A catalog entry returned by searchTools, with how well it matched
  */
-const TOOL_CATALOG: ToolInfo[] = [
-  // Filesystem tools
-  {
-    name: 'readFile',
-    server: 'filesystem',
-    description: 'Read the contents of a file and get its SHA256 hash',
-    signature: 'readFile(path: string): Promise<{ content: string, sha256: string, encoding: string }>',
-    category: 'io',
-    examples: ['const file = await readFile("src/main.ts");', 'const { content } = await readFile(path);']
-  },
-  {
-    name: 'writeFile',
-    server: 'filesystem',
-    description: 'Write content to a file with optional optimistic locking via SHA256',
-    signature: 'writeFile(path: string, content: string, expectedSha256?: string): Promise<{ success: boolean, sha256: string, bytes_written: number }>',
-    category: 'io',
-    examples: ['await writeFile("output.txt", "Hello World");']
-  },
-  {
-    name: 'searchFiles',
-    server: 'filesystem',
-    description: 'Search for files matching a glob pattern and optionally containing specific text',
-    signature: 'searchFiles(glob?: string, query?: string): Promise<string[]>',
-    category: 'search',
-    examples: ['const csFiles = await searchFiles("**/*.cs");', 'const files = await searchFiles("src/**/*.ts", "import");']
-  },
-  {
-    name: 'applyPatch',
-    server: 'filesystem',
-    description: 'Apply a unified diff patch to modify files',
-    signature: 'applyPatch(patch: string): Promise<{ success: boolean, files_modified: string[], error?: string }>',
-    category: 'io',
-    examples: ['await applyPatch(unifiedDiff);']
-  },
-
-  // Git tools
-  {
-    name: 'status',
-    server: 'git',
-    description: 'Get git repository status',
-    signature: 'status(paths?: string[], root?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'vcs',
-    examples: ['const { stdout } = await status();']
-  },
-  {
-    name: 'diff',
-    server: 'git',
-    description: 'Get git diff for staged or unstaged changes',
-    signature: 'diff(options?: { paths?: string[], staged?: boolean, context?: number, root?: string }): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'vcs',
-    examples: ['const { stdout } = await diff({ staged: true });', 'const changes = await diff({ paths: ["src/"] });']
-  },
-  {
-    name: 'commit',
-    server: 'git',
-    description: 'Create a git commit with a message',
-    signature: 'commit(message: string, paths?: string[], root?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'vcs',
-    examples: ['await commit("Fix bug in parser");']
-  },
-
-  // Dotnet tools
-  {
-    name: 'build',
-    server: 'dotnet',
-    description: 'Build a .NET solution or project',
-    signature: 'build(solutionOrProject?: string, configuration?: string): Promise<{ stdout: string, stderr: string, exit_code: number, success: boolean }>',
-    category: 'build',
-    examples: ['await build();', 'await build("MyApp.sln", "Release");']
-  },
-  {
-    name: 'test',
-    server: 'dotnet',
-    description: 'Run .NET tests and get results',
-    signature: 'test(solutionOrProject?: string, filter?: string, logger?: string): Promise<{ stdout: string, stderr: string, exit_code: number, passed: number, failed: number, skipped: number }>',
-    category: 'test',
-    examples: ['const results = await test();', 'await test(undefined, "FullyQualifiedName~MyTest");']
-  },
-  {
-    name: 'newProject',
-    server: 'dotnet',
-    description: 'Create a new .NET project from a template',
-    signature: 'newProject(template: string, name?: string, output?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'scaffold',
-    examples: ['await newProject("console", "MyApp");', 'await newProject("webapi", "MyApi", "./src");']
-  },
-
-  // RAG tools
-  {
-    name: 'search',
-    server: 'rag',
-    description: 'Search indexed content using semantic similarity',
-    signature: 'search(query: string, topK?: number): Promise<{ results: Array<{ content: string, source: string, similarity: number }>, count: number }>',
-    category: 'search',
-    examples: ['const results = await search("HTTP request handling");']
-  },
-  {
-    name: 'index',
-    server: 'rag',
-    description: 'Index files for semantic search',
-    signature: 'index(path: string, recursive?: boolean, pattern?: string): Promise<{ success: boolean, indexed_files: number, indexed_chunks: number }>',
-    category: 'index',
-    examples: ['await index("src/", true, "*.cs");']
-  },
-  {
-    name: 'stats',
-    server: 'rag',
-    description: 'Get RAG index statistics',
-    signature: 'stats(): Promise<{ enabled: boolean, total_chunks: number, total_sources: number, total_characters: number }>',
-    category: 'info',
-    examples: ['const { total_chunks } = await stats();']
-  },
-  {
-    name: 'clear',
-    server: 'rag',
-    description: 'Clear indexed content',
-    signature: 'clear(sourcePath?: string): Promise<{ success: boolean, deleted_chunks: number, scope: string }>',
-    category: 'index',
-    examples: ['await clear();', 'await clear("src/old/");']
-  },
-
-  // Process tools
-  {
-    name: 'run',
-    server: 'process',
-    description: 'Run a whitelisted command (dotnet, git, npm, node)',
-    signature: 'run(cmd: string, args?: string[], cwd?: string, timeoutMs?: number): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'shell',
-    examples: ['await run("dotnet", ["build"]);', 'await run("git", ["log", "--oneline", "-5"]);']
-  },
-  {
-    name: 'git',
-    server: 'process',
-    description: 'Run a git command',
-    signature: 'git(args: string[], cwd?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'shell',
-    examples: ['await git(["log", "--oneline", "-10"]);']
-  },
-  {
-    name: 'dotnet',
-    server: 'process',
-    description: 'Run a dotnet command',
-    signature: 'dotnet(args: string[], cwd?: string): Promise<{ stdout: string, stderr: string, exit_code: number }>',
-    category: 'shell',
-    examples: ['await dotnet(["nuget", "list"]);']
-  }
+export interface ToolMatch extends ToolInfo {
+  score: number;
+  /** Fields that contained a query term */
+  matchedFields: ToolSearchField[];
+}
+
+/**
+ * Words that mean the same thing when looking for a tool. Each group is
+ * symmetric: a query for any word also finds the others.
+ */
+const SYNONYM_GROUPS = [
+  ['test', 'spec'],
+  ['commit', 'save'],
+  ['grep', 'search'],
+  ['find', 'search', 'lookup'],
+  ['run', 'execute', 'exec'],
+  ['read', 'open', 'load'],
+  ['write', 'save'],
+  ['delete', 'remove', 'clear'],
 ];
 
+const STOP_WORDS = new Set(['a', 'an', 'and', 'all', 'the', 'to', 'of', 'for', 'in', 'on', 'my', 'with', 'me', 'it', 'its', 'get']);
+
+// BM25 parameters: term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// How much a query term counts when it matches a synonym, a longer word it
+// starts, or a word one edit away
+const SYNONYM_MATCH = 0.8;
+const PREFIX_MATCH = 0.6;
+const TYPO_MATCH = 0.5;
+
 /**
- * Tool schemas with full parameter definitions
+ * Split text into lowercase terms: camelCase, snake_case and punctuation
+ * all separate words, and plurals are reduced to the singular
  */
-const TOOL_SCHEMAS: Record<string, ToolSchema> = {
-  'filesystem.readFile': {
-    name: 'readFile',
-    description: 'Read the contents of a file',
-    parameters: {
-      type: 'object',
-      properties: {
-        path: { type: 'string', description: 'Path to the file to read', required: true }
-      },
-      required: ['path']
-    },
-    returns: {
-      type: 'object',
-      description: 'File content and metadata',
-      properties: {
-        content: { type: 'string' },
-        sha256: { type: 'string' },
-        encoding: { type: 'string' }
-      }
-    }
-  },
-  'filesystem.writeFile': {
-    name: 'writeFile',
-    description: 'Write content to a file',
-    parameters: {
-      type: 'object',
-      properties: {
-        path: { type: 'string', description: 'Path to the file to write', required: true },
-        content: { type: 'string', description: 'Content to write', required: true },
-        expected_sha256: { type: 'string', description: 'Expected SHA256 for optimistic locking' }
-      },
-      required: ['path', 'content']
-    },
-    returns: {
-      type: 'object',
-      description: 'Write result',
-      properties: {
-        success: { type: 'boolean' },
-        sha256: { type: 'string' },
-        bytes_written: { type: 'number' }
-      }
-    }
-  },
-  'filesystem.searchFiles': {
-    name: 'searchFiles',
-    description: 'Search for files',
-    parameters: {
-      type: 'object',
-      properties: {
-        glob: { type: 'string', description: 'Glob pattern (e.g., **/*.cs)', default: '**/*' },
-        query: { type: 'string', description: 'Text to search for in files' }
-      }
-    },
-    returns: {
-      type: 'array',
-      description: 'Array of matching file paths'
-    }
-  },
-  'git.status': {
-    name: 'status',
-    description: 'Get git status',
-    parameters: {
-      type: 'object',
-      properties: {
-        paths: { type: 'array', description: 'Paths to check' },
-        root: { type: 'string', description: 'Repository root' }
-      }
-    },
-    returns: {
-      type: 'object',
-      description: 'Git status output'
-    }
-  },
-  'git.diff': {
-    name: 'diff',
-    description: 'Get git diff',
-    parameters: {
-      type: 'object',
-      properties: {
-        paths: { type: 'array', description: 'Paths to diff' },
-        staged: { type: 'boolean', description: 'Show staged changes' },
-        context: { type: 'number', description: 'Lines of context', default: 3 }
-      }
-    },
-    returns: {
-      type: 'object',
-      description: 'Git diff output'
-    }
-  },
-  'dotnet.build': {
-    name: 'build',
-    description: 'Build .NET project',
-    parameters: {
-      type: 'object',
-      properties: {
-        solution_or_project: { type: 'string', description: 'Path to solution or project' },
-        configuration: { type: 'string', description: 'Build configuration', default: 'Debug' }
-      }
-    },
-    returns: {
-      type: 'object',
-      description: 'Build result'
-    }
-  },
-  'dotnet.test': {
-    name: 'test',
-    description: 'Run .NET tests',
-    parameters: {
-      type: 'object',
-      properties: {
-        solution_or_project: { type: 'string', description: 'Path to solution or project' },
-        filter: { type: 'string', description: 'Test filter expression' },
-        logger: { type: 'string', description: 'Logger type', default: 'trx' }
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 0 && !STOP_WORDS.has(term))
+    .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+}
+
+/**
+ * Whether two terms are at most one insertion, deletion or substitution apart
+ */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+}
+
+interface SearchIndex {
+  /** Term frequencies per tool and field */
+  documents: Array<Record<ToolSearchField, Map<string, number>>>;
+  /** Field lengths per tool, in terms */
+  lengths: Array<Record<ToolSearchField, number>>;
+  averageLengths: Record<ToolSearchField, number>;
+  /** Number of tools each term occurs in */
+  documentFrequency: Map<string, number>;
+}
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as ToolSearchField[];
+
+let searchIndex: SearchIndex | undefined;
+
+/** Tools of connected external MCP servers, by server (ext.<name>) */
+const externalTools = new Map<string, ToolInfo[]>();
+
+/**
+ * Add an external server's tools to searchTools results, replacing any
+ * registered before under the same server
+ * @param server - Server the tools are reached through (ext.echo)
+ */
+export function registerExternalTools(server: string, tools: ToolInfo[]): void {
+  externalTools.set(server, tools);
+  searchIndex = undefined;
+}
+
+/**
+ * Remove an external server's tools from searchTools results
+ */
+export function clearExternalTools(server: string): void {
+  if (externalTools.delete(server)) searchIndex = undefined;
+}
+
+/**
+ * The tools searchTools looks through: the catalog, then external tools
+ */
+function searchableTools(): ToolInfo[] {
+  return externalTools.size === 0 ? TOOL_CATALOG : [...TOOL_CATALOG, ...[...externalTools.values()].flat()];
+}
+
+function fieldText(tool: ToolInfo, field: ToolSearchField): string {
+  return field === 'examples' ? (tool.examples ?? []).join(' ') : tool[field];
+}
+
+function getSearchIndex(): SearchIndex {
+  if (searchIndex) return searchIndex;
+
+  const index: SearchIndex = {
+    documents: [],
+    lengths: [],
+    averageLengths: {} as Record<ToolSearchField, number>,
+    documentFrequency: new Map(),
+  };
+  for (const tool of searchableTools()) {
+    const document = {} as Record<ToolSearchField, Map<string, number>>;
+    const lengths = {} as Record<ToolSearchField, number>;
+    const seen = new Set<string>();
+    for (const field of SEARCH_FIELDS) {
+      const terms = tokenize(fieldText(tool, field));
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        seen.add(term);
       }
-    },
-    returns: {
-      type: 'object',
-      description: 'Test results'
-    }
-  },
-  'rag.search': {
-    name: 'search',
-    description: 'Semantic search',
-    parameters: {
-      type: 'object',
-      properties: {
-        query: { type: 'string', description: 'Search query', required: true },
-        top_k: { type: 'number', description: 'Number of results', default: 5 }
-      },
-      required: ['query']
-    },
-    returns: {
-      type: 'object',
-      description: 'Search results'
+      document[field] = frequencies;
+      lengths[field] = terms.length;
     }
-  },
-  'process.run': {
-    name: 'run',
-    description: 'Run a command',
-    parameters: {
-      type: 'object',
-      properties: {
-        cmd: { type: 'string', description: 'Command to run', required: true },
-        args: { type: 'array', description: 'Command arguments' },
-        cwd: { type: 'string', description: 'Working directory' },
-        timeout_ms: { type: 'number', description: 'Timeout in ms', default: 120000 }
-      },
-      required: ['cmd']
-    },
-    returns: {
-      type: 'object',
-      description: 'Command output'
+    for (const term of seen) {
+      index.documentFrequency.set(term, (index.documentFrequency.get(term) ?? 0) + 1);
     }
+    index.documents.push(document);
+    index.lengths.push(lengths);
   }
-};
+  for (const field of SEARCH_FIELDS) {
+    const total = index.lengths.reduce((sum, lengths) => sum + lengths[field], 0);
+    index.averageLengths[field] = total / Math.max(index.lengths.length, 1) || 1;
+  }
+
+  searchIndex = index;
+  return index;
+}
 
 /**
- * Search for tools matching a query
- * @param query - Search query (matches name, description, category)
- * @returns Matching tools
+ * The catalog terms a query term stands for, with how much each counts
  */
-export function searchTools(query: string): ToolInfo[] {
-  const q = query.toLowerCase();
-  return TOOL_CATALOG.filter(tool => 
-    tool.name.toLowerCase().includes(q) ||
-    tool.description.toLowerCase().includes(q) ||
-    tool.category.toLowerCase().includes(q) ||
-    tool.server.toLowerCase().includes(q)
-  );
+function expandTerm(term: string, vocabulary: Iterable<string>): Map<string, number> {
+  const expansions = new Map<string, number>([[term, 1]]);
+  const add = (candidate: string, weight: number) => {
+    if ((expansions.get(candidate) ?? 0) < weight) expansions.set(candidate, weight);
+  };
+
+  for (const group of SYNONYM_GROUPS) {
+    if (group.includes(term)) group.forEach(synonym => add(synonym, SYNONYM_MATCH));
+  }
+  for (const candidate of vocabulary) {
+    if (term.length >= 3 && candidate.startsWith(term)) add(candidate, PREFIX_MATCH);
+    else if (term.length >= 5 && withinOneEdit(term, candidate)) add(candidate, TYPO_MATCH);
+  }
+  return expansions;
+}
+
+/**
+ * Search the catalog and the tools of connected external MCP servers, best
+ * matches first. The query is split into terms, each expanded with
+ * synonyms, prefixes and near misses, and tools are scored with BM25 over
+ * their fields, weighted by field.
+ * @param query - Words describing the tool ("run unit tests", "commit my changes")
+ * @param options - topK to limit the number of results
+ * @returns Matching tools with their score and the fields that matched; every tool for an empty query
+ */
+export function searchTools(query: string, options: ToolSearchOptions = {}): ToolMatch[] {
+  const index = getSearchIndex();
+  const tools = searchableTools();
+  const terms = [...new Set(tokenize(query))];
+  const limit = options.topK ?? Infinity;
+
+  if (terms.length === 0) {
+    return tools.slice(0, limit).map(tool => ({ ...tool, score: 0, matchedFields: [] }));
+  }
+
+  const toolCount = tools.length;
+  const expansions = terms.map(term => expandTerm(term, index.documentFrequency.keys()));
+  const matches: ToolMatch[] = [];
+
+  tools.forEach((tool, i) => {
+    const document = index.documents[i];
+    const matchedFields = new Set<ToolSearchField>();
+    let score = 0;
+
+    for (const expansion of expansions) {
+      // A query term scores by its best expansion, so a word with many
+      // near misses does not outweigh one that matched exactly
+      let best = 0;
+      for (const [candidate, weight] of expansion) {
+        const documentFrequency = index.documentFrequency.get(candidate);
+        if (!documentFrequency) continue;
+
+        let frequency = 0;
+        for (const field of SEARCH_FIELDS) {
+          const count = document[field].get(candidate);
+          if (!count) continue;
+          matchedFields.add(field);
+          const lengthRatio = index.lengths[i][field] / index.averageLengths[field];
+          frequency += FIELD_WEIGHTS[field] * count / (1 - BM25_B + BM25_B * lengthRatio);
+        }
+        if (frequency === 0) continue;
+
+        const idf = Math.log(1 + (toolCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        best = Math.max(best, weight * idf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1));
+      }
+      score += best;
+    }
+
+    if (score > 0) {
+      matches.push({ ...tool, score, matchedFields: SEARCH_FIELDS.filter(field => matchedFields.has(field)) });
+    }
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
 }
 
 /**
@@ -367,7 +292,7 @@ export function getToolsByCategory(category: string): ToolInfo[] {
 
 /**
  * Get tools by server
- * @param server - Server name (filesystem, git, dotnet, rag, process)
+ * @param server - Server name (filesystem, git, dotnet, rag, process, code, sqlite, agents, browser)
  */
 export function getToolsByServer(server: string): ToolInfo[] {
   return TOOL_CATALOG.filter(tool => tool.server === server);
@@ -426,4 +351,127 @@ export function generateImports(tools: ToolInfo[]): string {
   return imports.join('\n');
 }
 
+/**
+ * Tool names too generic to tell which server they belong to.
+ * These are only reachable through their namespace (rag.search, dotnet.test).
+ */
+const NAMESPACE_ONLY_NAMES = new Set([
+  'build', 'test', 'run', 'start', 'search', 'index', 'stats', 'clear',
+  'query', 'execute', 'list', 'submit', 'cancel',
+]);
+
+/**
+ * Flat names injected by earlier versions of the sandbox that are not
+ * catalog tool names themselves.
+ */
+const LEGACY_ALIASES: Array<{ alias: string; server: string; name: string }> = [
+  { alias: 'runCommand', server: 'process', name: 'run' },
+];
+
+/**
+ * Namespaces that earlier versions of the sandbox injected as functions:
+ * `git(args)` and `dotnet(args)` ran a command line. These namespaces stay
+ * callable that way, so `git(['log'])` and `git.status()` both work.
+ */
+const CALLABLE_NAMESPACES: Record<string, { server: string; name: string }> = {
+  git: { server: 'process', name: 'git' },
+  dotnet: { server: 'process', name: 'dotnet' },
+};
+
+/** Shorter names for server namespaces, injected next to the full name */
+const NAMESPACE_ALIASES: Record<string, string> = {
+  fs: 'filesystem',
+};
+
+/**
+ * Servers named after a global of the Node-compatible runtime. Their tools
+ * are added to that global instead of shadowing it, so `process.run()` and
+ * `process.env` both work in snippets.
+ */
+const GLOBAL_NAMESPACES = new Set(['process']);
+
+/**
+ * Get the flat aliases injected into sandbox code, keyed by alias.
+ * A tool gets a flat alias only when its name is unambiguous: exported by
+ * a single server, not equal to a namespace identifier and not generic.
+ */
+export function getFlatAliases(): Map<string, { server: string; name: string }> {
+  const namespaces = new Set(getServers());
+  const owners = new Map<string, Set<string>>();
+  for (const tool of TOOL_CATALOG) {
+    const set = owners.get(tool.name) ?? new Set<string>();
+    set.add(tool.server);
+    owners.set(tool.name, set);
+  }
+
+  const aliases = new Map<string, { server: string; name: string }>();
+  for (const [name, servers] of owners) {
+    if (servers.size !== 1 || namespaces.has(name) || NAMESPACE_ONLY_NAMES.has(name)) continue;
+    aliases.set(name, { server: [...servers][0], name });
+  }
+  for (const legacy of LEGACY_ALIASES) {
+    aliases.set(legacy.alias, { server: legacy.server, name: legacy.name });
+  }
+  return aliases;
+}
+
+/** Error classes from runtime/errors.ts that every snippet can use */
+const TOOL_ERROR_CLASSES = [
+  'ThuvuToolError',
+  'PermissionDeniedError',
+  'ConflictError',
+  'NotFoundError',
+  'ToolTimeoutError',
+  'ToolAbortedError',
+  'UnknownToolError',
+  'InvalidArgumentsError',
+];
+
+/**
+ * Generate the preamble that injects every catalog server into sandbox code
+ * as a namespace named after the server (filesystem.readFile, dotnet.build,
+ * process.run) plus flat aliases for unambiguous names (readFile,
+ * findSymbol), and external MCP servers as `ext`. `fs` is short for
+ * `filesystem`.
+ * @param mcpUrl - file:// URL of the mcp directory, ending in a slash
+ */
+export function generatePreamble(mcpUrl: string | URL): string {
+  const lines: string[] = [];
+  for (const server of getServers()) {
+    const url = new URL(`servers/${server}/index.ts`, mcpUrl).href;
+    const binding = CALLABLE_NAMESPACES[server] || GLOBAL_NAMESPACES.has(server) ? `__${server}__` : server;
+    lines.push(`import * as ${binding} from '${url}';`);
+  }
+
+  // Error classes, so scripts can test `e instanceof ConflictError`
+  const errorsUrl = new URL('runtime/errors.ts', mcpUrl).href;
+  lines.push(`import { ${TOOL_ERROR_CLASSES.join(', ')} } from '${errorsUrl}';`);
+
+  // Tools of external MCP servers, connected per request
+  lines.push(`import { ext } from '${new URL('runtime/external.ts', mcpUrl).href}';`);
+
+  for (const server of GLOBAL_NAMESPACES) {
+    lines.push(`const ${server} = Object.assign(globalThis.${server}, __${server}__);`);
+  }
+  for (const [alias, server] of Object.entries(NAMESPACE_ALIASES)) {
+    lines.push(`const ${alias} = ${server};`);
+  }
+
+  for (const [namespace, { server, name }] of Object.entries(CALLABLE_NAMESPACES)) {
+    const target = `${server}.${name}`;
+    lines.push(`const ${namespace} = Object.assign((...args: Parameters<typeof ${target}>) => ${target}(...args), __${namespace}__);`);
+  }
+
+  const byServer = new Map<string, string[]>();
+  for (const [alias, { server, name }] of getFlatAliases()) {
+    const list = byServer.get(server) ?? [];
+    list.push(alias === name ? name : `${name}: ${alias}`);
+    byServer.set(server, list);
+  }
+  for (const [server, names] of byServer) {
+    lines.push(`const { ${names.join(', ')} } = ${server};`);
+  }
+  return lines.join('\n');
+}
+
 export { TOOL_CATALOG, TOOL_SCHEMAS };
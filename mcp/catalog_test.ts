@@ -0,0 +1,111 @@
+/**
+ * Tests for the generated tool catalog and tool search
+ *
+ * Run with: deno test --allow-read mcp/catalog_test.ts
+ * The generated file itself is checked with:
+ *   deno run --allow-read --allow-run mcp/scripts/generate-catalog.ts --check
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import {
+  generatePreamble,
+  getServers,
+  getToolSchema,
+  getToolsByServer,
+  searchTools,
+  TOOL_CATALOG,
+  TOOL_SCHEMAS,
+} from './catalog.ts';
+
+const isClass = (value: unknown) => typeof value === 'function' && /^class\b/.test(Function.prototype.toString.call(value));
+
+Deno.test('every exported wrapper function has a catalog entry and a schema', async () => {
+  for (const server of getServers()) {
+    const module = await import(`./servers/${server}/index.ts`);
+    const functions = Object.keys(module).filter(name => typeof module[name] === 'function' && !isClass(module[name]));
+
+    deepEqual(getToolsByServer(server).map(t => t.name).sort(), functions.sort(), `catalog entries for ${server}`);
+    for (const name of functions) {
+      ok(getToolSchema(server, name), `schema for ${server}.${name}`);
+    }
+  }
+  equal(Object.keys(TOOL_SCHEMAS).length, TOOL_CATALOG.length);
+});
+
+Deno.test('schemas describe the object form of the arguments', () => {
+  const schema = getToolSchema('process', 'run')!;
+  deepEqual(schema.parameters.required, ['cmd']);
+  equal(schema.parameters.properties!.timeout_ms.description, 'Timeout in milliseconds');
+  deepEqual(schema.returns.required, ['stdout', 'stderr', 'exit_code']);
+});
+
+Deno.test('signatures leave out call options', () => {
+  for (const tool of TOOL_CATALOG) {
+    ok(!tool.signature.includes('CallOptions'), tool.signature);
+  }
+});
+
+const topTool = (query: string) => {
+  const [best] = searchTools(query, { topK: 1 });
+  return best && `${best.server}.${best.name}`;
+};
+
+Deno.test('search finds tools from a description of the task', () => {
+  equal(topTool('run unit tests'), 'dotnet.test');
+  equal(topTool('commit my changes'), 'git.commit');
+  equal(topTool('save file'), 'filesystem.writeFile');
+  equal(topTool('find references'), 'code.findReferences');
+});
+
+Deno.test('search expands synonyms, prefixes and typos', () => {
+  equal(topTool('spec'), 'dotnet.test');
+  ok(searchTools('grep', { topK: 2 }).some(t => t.name === 'searchFiles'));
+  equal(topTool('describeTab'), 'sqlite.describeTable');
+  equal(topTool('refrences'), 'code.findReferences');
+});
+
+Deno.test('search results are ranked and report the matched fields', () => {
+  const results = searchTools('build');
+  ok(results.length > 0);
+  ok(results.every((r, i) => i === 0 || results[i - 1].score >= r.score));
+  deepEqual(results[0].matchedFields, ['name', 'category', 'description', 'signature', 'examples']);
+  deepEqual(searchTools('no such thing here xyzzy'), []);
+});
+
+Deno.test('topK limits the results, and an empty query lists every tool', () => {
+  equal(searchTools('file', { topK: 2 }).length, 2);
+  equal(searchTools('').length, TOOL_CATALOG.length);
+  equal(searchTools('', { topK: 3 }).length, 3);
+});
+
+Deno.test('the preamble injects each server under its catalog name, without shadowing globals', async () => {
+  const commands: unknown[] = [];
+  (globalThis as Record<string, unknown>).__thuvu_bridge__ = {
+    call: (_tool: string, args: unknown) => {
+      commands.push(args);
+      return Promise.resolve({ stdout: '', stderr: '', exit_code: 0 });
+    },
+  };
+
+  const module = `${generatePreamble(new URL('./', import.meta.url))}
+    await git(['log']);
+    await dotnet(['--info']);
+    export default {
+      namespaces: [${getServers().map(server => `typeof ${server}`).join(', ')}],
+      legacy: [typeof git.status, typeof dotnet.build, runCommand === process.run],
+      aliases: [fs === filesystem, process === globalThis.process, typeof process.cwd()],
+    };`;
+  const url = URL.createObjectURL(new Blob([module], { type: 'application/typescript' }));
+  try {
+    const { default: result } = await import(url);
+    ok(result.namespaces.every((type: string) => type === 'object' || type === 'function'));
+    deepEqual(result.legacy, ['function', 'function', true]);
+    deepEqual(result.aliases, [true, true, 'string']);
+    deepEqual(commands, [
+      { cmd: 'git', args: ['log'], cwd: undefined, timeout_ms: undefined },
+      { cmd: 'dotnet', args: ['--info'], cwd: undefined, timeout_ms: undefined },
+    ]);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+});
@@ -0,0 +1,189 @@
+/**
+ * Export the tool catalog in standard tool-definition formats
+ *
+ * - MCP `tools/list` entries: { name, description, inputSchema }
+ * - OpenAI / llama.cpp function-calling tools: { type: 'function', function: { name, description, parameters } }
+ *
+ * Both are built from TOOL_CATALOG and TOOL_SCHEMAS, so the host's model
+ * prompts and external clients see the same tools as sandbox code.
+ *
+ * CLI:
+ *   deno run --allow-read --allow-write mcp/exporters.ts --format mcp|openai [--server git] [--out tools.json]
+ *
+ * Without --out the JSON is written to stdout.
+ */
+
+import { type JsonSchema, TOOL_CATALOG, TOOL_SCHEMAS, type ToolInfo, type ToolSchema } from './catalog.ts';
+import { boundStatement } from './servers/sqlite/sql.ts';
+import type { SqliteQueryArgs } from './types/tools.d.ts';
+
+/**
+ * A tool as listed by an MCP server's `tools/list`
+ */
+export interface McpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+}
+
+/**
+ * A tool in the OpenAI chat completions `tools` array, also accepted by
+ * llama.cpp's server
+ */
+export interface OpenAiToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema & { type: 'object' };
+  };
+}
+
+export interface ExportOptions {
+  /** Only export tools of these servers (default: all) */
+  servers?: string[];
+}
+
+/**
+ * A catalog tool that can be called with JSON arguments
+ */
+export interface ExportedTool {
+  /** Name in exported definitions: <server>_<tool> */
+  name: string;
+  info: ToolInfo;
+  schema: ToolSchema;
+  /** Builds the wrapper's argument from the JSON arguments, for wrappers that take an object scripts build */
+  adaptArguments?: (args: Record<string, unknown>) => unknown;
+}
+
+/**
+ * Catalog tools that only make sense inside a script: sql builds a query
+ * object for query()/execute(), and start and openPage return live
+ * session and page objects
+ */
+const SCRIPT_ONLY_TOOLS = new Set(['sqlite.sql', 'process.start', 'browser.openPage']);
+
+/**
+ * query() and execute() take a statement from the sql`` tag; exported, they
+ * take its text and parameters, which are bound the same way
+ */
+const ARGUMENT_ADAPTERS: Partial<Record<string, (args: Record<string, unknown>) => unknown>> = {
+  'sqlite.query': args => boundStatement(args as unknown as SqliteQueryArgs),
+  'sqlite.execute': args => boundStatement(args as unknown as SqliteQueryArgs),
+};
+
+/**
+ * Name a tool in exported definitions. Tool names in both formats are
+ * limited to letters, digits, `_` and `-`, so the server is joined with `_`.
+ */
+export function exportedToolName(server: string, name: string): string {
+  return `${server}_${name}`;
+}
+
+/**
+ * The tools that are exported, in catalog order
+ */
+export function getExportedTools(options: ExportOptions = {}): ExportedTool[] {
+  return TOOL_CATALOG
+    .filter(info => !SCRIPT_ONLY_TOOLS.has(`${info.server}.${info.name}`))
+    .filter(info => !options.servers || options.servers.includes(info.server))
+    .map(info => {
+      const key = `${info.server}.${info.name}`;
+      const adaptArguments = ARGUMENT_ADAPTERS[key];
+      return {
+        name: exportedToolName(info.server, info.name),
+        info,
+        schema: TOOL_SCHEMAS[key],
+        ...(adaptArguments ? { adaptArguments } : {}),
+      };
+    });
+}
+
+/**
+ * Find an exported tool by its exported name
+ */
+export function findExportedTool(name: string): ExportedTool | undefined {
+  return getExportedTools().find(tool => tool.name === name);
+}
+
+/**
+ * The tool's description for a model: the JSDoc text plus examples
+ */
+function describeTool(tool: ExportedTool): string {
+  const examples = tool.info.examples ?? [];
+  if (examples.length === 0) return tool.schema.description;
+  return `${tool.schema.description}\n\nExamples:\n${examples.map(e => `  ${e}`).join('\n')}`;
+}
+
+/**
+ * The arguments schema as a standalone JSON Schema object
+ */
+function inputSchema(tool: ExportedTool): JsonSchema & { type: 'object' } {
+  const { properties = {}, required } = tool.schema.parameters;
+  return {
+    type: 'object',
+    properties,
+    ...(required && required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Export the catalog as MCP `tools/list` entries
+ */
+export function toMcpTools(options: ExportOptions = {}): McpToolDefinition[] {
+  return getExportedTools(options).map(tool => ({
+    name: tool.name,
+    description: describeTool(tool),
+    inputSchema: inputSchema(tool),
+  }));
+}
+
+/**
+ * Export the catalog as OpenAI / llama.cpp function-calling tools
+ */
+export function toOpenAiTools(options: ExportOptions = {}): OpenAiToolDefinition[] {
+  return getExportedTools(options).map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: describeTool(tool),
+      parameters: inputSchema(tool),
+    },
+  }));
+}
+
+const USAGE = 'Usage: deno run --allow-read --allow-write mcp/exporters.ts --format mcp|openai [--server <name>]... [--out <file>]';
+
+if (import.meta.main) {
+  let format: string | undefined;
+  let out: string | undefined;
+  const servers: string[] = [];
+  for (let i = 0; i < Deno.args.length; i++) {
+    const arg = Deno.args[i];
+    const value = Deno.args[i + 1];
+    if (arg === '--format' && value) format = Deno.args[++i];
+    else if (arg === '--server' && value) servers.push(Deno.args[++i]);
+    else if (arg === '--out' && value) out = Deno.args[++i];
+    else {
+      console.error(`Unknown argument '${arg}'\n${USAGE}`);
+      Deno.exit(2);
+    }
+  }
+
+  const options = servers.length > 0 ? { servers } : {};
+  const tools = format === 'mcp' ? { tools: toMcpTools(options) }
+    : format === 'openai' ? toOpenAiTools(options)
+    : undefined;
+  if (!tools) {
+    console.error(USAGE);
+    Deno.exit(2);
+  }
+
+  const json = JSON.stringify(tools, null, 2) + '\n';
+  if (out) {
+    await Deno.writeTextFile(out, json);
+  } else {
+    await Deno.stdout.write(new TextEncoder().encode(json));
+  }
+}
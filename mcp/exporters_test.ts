@@ -0,0 +1,81 @@
+/**
+ * Tests for the MCP and OpenAI tool exporters
+ *
+ * Run with: deno test --allow-read mcp/exporters_test.ts
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import type { JsonSchema } from './catalog.ts';
+import { findExportedTool, toMcpTools, toOpenAiTools } from './exporters.ts';
+import { SqlQuery } from './servers/sqlite/sql.ts';
+
+const SCHEMA_KEYWORDS = new Set([
+  'type', 'description', 'properties', 'required', 'items', 'enum', 'anyOf', 'additionalProperties', 'default',
+]);
+const SCHEMA_TYPES = new Set(['object', 'array', 'string', 'number', 'integer', 'boolean', 'null']);
+
+/**
+ * Problems that would make a schema invalid or unusable for a model
+ */
+function schemaProblems(schema: JsonSchema, path: string): string[] {
+  const problems = Object.keys(schema).filter(key => !SCHEMA_KEYWORDS.has(key)).map(key => `${path}: unknown keyword ${key}`);
+  if (schema.type !== undefined && !SCHEMA_TYPES.has(schema.type)) problems.push(`${path}: bad type ${schema.type}`);
+  for (const name of schema.required ?? []) {
+    if (!schema.properties?.[name]) problems.push(`${path}: required '${name}' has no property`);
+  }
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    problems.push(...schemaProblems(property, `${path}.${name}`));
+  }
+  if (schema.items) problems.push(...schemaProblems(schema.items, `${path}[]`));
+  schema.anyOf?.forEach((option, i) => problems.push(...schemaProblems(option, `${path}|${i}`)));
+  if (typeof schema.additionalProperties === 'object') {
+    problems.push(...schemaProblems(schema.additionalProperties, `${path}{}`));
+  }
+  return problems;
+}
+
+Deno.test('MCP tools have valid names and object input schemas', () => {
+  const tools = toMcpTools();
+  ok(tools.length > 30);
+  for (const tool of tools) {
+    ok(/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name), tool.name);
+    ok(tool.description.length > 0, tool.name);
+    equal(tool.inputSchema.type, 'object');
+    deepEqual(schemaProblems(tool.inputSchema, tool.name), []);
+  }
+  equal(new Set(tools.map(t => t.name)).size, tools.length);
+});
+
+Deno.test('exported schemas keep the catalog arguments, defaults and examples', () => {
+  const tools = toMcpTools({ servers: ['rag'] });
+  const [search] = tools.filter(t => t.name === 'rag_search');
+  deepEqual(search.inputSchema.required, ['query']);
+  equal(search.inputSchema.additionalProperties, false);
+  ok(search.description.includes('Examples:\n  '));
+  const [index] = tools.filter(t => t.name === 'rag_index');
+  equal(index.inputSchema.properties!.pattern.default, '*.cs');
+});
+
+Deno.test('OpenAI tools wrap the same definitions', () => {
+  const mcp = toMcpTools();
+  const openai = toOpenAiTools();
+  deepEqual(openai.map(t => t.function.name), mcp.map(t => t.name));
+  deepEqual(openai[0], {
+    type: 'function',
+    function: { name: mcp[0].name, description: mcp[0].description, parameters: mcp[0].inputSchema },
+  });
+});
+
+Deno.test('sqlite statements are built from the exported arguments', () => {
+  const statement = findExportedTool('sqlite_execute')?.adaptArguments?.({ sql: 'DELETE FROM t WHERE id = ?', params: [3] });
+  ok(statement instanceof SqlQuery);
+  deepEqual({ ...statement }, { sql: 'DELETE FROM t WHERE id = ?', params: [3] });
+  equal(findExportedTool('sqlite_listTables')?.adaptArguments, undefined);
+});
+
+Deno.test('script-only tools are not exported', () => {
+  equal(findExportedTool('sqlite_sql'), undefined);
+  equal(findExportedTool('process_start'), undefined);
+  equal(findExportedTool('browser_openPage'), undefined);
+  equal(findExportedTool('filesystem_readFile')?.schema.tool, 'read_file');
+});
@@ -5,10 +5,24 @@
  * IMPORTANT: Uses TextLineStream for proper line-by-line stdin reading
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { CallOptions, ToolProgress } from '../types/tools.d.ts';
+import { PermissionDeniedError, ToolAbortedError, ToolTimeoutError, toolErrorFromResponse } from './errors.ts';
+import type { GateDecision, PolicyGate } from './gate.ts';
+import type { ExternalServerConfig } from './external.ts';
+import type { PermissionPolicy } from './permissions.ts';
+import { checkToolArguments } from './validation.ts';
+
 interface JsonRpcRequest {
   jsonrpc: '2.0';
   id: number;
   method: string;
+  params: Record<string, unknown> & { _meta?: { progressToken: number } };
+}
+
+interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
   params: Record<string, unknown>;
 }
 
@@ -23,9 +37,57 @@ interface JsonRpcResponse {
   };
 }
 
-interface ExecutionRequest {
+export interface ExecutionRequest {
+  /** Request id, echoed back on the RESULT line */
+  id?: string;
   code: string;
   timeout?: number;
+  /** Maximum characters per console entry */
+  maxOutputLineLength?: number;
+  /** Maximum characters of console output in total */
+  maxOutputLength?: number;
+  /** Approximate maximum size of the encoded result in characters */
+  maxResultSize?: number;
+  /** Maximum nesting depth of the encoded result */
+  maxResultDepth?: number;
+  /** Policy for the gate, merged over DEFAULT_POLICY */
+  policy?: Partial<PermissionPolicy>;
+  /** Profile to load from the project's policy file */
+  profile?: string;
+  /** Root for relative paths in tool calls and policies (default: working directory) */
+  projectRoot?: string;
+  /** Type-check the snippet first and skip execution if it has errors (needs the execute level) */
+  check?: boolean;
+  /** External MCP servers whose tools the snippet reaches as `ext.<name>` */
+  mcpServers?: Record<string, ExternalServerConfig>;
+}
+
+/**
+ * A command sent by the host on stdin:
+ * `EXECUTE:{json}`, `RESET[:{"id":...}]` or `SHUTDOWN[:{"id":...}]`
+ */
+export type SandboxCommand =
+  | { type: 'execute'; request: ExecutionRequest }
+  | { type: 'reset'; id?: string }
+  | { type: 'shutdown'; id?: string };
+
+/**
+ * A tool call that has been sent to the host but not answered yet
+ */
+export interface InFlightCall {
+  id: number;
+  tool: string;
+  elapsedMs: number;
+}
+
+/**
+ * One run of a snippet. Host calls are tagged with the execution they were
+ * made from, so a snippet that outlives its timeout cannot reach the host.
+ */
+export interface Execution {
+  readonly id: number;
+  /** Set once the execution timed out: the timeout in milliseconds */
+  expiredAfterMs?: number;
 }
 
 // Use a simple line reader that doesn't conflict
@@ -62,49 +124,104 @@ async function* readLines(): AsyncGenerator<string> {
 
 class ThuvuBridge {
   private requestId = 0;
+  private executionId = 0;
+  private executions = new AsyncLocalStorage<Execution>();
   private pendingRequests = new Map<number, {
+    execution?: Execution;
+    toolName: string;
+    args: Record<string, unknown>;
+    startTime: number;
     resolve: (value: unknown) => void;
     reject: (error: Error) => void;
   }>();
+  private progressHandlers = new Map<number | string, (progress: ToolProgress) => void>();
   private encoder = new TextEncoder();
   private lineReader: AsyncGenerator<string> | null = null;
-  private executeResolve: ((req: ExecutionRequest) => void) | null = null;
-  private initialized = false;
+  private commandQueue: SandboxCommand[] = [];
+  private commandWaiters: Array<(command: SandboxCommand | null) => void> = [];
+  private inputClosed = false;
+  private gate: PolicyGate | undefined;
 
   constructor() {}
 
+  /**
+   * Check every following tool call against a policy, or stop checking
+   */
+  setGate(gate: PolicyGate | undefined): void {
+    this.gate = gate;
+  }
+
   /**
    * Initialize and wait for the EXECUTE command
    */
   async waitForExecuteCommand(): Promise<ExecutionRequest | null> {
+    const command = await this.nextCommand();
+    if (!command) return null;
+
+    if (command.type === 'execute') {
+      return command.request;
+    }
+
+    console.error('Expected EXECUTE command, got:', command.type.toUpperCase());
+    return null;
+  }
+
+  /**
+   * Wait for the next EXECUTE, RESET or SHUTDOWN command from the host
+   * @returns The command, or null once stdin is closed
+   */
+  nextCommand(): Promise<SandboxCommand | null> {
     if (!this.lineReader) {
       this.lineReader = readLines();
+      this.startBackgroundReading();
     }
-    
-    // Read the first line which should be the EXECUTE command
-    const result = await this.lineReader.next();
-    if (result.done) return null;
-    
-    const line = result.value.trim();
-    if (line.startsWith('EXECUTE:')) {
-      const requestJson = line.slice('EXECUTE:'.length);
+
+    const queued = this.commandQueue.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.inputClosed) return Promise.resolve(null);
+
+    return new Promise(resolve => this.commandWaiters.push(resolve));
+  }
+
+  private pushCommand(command: SandboxCommand): void {
+    const waiter = this.commandWaiters.shift();
+    if (waiter) {
+      waiter(command);
+    } else {
+      this.commandQueue.push(command);
+    }
+  }
+
+  /**
+   * Parse a command line, or return null if the line is not a command
+   */
+  private parseCommand(line: string): SandboxCommand | null {
+    const [, name, json] = line.match(/^(EXECUTE|RESET|SHUTDOWN)(?::(.*))?$/) ?? [];
+    if (!name) return null;
+
+    let payload: Record<string, unknown> = {};
+    if (json) {
       try {
-        const request: ExecutionRequest = JSON.parse(requestJson);
-        // Start background reading for responses after we got the EXECUTE
-        this.startBackgroundReading();
-        return request;
+        payload = JSON.parse(json);
       } catch (e) {
-        console.error('Failed to parse EXECUTE request:', e);
+        console.error(`Failed to parse ${name} request:`, e);
         return null;
       }
     }
-    
-    console.error('Expected EXECUTE command, got:', line);
-    return null;
+
+    const id = payload.id === undefined ? undefined : String(payload.id);
+    switch (name) {
+      case 'EXECUTE':
+        return { type: 'execute', request: { ...payload, id } as ExecutionRequest };
+      case 'RESET':
+        return { type: 'reset', id };
+      default:
+        return { type: 'shutdown', id };
+    }
   }
   
   /**
-   * Start reading responses in the background
+   * Read commands and JSON-RPC responses in the background
    */
   private async startBackgroundReading(): Promise<void> {
     if (!this.lineReader) return;
@@ -113,15 +230,51 @@ class ThuvuBridge {
       const trimmed = line.trim();
       if (!trimmed) continue;
       
-      // Try to parse as JSON-RPC response
+      // Try to parse as JSON-RPC response or notification
       if (trimmed.startsWith('{')) {
         try {
-          const response: JsonRpcResponse = JSON.parse(trimmed);
-          this.handleResponse(response);
-        } catch (e) {
+          const message = JSON.parse(trimmed);
+          if (message.id === undefined && typeof message.method === 'string') {
+            this.handleNotification(message);
+          } else {
+            this.handleResponse(message);
+          }
+        } catch {
           // Not valid JSON, ignore
         }
+        continue;
       }
+
+      const command = this.parseCommand(trimmed);
+      if (command) {
+        this.pushCommand(command);
+      } else {
+        console.error('Unknown command:', trimmed);
+      }
+    }
+
+    // stdin closed: release anyone waiting for a command
+    this.inputClosed = true;
+    for (const waiter of this.commandWaiters.splice(0)) {
+      waiter(null);
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC notification from C#. Only `$/progress` is understood;
+   * progress for calls that already finished is dropped.
+   */
+  handleNotification(notification: JsonRpcNotification): void {
+    if (notification.method !== '$/progress') return;
+
+    const progress = notification.params as unknown as ToolProgress;
+    const handler = this.progressHandlers.get(progress.token);
+    if (!handler) return;
+
+    try {
+      handler(progress);
+    } catch (e) {
+      console.error('onProgress handler threw:', e);
     }
   }
 
@@ -137,34 +290,180 @@ class ThuvuBridge {
     this.pendingRequests.delete(response.id);
 
     if (response.error) {
-      pending.reject(new Error(response.error.message));
+      pending.reject(toolErrorFromResponse(pending.toolName, pending.args, response.error));
     } else {
       pending.resolve(response.result);
     }
   }
 
-  async call<T = unknown>(toolName: string, args: Record<string, unknown>): Promise<T> {
+  /**
+   * Tool calls still waiting for a response from the host
+   */
+  inFlight(): InFlightCall[] {
+    const now = performance.now();
+    return [...this.pendingRequests].map(([id, pending]) => ({
+      id,
+      tool: pending.toolName,
+      elapsedMs: Math.round(now - pending.startTime),
+    }));
+  }
+
+  /**
+   * Start a new execution for a snippet
+   */
+  createExecution(): Execution {
+    return { id: ++this.executionId };
+  }
+
+  /**
+   * Run a snippet as an execution. Host calls it makes, including from
+   * timers and promises it leaves behind, belong to that execution.
+   */
+  runExecution<T>(execution: Execution, fn: () => Promise<T>): Promise<T> {
+    return this.executions.run(execution, fn);
+  }
+
+  /**
+   * Mark an execution as timed out: its pending tool calls are rejected
+   * with a ToolTimeoutError, and so is every call it makes afterwards.
+   * Late responses from the host for the rejected ids are ignored.
+   */
+  expireExecution(execution: Execution, timeoutMs: number): void {
+    execution.expiredAfterMs = timeoutMs;
+    for (const [id, pending] of this.pendingRequests) {
+      if (pending.execution !== execution) continue;
+      this.pendingRequests.delete(id);
+      pending.reject(new ToolTimeoutError(
+        pending.toolName,
+        pending.args,
+        `${pending.toolName} did not complete before the ${timeoutMs}ms execution timeout`
+      ));
+    }
+  }
+
+  /**
+   * Tell the host to stop working on a request. JSON-RPC notifications
+   * have no id, so the host never answers them.
+   */
+  private async sendCancel(id: number): Promise<void> {
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method: '$/cancelRequest',
+      params: { id },
+    };
+    await Deno.stdout.write(this.encoder.encode(JSON.stringify(notification) + '\n'));
+  }
+
+  /**
+   * Call a host tool
+   * @param toolName - Tool name as registered on the host
+   * @param args - Tool arguments (any of the *Args interfaces)
+   * @param options - An AbortSignal that abandons the call, and a progress callback
+   * @throws ThuvuToolError subclass if the host reports an error;
+   *         InvalidArgumentsError if the arguments do not match the tool's schema;
+   *         PermissionDeniedError if the policy gate refuses the call;
+   *         ToolAbortedError (named AbortError) if the signal aborts first;
+   *         ToolTimeoutError if the calling execution has timed out
+   */
+  async call<T = unknown>(toolName: string, toolArgs: object, options: CallOptions = {}): Promise<T> {
+    if (options.signal?.aborted) {
+      throw new ToolAbortedError(toolName, toolArgs as Record<string, unknown>, `${toolName} was aborted`);
+    }
+
+    // Catch malformed arguments here rather than as a confusing host error
+    const args = checkToolArguments(toolName, toolArgs as Record<string, unknown>);
+
+    if (this.gate) {
+      const entry = await this.gate.authorize(toolName, args, (tool, toolArgs, decision) =>
+        this.requestApproval(tool, toolArgs, decision, options.signal)
+      );
+      if (!entry.allowed) {
+        throw new PermissionDeniedError(toolName, args, `${toolName} denied by policy: ${entry.reason}`, { data: entry });
+      }
+    }
+
+    return await this.send<T>(toolName, args, options);
+  }
+
+  /**
+   * Ask the host to approve a call the policy marks as 'ask'. The host
+   * answers `{ approved: boolean }`, typically after prompting the user.
+   */
+  private async requestApproval(
+    tool: string,
+    args: Record<string, unknown>,
+    decision: GateDecision,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const answer = await this.send<{ approved?: boolean }>(
+      '$/requestApproval',
+      { tool, args, reason: decision.reason, checks: decision.checks },
+      { signal }
+    );
+    return answer?.approved === true;
+  }
+
+  /**
+   * Send a JSON-RPC request to the host and wait for its response
+   */
+  private async send<T>(toolName: string, args: Record<string, unknown>, options: CallOptions): Promise<T> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      throw new ToolAbortedError(toolName, args, `${toolName} was aborted`);
+    }
+    const execution = this.executions.getStore();
+    if (execution?.expiredAfterMs !== undefined) {
+      throw new ToolTimeoutError(
+        toolName,
+        args,
+        `${toolName} was called after the ${execution.expiredAfterMs}ms execution timeout`
+      );
+    }
+
     const id = ++this.requestId;
     
     const request: JsonRpcRequest = {
       jsonrpc: '2.0',
       id,
       method: toolName,
-      params: args,
+      params: onProgress ? { ...args, _meta: { progressToken: id } } : args,
+    };
+
+    const onAbort = () => {
+      const pending = this.pendingRequests.get(id);
+      if (!pending) return;
+
+      this.pendingRequests.delete(id);
+      pending.reject(new ToolAbortedError(toolName, args, `${toolName} was aborted`));
+      this.sendCancel(id).catch(console.error);
     };
 
     const promise = new Promise<T>((resolve, reject) => {
       this.pendingRequests.set(id, {
+        execution,
+        toolName,
+        args,
+        startTime: performance.now(),
         resolve: resolve as (value: unknown) => void,
         reject,
       });
     });
 
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (onProgress) {
+      this.progressHandlers.set(id, onProgress);
+    }
+
     // Write request to stdout
     const line = JSON.stringify(request) + '\n';
     await Deno.stdout.write(this.encoder.encode(line));
 
-    return promise;
+    try {
+      return await promise;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.progressHandlers.delete(id);
+    }
   }
 }
 
@@ -0,0 +1,66 @@
+/**
+ * Tests for tagging host calls with the execution that made them
+ *
+ * Run with: deno test --allow-read mcp/runtime/bridge_test.ts
+ */
+
+import { deepEqual, equal, rejects } from 'node:assert/strict';
+import { bridge } from './bridge.ts';
+import { ToolTimeoutError } from './errors.ts';
+
+/**
+ * Capture the JSON-RPC requests the bridge writes to stdout
+ */
+function captureRequests(): { requests: { id: number; method: string }[]; restore: () => void } {
+  const requests: { id: number; method: string }[] = [];
+  const write = Deno.stdout.write;
+  Deno.stdout.write = (data: Uint8Array) => {
+    requests.push(JSON.parse(new TextDecoder().decode(data)));
+    return Promise.resolve(data.length);
+  };
+  return { requests, restore: () => Deno.stdout.write = write };
+}
+
+Deno.test('a timed-out execution cannot reach the host any more', async () => {
+  const { requests, restore } = captureRequests();
+  try {
+    const timedOut = bridge.createExecution();
+    let resume!: () => void;
+    const resumed = new Promise<void>(resolve => resume = resolve);
+
+    const snippet = bridge.runExecution(timedOut, async () => {
+      const pending = bridge.call('read_file', { path: 'a.txt' });
+      await resumed;
+      // Left behind by the snippet, as a timer would be
+      const late = bridge.call('read_file', { path: 'b.txt' });
+      return { pending, late };
+    });
+
+    // The host has the first call when the execution times out
+    await Promise.resolve();
+    equal(requests.length, 1);
+    bridge.expireExecution(timedOut, 500);
+    resume();
+    const { pending, late } = await snippet;
+
+    await rejects(pending, (error: unknown) =>
+      error instanceof ToolTimeoutError &&
+      error.message === 'read_file did not complete before the 500ms execution timeout'
+    );
+    await rejects(late, (error: unknown) =>
+      error instanceof ToolTimeoutError &&
+      error.message === 'read_file was called after the 500ms execution timeout'
+    );
+    equal(requests.length, 1);
+
+    // The next execution is not affected, and the late answer is ignored
+    const next = bridge.runExecution(bridge.createExecution(), () => bridge.call('read_file', { path: 'c.txt' }));
+    await Promise.resolve();
+    bridge.handleResponse({ jsonrpc: '2.0', id: requests[0].id, result: { content: 'stale' } });
+    bridge.handleResponse({ jsonrpc: '2.0', id: requests[1].id, result: { content: 'fresh' } });
+    deepEqual(await next, { content: 'fresh' });
+    deepEqual(requests.map(r => r.method), ['read_file', 'read_file']);
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,337 @@
+/**
+ * Encoder and decoder for values returned by sandboxed code
+ *
+ * The RESULT line must be plain JSON, but scripts return Maps, BigInts,
+ * bytes, Errors and object graphs with cycles. encodeResult() turns any
+ * value into JSON-safe data; values JSON cannot express become tagged
+ * objects with a `$type` field:
+ *
+ *   { $type: 'undefined' }
+ *   { $type: 'number', value: 'NaN' | 'Infinity' | '-Infinity' | '-0' }
+ *   { $type: 'bigint', value: '12345678901234567890' }
+ *   { $type: 'date', value: '2024-01-01T00:00:00.000Z' }   (value null for invalid dates)
+ *   { $type: 'regexp', source, flags }
+ *   { $type: 'map', entries: [[key, value], ...] }
+ *   { $type: 'set', values: [...] }
+ *   { $type: 'bytes', kind: 'Uint8Array' | 'ArrayBuffer' | ..., base64 }
+ *   { $type: 'error', name, message, stack?, cause?, props? }
+ *   { $type: 'function', name }
+ *   { $type: 'symbol', description }
+ *   { $type: 'ref', path: '$.a[0]' }       (a value already encoded at that path: a cycle or shared object)
+ *   { $type: 'truncated', reason: 'depth' | 'size', preview }
+ *   { $type: 'object', value: { ... } }    (an object that has its own `$type` key, escaped)
+ *
+ * Everything else is encoded as itself. decodeResult() reverses the
+ * encoding; truncated values stay as their tagged objects, and functions and
+ * symbols decode to descriptive placeholders since they cannot cross the
+ * process boundary.
+ */
+
+export interface EncodeOptions {
+  /** Maximum nesting depth (default 32) */
+  maxDepth?: number;
+  /** Approximate maximum size of the encoded JSON in characters (default 1000000) */
+  maxSize?: number;
+}
+
+export interface EncodedResult {
+  value: unknown;
+  /** Some values were replaced by `{ $type: 'truncated' }` */
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 32;
+const DEFAULT_MAX_SIZE = 1_000_000;
+
+/** Characters of a truncated value kept as its preview */
+const PREVIEW_LENGTH = 80;
+
+type Tagged = { $type: string; [key: string]: unknown };
+
+function isTagged(value: unknown): value is Tagged {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    typeof (value as Tagged).$type === 'string';
+}
+
+function pathOf(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/** Views the encoder records by constructor name in `kind` */
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => ArrayBufferView> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+  DataView,
+};
+
+/**
+ * Rebuild binary data as the kind it was encoded from; subclasses the
+ * decoder does not know (Node's Buffer) come back as Uint8Array
+ */
+function fromBytes(kind: unknown, bytes: Uint8Array): ArrayBuffer | ArrayBufferView {
+  const buffer = bytes.buffer as ArrayBuffer;
+  if (kind === 'ArrayBuffer') return buffer;
+  const View = TYPED_ARRAYS[kind as string];
+  // A view whose length is not a multiple of its element size cannot be rebuilt
+  try {
+    return View ? new View(buffer) : bytes;
+  } catch {
+    return bytes;
+  }
+}
+
+function preview(value: unknown): string {
+  const text = Deno.inspect(value, { depth: 1, colors: false, iterableLimit: 10 });
+  return text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) + '…' : text;
+}
+
+/**
+ * Encode a value for the RESULT line
+ * @param value - Anything a script returned
+ * @param options - Depth and size budget
+ */
+export function encodeResult(value: unknown, options: EncodeOptions = {}): EncodedResult {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  const seen = new Map<object, string>();
+  let size = 0;
+  let truncated = false;
+
+  const truncate = (reason: 'depth' | 'size', original: unknown): Tagged => {
+    truncated = true;
+    return { $type: 'truncated', reason, preview: preview(original) };
+  };
+
+  const encode = (input: unknown, path: string, depth: number): unknown => {
+    // Refs are emitted even past the size budget: they are small, and a
+    // shared object must not turn into a copy or a placeholder the second time
+    const previous = input !== null && typeof input === 'object' ? seen.get(input) : undefined;
+    if (previous !== undefined) {
+      size += previous.length + 20;
+      return { $type: 'ref', path: previous };
+    }
+    if (size > maxSize) return truncate('size', input);
+
+    switch (typeof input) {
+      case 'string':
+        size += input.length + 2;
+        if (size > maxSize) return truncate('size', input);
+        return input;
+      case 'boolean':
+        size += 5;
+        return input;
+      case 'number':
+        size += 8;
+        if (Number.isNaN(input) || !Number.isFinite(input)) return { $type: 'number', value: String(input) };
+        if (Object.is(input, -0)) return { $type: 'number', value: '-0' };
+        return input;
+      case 'bigint':
+        size += 20;
+        return { $type: 'bigint', value: input.toString() };
+      case 'undefined':
+        size += 20;
+        return { $type: 'undefined' };
+      case 'function':
+        size += 30;
+        return { $type: 'function', name: input.name };
+      case 'symbol':
+        size += 30;
+        return { $type: 'symbol', description: input.description ?? null };
+    }
+
+    if (input === null) {
+      size += 4;
+      return null;
+    }
+
+    const object = input as object;
+    if (depth >= maxDepth) return truncate('depth', object);
+    seen.set(object, path);
+    size += 2;
+
+    if (object instanceof Date) {
+      size += 30;
+      return { $type: 'date', value: Number.isNaN(object.getTime()) ? null : object.toISOString() };
+    }
+    if (object instanceof RegExp) {
+      size += object.source.length + 30;
+      return { $type: 'regexp', source: object.source, flags: object.flags };
+    }
+    if (object instanceof ArrayBuffer || ArrayBuffer.isView(object)) {
+      const bytes = object instanceof ArrayBuffer
+        ? new Uint8Array(object)
+        : new Uint8Array(object.buffer, object.byteOffset, object.byteLength);
+      size += Math.ceil(bytes.length / 3) * 4 + 40;
+      if (size > maxSize) return truncate('size', object);
+      return { $type: 'bytes', kind: object.constructor.name, base64: toBase64(bytes) };
+    }
+    if (object instanceof Error) {
+      const props: Record<string, unknown> = {};
+      for (const [key, prop] of Object.entries(object)) {
+        props[key] = encode(prop, pathOf(`${path}.props`, key), depth + 1);
+      }
+      size += object.message.length + (object.stack?.length ?? 0) + 40;
+      return {
+        $type: 'error',
+        name: object.name,
+        message: object.message,
+        stack: object.stack,
+        cause: object.cause === undefined ? undefined : encode(object.cause, `${path}.cause`, depth + 1),
+        props: Object.keys(props).length > 0 ? props : undefined,
+      };
+    }
+    if (object instanceof Map) {
+      const entries: unknown[] = [];
+      let i = 0;
+      for (const [key, entry] of object) {
+        const entryPath = `${path}.entries[${i++}]`;
+        entries.push([encode(key, `${entryPath}[0]`, depth + 1), encode(entry, `${entryPath}[1]`, depth + 1)]);
+      }
+      return { $type: 'map', entries };
+    }
+    if (object instanceof Set) {
+      let i = 0;
+      return { $type: 'set', values: [...object].map(v => encode(v, `${path}.values[${i++}]`, depth + 1)) };
+    }
+    if (Array.isArray(object)) {
+      return object.map((item, i) => encode(item, pathOf(path, i), depth + 1));
+    }
+
+    // Honour toJSON (URL, user classes) like JSON.stringify does
+    const json = (object as { toJSON?: () => unknown }).toJSON;
+    if (typeof json === 'function') {
+      return encode(json.call(object), path, depth);
+    }
+
+    const encoded: Record<string, unknown> = {};
+    for (const [key, prop] of Object.entries(object)) {
+      size += key.length + 4;
+      encoded[key] = encode(prop, pathOf(isTagged(object) ? `${path}.value` : path, key), depth + 1);
+    }
+    return isTagged(object) ? { $type: 'object', value: encoded } : encoded;
+  };
+
+  const encoded = encode(value, '$', 0);
+  return { value: encoded, truncated };
+}
+
+/**
+ * Decode a value produced by encodeResult
+ * @param encoded - The `result` field of a RESULT line
+ */
+export function decodeResult(encoded: unknown): unknown {
+  // The encoder emits a ref only after the value at its path, and containers
+  // are registered before their children, so every ref resolves on sight.
+  // Every decoded value is recorded, not just objects: a ref can point at a
+  // primitive returned by toJSON or at a value the size budget truncated.
+  const byPath = new Map<string, unknown>();
+
+  const decode = (input: unknown, path: string): unknown => {
+    const decoded = decodeAt(input, path);
+    byPath.set(path, decoded);
+    return decoded;
+  };
+
+  const decodeAt = (input: unknown, path: string): unknown => {
+    if (input === null || typeof input !== 'object') return input;
+
+    if (Array.isArray(input)) {
+      const array: unknown[] = [];
+      byPath.set(path, array);
+      input.forEach((item, i) => array.push(decode(item, pathOf(path, i))));
+      return array;
+    }
+
+    if (!isTagged(input)) {
+      const object: Record<string, unknown> = {};
+      byPath.set(path, object);
+      for (const [key, prop] of Object.entries(input)) {
+        object[key] = decode(prop, pathOf(path, key));
+      }
+      return object;
+    }
+
+    switch (input.$type) {
+      case 'undefined':
+        return undefined;
+      case 'number':
+        return input.value === '-0' ? -0 : Number(input.value);
+      case 'bigint':
+        return BigInt(input.value as string);
+      case 'ref':
+        return byPath.get(input.path as string);
+      case 'function':
+        return `[Function ${input.name || '(anonymous)'}]`;
+      case 'symbol':
+        return `Symbol(${input.description ?? ''})`;
+      case 'date':
+        return new Date(input.value === null ? NaN : input.value as string);
+      case 'regexp':
+        return new RegExp(input.source as string, input.flags as string);
+      case 'bytes':
+        return fromBytes(input.kind, fromBase64(input.base64 as string));
+      case 'error': {
+        const error = new Error(input.message as string);
+        error.name = input.name as string;
+        if (input.stack !== undefined) error.stack = input.stack as string;
+        byPath.set(path, error);
+        // Same order as the encoder: own properties, then cause
+        for (const [key, prop] of Object.entries((input.props ?? {}) as Record<string, unknown>)) {
+          (error as unknown as Record<string, unknown>)[key] = decode(prop, pathOf(`${path}.props`, key));
+        }
+        if (input.cause !== undefined) error.cause = decode(input.cause, `${path}.cause`);
+        return error;
+      }
+      case 'map': {
+        const map = new Map<unknown, unknown>();
+        byPath.set(path, map);
+        (input.entries as Array<[unknown, unknown]>).forEach(([key, value], i) => {
+          const entryPath = `${path}.entries[${i}]`;
+          map.set(decode(key, `${entryPath}[0]`), decode(value, `${entryPath}[1]`));
+        });
+        return map;
+      }
+      case 'set': {
+        const set = new Set<unknown>();
+        byPath.set(path, set);
+        (input.values as unknown[]).forEach((value, i) => set.add(decode(value, `${path}.values[${i}]`)));
+        return set;
+      }
+      case 'object': {
+        const object: Record<string, unknown> = {};
+        byPath.set(path, object);
+        for (const [key, prop] of Object.entries(input.value as Record<string, unknown>)) {
+          object[key] = decode(prop, pathOf(`${path}.value`, key));
+        }
+        return object;
+      }
+      default:
+        // 'truncated' and unknown tags stay as they are
+        return input;
+    }
+  };
+
+  return decode(encoded, '$');
+}
@@ -0,0 +1,120 @@
+/**
+ * Tests for encoding results and decoding them back
+ *
+ * Run with: deno test mcp/runtime/codec_test.ts
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import { decodeResult, encodeResult, EncodeOptions } from './codec.ts';
+
+/** Encode, send through JSON as the RESULT line does, and decode */
+function roundTrip(value: unknown, options?: EncodeOptions): unknown {
+  return decodeResult(JSON.parse(JSON.stringify(encodeResult(value, options).value)));
+}
+
+Deno.test('values JSON cannot express survive a round trip', () => {
+  const value = {
+    map: new Map<unknown, unknown>([['a', 1], [{ key: true }, [2n]]]),
+    set: new Set(['x', undefined]),
+    big: 12345678901234567890n,
+    date: new Date('2024-01-01T00:00:00.000Z'),
+    invalid: new Date(NaN),
+    pattern: /a+b/gi,
+    numbers: [NaN, Infinity, -Infinity, -0],
+    tagged: { $type: 'user data' },
+  };
+
+  const decoded = roundTrip(value) as typeof value;
+  deepEqual(decoded, value);
+  ok(Object.is(decoded.numbers[3], -0));
+  ok(Number.isNaN(decoded.invalid.getTime()));
+});
+
+Deno.test('binary data decodes as the kind it was', () => {
+  const floats = new Float64Array([1.5, -2]);
+  const decoded = roundTrip({
+    bytes: new Uint8Array([1, 2, 255]),
+    shorts: new Int16Array([-1, 300]),
+    floats,
+    bigs: new BigUint64Array([2n ** 64n - 1n]),
+    buffer: new Uint8Array([7, 8]).buffer,
+    view: new DataView(new Uint8Array([9]).buffer),
+    slice: new Uint32Array([1, 2, 3]).subarray(1),
+  }) as Record<string, unknown>;
+
+  deepEqual(decoded.bytes, new Uint8Array([1, 2, 255]));
+  deepEqual(decoded.shorts, new Int16Array([-1, 300]));
+  deepEqual(decoded.floats, floats);
+  deepEqual(decoded.bigs, new BigUint64Array([2n ** 64n - 1n]));
+  ok(decoded.buffer instanceof ArrayBuffer);
+  deepEqual(new Uint8Array(decoded.buffer), new Uint8Array([7, 8]));
+  ok(decoded.view instanceof DataView);
+  equal(decoded.view.getUint8(0), 9);
+  deepEqual(decoded.slice, new Uint32Array([2, 3]));
+});
+
+Deno.test('errors keep their name, message, cause and properties', () => {
+  const error = Object.assign(new TypeError('bad input', { cause: new Error('root') }), { code: 42 });
+  const decoded = roundTrip(error) as TypeError & { code: number };
+
+  ok(decoded instanceof Error);
+  equal(decoded.name, 'TypeError');
+  equal(decoded.message, 'bad input');
+  equal(decoded.code, 42);
+  equal((decoded.cause as Error).message, 'root');
+  equal(decoded.stack, error.stack);
+});
+
+Deno.test('cycles and shared objects decode to the same instances', () => {
+  const shared = { name: 'shared' };
+  const node: Record<string, unknown> = { shared, list: [shared] };
+  node.self = node;
+  node.map = new Map([['back', node]]);
+
+  const decoded = roundTrip(node) as typeof node;
+  equal(decoded.self, decoded);
+  equal((decoded.list as unknown[])[0], decoded.shared);
+  equal((decoded.map as Map<string, unknown>).get('back'), decoded);
+});
+
+Deno.test('a primitive from toJSON that appears twice decodes at both places', () => {
+  const url = new URL('https://example.com/a');
+  const stamp = { toJSON: () => 7 };
+  deepEqual(roundTrip({ first: url, second: url, stamps: [stamp, stamp] }), {
+    first: 'https://example.com/a',
+    second: 'https://example.com/a',
+    stamps: [7, 7],
+  });
+});
+
+Deno.test('values past the depth and size budgets are truncated with a preview', () => {
+  const deep = { a: { b: { c: { d: 1 } } } };
+  const byDepth = encodeResult(deep, { maxDepth: 2 });
+  ok(byDepth.truncated);
+  deepEqual(decodeResult(byDepth.value), {
+    a: { b: { $type: 'truncated', reason: 'depth', preview: '{ c: { d: 1 } }' } },
+  });
+
+  const bySize = encodeResult(['x'.repeat(50), 'y'.repeat(50)], { maxSize: 60 });
+  ok(bySize.truncated);
+  const [kept, cut] = decodeResult(bySize.value) as [string, { $type: string; reason: string }];
+  equal(kept, 'x'.repeat(50));
+  deepEqual([cut.$type, cut.reason], ['truncated', 'size']);
+  equal(encodeResult('small').truncated, false);
+});
+
+Deno.test('shared values stay shared after the size budget runs out', () => {
+  const shared = { name: 'shared' };
+  const encoded = encodeResult([shared, 'x'.repeat(100), shared], { maxSize: 60 });
+  ok(encoded.truncated);
+  const decoded = decodeResult(encoded.value) as unknown[];
+  equal(decoded[2], decoded[0]);
+  equal((decoded[1] as { $type: string }).$type, 'truncated');
+
+  // A value cut by the budget is referred to as its placeholder
+  const bytes = new Uint8Array(100);
+  const cut = decodeResult(encodeResult({ first: bytes, again: bytes }, { maxSize: 50 }).value);
+  const { first, again } = cut as Record<string, { $type: string }>;
+  equal(first.$type, 'truncated');
+  equal(again, first);
+});
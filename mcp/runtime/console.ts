@@ -0,0 +1,235 @@
+/**
+ * Console capture for sandboxed code
+ *
+ * Replaces the console methods while a snippet runs and records every call
+ * as an ordered `{ level, time, text }` entry. Values are formatted with
+ * Deno.inspect, so circular and exotic objects print instead of throwing,
+ * and console.table renders as a text table.
+ */
+
+export type ConsoleLevel = 'log' | 'info' | 'debug' | 'warn' | 'error' | 'trace';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  /** Milliseconds since the Unix epoch */
+  time: number;
+  text: string;
+}
+
+export interface ConsoleLimits {
+  /** Maximum characters per entry (default 10000) */
+  maxLineLength?: number;
+  /** Maximum characters across all entries (default 100000) */
+  maxTotalLength?: number;
+}
+
+const DEFAULT_MAX_LINE_LENGTH = 10_000;
+const DEFAULT_MAX_TOTAL_LENGTH = 100_000;
+
+/** Console methods replaced while capturing */
+const CAPTURED_METHODS = ['log', 'info', 'debug', 'warn', 'error', 'trace', 'dir', 'table', 'assert'] as const;
+
+type CapturedMethod = typeof CAPTURED_METHODS[number];
+
+const INSPECT_OPTIONS: Deno.InspectOptions = { depth: 4, colors: false, iterableLimit: 100 };
+
+/** printf-style specifiers console.log substitutes in a leading string */
+const FORMAT_SPECIFIER = /%([sdifoOjc%])/g;
+
+function substitute(specifier: string, value: unknown): string {
+  switch (specifier) {
+    case 's':
+      return typeof value === 'string' ? value : Deno.inspect(value, { ...INSPECT_OPTIONS, depth: 1 });
+    case 'd':
+    case 'i':
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'symbol') return 'NaN';
+      return String(specifier === 'd' ? Number(value) : parseInt(String(value)));
+    case 'f':
+      return typeof value === 'symbol' ? 'NaN' : String(parseFloat(String(value)));
+    case 'j':
+      try {
+        return JSON.stringify(value);
+      } catch {
+        return '[Circular]';
+      }
+    case 'c':
+      // CSS has no meaning in captured text
+      return '';
+    default:
+      return Deno.inspect(value, INSPECT_OPTIONS);
+  }
+}
+
+/**
+ * Format console arguments the way console.log does: a leading string has
+ * its %s, %d, %i, %f, %o, %O, %j and %c specifiers replaced by the arguments
+ * after it, then remaining strings print as-is and everything else through
+ * Deno.inspect
+ */
+export function formatArgs(args: unknown[]): string {
+  let rest = args;
+  let head: string | undefined;
+  if (typeof args[0] === 'string' && args.length > 1) {
+    let next = 1;
+    head = args[0].replace(FORMAT_SPECIFIER, (match, specifier: string) => {
+      if (specifier === '%') return '%';
+      if (next >= args.length) return match;
+      return substitute(specifier, args[next++]);
+    });
+    rest = args.slice(next);
+  }
+
+  const parts = rest.map(a => typeof a === 'string' ? a : Deno.inspect(a, INSPECT_OPTIONS));
+  return (head === undefined ? parts : [head, ...parts]).join(' ');
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : Deno.inspect(value, { ...INSPECT_OPTIONS, depth: 1 });
+}
+
+/**
+ * Render tabular data as a text table with an (index) column,
+ * like console.table
+ * @param data - An array or object of rows; primitive rows go in a Values column
+ * @param columns - Optional subset of columns to show
+ */
+export function renderTable(data: unknown, columns?: string[]): string {
+  if (data === null || typeof data !== 'object') {
+    return formatArgs([data]);
+  }
+
+  const entries: Array<[string, unknown]> = data instanceof Map
+    ? [...data].map(([k, v]) => [cellText(k), v])
+    : Array.isArray(data) || data instanceof Set
+    ? [...data].map((v, i) => [String(i), v])
+    : Object.entries(data);
+
+  const keys: string[] = [];
+  let hasValues = false;
+  for (const [, row] of entries) {
+    if (row !== null && typeof row === 'object') {
+      for (const key of Object.keys(row)) {
+        if (!keys.includes(key)) keys.push(key);
+      }
+    } else {
+      hasValues = true;
+    }
+  }
+
+  const header = ['(index)', ...(columns ?? keys), ...(hasValues ? ['Values'] : [])];
+  const rows = entries.map(([index, row]) => {
+    const isObject = row !== null && typeof row === 'object';
+    const cells = (columns ?? keys).map(key => isObject ? cellText((row as Record<string, unknown>)[key]) : '');
+    return [index, ...cells, ...(hasValues ? [isObject ? '' : cellText(row)] : [])];
+  });
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => '│ ' + cells.map((c, i) => c.padEnd(widths[i])).join(' │ ') + ' │';
+  const rule = (left: string, mid: string, right: string) =>
+    left + widths.map(w => '─'.repeat(w + 2)).join(mid) + right;
+
+  return [
+    rule('┌', '┬', '┐'),
+    line(header),
+    rule('├', '┼', '┤'),
+    ...rows.map(line),
+    rule('└', '┴', '┘'),
+  ].join('\n');
+}
+
+/**
+ * Records console output of a running snippet
+ */
+export class ConsoleCapture {
+  readonly entries: ConsoleEntry[] = [];
+  /** Entries dropped after the total limit was reached */
+  private dropped = 0;
+  private shortened = false;
+  private totalLength = 0;
+  private originals = new Map<CapturedMethod, (...args: unknown[]) => void>();
+  private readonly maxLineLength: number;
+  private readonly maxTotalLength: number;
+
+  constructor(limits: ConsoleLimits = {}) {
+    this.maxLineLength = limits.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+    this.maxTotalLength = limits.maxTotalLength ?? DEFAULT_MAX_TOTAL_LENGTH;
+  }
+
+  /** Whether any entry was shortened or dropped */
+  get truncated(): boolean {
+    return this.dropped > 0 || this.shortened;
+  }
+
+  /**
+   * Replace the console methods until restore() is called
+   */
+  install(): void {
+    const target = console as unknown as Record<CapturedMethod, (...args: unknown[]) => void>;
+    for (const method of CAPTURED_METHODS) {
+      this.originals.set(method, target[method]);
+    }
+
+    target.log = (...args) => this.record('log', formatArgs(args));
+    target.info = (...args) => this.record('info', formatArgs(args));
+    target.debug = (...args) => this.record('debug', formatArgs(args));
+    target.warn = (...args) => this.record('warn', formatArgs(args));
+    target.error = (...args) => this.record('error', formatArgs(args));
+    target.dir = (value) => this.record('log', formatArgs([value]));
+    target.trace = (...args) => {
+      const stack = new Error().stack?.split('\n').slice(2).join('\n') ?? '';
+      this.record('trace', `Trace: ${formatArgs(args)}\n${stack}`);
+    };
+    target.table = (data, columns) => this.record('log', renderTable(data, columns as string[] | undefined));
+    target.assert = (condition, ...args) => {
+      if (!condition) {
+        this.record('error', `Assertion failed${args.length ? ': ' + formatArgs(args) : ''}`);
+      }
+    };
+  }
+
+  /**
+   * Put the original console methods back
+   */
+  restore(): void {
+    const target = console as unknown as Record<CapturedMethod, (...args: unknown[]) => void>;
+    for (const [method, original] of this.originals) {
+      target[method] = original;
+    }
+    this.originals.clear();
+  }
+
+  private record(level: ConsoleLevel, text: string): void {
+    // Mirror to stderr so it appears in debug output
+    this.originals.get('error')?.('[CODE OUTPUT]', text);
+
+    if (this.totalLength >= this.maxTotalLength) {
+      this.dropped++;
+      return;
+    }
+
+    // The limits count captured characters, not the truncation marker
+    const limit = Math.min(this.maxLineLength, this.maxTotalLength - this.totalLength);
+    this.totalLength += Math.min(text.length, limit);
+    if (text.length > limit) {
+      text = `${text.slice(0, limit)}…[${text.length - limit} more chars]`;
+      this.shortened = true;
+    }
+
+    this.entries.push({ level, time: Date.now(), text });
+  }
+
+  /**
+   * Plain-text output for ExecutionResult.output. Entries other than
+   * log are prefixed with their level; dropped entries are counted at the end.
+   * @returns The text, or undefined if nothing was printed
+   */
+  text(): string | undefined {
+    const lines = this.entries.map(e => e.level === 'log' ? e.text : `[${e.level}] ${e.text}`);
+    if (this.dropped > 0) {
+      lines.push(`[output truncated: ${this.dropped} more entries after ${this.maxTotalLength} characters]`);
+    }
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for console capture, formatting and output limits
+ *
+ * Run with: deno test mcp/runtime/console_test.ts
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import { ConsoleCapture, ConsoleLimits, formatArgs, renderTable } from './console.ts';
+
+/** Run `print` with the console captured and return the capture */
+function capture(print: () => void, limits?: ConsoleLimits): ConsoleCapture {
+  const capture = new ConsoleCapture(limits);
+  capture.install();
+  try {
+    print();
+  } finally {
+    capture.restore();
+  }
+  return capture;
+}
+
+Deno.test('every console method is recorded in order with its level', () => {
+  const { entries } = capture(() => {
+    console.log('one');
+    console.warn('two');
+    console.error('three');
+    console.info('four');
+    console.assert(false, 'five');
+    console.assert(true, 'never');
+  });
+
+  deepEqual(entries.map(e => [e.level, e.text]), [
+    ['log', 'one'],
+    ['warn', 'two'],
+    ['error', 'three'],
+    ['info', 'four'],
+    ['error', 'Assertion failed: five'],
+  ]);
+  ok(entries.every(e => typeof e.time === 'number'));
+});
+
+Deno.test('format specifiers in a leading string are substituted', () => {
+  equal(formatArgs(['%s has %d items (%i%%)', 'cart', 3, 42.9]), 'cart has 3 items (42%)');
+  equal(formatArgs(['%f and %o', '1.5', { a: 1 }]), '1.5 and { a: 1 }');
+  equal(formatArgs(['%j %c styled', { a: [1] }, 'color: red']), '{"a":[1]}  styled');
+  equal(formatArgs(['%s left over', 'a', 'b', 2]), 'a left over b 2');
+  equal(formatArgs(['%s and %s', 'only one']), 'only one and %s');
+  equal(formatArgs(['100%']), '100%');
+  equal(formatArgs([1, '%s']), '1 %s');
+
+  const circular: Record<string, unknown> = {};
+  circular.self = circular;
+  equal(formatArgs(['%j', circular]), '[Circular]');
+  equal(formatArgs([circular]), '<ref *1> { self: [Circular *1] }');
+});
+
+Deno.test('entries longer than the line cap are shortened with a marker', () => {
+  const result = capture(() => {
+    console.log('x'.repeat(25));
+    console.log('short');
+  }, { maxLineLength: 10 });
+
+  deepEqual(result.entries.map(e => e.text), ['xxxxxxxxxx…[15 more chars]', 'short']);
+  ok(result.truncated);
+});
+
+Deno.test('entries past the total cap are dropped and counted', () => {
+  const result = capture(() => {
+    console.log('a'.repeat(12));
+    console.warn('b'.repeat(12));
+    console.log('dropped');
+    console.error('dropped too');
+  }, { maxTotalLength: 20 });
+
+  equal(result.text(), [
+    'a'.repeat(12),
+    `[warn] ${'b'.repeat(8)}…[4 more chars]`,
+    '[output truncated: 2 more entries after 20 characters]',
+  ].join('\n'));
+  ok(result.truncated);
+});
+
+Deno.test('output within the limits is not marked truncated', () => {
+  const result = capture(() => console.log('fine'), { maxLineLength: 4, maxTotalLength: 4 });
+  equal(result.text(), 'fine');
+  equal(result.truncated, false);
+  equal(capture(() => {}).text(), undefined);
+});
+
+Deno.test('tables render with an index column and only the chosen columns', () => {
+  equal(renderTable([{ a: 1, b: 'x' }, 2], ['a']), [
+    '┌─────────┬───┬────────┐',
+    '│ (index) │ a │ Values │',
+    '├─────────┼───┼────────┤',
+    '│ 0       │ 1 │        │',
+    '│ 1       │   │ 2      │',
+    '└─────────┴───┴────────┘',
+  ].join('\n'));
+});
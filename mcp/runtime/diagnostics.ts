@@ -0,0 +1,172 @@
+/**
+ * Type checking and error locations relative to the submitted snippet
+ *
+ * The sandbox runs a snippet inside a generated module (preamble, session
+ * bindings, async wrapper). Both the type checker and the V8 stack traces
+ * report positions in that module; these helpers translate them back to
+ * lines and columns of the code the agent actually wrote.
+ */
+
+import { extractImports, findUnmatchedCloser, SNIPPET_MARKER } from './session.ts';
+
+/** Resolves `thuvu/` imports, such as those of skills, as the sandbox does */
+const IMPORT_MAP = new URL('../import_map.json', import.meta.url);
+
+export interface SnippetDiagnostic {
+  /** 1-based line in the submitted code */
+  line: number;
+  /** 1-based column in the submitted code */
+  column: number;
+  /** TypeScript error code, e.g. TS2345 */
+  code: string;
+  message: string;
+}
+
+/**
+ * Number of generated lines before the snippet in a module
+ */
+export function snippetLineOffset(moduleSource: string): number {
+  const index = moduleSource.split('\n').findIndex(line => line.trim() === SNIPPET_MARKER);
+  return index === -1 ? 0 : index + 1;
+}
+
+/**
+ * Rewrite stack frames that point into the generated module so they point
+ * at the snippet instead. Frames in the preamble or the wrapper are dropped.
+ * @param stack - Error stack from the executed module
+ * @param moduleUrl - URL the module was imported from
+ * @param lineOffset - Generated lines before the snippet
+ * @param lineCount - Number of lines in the snippet
+ */
+export function remapStack(stack: string, moduleUrl: string, lineOffset: number, lineCount: number): string {
+  const escaped = moduleUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const frame = new RegExp(`${escaped}:(\\d+):(\\d+)`);
+
+  return stack
+    .split('\n')
+    .flatMap(line => {
+      const match = line.match(frame);
+      if (!match) return [line];
+
+      const snippetLine = Number(match[1]) - lineOffset;
+      if (snippetLine < 1 || snippetLine > lineCount) return [];
+      return [line.replace(frame, `<snippet>:${snippetLine}:${match[2]}`)];
+    })
+    .join('\n');
+}
+
+/**
+ * Build the module that is type-checked in place of the snippet.
+ * Top-level imports are hoisted (their lines stay, blanked) and the body goes
+ * into an async function so `await` and `return` check as they run.
+ * @param code - Snippet as submitted
+ * @param preamble - Tool imports injected into every snippet
+ * @param ambient - Names the snippet may use without declaring them (session bindings)
+ */
+export function buildCheckModule(code: string, preamble: string, ambient: string[] = []): string {
+  const { imports, body } = extractImports(code);
+  return [
+    preamble,
+    ...imports,
+    ...ambient.map(name => `declare let ${name}: any;`),
+    'export async function __snippet__(): Promise<unknown> {',
+    SNIPPET_MARKER,
+    body,
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Parse `deno check` output into diagnostics for one file.
+ * A diagnostic starts with a `TSnnnn [ERROR]: message` line, may continue
+ * the message on lines indented by two spaces, shows a code excerpt and
+ * ends with its location, `at <file>:<line>:<column>`.
+ * The output must be uncolored (NO_COLOR).
+ */
+export function parseDiagnostics(output: string, fileSuffix: string, lineOffset: number): SnippetDiagnostic[] {
+  const diagnostics: SnippetDiagnostic[] = [];
+  const lines = output.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(/^(?:error: )?(TS\d+) \[ERROR\]: (.*)$/);
+    if (!header) continue;
+
+    const message = [header[2]];
+    let j = i + 1;
+    for (; j < lines.length && !/^\s+at \S+:\d+:\d+$/.test(lines[j]); j++) {
+      if (/^ {2}\S/.test(lines[j])) message.push(lines[j].trim());
+    }
+    if (j >= lines.length) break;
+
+    const location = lines[j].match(/^\s+at (\S+):(\d+):(\d+)$/)!;
+    if (location[1].endsWith(fileSuffix)) {
+      diagnostics.push({
+        line: Number(location[2]) - lineOffset,
+        column: Number(location[3]),
+        code: header[1],
+        message: message.join('\n'),
+      });
+    }
+    i = j;
+  }
+  return diagnostics;
+}
+
+/**
+ * Report a closing bracket without an opener as the type checker would
+ * for a module. Checking it inside the wrapper would instead end the
+ * wrapper early and report errors at the wrong lines.
+ */
+function unmatchedCloserDiagnostic(code: string): SnippetDiagnostic | undefined {
+  const offset = findUnmatchedCloser(code);
+  if (offset === -1) return undefined;
+  const before = code.slice(0, offset).split('\n');
+  return {
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+    code: 'TS1128',
+    message: 'Declaration or statement expected.',
+  };
+}
+
+/**
+ * Type-check a snippet against the tool types and server signatures.
+ * Writes the check module to a temporary file and runs `deno check` on it,
+ * so nothing in the module, not even the preamble or the snippet's imports,
+ * is executed.
+ * Needs permission to run the Deno executable and to write the temporary
+ * directory, which the host grants at the execute level.
+ * @returns Diagnostics located in the snippet (empty if it type-checks)
+ * @throws Error if the sandbox may not run Deno
+ */
+export async function typeCheckSnippet(
+  code: string,
+  preamble: string,
+  ambient: string[] = []
+): Promise<SnippetDiagnostic[]> {
+  const unmatched = unmatchedCloserDiagnostic(code);
+  if (unmatched) return [unmatched];
+
+  const deno = Deno.execPath();
+  const { state } = await Deno.permissions.query({ name: 'run', command: deno });
+  if (state !== 'granted') {
+    throw new Error(`Type checking runs ${deno}, which this sandbox is not allowed to run; it needs the execute permission level`);
+  }
+
+  const source = buildCheckModule(code, preamble, ambient);
+  const file = await Deno.makeTempFile({ prefix: 'thuvu-check-', suffix: '.ts' });
+  try {
+    await Deno.writeTextFile(file, source);
+    const { stderr } = await new Deno.Command(deno, {
+      args: ['check', '--no-lock', '--quiet', `--import-map=${IMPORT_MAP.href}`, file],
+      env: { NO_COLOR: '1' },
+      stdin: 'null',
+      stdout: 'null',
+      stderr: 'piped',
+    }).output();
+    const name = file.split(/[\\/]/).pop()!;
+    return parseDiagnostics(new TextDecoder().decode(stderr), name, snippetLineOffset(source));
+  } finally {
+    await Deno.remove(file).catch(() => {});
+  }
+}
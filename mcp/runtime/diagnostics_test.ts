@@ -0,0 +1,97 @@
+/**
+ * Tests for type-checking snippets and mapping positions to snippet lines
+ *
+ * Run with: deno test --allow-read --allow-write --allow-run mcp/runtime/diagnostics_test.ts
+ */
+
+import { deepEqual, equal, rejects } from 'node:assert/strict';
+import { parseDiagnostics, remapStack, typeCheckSnippet } from './diagnostics.ts';
+
+Deno.test('deno check output is parsed into diagnostics for one file', () => {
+  const output = [
+    'TS2322 [ERROR]: Type \'string\' is not assignable to type \'number\'.',
+    'const x: number = \'a\';',
+    '      ^',
+    '    at file:///tmp/thuvu-check-1.ts:12:7',
+    '',
+    'TS2345 [ERROR]: Argument of type \'number\' is not assignable to parameter of type \'string\'.',
+    '  Type \'number\' is not assignable to type \'string\'.',
+    '    at file:///other/module.ts:3:1',
+    '',
+    'error: Type checking failed.',
+  ].join('\n');
+
+  deepEqual(parseDiagnostics(output, 'thuvu-check-1.ts', 10), [{
+    line: 2,
+    column: 7,
+    code: 'TS2322',
+    message: 'Type \'string\' is not assignable to type \'number\'.',
+  }]);
+});
+
+Deno.test('stack frames in the generated module point at the snippet', () => {
+  const stack = [
+    'Error: boom',
+    '    at inner (blob:null/abc:12:9)',
+    '    at blob:null/abc:3:1',
+    '    at run (file:///mcp/runtime/sandbox.ts:80:5)',
+  ].join('\n');
+
+  equal(remapStack(stack, 'blob:null/abc', 10, 5), [
+    'Error: boom',
+    '    at inner (<snippet>:2:9)',
+    '    at run (file:///mcp/runtime/sandbox.ts:80:5)',
+  ].join('\n'));
+});
+
+Deno.test('type errors are reported at snippet lines', async () => {
+  const code = [
+    "import { join } from 'node:path';",
+    'const count: number = join(scope, "b");',
+    'return count;',
+  ].join('\n');
+
+  const diagnostics = await typeCheckSnippet(code, 'const helper = 1;', ['scope']);
+  deepEqual(diagnostics.map(d => [d.line, d.column, d.code]), [[2, 7, 'TS2322']]);
+  deepEqual(await typeCheckSnippet('return helper + 1;', 'const helper = 1;'), []);
+});
+
+Deno.test('checking does not run the module', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const marker = `${dir}/ran`;
+    const preamble = `Deno.writeTextFileSync(${JSON.stringify(marker)}, 'preamble');`;
+    await typeCheckSnippet(`Deno.writeTextFileSync(${JSON.stringify(marker)}, 'snippet');`, preamble);
+    await rejects(Deno.stat(marker), Deno.errors.NotFound);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('a closing brace without an opener is reported where it is', async () => {
+  const code = [
+    'const a = { b: "}" };',
+    '}',
+    'const c: string = 2;',
+  ].join('\n');
+
+  deepEqual(await typeCheckSnippet(code, ''), [{
+    line: 2,
+    column: 1,
+    code: 'TS1128',
+    message: 'Declaration or statement expected.',
+  }]);
+});
+
+Deno.test('skills imported through the thuvu/ prefix are checked', async () => {
+  const skills = new URL('../../skills/', import.meta.url).href;
+  const code = [
+    `import analyze from '${skills}analyze-codebase.ts';`,
+    "import { defineSkill } from 'thuvu/skills.ts';",
+    'const result = await analyze.run({ depth: 2 });',
+    'const lines: string = result.totalLines;',
+    'return defineSkill;',
+  ].join('\n');
+
+  deepEqual((await typeCheckSnippet(code, '')).map(d => [d.line, d.code]), [[4, 'TS2322']]);
+});
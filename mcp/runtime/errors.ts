@@ -0,0 +1,200 @@
+/**
+ * Typed errors for failed tool calls
+ *
+ * Every failure reported by the host, either as a JSON-RPC error or as a
+ * failed tool result, becomes a ThuvuToolError subclass that keeps the tool
+ * name, the arguments and whatever data the host attached, so scripts can
+ * branch on `instanceof` or on `kind`.
+ */
+
+/** JSON-RPC error codes used by the host bridge */
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+
+export type ToolErrorKind =
+  | 'tool_failed'
+  | 'permission_denied'
+  | 'conflict'
+  | 'not_found'
+  | 'timeout'
+  | 'aborted'
+  | 'unknown_tool'
+  | 'invalid_arguments';
+
+/**
+ * Details the host reported for a failed call
+ */
+export interface ToolErrorDetails {
+  /** JSON-RPC error code, if the host answered with an error response */
+  code?: number;
+  /** Error data: the JSON-RPC `data` field or the failed tool result */
+  data?: unknown;
+}
+
+/**
+ * Base class for all tool call failures
+ */
+export class ThuvuToolError extends Error {
+  readonly kind: ToolErrorKind = 'tool_failed';
+  readonly code?: number;
+  readonly data?: unknown;
+
+  constructor(
+    readonly tool: string,
+    readonly args: Record<string, unknown>,
+    message: string,
+    details: ToolErrorDetails = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = details.code;
+    this.data = details.data;
+  }
+
+  /**
+   * Plain-object form used in ExecutionResult
+   */
+  toJSON(): SerializedError {
+    return {
+      kind: this.kind,
+      name: this.name,
+      message: this.message,
+      tool: this.tool,
+      args: this.args,
+      code: this.code,
+      data: this.data,
+    };
+  }
+}
+
+/** The host's path policy or the user refused the call */
+export class PermissionDeniedError extends ThuvuToolError {
+  override readonly kind = 'permission_denied';
+}
+
+/** The target changed since it was read (e.g. a writeFile SHA-256 mismatch) */
+export class ConflictError extends ThuvuToolError {
+  override readonly kind = 'conflict';
+}
+
+/** A file, path, symbol or other target does not exist */
+export class NotFoundError extends ThuvuToolError {
+  override readonly kind = 'not_found';
+}
+
+/** The call did not finish in time */
+export class ToolTimeoutError extends ThuvuToolError {
+  override readonly kind = 'timeout';
+}
+
+/** The call was abandoned through its AbortSignal */
+export class ToolAbortedError extends ThuvuToolError {
+  override readonly kind = 'aborted';
+
+  constructor(tool: string, args: Record<string, unknown>, message: string, details?: ToolErrorDetails) {
+    super(tool, args, message, details);
+    // Match DOMException so `e.name === 'AbortError'` checks keep working
+    this.name = 'AbortError';
+  }
+}
+
+/** The host has no tool with this name */
+export class UnknownToolError extends ThuvuToolError {
+  override readonly kind = 'unknown_tool';
+}
+
+/** The arguments do not match the tool's schema; the call was not sent */
+export class InvalidArgumentsError extends ThuvuToolError {
+  override readonly kind = 'invalid_arguments';
+}
+
+type ToolErrorClass = new (
+  tool: string,
+  args: Record<string, unknown>,
+  message: string,
+  details?: ToolErrorDetails
+) => ThuvuToolError;
+
+/**
+ * Pick the error class for a host failure. Tool results carry machine
+ * readable ids (`checksum_mismatch`, `file_not_found`); JSON-RPC errors
+ * only have a code and a message.
+ */
+function classify(code: number | undefined, errorId: string, message: string): ToolErrorClass {
+  if (code === METHOD_NOT_FOUND) return UnknownToolError;
+
+  const text = `${errorId} ${message}`;
+  if (code === INVALID_REQUEST || /permission denied|path validation failed|access denied|not allowed/i.test(text)) {
+    return PermissionDeniedError;
+  }
+  if (/checksum_mismatch|conflict|modified since/i.test(text)) return ConflictError;
+  if (/not_found|not found|no such file|does not exist/i.test(text)) return NotFoundError;
+  if (/timed? ?out/i.test(text)) return ToolTimeoutError;
+  return ThuvuToolError;
+}
+
+/**
+ * Build the error for a JSON-RPC error response
+ */
+export function toolErrorFromResponse(
+  tool: string,
+  args: Record<string, unknown>,
+  error: { code: number; message: string; data?: unknown }
+): ThuvuToolError {
+  const ErrorClass = classify(error.code, '', error.message);
+  return new ErrorClass(tool, args, error.message, { code: error.code, data: error.data });
+}
+
+/**
+ * Build the error for a tool result that reports failure, either with
+ * `success: false` or with an `error` field
+ */
+export function toolErrorFromResult(
+  tool: string,
+  args: Record<string, unknown>,
+  result: { error?: string; message?: string }
+): ThuvuToolError {
+  const errorId = result.error ?? '';
+  const detail = result.message ?? (errorId || 'unknown error');
+  const ErrorClass = classify(undefined, errorId, detail);
+  return new ErrorClass(tool, args, `${tool} failed: ${detail}`, { data: result });
+}
+
+/**
+ * Throw if a tool result reports failure, otherwise return it
+ */
+export function checkToolResult<T extends object>(tool: string, args: Record<string, unknown>, result: T): T {
+  const status = result as { success?: boolean; error?: string; message?: string };
+  if (status.success === false || typeof status.error === 'string') {
+    throw toolErrorFromResult(tool, args, status);
+  }
+  return result;
+}
+
+/**
+ * Error as reported in ExecutionResult
+ */
+export interface SerializedError {
+  kind: ToolErrorKind | 'error';
+  name: string;
+  message: string;
+  tool?: string;
+  args?: Record<string, unknown>;
+  code?: number;
+  data?: unknown;
+  /** Stack trace of errors thrown by the snippet itself, in snippet lines */
+  stack?: string;
+}
+
+/**
+ * Describe any thrown value for the RESULT line
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof ThuvuToolError) {
+    return error.toJSON();
+  }
+  if (error instanceof Error) {
+    return { kind: 'error', name: error.name, message: error.message, stack: error.stack };
+  }
+  return { kind: 'error', name: 'Error', message: String(error) };
+}
@@ -0,0 +1,440 @@
+/**
+ * Client for external MCP servers
+ *
+ * Sandbox code reaches the host's tools through the bridge. External
+ * servers are other programs that speak the Model Context Protocol on
+ * stdio: this module spawns them, performs the handshake, lists their
+ * tools and exposes each one as `ext.<server>.<tool>`:
+ *
+ *   const result = await ext.echo.echo({ text: 'hello' });
+ *
+ * Servers are configured per request (ExecutionRequest.mcpServers) and are
+ * only started if the active policy allows running their command. Their
+ * tools are added to searchTools results under the server `ext.<server>`.
+ */
+
+import type { CallOptions, ToolProgress } from '../types/tools.d.ts';
+import { clearExternalTools, type JsonSchema, registerExternalTools, type ToolInfo } from '../catalog.ts';
+import {
+  PermissionDeniedError,
+  ThuvuToolError,
+  ToolAbortedError,
+  ToolTimeoutError,
+  toolErrorFromResponse,
+} from './errors.ts';
+import { evaluateCommand, levelIncludes, PermissionLevel } from './permissions.ts';
+import type { PolicyGate } from './gate.ts';
+import { describeSchema } from './validation.ts';
+
+/** Protocol version the client asks for */
+const PROTOCOL_VERSION = '2025-06-18';
+
+const CLIENT_INFO = { name: 'thuvu-sandbox', version: '1.0.0' };
+
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 10000;
+
+/**
+ * How to start an external server, in the `mcpServers` format most MCP
+ * clients use
+ */
+export interface ExternalServerConfig {
+  command: string;
+  args?: string[];
+  /** Added to the sandbox's environment */
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * A tool as listed by the server's `tools/list`
+ */
+export interface ExternalToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JsonSchema;
+}
+
+/**
+ * A tool of an external server as called from sandbox code
+ */
+export type ExternalTool = (args?: Record<string, unknown>, options?: CallOptions) => Promise<unknown>;
+
+export interface McpClientOptions {
+  /** How long the server may take to answer `initialize` (default 10s) */
+  handshakeTimeoutMs?: number;
+}
+
+type RequestId = number | string;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: RequestId | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  /** Name errors are reported under: ext.echo.echo, or the method */
+  label: string;
+  args: Record<string, unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+/**
+ * A connection to one external MCP server over its stdio
+ */
+export class McpClient {
+  private readonly process: Deno.ChildProcess;
+  private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  private readonly encoder = new TextEncoder();
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+  private exited = false;
+
+  /** What the server reported in `initialize` */
+  serverInfo?: { name: string; version?: string };
+  protocolVersion?: string;
+
+  /**
+   * Spawn the server. Call initialize() before anything else.
+   * @param name - Name the server is configured under, used in `ext.<name>`
+   */
+  constructor(readonly name: string, config: ExternalServerConfig) {
+    this.process = new Deno.Command(config.command, {
+      args: config.args ?? [],
+      env: config.env,
+      cwd: config.cwd,
+      stdin: 'piped',
+      stdout: 'piped',
+      stderr: 'inherit',
+    }).spawn();
+    this.writer = this.process.stdin.getWriter();
+    this.read();
+  }
+
+  private async read(): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for await (const chunk of this.process.stdout) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (line.startsWith('{')) this.receive(line);
+        }
+      }
+    } finally {
+      this.exited = true;
+      for (const [id, request] of this.pending) {
+        this.pending.delete(id);
+        request.reject(new ThuvuToolError(request.label, request.args, `External MCP server '${this.name}' exited`));
+      }
+    }
+  }
+
+  private receive(line: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    if (message.method !== undefined) {
+      if (message.id !== undefined && message.id !== null) {
+        this.answer(message.id, message.method);
+      } else if (message.method === 'notifications/progress') {
+        this.progress(message.params ?? {});
+      }
+      return;
+    }
+
+    const request = this.pending.get(Number(message.id));
+    if (!request) return;
+    this.pending.delete(Number(message.id));
+    if (message.error) {
+      request.reject(toolErrorFromResponse(request.label, request.args, message.error));
+    } else {
+      request.resolve(message.result);
+    }
+  }
+
+  /**
+   * Answer a request from the server. The client offers no capabilities,
+   * so only `ping` is supported.
+   */
+  private answer(id: RequestId, method: string): void {
+    const response: JsonRpcMessage = method === 'ping'
+      ? { jsonrpc: '2.0', id, result: {} }
+      : { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+    this.write(response).catch(console.error);
+  }
+
+  private progress(params: Record<string, unknown>): void {
+    const token = params.progressToken as number;
+    const handler = this.pending.get(token)?.onProgress;
+    if (!handler) return;
+
+    const progress = typeof params.progress === 'number' ? params.progress : undefined;
+    const total = typeof params.total === 'number' && params.total > 0 ? params.total : undefined;
+    try {
+      handler({
+        token,
+        message: typeof params.message === 'string' ? params.message : undefined,
+        percent: progress !== undefined && total !== undefined ? Math.round(progress / total * 100) : undefined,
+      });
+    } catch (e) {
+      console.error('onProgress handler threw:', e);
+    }
+  }
+
+  private async write(message: JsonRpcMessage): Promise<void> {
+    await this.writer.write(this.encoder.encode(JSON.stringify(message) + '\n'));
+  }
+
+  /**
+   * Send a request and wait for its result
+   * @param label - Name errors are reported under
+   */
+  private async request<T>(
+    method: string,
+    params: Record<string, unknown>,
+    label: string,
+    args: Record<string, unknown>,
+    options: CallOptions = {}
+  ): Promise<T> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) throw new ToolAbortedError(label, args, `${label} was aborted`);
+    if (this.exited) throw new ThuvuToolError(label, args, `External MCP server '${this.name}' has exited`);
+
+    const id = ++this.nextId;
+    const result = new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { label, args, resolve: resolve as (value: unknown) => void, reject, onProgress });
+    });
+    const onAbort = () => {
+      const request = this.pending.get(id);
+      if (!request) return;
+      this.pending.delete(id);
+      request.reject(new ToolAbortedError(label, args, `${label} was aborted`));
+      this.write({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id } }).catch(console.error);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    await this.write({
+      jsonrpc: '2.0',
+      id,
+      method,
+      params: onProgress ? { ...params, _meta: { progressToken: id } } : params,
+    });
+    try {
+      return await result;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Perform the handshake: `initialize`, then `notifications/initialized`
+   * @throws ToolTimeoutError if the server does not answer in time
+   */
+  async initialize(options: McpClientOptions = {}): Promise<void> {
+    const timeoutMs = options.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS;
+    const label = `ext.${this.name}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let result: { protocolVersion?: string; serverInfo?: { name: string; version?: string } };
+    try {
+      result = await this.request(
+        'initialize',
+        { protocolVersion: PROTOCOL_VERSION, capabilities: {}, clientInfo: CLIENT_INFO },
+        label,
+        {},
+        { signal: controller.signal }
+      );
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ToolTimeoutError(label, {}, `External MCP server '${this.name}' did not answer initialize within ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.protocolVersion = result.protocolVersion;
+    this.serverInfo = result.serverInfo;
+    await this.write({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  }
+
+  /**
+   * Every tool the server offers, following `nextCursor` across pages
+   */
+  async listTools(): Promise<ExternalToolDefinition[]> {
+    const tools: ExternalToolDefinition[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<{ tools: ExternalToolDefinition[]; nextCursor?: string }>(
+        'tools/list',
+        cursor === undefined ? {} : { cursor },
+        `ext.${this.name}`,
+        {}
+      );
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool. The result is the tool's structured content if it has
+   * any, the text if it returned a single text item, and its content items
+   * otherwise.
+   * @throws ThuvuToolError if the server reports the call failed (isError)
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}, options: CallOptions = {}): Promise<unknown> {
+    const label = `ext.${this.name}.${name}`;
+    const result = await this.request<{
+      content?: Array<{ type: string; text?: string }>;
+      structuredContent?: unknown;
+      isError?: boolean;
+    }>('tools/call', { name, arguments: args }, label, args, options);
+
+    const content = result.content ?? [];
+    const text = content.filter(item => item.type === 'text').map(item => item.text ?? '').join('\n');
+    if (result.isError) {
+      throw new ThuvuToolError(label, args, text || `${label} failed`, { data: result });
+    }
+    if (result.structuredContent !== undefined) return result.structuredContent;
+    if (content.length === 1 && content[0].type === 'text') return content[0].text ?? '';
+    return content;
+  }
+
+  /**
+   * Close the server's stdin and wait for it to exit
+   */
+  async close(): Promise<void> {
+    await this.writer.close().catch(() => {});
+    await this.process.status;
+  }
+}
+
+/**
+ * Tools of the connected external servers, by server and tool name.
+ * Injected into sandbox code as `ext`.
+ */
+export const ext: Record<string, Record<string, ExternalTool>> = {};
+
+/** Connected clients, with the config they were started from */
+const connections = new Map<string, { client: McpClient; config: string }>();
+
+/**
+ * Catalog entry for an external tool, so searchTools can find it
+ */
+function externalToolInfo(server: string, tool: ExternalToolDefinition): ToolInfo {
+  const properties = Object.entries(tool.inputSchema?.properties ?? {});
+  const required = new Set(tool.inputSchema?.required ?? []);
+  const fields = properties.map(([name, schema]) => `${name}${required.has(name) ? '' : '?'}: ${describeSchema(schema)}`);
+  const args = fields.length > 0 ? `args: { ${fields.join('; ')} }` : 'args?: {}';
+  return {
+    name: tool.name,
+    server: `ext.${server}`,
+    description: tool.description ?? tool.title ?? '',
+    signature: `${tool.name}(${args}): Promise<unknown>`,
+    category: 'external',
+  };
+}
+
+/**
+ * Whether a gate's policy lets the sandbox start a server. A relative
+ * command is resolved against the gate's project root, as run_process is.
+ * @throws PermissionDeniedError naming the rule that refused it
+ */
+function checkServerCommand(name: string, config: ExternalServerConfig, gate: PolicyGate): void {
+  const { policy, projectRoot } = gate;
+  const label = `ext.${name}`;
+  const args = { command: config.command, args: config.args ?? [] };
+  if (!levelIncludes(policy.level, PermissionLevel.Execute)) {
+    throw new PermissionDeniedError(label, args,
+      `${label} denied by policy: starting a server needs permission level 'execute', the policy grants '${policy.level}'`);
+  }
+  const decision = evaluateCommand(config.command, policy, projectRoot);
+  if (decision.effect !== 'allow') {
+    // Servers start before the snippet runs, when there is no one to ask
+    const reason = decision.effect === 'ask' ? `${decision.reason}, which is not available for servers` : decision.reason;
+    throw new PermissionDeniedError(label, args, `${label} denied by policy: ${reason}`, { data: decision });
+  }
+}
+
+/**
+ * Start a server, list its tools and add them to `ext` and the catalog
+ */
+export async function connectExternalServer(
+  name: string,
+  config: ExternalServerConfig,
+  gate: PolicyGate,
+  options: McpClientOptions = {}
+): Promise<McpClient> {
+  checkServerCommand(name, config, gate);
+
+  const client = new McpClient(name, config);
+  let tools: ExternalToolDefinition[];
+  try {
+    await client.initialize(options);
+    tools = await client.listTools();
+  } catch (error) {
+    await client.close();
+    throw error;
+  }
+
+  ext[name] = Object.fromEntries(tools.map(tool => [
+    tool.name,
+    ((args, callOptions) => client.callTool(tool.name, args, callOptions)) as ExternalTool,
+  ]));
+  registerExternalTools(`ext.${name}`, tools.map(tool => externalToolInfo(name, tool)));
+  connections.set(name, { client, config: JSON.stringify(config) });
+  return client;
+}
+
+/**
+ * Stop a server and remove its tools
+ */
+export async function disconnectExternalServer(name: string): Promise<void> {
+  const connection = connections.get(name);
+  if (!connection) return;
+  connections.delete(name);
+  delete ext[name];
+  clearExternalTools(`ext.${name}`);
+  await connection.client.close();
+}
+
+/**
+ * Make the connected servers match a configuration: servers that were
+ * removed or changed are stopped, new ones are started. Servers already
+ * running with the same config are kept, so a session starts them once.
+ */
+export async function connectExternalServers(
+  servers: Record<string, ExternalServerConfig>,
+  gate: PolicyGate,
+  options: McpClientOptions = {}
+): Promise<void> {
+  for (const [name, connection] of connections) {
+    if (connection.config !== JSON.stringify(servers[name])) await disconnectExternalServer(name);
+  }
+  for (const [name, config] of Object.entries(servers)) {
+    if (!connections.has(name)) await connectExternalServer(name, config, gate, options);
+  }
+}
+
+/**
+ * Stop every external server
+ */
+export async function disconnectExternalServers(): Promise<void> {
+  await Promise.all([...connections.keys()].map(disconnectExternalServer));
+}
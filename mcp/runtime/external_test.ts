@@ -0,0 +1,113 @@
+/**
+ * Tests for the external MCP server client, against testdata/echo-server.ts
+ *
+ * Run with: deno test --allow-read --allow-run mcp/runtime/external_test.ts
+ */
+
+import { deepEqual, equal, ok, rejects } from 'node:assert/strict';
+import { searchTools } from '../catalog.ts';
+import { PermissionDeniedError, ThuvuToolError, ToolAbortedError } from './errors.ts';
+import {
+  connectExternalServer,
+  connectExternalServers,
+  disconnectExternalServers,
+  ext,
+  type ExternalServerConfig,
+} from './external.ts';
+import { PolicyGate } from './gate.ts';
+import { DEFAULT_POLICY, PermissionLevel, type PermissionPolicy } from './permissions.ts';
+import type { ToolProgress } from '../types/tools.d.ts';
+
+const ECHO_SERVER: ExternalServerConfig = {
+  command: Deno.execPath(),
+  args: ['run', '--quiet', new URL('./testdata/echo-server.ts', import.meta.url).pathname],
+};
+
+const POLICY: PermissionPolicy = { ...DEFAULT_POLICY, level: PermissionLevel.Execute, allowedCommands: ['deno'] };
+const GATE = new PolicyGate(POLICY, Deno.cwd());
+
+Deno.test('external tools are listed across pages and called through ext', async () => {
+  try {
+    const client = await connectExternalServer('echo', ECHO_SERVER, GATE);
+    equal(client.serverInfo?.name, 'echo');
+    deepEqual(Object.keys(ext.echo), ['echo', 'add', 'fail', 'wait', 'cancelled']);
+
+    equal(await ext.echo.echo({ text: 'hello' }), 'hello');
+    deepEqual(await ext.echo.add({ a: 2, b: 3 }), { sum: 5 });
+    await rejects(ext.echo.fail(), (error: unknown) => {
+      ok(error instanceof ThuvuToolError);
+      equal(error.tool, 'ext.echo.fail');
+      equal(error.message, 'Something went wrong');
+      return true;
+    });
+  } finally {
+    await disconnectExternalServers();
+  }
+});
+
+Deno.test('progress is reported and aborted calls are cancelled on the server', async () => {
+  try {
+    await connectExternalServer('echo', ECHO_SERVER, GATE);
+    const controller = new AbortController();
+    const events: ToolProgress[] = [];
+    const call = ext.echo.wait({}, {
+      signal: controller.signal,
+      onProgress: progress => {
+        events.push(progress);
+        controller.abort();
+      },
+    });
+
+    await rejects(call, ToolAbortedError);
+    deepEqual(events.map(e => [e.percent, e.message]), [[25, 'waiting']]);
+    const { ids } = await ext.echo.cancelled() as { ids: number[] };
+    equal(ids.length, 1);
+  } finally {
+    await disconnectExternalServers();
+  }
+});
+
+Deno.test('external tools are found by searchTools until the server is stopped', async () => {
+  try {
+    await connectExternalServers({ echo: ECHO_SERVER }, GATE);
+    const [best] = searchTools('echo a message', { topK: 1 });
+    equal(best.server, 'ext.echo');
+    equal(best.name, 'echo');
+    equal(best.signature, 'echo(args: { text: string }): Promise<unknown>');
+
+    await connectExternalServers({}, GATE);
+    equal(ext.echo, undefined);
+    ok(searchTools('echo').every(tool => tool.server !== 'ext.echo'));
+  } finally {
+    await disconnectExternalServers();
+  }
+});
+
+Deno.test('servers only start if the policy allows their command', async () => {
+  await rejects(
+    connectExternalServer('echo', ECHO_SERVER, new PolicyGate({ ...POLICY, allowedCommands: ['git'] }, Deno.cwd())),
+    (error: unknown) => {
+      ok(error instanceof PermissionDeniedError);
+      equal(error.message, `ext.echo denied by policy: Command '${Deno.execPath()}' is not in allowedCommands`);
+      return true;
+    }
+  );
+  await rejects(
+    connectExternalServer('echo', ECHO_SERVER, new PolicyGate({ ...POLICY, level: PermissionLevel.ReadWrite }, Deno.cwd())),
+    PermissionDeniedError
+  );
+  equal(ext.echo, undefined);
+});
+
+Deno.test('a relative server command is resolved against the project root', async () => {
+  const denoDir = new URL('.', `file://${Deno.execPath()}`).pathname;
+  const policy = { ...POLICY, allowedCommands: [Deno.execPath()] };
+  const relative = { ...ECHO_SERVER, command: `./${Deno.execPath().slice(denoDir.length)}`, cwd: denoDir };
+  try {
+    const client = await connectExternalServer('echo', relative, new PolicyGate(policy, denoDir));
+    equal(client.serverInfo?.name, 'echo');
+  } finally {
+    await disconnectExternalServers();
+  }
+  await rejects(connectExternalServer('echo', relative, new PolicyGate(policy, Deno.cwd())), PermissionDeniedError);
+});
@@ -0,0 +1,243 @@
+/**
+ * Client-side policy gate for tool calls
+ *
+ * Before a tool call leaves the sandbox, the gate checks the paths and
+ * commands in its arguments against the active PermissionPolicy. Each call
+ * is allowed, denied, or needs the host's approval ("ask"), and every
+ * decision is kept in an audit trail that goes back with the execution
+ * result. The host still enforces its own checks; the gate stops calls the
+ * policy rules out before they reach it.
+ */
+
+import {
+  evaluateCommand,
+  evaluatePath,
+  levelIncludes,
+  PermissionLevel,
+  type PermissionPolicy,
+  POLICY_FILE_NAME,
+} from './permissions.ts';
+import { ThuvuToolError } from './errors.ts';
+
+export type GateEffect = 'allow' | 'deny' | 'ask';
+
+/**
+ * One path or command checked for a call
+ */
+export interface GateCheck {
+  kind: 'level' | 'path' | 'command';
+  /** The path or command as passed to the tool, or the required level */
+  target: string;
+  effect: GateEffect;
+  /** Policy entry that decided, if one matched */
+  rule?: string;
+  reason: string;
+}
+
+/**
+ * The gate's decision for a call before any approval
+ */
+export interface GateDecision {
+  effect: GateEffect;
+  reason: string;
+  checks: GateCheck[];
+}
+
+/**
+ * A recorded decision, as returned in ExecutionResult.audit
+ */
+export interface AuditEntry {
+  /** Milliseconds since the Unix epoch */
+  time: number;
+  tool: string;
+  effect: GateEffect;
+  /** The host's answer, for 'ask' decisions */
+  approved?: boolean;
+  /** Whether the call was sent to the host */
+  allowed: boolean;
+  reason: string;
+  checks: GateCheck[];
+}
+
+/**
+ * Asks the host to approve a call; resolves to its answer
+ */
+export type ApprovalHandler = (tool: string, args: Record<string, unknown>, decision: GateDecision) => Promise<boolean>;
+
+/**
+ * What a tool touches: the level it needs, the paths in its arguments,
+ * whether it writes them, and the command it runs
+ */
+interface ToolAccess {
+  level: PermissionLevel;
+  paths?: (args: Record<string, unknown>) => unknown[];
+  writes?: boolean;
+  command?: (args: Record<string, unknown>) => unknown;
+}
+
+/**
+ * Files named in the headers of a unified diff
+ */
+function patchPaths(patch: unknown): string[] {
+  if (typeof patch !== 'string') return [];
+  const paths = new Set<string>();
+  for (const [, path] of patch.matchAll(/^(?:---|\+\+\+) (?:[ab]\/)?(\S+)/gm)) {
+    if (path !== '/dev/null') paths.add(path);
+  }
+  return [...paths];
+}
+
+const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : [value];
+
+/**
+ * Every host tool the server wrappers call, with what it touches.
+ * Calls to other tools are denied.
+ */
+const TOOL_ACCESS: Record<string, ToolAccess> = {
+  read_file: { level: PermissionLevel.ReadOnly, paths: a => [a.path] },
+  write_file: { level: PermissionLevel.ReadWrite, paths: a => [a.path], writes: true },
+  search_files: { level: PermissionLevel.ReadOnly },
+  apply_patch: { level: PermissionLevel.ReadWrite, paths: a => patchPaths(a.patch), writes: true },
+  git_status: { level: PermissionLevel.ReadOnly, paths: a => [a.root, ...asList(a.paths)] },
+  git_diff: { level: PermissionLevel.ReadOnly, paths: a => [a.root, ...asList(a.paths)] },
+  git_commit: { level: PermissionLevel.ReadWrite, paths: a => [a.root, ...asList(a.paths)] },
+  dotnet_build: { level: PermissionLevel.Execute, paths: a => [a.solution_or_project], command: () => 'dotnet' },
+  dotnet_test: { level: PermissionLevel.Execute, paths: a => [a.solution_or_project], command: () => 'dotnet' },
+  dotnet_new: { level: PermissionLevel.Execute, paths: a => [a.output], command: () => 'dotnet' },
+  run_process: { level: PermissionLevel.Execute, paths: a => [a.cwd], command: a => a.cmd },
+  process_start: { level: PermissionLevel.Execute, paths: a => [a.cwd], command: a => a.cmd },
+  process_read: { level: PermissionLevel.ReadOnly },
+  process_status: { level: PermissionLevel.ReadOnly },
+  process_write: { level: PermissionLevel.Execute },
+  process_stop: { level: PermissionLevel.Execute },
+  rag_index: { level: PermissionLevel.ReadOnly, paths: a => [a.path] },
+  rag_search: { level: PermissionLevel.ReadOnly },
+  rag_stats: { level: PermissionLevel.ReadOnly },
+  rag_clear: { level: PermissionLevel.ReadWrite },
+  sqlite_query: { level: PermissionLevel.ReadOnly },
+  sqlite_execute: { level: PermissionLevel.ReadWrite },
+  code_index: { level: PermissionLevel.ReadOnly, paths: a => [a.path] },
+  code_query: { level: PermissionLevel.ReadOnly, paths: a => [a.file] },
+  delegate_to_agent: { level: PermissionLevel.ReadOnly, paths: a => asList(a.context_files) },
+  agent_list: { level: PermissionLevel.ReadOnly },
+  agent_status: { level: PermissionLevel.ReadOnly },
+  agent_result: { level: PermissionLevel.ReadOnly },
+  agent_submit: { level: PermissionLevel.Execute },
+  agent_cancel: { level: PermissionLevel.Execute },
+  // The browser reaches the network and runs scripts in pages
+  browser_navigate: { level: PermissionLevel.Execute },
+  browser_click: { level: PermissionLevel.Execute },
+  browser_type: { level: PermissionLevel.Execute },
+  browser_get_elements: { level: PermissionLevel.Execute },
+  browser_screenshot: { level: PermissionLevel.Execute },
+  browser_script: { level: PermissionLevel.Execute },
+  browser_close: { level: PermissionLevel.Execute },
+  catalog_list: { level: PermissionLevel.ReadOnly },
+  catalog_search: { level: PermissionLevel.ReadOnly },
+  catalog_schema: { level: PermissionLevel.ReadOnly },
+};
+
+/**
+ * Checks outgoing tool calls against a policy and records the decisions
+ */
+export class PolicyGate {
+  private entries: AuditEntry[] = [];
+
+  /**
+   * @param policy - Active policy
+   * @param projectRoot - Root that relative paths and the policy's patterns refer to
+   */
+  constructor(readonly policy: PermissionPolicy, readonly projectRoot: string) {}
+
+  /**
+   * Return the recorded decisions and start a new trail
+   */
+  takeAudit(): AuditEntry[] {
+    return this.entries.splice(0);
+  }
+
+  /**
+   * Decide a call without asking anyone. A call is denied if any check
+   * denies it, needs approval if any check asks, and is allowed otherwise.
+   */
+  evaluate(tool: string, args: Record<string, unknown>): GateDecision {
+    const access = TOOL_ACCESS[tool];
+    if (!access) {
+      return { effect: 'deny', reason: `No client-side rules for ${tool}`, checks: [] };
+    }
+
+    const checks: GateCheck[] = [];
+    if (!levelIncludes(this.policy.level, access.level)) {
+      checks.push({
+        kind: 'level',
+        target: access.level,
+        effect: 'deny',
+        reason: `${tool} needs permission level '${access.level}', the policy grants '${this.policy.level}'`,
+      });
+    }
+
+    const command = access.command?.(args);
+    if (typeof command === 'string') {
+      const decision = evaluateCommand(command, this.policy, this.projectRoot);
+      checks.push({ kind: 'command', target: command, effect: decision.effect, rule: decision.rule, reason: decision.reason });
+    }
+
+    for (const path of access.paths?.(args) ?? []) {
+      if (typeof path !== 'string' || path === '') continue;
+      const decision = evaluatePath(path, this.policy, this.projectRoot);
+      if (access.writes && decision.relativePath === POLICY_FILE_NAME) {
+        // Otherwise a snippet could loosen the policy for the next run
+        checks.push({ kind: 'path', target: path, effect: 'deny', reason: 'The policy file cannot be changed from the sandbox' });
+        continue;
+      }
+      checks.push({
+        kind: 'path',
+        target: path,
+        effect: decision.rule?.effect ?? 'deny',
+        rule: decision.rule?.pattern,
+        reason: decision.reason,
+      });
+    }
+
+    const decisive = checks.find(c => c.effect === 'deny') ?? checks.find(c => c.effect === 'ask');
+    if (decisive) {
+      return { effect: decisive.effect, reason: decisive.reason, checks };
+    }
+    return { effect: 'allow', reason: 'Allowed by policy', checks };
+  }
+
+  /**
+   * Decide a call, asking the host when the policy says so, and record the
+   * outcome
+   * @returns The audit entry; entry.allowed says whether to send the call
+   */
+  async authorize(tool: string, args: Record<string, unknown>, ask: ApprovalHandler): Promise<AuditEntry> {
+    const decision = this.evaluate(tool, args);
+    const entry: AuditEntry = {
+      time: Date.now(),
+      tool,
+      effect: decision.effect,
+      allowed: decision.effect === 'allow',
+      reason: decision.reason,
+      checks: decision.checks,
+    };
+
+    if (decision.effect === 'ask') {
+      try {
+        entry.approved = await ask(tool, args, decision);
+      } catch (error) {
+        // No answer counts as a refusal; aborts and timeouts still surface as such
+        entry.approved = false;
+        entry.reason = `${decision.reason}; approval request failed: ${error instanceof Error ? error.message : String(error)}`;
+        if (error instanceof ThuvuToolError && (error.kind === 'aborted' || error.kind === 'timeout')) {
+          this.entries.push(entry);
+          throw error;
+        }
+      }
+      entry.allowed = entry.approved;
+    }
+
+    this.entries.push(entry);
+    return entry;
+  }
+}
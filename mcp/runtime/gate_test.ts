@@ -0,0 +1,141 @@
+/**
+ * Tests for the client-side policy gate
+ *
+ * Run with: deno test --allow-read mcp/runtime/gate_test.ts
+ */
+
+import { deepEqual, equal, rejects } from 'node:assert/strict';
+import { ToolAbortedError } from './errors.ts';
+import { PolicyGate } from './gate.ts';
+import { DEFAULT_POLICY, PermissionLevel } from './permissions.ts';
+
+const ROOT = '/work/project-that-does-not-exist';
+
+const gate = () => new PolicyGate({
+  ...DEFAULT_POLICY,
+  level: PermissionLevel.Execute,
+  allowedPaths: ['./src', './docs'],
+  deniedPaths: ['src/secrets'],
+  askPaths: ['docs/release'],
+  allowedCommands: ['dotnet', 'git'],
+  askCommands: ['npm'],
+}, ROOT);
+
+const approve = (answer: boolean) => () => Promise.resolve(answer);
+
+Deno.test('allows calls whose paths and commands are allowed', () => {
+  const decision = gate().evaluate('run_process', { cmd: 'git.exe', cwd: 'src' });
+  equal(decision.effect, 'allow');
+  deepEqual(decision.checks.map(c => [c.kind, c.effect, c.rule]), [
+    ['command', 'allow', 'git'],
+    ['path', 'allow', './src'],
+  ]);
+});
+
+Deno.test('bare command entries do not cover path-qualified commands', () => {
+  for (const cmd of ['./tools/git', '/tmp/x/git', 'C:\\Tools\\git.exe', 'src/../dotnet']) {
+    const decision = gate().evaluate('run_process', { cmd });
+    equal(decision.effect, 'deny', cmd);
+    equal(decision.reason, `Command '${cmd}' is not in allowedCommands`);
+  }
+
+  const pinned = new PolicyGate({ ...DEFAULT_POLICY, level: PermissionLevel.Execute, allowedCommands: ['./tools/build.sh'] }, ROOT);
+  equal(pinned.evaluate('run_process', { cmd: `${ROOT}/tools/../tools/build.sh` }).effect, 'allow');
+  equal(pinned.evaluate('run_process', { cmd: 'build.sh' }).effect, 'deny');
+  equal(pinned.evaluate('run_process', { cmd: '/tmp/tools/build.sh' }).effect, 'deny');
+});
+
+Deno.test('denies a call if any of its paths is denied', () => {
+  const decision = gate().evaluate('git_commit', { message: 'm', paths: ['src/a.cs', 'src/secrets/key'] });
+  equal(decision.effect, 'deny');
+  equal(decision.reason, "Denied by rule 'src/secrets'");
+});
+
+Deno.test('checks every file named in a patch', () => {
+  const patch = '--- a/src/a.cs\n+++ b/src/a.cs\n@@ -1 +1 @@\n-x\n+y\n--- /dev/null\n+++ b/build/new.cs\n';
+  const decision = gate().evaluate('apply_patch', { patch });
+  equal(decision.effect, 'deny');
+  deepEqual(decision.checks.map(c => c.target), ['src/a.cs', 'build/new.cs']);
+});
+
+Deno.test('denies tools above the policy level', () => {
+  const readOnly = new PolicyGate({ ...DEFAULT_POLICY, level: PermissionLevel.ReadOnly }, ROOT);
+  const decision = readOnly.evaluate('write_file', { path: 'src/a.cs', content: '' });
+  equal(decision.effect, 'deny');
+  equal(decision.reason, "write_file needs permission level 'readwrite', the policy grants 'readonly'");
+});
+
+Deno.test('deny wins over ask, and ask over allow', () => {
+  equal(gate().evaluate('dotnet_new', { template: 'console', output: 'docs/release/app' }).effect, 'ask');
+  equal(gate().evaluate('run_process', { cmd: 'npm', cwd: 'src/secrets' }).effect, 'deny');
+  equal(gate().evaluate('run_process', { cmd: 'npm', cwd: 'src' }).effect, 'ask');
+});
+
+Deno.test('readonly blocks the tools that change or run something', () => {
+  const readOnly = new PolicyGate({ ...DEFAULT_POLICY, level: PermissionLevel.ReadOnly }, ROOT);
+  for (const tool of [
+    'sqlite_execute', 'rag_clear', 'process_stop', 'process_write', 'agent_submit', 'agent_cancel',
+    'browser_navigate', 'browser_click', 'browser_type', 'browser_script', 'browser_close',
+  ]) {
+    equal(readOnly.evaluate(tool, {}).effect, 'deny', tool);
+  }
+  for (const tool of ['sqlite_query', 'rag_search', 'process_read', 'agent_list', 'catalog_search']) {
+    equal(readOnly.evaluate(tool, {}).effect, 'allow', tool);
+  }
+});
+
+Deno.test('the policy file can be read but never written', () => {
+  const open = new PolicyGate({ ...DEFAULT_POLICY, level: PermissionLevel.Full }, ROOT);
+  equal(open.evaluate('read_file', { path: '.thuvu-policy.json' }).effect, 'allow');
+  deepEqual(open.evaluate('write_file', { path: `${ROOT}/.thuvu-policy.json`, content: '{}' }), {
+    effect: 'deny',
+    reason: 'The policy file cannot be changed from the sandbox',
+    checks: [{
+      kind: 'path',
+      target: `${ROOT}/.thuvu-policy.json`,
+      effect: 'deny',
+      reason: 'The policy file cannot be changed from the sandbox',
+    }],
+  });
+  const patch = '--- a/.thuvu-policy.json\n+++ b/.thuvu-policy.json\n@@ -1 +1 @@\n-{}\n+{"profiles":{}}\n';
+  equal(open.evaluate('apply_patch', { patch }).effect, 'deny');
+  equal(open.evaluate('write_file', { path: 'src/.thuvu-policy.json', content: '{}' }).effect, 'allow');
+});
+
+Deno.test('calls to tools without rules are denied', () => {
+  deepEqual(gate().evaluate('dotnet_run', { project: 'src' }), {
+    effect: 'deny',
+    reason: 'No client-side rules for dotnet_run',
+    checks: [],
+  });
+});
+
+Deno.test('ask decisions follow the host answer and are audited', async () => {
+  const g = gate();
+  const args = { path: 'docs/release/notes.md', content: '' };
+
+  equal((await g.authorize('write_file', args, approve(true))).allowed, true);
+  equal((await g.authorize('write_file', args, approve(false))).allowed, false);
+  equal((await g.authorize('read_file', { path: 'src/a.cs' }, approve(false))).allowed, true);
+
+  deepEqual(g.takeAudit().map(e => [e.tool, e.effect, e.approved, e.allowed]), [
+    ['write_file', 'ask', true, true],
+    ['write_file', 'ask', false, false],
+    ['read_file', 'allow', undefined, true],
+  ]);
+  deepEqual(g.takeAudit(), []);
+});
+
+Deno.test('a failed approval request counts as a refusal', async () => {
+  const g = gate();
+  const entry = await g.authorize('run_process', { cmd: 'npm' }, () => Promise.reject(new Error('method not found')));
+  equal(entry.allowed, false);
+  equal(entry.reason, "Command 'npm' needs approval by rule 'npm'; approval request failed: method not found");
+});
+
+Deno.test('an aborted approval request is rethrown and audited', async () => {
+  const g = gate();
+  const aborted = new ToolAbortedError('$/requestApproval', {}, 'aborted');
+  await rejects(g.authorize('run_process', { cmd: 'npm' }, () => Promise.reject(aborted)), ToolAbortedError);
+  equal(g.takeAudit()[0].allowed, false);
+});
@@ -18,6 +18,10 @@ export interface PermissionPolicy {
   allowedPaths: string[];
   deniedPaths: string[];
   allowedCommands: string[];
+  /** Paths that need the host's approval for each call, checked after deniedPaths */
+  askPaths: string[];
+  /** Commands that need the host's approval for each call */
+  askCommands: string[];
   maxExecutionTime: number;
   maxMemoryMb: number;
 }
@@ -27,73 +31,511 @@ export const DEFAULT_POLICY: PermissionPolicy = {
   allowedPaths: ['./', './src', './tests', './docs'],
   deniedPaths: ['.git/objects', '.git/hooks', 'node_modules'],
   allowedCommands: ['dotnet', 'git', 'npm', 'node'],
+  askPaths: [],
+  askCommands: [],
   maxExecutionTime: 300000, // 5 minutes
   maxMemoryMb: 512,
 };
 
 /**
- * Get Deno permission flags based on permission level
+ * Policy file name, looked up in the project root. The sandbox may never
+ * write it, or it could loosen its own policy for the next run.
+ */
+export const POLICY_FILE_NAME = '.thuvu-policy.json';
+
+export interface DenoFlagOptions {
+  /** Directory of the MCP runtime and servers, always readable so the sandbox can import them */
+  runtimeDir?: string;
+  /** Deno executable, runnable from the execute level so `check` requests can type-check snippets */
+  denoPath?: string;
+  /** Temporary directory `check` requests write the module to type-check to, writable along with denoPath */
+  tempDir?: string;
+}
+
+/** Order of levels, each including the permissions of the ones before it */
+const LEVEL_ORDER = [PermissionLevel.ReadOnly, PermissionLevel.ReadWrite, PermissionLevel.Execute, PermissionLevel.Full];
+
+/**
+ * Whether a policy's level includes another level
+ */
+export function levelIncludes(level: PermissionLevel, required: PermissionLevel): boolean {
+  return LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(required);
+}
+
+/**
+ * Get Deno permission flags for a policy.
+ *
+ * Deno's path flags take plain paths, not globs, so patterns are mapped
+ * conservatively and evaluatePath remains the precise check:
+ * - an allow rule grants its directory part (`tests/**` grants `tests`, a
+ *   name matched at any depth grants the project root)
+ * - a deny rule without wildcards denies that path (`node_modules` denies
+ *   the top-level one); deny rules with wildcards have no flag
+ *
+ * The Deno executable is only runnable from the execute level: it runs with
+ * whatever flags it is given, so below that level it would lift the sandbox.
+ * The temporary directory, where type checks write the module they check,
+ * becomes writable with it.
+ *
+ * The policy file is never writable.
+ *
+ * maxExecutionTime is enforced by the host's request timeout, and askPaths
+ * and askCommands by the policy gate, not by flags.
  */
 export function getDenoPermissionFlags(
   policy: PermissionPolicy,
-  projectRoot: string
+  projectRoot: string,
+  options: DenoFlagOptions = {}
 ): string[] {
   const flags: string[] = [];
+  const root = canonicalizePath(projectRoot, projectRoot, { resolveSymlinks: false });
+
+  const allowed = withoutNested(policy.allowedPaths.map(pattern => allowFlagPath(pattern, root)));
+  const denied = unique(policy.deniedPaths.flatMap(pattern => denyFlagPath(pattern, root) ?? []));
+  const readable = withoutNested([...allowed, ...(options.runtimeDir ? [options.runtimeDir.replace(/\\/g, '/')] : [])]);
+
+  if (policy.level === PermissionLevel.Full) {
+    flags.push('--allow-all');
+  } else {
+    // An empty --allow-read= would allow everything, so omit the flag instead
+    if (readable.length > 0) {
+      flags.push(`--allow-read=${readable.join(',')}`);
+    }
+    const canCheck = levelIncludes(policy.level, PermissionLevel.Execute) && options.denoPath !== undefined;
+    const writable = withoutNested([
+      ...(levelIncludes(policy.level, PermissionLevel.ReadWrite) ? allowed : []),
+      ...(canCheck && options.tempDir ? [options.tempDir.replace(/\\/g, '/')] : []),
+    ]);
+    if (writable.length > 0) {
+      flags.push(`--allow-write=${writable.join(',')}`);
+    }
+    const runnable = [...policy.allowedCommands, ...(options.denoPath ? [options.denoPath.replace(/\\/g, '/')] : [])];
+    if (levelIncludes(policy.level, PermissionLevel.Execute) && runnable.length > 0) {
+      flags.push(`--allow-run=${runnable.join(',')}`);
+    }
+  }
 
-  switch (policy.level) {
-    case PermissionLevel.ReadOnly:
-      flags.push(`--allow-read=${projectRoot}`);
-      break;
-    
-    case PermissionLevel.ReadWrite:
-      flags.push(`--allow-read=${projectRoot}`);
-      flags.push(`--allow-write=${projectRoot}`);
-      break;
-    
-    case PermissionLevel.Execute:
-      flags.push(`--allow-read=${projectRoot}`);
-      flags.push(`--allow-write=${projectRoot}`);
-      flags.push('--allow-run=dotnet,git,npm,node');
-      break;
-    
-    case PermissionLevel.Full:
-      flags.push('--allow-all');
-      break;
+  // Deny flags override the allow flags, including --allow-all
+  if (denied.length > 0) {
+    flags.push(`--deny-read=${denied.join(',')}`);
   }
+  flags.push(`--deny-write=${[...denied, `${root.replace(/\/$/, '')}/${POLICY_FILE_NAME}`].join(',')}`);
 
   // Always deny network by default (can be overridden for Full)
   if (policy.level !== PermissionLevel.Full) {
     flags.push('--deny-net');
   }
 
+  flags.push(`--v8-flags=--max-old-space-size=${policy.maxMemoryMb}`);
+
   return flags;
 }
 
+/**
+ * A pattern split at its first wildcard segment
+ * @returns The part before the wildcard, whether the pattern has no
+ *   wildcard at all, and whether it is anchored at the project root
+ */
+export function patternBase(pattern: string): { base: string; exact: boolean; anchored: boolean } {
+  const { glob, anchored } = normalizePattern(pattern);
+  const segments = glob.split('/');
+  const wildcard = segments.findIndex(segment => /[*?[{]/.test(segment));
+  return {
+    base: (wildcard === -1 ? segments : segments.slice(0, wildcard)).join('/'),
+    exact: wildcard === -1,
+    anchored,
+  };
+}
+
+function allowFlagPath(pattern: string, root: string): string {
+  const { base, anchored } = patternBase(pattern);
+  return anchored ? canonicalizePath(base, root, { resolveSymlinks: false }) : root;
+}
+
+function denyFlagPath(pattern: string, root: string): string | undefined {
+  const { base, exact } = patternBase(pattern);
+  if (!exact || base === '' || base === '.') return undefined;
+  return canonicalizePath(base, root, { resolveSymlinks: false });
+}
+
+function unique(paths: string[]): string[] {
+  return [...new Set(paths)];
+}
+
+/**
+ * Drop paths that are inside another path of the list
+ */
+function withoutNested(paths: string[]): string[] {
+  return unique(paths).filter(path =>
+    !paths.some(other => other !== path && relativeTo(path, other, false) !== undefined)
+  );
+}
+
+/**
+ * A glob rule from allowedPaths or deniedPaths
+ */
+export interface PathRule {
+  effect: 'allow' | 'deny' | 'ask';
+  /** The pattern as written in the policy */
+  pattern: string;
+}
+
+/**
+ * Outcome of checking a path against a policy
+ */
+export interface PathDecision {
+  /** Allowed without asking; false for paths that need approval */
+  allowed: boolean;
+  /** Canonical absolute path that was checked, with forward slashes */
+  path: string;
+  /** Path relative to the project root, or undefined if it lies outside */
+  relativePath?: string;
+  /** The rule that decided, or undefined if no rule matched */
+  rule?: PathRule;
+  /** Human-readable explanation of the decision */
+  reason: string;
+}
+
+export interface PathCheckOptions {
+  /** Resolve symbolic links on the existing part of the path (default true) */
+  resolveSymlinks?: boolean;
+  /** Compare paths and patterns case-insensitively (default: true on Windows) */
+  caseInsensitive?: boolean;
+}
+
+/**
+ * Split a slash-separated path into its root (`/`, `C:/`, `//`) and segments
+ */
+function splitPath(path: string): { root: string; segments: string[] } {
+  const match = path.match(/^(?:[A-Za-z]:\/|\/\/|\/)/);
+  const root = match ? match[0] : '';
+  return { root, segments: path.slice(root.length).split('/') };
+}
+
+function isAbsolutePath(path: string): boolean {
+  return splitPath(path).root !== '';
+}
+
+function joinPath(root: string, segments: string[]): string {
+  return root + segments.join('/');
+}
+
+/**
+ * Resolve a path the way the OS will: walk it one segment at a time,
+ * resolving symlinks on the part that exists, so `..` applies to the real
+ * parent of a symlink rather than the parent of the link's name.
+ */
+function resolvePath(path: string, resolveSymlinks: boolean): string {
+  const { root, segments } = splitPath(path);
+  const tryRealPath = (candidate: string): string => {
+    if (!resolveSymlinks) return candidate;
+    try {
+      return Deno.realPathSync(candidate).replace(/\\/g, '/');
+    } catch {
+      // Missing, unreadable or a symlink loop: keep the lexical path
+      return candidate;
+    }
+  };
+
+  let current = splitPath(tryRealPath(root || '.'));
+  let resolved = current.segments.filter(s => s !== '');
+  for (const segment of segments) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      // Never climbs above the filesystem root
+      resolved.pop();
+      continue;
+    }
+    current = splitPath(tryRealPath(joinPath(current.root, [...resolved, segment])));
+    resolved = current.segments.filter(s => s !== '');
+  }
+  return joinPath(current.root, resolved);
+}
+
+/**
+ * Canonical absolute form of a path: forward slashes, no `.` or `..`
+ * segments, symlinks resolved where the path exists
+ * @param path - Absolute, or relative to projectRoot
+ * @param projectRoot - Base for relative paths
+ */
+export function canonicalizePath(path: string, projectRoot: string, options: PathCheckOptions = {}): string {
+  const resolveSymlinks = options.resolveSymlinks ?? true;
+  let base = projectRoot.replace(/\\/g, '/');
+  if (!isAbsolutePath(base)) {
+    base = `${Deno.cwd().replace(/\\/g, '/')}/${base}`;
+  }
+
+  const normalized = path.replace(/\\/g, '/');
+  return resolvePath(isAbsolutePath(normalized) ? normalized : `${base}/${normalized}`, resolveSymlinks);
+}
+
+/**
+ * Translate a glob into a regular expression source.
+ * `**` matches any number of segments, `*` and `?` stay within one segment,
+ * `{a,b}` is alternation and `[abc]` / `[!abc]` are character classes.
+ * Wildcards also match names starting with a dot.
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+      if (atStart && glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (atStart && atEnd) {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+      if (body.startsWith('!')) body = '^' + body.slice(1);
+      source += `(?!/)[${body}]`;
+      i = close;
+    } else if (ch === '{') {
+      braces++;
+      source += '(?:';
+    } else if (ch === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (ch === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return source + ')'.repeat(braces);
+}
+
+/**
+ * Forward slashes, without a leading `./` or trailing `/`. A pattern is
+ * anchored at the root if it starts with `./` or `/` or has a slash inside.
+ */
+function normalizePattern(pattern: string): { glob: string; anchored: boolean } {
+  const slashed = pattern.replace(/\\/g, '/');
+  const glob = slashed.replace(/^(?:\.\/)+/, '').replace(/\/+$/, '');
+  return { glob, anchored: slashed.startsWith('./') || isAbsolutePath(glob) || glob.includes('/') };
+}
+
+/**
+ * Compile a policy pattern to a matcher for root-relative paths.
+ * - `./`, `.` and `` cover the whole project
+ * - A pattern without a slash (`node_modules`, `*.pem`) matches a name at
+ *   any depth; a pattern starting with `./` or with a slash inside
+ *   (`./src`, `.git/objects`) is anchored at the root
+ * - A pattern matches the path itself and everything below it
+ * - Absolute patterns are taken relative to the project root
+ */
+function compilePattern(pattern: string, root: string, caseInsensitive: boolean): RegExp | undefined {
+  const normalized = normalizePattern(pattern);
+  let glob = normalized.glob;
+  if (isAbsolutePath(glob)) {
+    const relative = relativeTo(resolvePath(glob, false), root, caseInsensitive);
+    if (relative === undefined) return undefined;
+    glob = relative;
+  }
+  if (glob === '' || glob === '.') return /^/;
+
+  const source = `^${normalized.anchored ? '' : '(?:.*/)?'}(?:${globToRegExpSource(glob)})(?:/.*)?$`;
+  return new RegExp(source, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * Path relative to root, '' for the root itself, undefined if outside
+ */
+function relativeTo(path: string, root: string, caseInsensitive: boolean): string | undefined {
+  const fold = (value: string) => caseInsensitive ? value.toLowerCase() : value;
+  const prefix = root.endsWith('/') ? root : `${root}/`;
+  if (fold(path) === fold(root)) return '';
+  if (fold(path).startsWith(fold(prefix))) return path.slice(prefix.length);
+  return undefined;
+}
+
+/**
+ * Decide whether a path may be accessed under a policy.
+ *
+ * Precedence, first match wins:
+ * 1. Paths containing a NUL character are denied
+ * 2. Paths outside the project root (after canonicalization) are denied
+ * 3. A path matching any deniedPaths pattern is denied, whatever allows it
+ * 4. A path matching an askPaths pattern needs approval (rule.effect 'ask')
+ * 5. A path matching an allowedPaths pattern is allowed
+ * 6. Everything else is denied
+ *
+ * @param path - Absolute, or relative to projectRoot
+ * @param policy - Policy whose allowedPaths and deniedPaths are globs relative to the root
+ * @param projectRoot - Directory the policy applies to
+ */
+export function evaluatePath(
+  path: string,
+  policy: Pick<PermissionPolicy, 'allowedPaths' | 'deniedPaths'> & { askPaths?: string[] },
+  projectRoot: string,
+  options: PathCheckOptions = {}
+): PathDecision {
+  const caseInsensitive = options.caseInsensitive ?? Deno.build.os === 'windows';
+  const root = canonicalizePath(projectRoot, projectRoot, options);
+
+  if (path.includes('\0')) {
+    return { allowed: false, path, reason: 'Path contains a NUL character' };
+  }
+
+  const canonical = canonicalizePath(path, root, options);
+  const relativePath = relativeTo(canonical, root, caseInsensitive);
+  if (relativePath === undefined) {
+    return { allowed: false, path: canonical, reason: `Path is outside the project root ${root}` };
+  }
+
+  const matches = (pattern: string) => compilePattern(pattern, root, caseInsensitive)?.test(relativePath) ?? false;
+
+  const denied = policy.deniedPaths.find(matches);
+  if (denied !== undefined) {
+    return {
+      allowed: false,
+      path: canonical,
+      relativePath,
+      rule: { effect: 'deny', pattern: denied },
+      reason: `Denied by rule '${denied}'`,
+    };
+  }
+
+  const ask = policy.askPaths?.find(matches);
+  if (ask !== undefined) {
+    return {
+      allowed: false,
+      path: canonical,
+      relativePath,
+      rule: { effect: 'ask', pattern: ask },
+      reason: `Needs approval by rule '${ask}'`,
+    };
+  }
+
+  const allowed = policy.allowedPaths.find(matches);
+  if (allowed !== undefined) {
+    return {
+      allowed: true,
+      path: canonical,
+      relativePath,
+      rule: { effect: 'allow', pattern: allowed },
+      reason: `Allowed by rule '${allowed}'`,
+    };
+  }
+
+  return { allowed: false, path: canonical, relativePath, reason: 'No allow rule matches the path' };
+}
+
 /**
  * Validate a path is within allowed paths
+ * @see evaluatePath for the rules and an explanation of the decision
  */
 export function isPathAllowed(
   path: string,
   policy: PermissionPolicy,
   projectRoot: string
 ): boolean {
-  // Normalize path
-  const normalizedPath = path.replace(/\\/g, '/');
-  const normalizedRoot = projectRoot.replace(/\\/g, '/');
+  return evaluatePath(path, policy, projectRoot).allowed;
+}
+
+/**
+ * Outcome of checking a command against a policy
+ */
+export interface CommandDecision {
+  effect: 'allow' | 'deny' | 'ask';
+  /** The allowedCommands or askCommands entry that matched */
+  rule?: string;
+  reason: string;
+}
+
+/** Extensions Windows tries for a bare command name */
+const WINDOWS_EXECUTABLE = /\.(exe|cmd|bat)$/;
 
-  // Must be within project root
-  if (!normalizedPath.startsWith(normalizedRoot)) {
-    return false;
+/**
+ * Where PATH lookup finds a bare command name, canonicalized, or undefined
+ * if it is not found or the sandbox may not read PATH
+ */
+function resolveOnPath(name: string): string | undefined {
+  let searchPath: string | undefined;
+  try {
+    searchPath = Deno.env.get('PATH');
+  } catch {
+    return undefined;
   }
 
-  // Check denied paths
-  for (const denied of policy.deniedPaths) {
-    if (normalizedPath.includes(denied)) {
-      return false;
+  const windows = Deno.build.os === 'windows';
+  const names = windows && !WINDOWS_EXECUTABLE.test(name) ? [`${name}.exe`, `${name}.cmd`, `${name}.bat`, name] : [name];
+  for (const dir of (searchPath ?? '').split(windows ? ';' : ':')) {
+    if (dir === '') continue;
+    for (const candidate of names) {
+      const path = `${dir.replace(/\\/g, '/')}/${candidate}`;
+      try {
+        if (Deno.statSync(path).isFile) return canonicalizePath(path, dir);
+      } catch {
+        // Missing or unreadable: keep looking
+      }
     }
   }
+  return undefined;
+}
+
+/**
+ * Whether a policy command entry names a command.
+ * A bare name (`git`) matches the bare command, which is looked up through
+ * PATH, also with a Windows executable extension (`git.exe`). A
+ * path-qualified command (`./tools/git`, `/usr/bin/git`) is a program of
+ * its own: it matches an entry with the same resolved path, or a bare
+ * entry that PATH lookup resolves to it.
+ * @param root - Directory relative entries and commands are resolved against
+ */
+function commandMatches(entry: string, command: string, root: string): boolean {
+  const caseInsensitive = Deno.build.os === 'windows';
+  const same = (a: string, b: string) => caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+  const isBare = (value: string) => !/[\\/]/.test(value);
+
+  if (isBare(command)) {
+    return isBare(entry) && same(entry.replace(WINDOWS_EXECUTABLE, ''), command.replace(WINDOWS_EXECUTABLE, ''));
+  }
+
+  const resolved = canonicalizePath(command, root);
+  const target = isBare(entry) ? resolveOnPath(entry) : canonicalizePath(entry, root);
+  return target !== undefined && same(target, resolved);
+}
+
+/**
+ * Decide whether a command may be run under a policy.
+ * askCommands take precedence over allowedCommands; other commands are denied.
+ * @param root - Directory relative commands and entries are resolved against (default: working directory)
+ */
+export function evaluateCommand(
+  command: string,
+  policy: Pick<PermissionPolicy, 'allowedCommands'> & { askCommands?: string[] },
+  root = '.'
+): CommandDecision {
+  const ask = policy.askCommands?.find(entry => commandMatches(entry, command, root));
+  if (ask !== undefined) {
+    return { effect: 'ask', rule: ask, reason: `Command '${command}' needs approval by rule '${ask}'` };
+  }
+
+  const allowed = policy.allowedCommands.find(entry => commandMatches(entry, command, root));
+  if (allowed !== undefined) {
+    return { effect: 'allow', rule: allowed, reason: `Command '${command}' is allowed by rule '${allowed}'` };
+  }
 
-  return true;
+  return { effect: 'deny', reason: `Command '${command}' is not in allowedCommands` };
 }
 
 /**
@@ -103,5 +545,5 @@ export function isCommandAllowed(
   command: string,
   policy: PermissionPolicy
 ): boolean {
-  return policy.allowedCommands.includes(command.toLowerCase());
+  return evaluateCommand(command, policy).effect === 'allow';
 }
@@ -0,0 +1,235 @@
+/**
+ * Tests for the path policy engine
+ *
+ * Run with: deno test --allow-read --allow-write mcp/runtime/permissions_test.ts
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import {
+  canonicalizePath,
+  DEFAULT_POLICY,
+  evaluatePath,
+  isPathAllowed,
+  type PermissionPolicy,
+} from './permissions.ts';
+
+const policy: PermissionPolicy = {
+  ...DEFAULT_POLICY,
+  allowedPaths: ['src', 'tests/**/*.cs', 'docs/*.md', 'README.md'],
+  deniedPaths: ['node_modules', '.git/objects', '*.pem', 'src/secrets'],
+};
+
+/**
+ * Create a project directory inside a temp dir, with a sibling directory
+ * outside the project for symlinks to escape to
+ */
+async function withProject(fn: (root: string, outside: string) => void | Promise<void>): Promise<void> {
+  const base = Deno.realPathSync(await Deno.makeTempDir({ prefix: 'thuvu-permissions-' }));
+  const root = `${base}/project`;
+  const outside = `${base}/outside`;
+  try {
+    await Deno.mkdir(`${root}/src/secrets`, { recursive: true });
+    await Deno.mkdir(`${root}/node_modules/pkg`, { recursive: true });
+    await Deno.mkdir(outside, { recursive: true });
+    await Deno.writeTextFile(`${root}/src/app.ts`, '');
+    await Deno.writeTextFile(`${outside}/passwd`, '');
+    await fn(root, outside);
+  } finally {
+    await Deno.remove(base, { recursive: true });
+  }
+}
+
+Deno.test('canonicalizePath resolves relative paths and dot segments', () => {
+  const options = { resolveSymlinks: false };
+  equal(canonicalizePath('src/./a/../b.ts', '/work/project', options), '/work/project/src/b.ts');
+  equal(canonicalizePath('/work/project/src/', '/work/project', options), '/work/project/src');
+  equal(canonicalizePath('src\\lib\\..\\x.ts', '/work/project', options), '/work/project/src/x.ts');
+  equal(canonicalizePath('../../../../../etc', '/work/project', options), '/etc');
+  equal(canonicalizePath('C:\\repo\\src\\..\\bin', 'C:\\repo', options), 'C:/repo/bin');
+});
+
+Deno.test('allows paths covered by an allow rule and explains the match', () => {
+  const decision = evaluatePath('src/app/main.ts', policy, '/work/project', { resolveSymlinks: false });
+  equal(decision.allowed, true);
+  equal(decision.path, '/work/project/src/app/main.ts');
+  equal(decision.relativePath, 'src/app/main.ts');
+  deepEqual(decision.rule, { effect: 'allow', pattern: 'src' });
+  equal(decision.reason, "Allowed by rule 'src'");
+});
+
+Deno.test('denies paths no allow rule covers', () => {
+  const decision = evaluatePath('build/out.dll', policy, '/work/project', { resolveSymlinks: false });
+  equal(decision.allowed, false);
+  equal(decision.rule, undefined);
+  equal(decision.reason, 'No allow rule matches the path');
+});
+
+Deno.test('deny rules take precedence over allow rules', () => {
+  const decision = evaluatePath('src/secrets/key.json', policy, '/work/project', { resolveSymlinks: false });
+  equal(decision.allowed, false);
+  deepEqual(decision.rule, { effect: 'deny', pattern: 'src/secrets' });
+
+  const pem = evaluatePath('src/certs/.server.pem', policy, '/work/project', { resolveSymlinks: false });
+  deepEqual(pem.rule, { effect: 'deny', pattern: '*.pem' });
+});
+
+Deno.test('unanchored patterns match whole names, not substrings', () => {
+  const options = { resolveSymlinks: false };
+  equal(evaluatePath('src/node_modules/x.js', policy, '/work/project', options).allowed, false);
+  equal(evaluatePath('src/my_node_modules.ts', policy, '/work/project', options).allowed, true);
+  equal(evaluatePath('src/node_modules_backup/x.js', policy, '/work/project', options).allowed, true);
+});
+
+Deno.test('anchored patterns only match from the project root', () => {
+  const options = { resolveSymlinks: false };
+  const rootPolicy = { allowedPaths: ['./'], deniedPaths: ['.git/objects'] };
+  equal(evaluatePath('.git/objects/ab/cdef', rootPolicy, '/work/project', options).allowed, false);
+  equal(evaluatePath('.git/HEAD', rootPolicy, '/work/project', options).allowed, true);
+  equal(evaluatePath('vendor/.git/objects/ab', rootPolicy, '/work/project', options).allowed, true);
+
+  const dotSlash = { allowedPaths: ['./src'], deniedPaths: [] };
+  equal(evaluatePath('src/a.ts', dotSlash, '/work/project', options).allowed, true);
+  equal(evaluatePath('lib/src/a.ts', dotSlash, '/work/project', options).allowed, false);
+});
+
+Deno.test('glob syntax: *, **, ?, braces and classes', () => {
+  const options = { resolveSymlinks: false };
+  const globs = { allowedPaths: ['tests/**/*.cs', 'docs/*.md', 'v?/{a,b}.txt', 'log[0-9].txt'], deniedPaths: [] };
+  const allowed = (path: string) => evaluatePath(path, globs, '/work/project', options).allowed;
+
+  ok(allowed('tests/Unit/Deep/FooTests.cs'));
+  ok(allowed('tests/FooTests.cs'));
+  ok(!allowed('tests/FooTests.ts'));
+  ok(allowed('docs/readme.md'));
+  ok(!allowed('docs/nested/readme.md.bak'));
+  ok(allowed('v1/a.txt'));
+  ok(!allowed('v10/a.txt'));
+  ok(!allowed('v1/c.txt'));
+  ok(allowed('log7.txt'));
+  ok(!allowed('logx.txt'));
+});
+
+Deno.test('traversal: ../ out of the root is denied', () => {
+  const options = { resolveSymlinks: false };
+  for (const attempt of [
+    '../outside/passwd',
+    'src/../../outside/passwd',
+    'src/../../../etc/passwd',
+    './src/./../../project-other/file',
+    'src\\..\\..\\outside\\passwd',
+    '/etc/passwd',
+  ]) {
+    const decision = evaluatePath(attempt, policy, '/work/project', options);
+    equal(decision.allowed, false, attempt);
+    equal(decision.relativePath, undefined, attempt);
+    ok(decision.reason.startsWith('Path is outside the project root'), attempt);
+  }
+});
+
+Deno.test('traversal: .. back into a denied directory is denied', () => {
+  const options = { resolveSymlinks: false };
+  const decision = evaluatePath('src/../node_modules/pkg/index.js', policy, '/work/project', options);
+  equal(decision.allowed, false);
+  deepEqual(decision.rule, { effect: 'deny', pattern: 'node_modules' });
+});
+
+Deno.test('traversal: a sibling directory sharing the root prefix is outside', () => {
+  const options = { resolveSymlinks: false };
+  equal(evaluatePath('/work/project-evil/src/a.ts', policy, '/work/project', options).allowed, false);
+  equal(evaluatePath('/work/projectsrc', policy, '/work/project', options).allowed, false);
+});
+
+Deno.test('traversal: NUL characters are rejected', () => {
+  const decision = evaluatePath('src/app.ts\0.md', policy, '/work/project', { resolveSymlinks: false });
+  equal(decision.allowed, false);
+  equal(decision.reason, 'Path contains a NUL character');
+});
+
+Deno.test('traversal: percent-encoded dots are literal names', () => {
+  const decision = evaluatePath('src/%2e%2e/%2e%2e/x', policy, '/work/project', { resolveSymlinks: false });
+  equal(decision.relativePath, 'src/%2e%2e/%2e%2e/x');
+});
+
+Deno.test('case-insensitive comparison for Windows paths', () => {
+  const options = { resolveSymlinks: false, caseInsensitive: true };
+  const decision = evaluatePath('c:\\PROJECT\\Src\\App.cs', policy, 'C:\\project', options);
+  equal(decision.allowed, true);
+  equal(decision.relativePath, 'Src/App.cs');
+
+  equal(evaluatePath('C:\\project\\NODE_MODULES\\x', policy, 'C:\\project', options).allowed, false);
+  equal(evaluatePath('C:\\project\\..\\other\\x', policy, 'C:\\project', options).allowed, false);
+  equal(evaluatePath('D:\\project\\src\\x', policy, 'C:\\project', options).allowed, false);
+});
+
+Deno.test('absolute patterns are taken relative to the root', () => {
+  const options = { resolveSymlinks: false };
+  const absolute = { allowedPaths: ['/work/project/src'], deniedPaths: ['/elsewhere/src'] };
+  equal(evaluatePath('src/a.ts', absolute, '/work/project', options).allowed, true);
+  equal(evaluatePath('lib/a.ts', absolute, '/work/project', options).allowed, false);
+});
+
+Deno.test('symlinks: a link escaping the root is denied', async () => {
+  await withProject(async (root, outside) => {
+    await Deno.symlink(outside, `${root}/src/escape`);
+
+    const decision = evaluatePath('src/escape/passwd', policy, root);
+    equal(decision.allowed, false);
+    equal(decision.path, `${outside}/passwd`);
+    ok(decision.reason.startsWith('Path is outside the project root'));
+
+    // Files that do not exist yet are resolved through the link too
+    equal(evaluatePath('src/escape/new-file.txt', policy, root).allowed, false);
+  });
+});
+
+Deno.test('symlinks: .. after a link applies to the link target', async () => {
+  await withProject(async (root, outside) => {
+    await Deno.mkdir(`${outside}/nested`);
+    await Deno.symlink(`${outside}/nested`, `${root}/src/deep`);
+
+    // Lexically src/deep/../app.ts is src/app.ts, but the OS resolves it to outside/app.ts
+    const decision = evaluatePath('src/deep/../app.ts', policy, root);
+    equal(decision.allowed, false);
+    equal(decision.path, `${outside}/app.ts`);
+  });
+});
+
+Deno.test('symlinks: a link into a denied directory is denied', async () => {
+  await withProject(async (root) => {
+    await Deno.symlink(`${root}/node_modules/pkg`, `${root}/src/pkg`);
+
+    const decision = evaluatePath('src/pkg/index.js', policy, root);
+    equal(decision.allowed, false);
+    equal(decision.relativePath, 'node_modules/pkg/index.js');
+    deepEqual(decision.rule, { effect: 'deny', pattern: 'node_modules' });
+  });
+});
+
+Deno.test('symlinks: a linked project root still contains its own files', async () => {
+  await withProject(async (root) => {
+    const link = `${root}-link`;
+    await Deno.symlink(root, link);
+    try {
+      const decision = evaluatePath(`${root}/src/app.ts`, policy, link);
+      equal(decision.allowed, true);
+      equal(decision.relativePath, 'src/app.ts');
+    } finally {
+      await Deno.remove(link);
+    }
+  });
+});
+
+Deno.test('symlinks: a link loop does not hang and stays inside the root', async () => {
+  await withProject(async (root) => {
+    await Deno.symlink(`${root}/src/loop`, `${root}/src/loop`);
+    const decision = evaluatePath('src/loop/x', policy, root);
+    equal(decision.relativePath, 'src/loop/x');
+  });
+});
+
+Deno.test('isPathAllowed uses the same rules', () => {
+  const root = '/work/project-that-does-not-exist';
+  equal(isPathAllowed('src/a.ts', policy, root), true);
+  equal(isPathAllowed('../a.ts', policy, root), false);
+  equal(isPathAllowed(`${root}/node_modules/a.js`, policy, root), false);
+});
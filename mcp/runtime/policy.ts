@@ -0,0 +1,278 @@
+/**
+ * Project policy files
+ *
+ * A project pins its sandbox policy in `.thuvu-policy.json` at its root,
+ * with named profiles for different kinds of work:
+ *
+ *   {
+ *     "defaultProfile": "fix",
+ *     "profiles": {
+ *       "review":  { "level": "readonly" },
+ *       "fix":     { "level": "execute", "allowedCommands": ["dotnet", "git"] },
+ *       "release": { "extends": "fix", "allowedCommands": ["dotnet", "git", "gh"] }
+ *     }
+ *   }
+ *
+ * A profile starts from DEFAULT_POLICY, or from the profile it extends, and
+ * replaces the fields it sets. The result is validated before use.
+ */
+
+import {
+  DEFAULT_POLICY,
+  evaluatePath,
+  patternBase,
+  PermissionLevel,
+  type PermissionPolicy,
+  POLICY_FILE_NAME,
+} from './permissions.ts';
+
+export { POLICY_FILE_NAME };
+
+export type PolicyProfile = Partial<PermissionPolicy> & {
+  /** Name of the profile this one starts from */
+  extends?: string;
+};
+
+export interface PolicyFile {
+  /** Profile used when none is requested (default: the only profile, if there is one) */
+  defaultProfile?: string;
+  profiles: Record<string, PolicyProfile>;
+}
+
+/**
+ * A policy file or policy that cannot be used, with every problem found
+ */
+export class PolicyValidationError extends Error {
+  constructor(readonly problems: string[], source?: string) {
+    super(`Invalid policy${source ? ` in ${source}` : ''}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'PolicyValidationError';
+  }
+}
+
+const PROFILE_KEYS = ['extends', ...Object.keys(DEFAULT_POLICY)];
+const LEVELS = Object.values(PermissionLevel) as string[];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Check a profile's keys and value types
+ */
+function profileShapeProblems(name: string, profile: unknown): string[] {
+  if (profile === null || typeof profile !== 'object' || Array.isArray(profile)) {
+    return [`profile '${name}' must be an object`];
+  }
+
+  const problems: string[] = [];
+  const fields = profile as Record<string, unknown>;
+  for (const key of Object.keys(fields)) {
+    if (!PROFILE_KEYS.includes(key)) {
+      problems.push(`profile '${name}' has unknown field '${key}'`);
+    }
+  }
+
+  if ('extends' in fields && typeof fields.extends !== 'string') {
+    problems.push(`profile '${name}': extends must be a profile name`);
+  }
+  if ('level' in fields && !LEVELS.includes(fields.level as string)) {
+    problems.push(`profile '${name}': level must be one of ${LEVELS.join(', ')}`);
+  }
+  for (const key of ['allowedPaths', 'deniedPaths', 'allowedCommands', 'askPaths', 'askCommands']) {
+    if (key in fields && !isStringArray(fields[key])) {
+      problems.push(`profile '${name}': ${key} must be an array of strings`);
+    }
+  }
+  for (const key of ['maxExecutionTime', 'maxMemoryMb']) {
+    if (key in fields && typeof fields[key] !== 'number') {
+      problems.push(`profile '${name}': ${key} must be a number`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Find settings that cannot work together. An empty list means the policy
+ * is usable.
+ * @param policy - Policy to check
+ * @param projectRoot - Root the policy's paths are relative to
+ */
+export function validatePolicy(policy: PermissionPolicy, projectRoot: string): string[] {
+  const problems: string[] = [];
+  const lexical = { resolveSymlinks: false };
+
+  if (!LEVELS.includes(policy.level)) {
+    problems.push(`level '${policy.level}' is not one of ${LEVELS.join(', ')}`);
+  }
+  if (policy.allowedPaths.length === 0) {
+    problems.push('allowedPaths is empty, so the sandbox cannot access the project');
+  }
+
+  for (const pattern of [...policy.allowedPaths, ...policy.deniedPaths, ...policy.askPaths]) {
+    if (pattern.includes(',')) {
+      problems.push(`path pattern '${pattern}' contains a comma, which Deno permission flags cannot express`);
+    }
+  }
+
+  for (const pattern of policy.allowedPaths) {
+    if (policy.deniedPaths.includes(pattern)) {
+      problems.push(`'${pattern}' is in both allowedPaths and deniedPaths`);
+      continue;
+    }
+
+    // Patterns match a path and everything below it, so if the pattern's
+    // base is outside the root or denied, so is everything it could match
+    const { base, anchored } = patternBase(pattern);
+    const decision = evaluatePath(anchored ? base : '', { allowedPaths: [pattern], deniedPaths: policy.deniedPaths }, projectRoot, lexical);
+    if (decision.relativePath === undefined) {
+      problems.push(`allowedPaths entry '${pattern}' is outside the project root`);
+    } else if (decision.rule?.effect === 'deny') {
+      problems.push(`allowedPaths entry '${pattern}' can never match: it is covered by deniedPaths entry '${decision.rule.pattern}'`);
+    }
+  }
+
+  for (const pattern of policy.askPaths) {
+    if (policy.deniedPaths.includes(pattern)) {
+      problems.push(`'${pattern}' is in both askPaths and deniedPaths`);
+    } else if (evaluatePath(pattern, { allowedPaths: ['./'], deniedPaths: [] }, projectRoot, lexical).relativePath === undefined) {
+      problems.push(`askPaths entry '${pattern}' is outside the project root`);
+    }
+  }
+
+  if (policy.level === PermissionLevel.Execute && policy.allowedCommands.length === 0 && policy.askCommands.length === 0) {
+    problems.push(`level 'execute' needs at least one allowedCommands or askCommands entry`);
+  }
+  for (const [key, commands] of [['allowedCommands', policy.allowedCommands], ['askCommands', policy.askCommands]] as const) {
+    for (const command of commands) {
+      if (command.trim() === '' || /[,\s]/.test(command)) {
+        problems.push(`${key} entry '${command}' is not a command name or path`);
+      }
+    }
+  }
+  for (const command of policy.askCommands) {
+    if (policy.allowedCommands.includes(command)) {
+      problems.push(`'${command}' is in both allowedCommands and askCommands`);
+    }
+  }
+
+  if (!Number.isInteger(policy.maxExecutionTime) || policy.maxExecutionTime <= 0) {
+    problems.push('maxExecutionTime must be a positive number of milliseconds');
+  }
+  if (!Number.isInteger(policy.maxMemoryMb) || policy.maxMemoryMb <= 0) {
+    problems.push('maxMemoryMb must be a positive number of megabytes');
+  }
+
+  return problems;
+}
+
+/**
+ * Build the policy for one profile, following `extends`
+ * @param file - Parsed policy file
+ * @param name - Profile name; defaults to the file's defaultProfile
+ */
+export function resolveProfile(file: PolicyFile, name?: string): PermissionPolicy {
+  const profileNames = Object.keys(file.profiles);
+  const selected = name ?? file.defaultProfile ?? (profileNames.length === 1 ? profileNames[0] : undefined);
+  if (selected === undefined) {
+    throw new PolicyValidationError([`no profile requested and no defaultProfile set (profiles: ${profileNames.join(', ')})`]);
+  }
+
+  const chain: string[] = [];
+  for (let current: string | undefined = selected; current !== undefined; current = file.profiles[current].extends) {
+    if (chain.includes(current)) {
+      throw new PolicyValidationError([`profiles extend each other in a cycle: ${[...chain, current].join(' -> ')}`]);
+    }
+    if (!Object.hasOwn(file.profiles, current)) {
+      const from = chain.length > 0 ? ` (extended by '${chain[chain.length - 1]}')` : '';
+      throw new PolicyValidationError([`unknown profile '${current}'${from}; profiles: ${profileNames.join(', ')}`]);
+    }
+    chain.push(current);
+  }
+
+  // Apply the base profile first so the requested one has the last word
+  const policy: PermissionPolicy = { ...DEFAULT_POLICY };
+  for (const profileName of chain.reverse()) {
+    const { extends: _, ...fields } = file.profiles[profileName];
+    Object.assign(policy, fields);
+  }
+  return policy;
+}
+
+/**
+ * Parse and validate a policy file and pick a profile
+ * @param text - File contents
+ * @param projectRoot - Root the policy's paths are relative to
+ * @param profile - Profile name; defaults to the file's defaultProfile
+ * @param source - File name used in error messages
+ * @throws PolicyValidationError listing every problem found
+ */
+export function parsePolicyFile(
+  text: string,
+  projectRoot: string,
+  profile?: string,
+  source = POLICY_FILE_NAME
+): PermissionPolicy {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new PolicyValidationError([`not valid JSON: ${error instanceof Error ? error.message : String(error)}`], source);
+  }
+
+  const raw = file as Record<string, unknown>;
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw) ||
+      raw.profiles === null || typeof raw.profiles !== 'object' || Array.isArray(raw.profiles)) {
+    throw new PolicyValidationError(['expected an object with a "profiles" object'], source);
+  }
+
+  const problems = Object.keys(raw)
+    .filter(key => key !== 'profiles' && key !== 'defaultProfile')
+    .map(key => `unknown field '${key}'`);
+  if ('defaultProfile' in raw && typeof raw.defaultProfile !== 'string') {
+    problems.push('defaultProfile must be a profile name');
+  }
+  for (const [name, fields] of Object.entries(raw.profiles as Record<string, unknown>)) {
+    problems.push(...profileShapeProblems(name, fields));
+  }
+  if (problems.length > 0) {
+    throw new PolicyValidationError(problems, source);
+  }
+
+  let policy: PermissionPolicy;
+  try {
+    policy = resolveProfile(raw as unknown as PolicyFile, profile);
+  } catch (error) {
+    if (error instanceof PolicyValidationError) throw new PolicyValidationError(error.problems, source);
+    throw error;
+  }
+
+  const policyProblems = validatePolicy(policy, projectRoot);
+  if (policyProblems.length > 0) {
+    const selected = profile ?? (raw as unknown as PolicyFile).defaultProfile;
+    throw new PolicyValidationError(policyProblems, selected ? `${source} (profile '${selected}')` : source);
+  }
+  return policy;
+}
+
+/**
+ * Load the project's policy. Without a policy file the default policy
+ * applies, unless a profile was requested.
+ * @param projectRoot - Directory containing `.thuvu-policy.json`
+ * @param profile - Profile name; defaults to the file's defaultProfile
+ */
+export async function loadPolicy(projectRoot: string, profile?: string): Promise<PermissionPolicy> {
+  const path = `${projectRoot.replace(/[\\/]+$/, '')}/${POLICY_FILE_NAME}`;
+
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    if (profile !== undefined) {
+      throw new PolicyValidationError([`profile '${profile}' requested but ${path} does not exist`]);
+    }
+    return { ...DEFAULT_POLICY };
+  }
+
+  return parsePolicyFile(text, projectRoot, profile, path);
+}
@@ -0,0 +1,168 @@
+/**
+ * Tests for policy files and the Deno flags generated from them
+ *
+ * The expected flags are golden files in testdata/policy/flags. After an
+ * intended change, regenerate them with:
+ *   UPDATE_GOLDEN=1 deno test --allow-read --allow-write --allow-env mcp/runtime/policy_test.ts
+ */
+
+import { deepEqual, equal, match, ok, rejects, throws } from 'node:assert/strict';
+import { DEFAULT_POLICY, getDenoPermissionFlags, PermissionLevel, type PermissionPolicy } from './permissions.ts';
+import { loadPolicy, parsePolicyFile, PolicyValidationError, validatePolicy } from './policy.ts';
+
+const fixtureDir = new URL('./testdata/policy/', import.meta.url);
+const fixture = Deno.readTextFileSync(new URL('.thuvu-policy.json', fixtureDir));
+
+const PROJECT_ROOT = '/work/project';
+const RUNTIME_DIR = '/opt/thuvu/mcp';
+
+/**
+ * Compare flags with a golden file, one flag per line
+ */
+function assertGolden(name: string, flags: string[]): void {
+  const goldenUrl = new URL(`flags/${name}.txt`, fixtureDir);
+  const actual = flags.join('\n') + '\n';
+  if (Deno.env.get('UPDATE_GOLDEN') === '1') {
+    Deno.writeTextFileSync(goldenUrl, actual);
+    return;
+  }
+  equal(actual, Deno.readTextFileSync(goldenUrl), `flags differ from golden file flags/${name}.txt`);
+}
+
+for (const profile of ['review', 'fix', 'release']) {
+  Deno.test(`flags for the '${profile}' profile match the golden file`, () => {
+    const policy = parsePolicyFile(fixture, PROJECT_ROOT, profile);
+    assertGolden(profile, getDenoPermissionFlags(policy, PROJECT_ROOT, { runtimeDir: RUNTIME_DIR }));
+  });
+}
+
+Deno.test('flags for the default policy match the golden file', () => {
+  assertGolden('default', getDenoPermissionFlags(DEFAULT_POLICY, PROJECT_ROOT, { runtimeDir: RUNTIME_DIR }));
+});
+
+Deno.test('flags for a Windows project root match the golden file', () => {
+  const policy = parsePolicyFile(fixture, 'C:\\work\\project', 'fix');
+  assertGolden('windows', getDenoPermissionFlags(policy, 'C:\\work\\project', { runtimeDir: 'C:\\thuvu\\mcp' }));
+});
+
+Deno.test('the Deno executable is runnable from the execute level only', () => {
+  const options = { runtimeDir: RUNTIME_DIR, denoPath: 'C:\\deno\\deno.exe', tempDir: '/tmp' };
+  const execute = getDenoPermissionFlags(parsePolicyFile(fixture, PROJECT_ROOT, 'fix'), PROJECT_ROOT, options);
+  ok(execute.includes('--allow-run=dotnet,git,C:/deno/deno.exe'), execute.join(' '));
+  ok(execute.some(flag => flag.startsWith('--allow-write=') && flag.endsWith(',/tmp')), execute.join(' '));
+
+  const readOnly = getDenoPermissionFlags(parsePolicyFile(fixture, PROJECT_ROOT, 'review'), PROJECT_ROOT, options);
+  ok(!readOnly.some(flag => flag.startsWith('--allow-run') || flag.startsWith('--allow-write')), readOnly.join(' '));
+});
+
+Deno.test('the default profile is used when none is requested', () => {
+  const policy = parsePolicyFile(fixture, PROJECT_ROOT);
+  equal(policy.level, PermissionLevel.Execute);
+  deepEqual(policy.allowedCommands, ['dotnet', 'git']);
+});
+
+Deno.test('profiles inherit the fields they do not set', () => {
+  const release = parsePolicyFile(fixture, PROJECT_ROOT, 'release');
+  equal(release.maxExecutionTime, 600000);
+  deepEqual(release.deniedPaths, ['.git/objects', '.git/hooks', 'node_modules', '*.pem', 'secrets']);
+
+  const minimal = parsePolicyFile('{"profiles":{"only":{"level":"readonly"}}}', PROJECT_ROOT);
+  deepEqual(minimal, { ...DEFAULT_POLICY, level: PermissionLevel.ReadOnly });
+});
+
+Deno.test('loadPolicy reads the project policy file', async () => {
+  const root = Deno.realPathSync(fixtureDir);
+  const policy = await loadPolicy(root, 'review');
+  equal(policy.level, PermissionLevel.ReadOnly);
+  equal(policy.maxMemoryMb, 256);
+});
+
+Deno.test('loadPolicy falls back to the default policy without a file', async () => {
+  const root = await Deno.makeTempDir({ prefix: 'thuvu-policy-' });
+  try {
+    deepEqual(await loadPolicy(root), DEFAULT_POLICY);
+    await rejects(loadPolicy(root, 'review'), PolicyValidationError);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+/**
+ * Problems reported for a policy file with a single profile
+ */
+function problemsFor(profile: Record<string, unknown>): string[] {
+  try {
+    parsePolicyFile(JSON.stringify({ profiles: { test: profile } }), PROJECT_ROOT);
+  } catch (error) {
+    ok(error instanceof PolicyValidationError);
+    return error.problems;
+  }
+  return [];
+}
+
+Deno.test('rejects malformed files and fields', () => {
+  throws(() => parsePolicyFile('{ not json', PROJECT_ROOT), PolicyValidationError);
+  throws(() => parsePolicyFile('{"profiles": []}', PROJECT_ROOT), PolicyValidationError);
+
+  deepEqual(problemsFor({ level: 'admin', allowedPaths: 'src', maxMemoryMb: '512', colour: 'red' }), [
+    "profile 'test' has unknown field 'colour'",
+    "profile 'test': level must be one of readonly, readwrite, execute, full",
+    "profile 'test': allowedPaths must be an array of strings",
+    "profile 'test': maxMemoryMb must be a number",
+  ]);
+});
+
+Deno.test('rejects unknown profiles and extends cycles', () => {
+  throws(() => parsePolicyFile(fixture, PROJECT_ROOT, 'deploy'), /unknown profile 'deploy'/);
+  throws(
+    () => parsePolicyFile('{"profiles":{"a":{"extends":"b"},"b":{"extends":"a"}}}', PROJECT_ROOT, 'a'),
+    /cycle: a -> b -> a/
+  );
+  throws(() => parsePolicyFile('{"profiles":{"a":{},"b":{}}}', PROJECT_ROOT), /no defaultProfile set/);
+});
+
+Deno.test('rejects contradictory settings', () => {
+  deepEqual(problemsFor({ allowedPaths: ['src'], deniedPaths: ['src'] }), [
+    "'src' is in both allowedPaths and deniedPaths",
+  ]);
+  deepEqual(problemsFor({ allowedPaths: ['src/generated/**'], deniedPaths: ['src'] }), [
+    "allowedPaths entry 'src/generated/**' can never match: it is covered by deniedPaths entry 'src'",
+  ]);
+  deepEqual(problemsFor({ allowedPaths: ['*.cs'], deniedPaths: ['./'] }), [
+    "allowedPaths entry '*.cs' can never match: it is covered by deniedPaths entry './'",
+  ]);
+  deepEqual(problemsFor({ allowedPaths: ['../shared'] }), [
+    "allowedPaths entry '../shared' is outside the project root",
+  ]);
+  deepEqual(problemsFor({ level: 'execute', allowedCommands: [] }), [
+    "level 'execute' needs at least one allowedCommands or askCommands entry",
+  ]);
+});
+
+Deno.test('rejects values Deno flags cannot express', () => {
+  const policy: PermissionPolicy = {
+    ...DEFAULT_POLICY,
+    allowedPaths: [],
+    deniedPaths: ['a,b'],
+    allowedCommands: ['dotnet,curl', ''],
+    maxExecutionTime: 0,
+    maxMemoryMb: 1.5,
+  };
+  deepEqual(validatePolicy(policy, PROJECT_ROOT), [
+    'allowedPaths is empty, so the sandbox cannot access the project',
+    "path pattern 'a,b' contains a comma, which Deno permission flags cannot express",
+    "allowedCommands entry 'dotnet,curl' is not a command name or path",
+    "allowedCommands entry '' is not a command name or path",
+    'maxExecutionTime must be a positive number of milliseconds',
+    'maxMemoryMb must be a positive number of megabytes',
+  ]);
+});
+
+Deno.test('validation errors name the file and profile', () => {
+  const text = JSON.stringify({ profiles: { fix: { level: 'execute', allowedCommands: [] } } });
+  throws(() => parsePolicyFile(text, PROJECT_ROOT, 'fix'), (error: unknown) => {
+    ok(error instanceof PolicyValidationError);
+    match(error.message, /^Invalid policy in \.thuvu-policy\.json \(profile 'fix'\):\n {2}- level 'execute'/);
+    return true;
+  });
+});
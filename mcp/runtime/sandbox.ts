@@ -3,41 +3,73 @@
  * This is the entry point that Deno runs
  */
 
-import { bridge } from './bridge.ts';
-
-interface ExecutionRequest {
-  code: string;
-  timeout?: number;
-}
+import { bridge, type ExecutionRequest, type InFlightCall } from './bridge.ts';
+import { generatePreamble } from '../catalog.ts';
+import { ReplSession, SNIPPET_MARKER } from './session.ts';
+import { remapStack, snippetLineOffset, typeCheckSnippet, type SnippetDiagnostic } from './diagnostics.ts';
+import { serializeError, type SerializedError } from './errors.ts';
+import { ConsoleCapture, type ConsoleEntry } from './console.ts';
+import { encodeResult } from './codec.ts';
+import { PolicyGate, type AuditEntry } from './gate.ts';
+import { connectExternalServers, disconnectExternalServers } from './external.ts';
+import { DEFAULT_POLICY } from './permissions.ts';
+import { loadPolicy, POLICY_FILE_NAME, PolicyValidationError, validatePolicy } from './policy.ts';
 
 interface ExecutionResult {
+  id?: string;
   success: boolean;
-  result?: unknown;
-  output?: string;  // Captured console.log output
+  result?: unknown;  // Encoded with encodeResult; decode with decodeResult from codec.ts
+  resultTruncated?: boolean;  // Parts of the result exceeded the size or depth budget
+  output?: string;  // Captured console output as text
+  console?: ConsoleEntry[];  // Captured console output with levels and timestamps
+  outputTruncated?: boolean;  // Console output exceeded the line or total limit
   error?: string;
+  errorInfo?: SerializedError;  // Kind, tool, args and host data of the error
   duration: number;
+  timedOut?: boolean;
+  inFlight?: InFlightCall[];  // Tool calls still pending when the timeout expired
+  diagnostics?: SnippetDiagnostic[];  // Type errors found in check mode, in snippet lines
+  audit?: AuditEntry[];  // Policy gate decisions for the snippet's tool calls
+}
+
+/**
+ * The host kills the sandbox when the timeout expires, so stop a little
+ * earlier to leave time for the RESULT line to reach it
+ */
+const TIMEOUT_MARGIN_MS = 500;
+
+/**
+ * Deadline for a request, or undefined if it has no timeout
+ */
+function effectiveTimeout(timeout?: number): number | undefined {
+  if (!timeout || timeout <= 0) return undefined;
+  return Math.max(timeout - TIMEOUT_MARGIN_MS, Math.floor(timeout * 0.9));
 }
 
+declare global {
+  var __thuvu_session__: ReplSession | undefined;
+}
+
+// Get the mcp directory URL for imports - keep it as a proper file:// URL
+const runtimeUrl = new URL('.', import.meta.url);
+const mcpUrl = new URL('..', runtimeUrl);
+
 /**
  * Execute agent-generated code in a sandboxed context
+ * @param code - Snippet to run
+ * @param session - Session whose top-level bindings persist across snippets (session mode only)
  */
-async function executeCode(code: string): Promise<unknown> {
-  // Get the mcp directory URL for imports - keep it as a proper file:// URL
-  const runtimeUrl = new URL('.', import.meta.url);
-  const mcpUrl = new URL('..', runtimeUrl);
-  const fsUrl = new URL('servers/filesystem/index.ts', mcpUrl).href;
-  const gitUrl = new URL('servers/git/index.ts', mcpUrl).href;
-  const processUrl = new URL('servers/process/index.ts', mcpUrl).href;
-  
+async function executeCode(code: string, session?: ReplSession): Promise<unknown> {
   // Wrap the code so it exports its result as default
-  // Auto-inject tool imports so users don't need to import them
-  const wrappedCode = `
-    import { searchFiles, readFile, writeFile, applyPatch } from '${fsUrl}';
-    import { status, diff, diffStaged, diffUnstaged, commit } from '${gitUrl}';
-    import { run as runCommand, git, dotnet } from '${processUrl}';
+  // Auto-inject every catalog server as a namespace plus unambiguous flat aliases
+  const wrappedCode = session
+    ? session.wrap(code, generatePreamble(mcpUrl))
+    : `
+    ${generatePreamble(mcpUrl)}
     
     const __result__ = await (async () => {
-      ${code}
+${SNIPPET_MARKER}
+${code}
     })();
     export default __result__;
   `;
@@ -49,61 +81,249 @@ async function executeCode(code: string): Promise<unknown> {
   try {
     const module = await import(url);
     return module.default;
+  } catch (error) {
+    // Point stack frames at the submitted code rather than the wrapper
+    if (error instanceof Error && error.stack) {
+      error.stack = remapStack(error.stack, url, snippetLineOffset(wrappedCode), code.split('\n').length);
+    }
+    throw error;
   } finally {
     URL.revokeObjectURL(url);
   }
 }
 
 /**
- * Main entry point - reads execution request from stdin
+ * Type-check a snippet with the same preamble and session state it would
+ * run with
  */
-async function main(): Promise<void> {
-  // Wait for the EXECUTE command
-  const request = await bridge.waitForExecuteCommand();
-  
-  if (!request) {
-    console.error('No EXECUTE command received');
-    Deno.exit(1);
-    return;
+function checkCode(code: string, session?: ReplSession): Promise<SnippetDiagnostic[]> {
+  const preamble = [generatePreamble(mcpUrl), ...(session?.importStatements ?? [])].join('\n');
+  return typeCheckSnippet(code, preamble, session?.bindings);
+}
+
+/**
+ * Race the snippet against the request timeout. On expiry the snippet keeps
+ * running in the background, but its pending tool calls are rejected and
+ * any call it makes later is refused, so it cannot make further progress
+ * that depends on the host.
+ */
+async function executeWithTimeout(
+  code: string,
+  timeoutMs: number | undefined,
+  session?: ReplSession
+): Promise<{ timedOut: false; value: unknown } | { timedOut: true; inFlight: InFlightCall[] }> {
+  const running = bridge.createExecution();
+  const execution = bridge.runExecution(running, () => executeCode(code, session))
+    .then(value => ({ timedOut: false as const, value }));
+  if (timeoutMs === undefined) {
+    return await execution;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expiry = new Promise<{ timedOut: true; inFlight: InFlightCall[] }>(resolve => {
+    timer = setTimeout(() => {
+      const inFlight = bridge.inFlight();
+      bridge.expireExecution(running, timeoutMs);
+      resolve({ timedOut: true, inFlight });
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([execution, expiry]);
+  } finally {
+    clearTimeout(timer);
   }
+}
+
+/**
+ * Gate for a request's policy: the inline policy, the requested profile,
+ * the project's policy file, or else the default policy
+ */
+async function policyGateFor(request: ExecutionRequest): Promise<PolicyGate> {
+  const projectRoot = request.projectRoot ?? Deno.cwd();
+
+  if (request.policy) {
+    const policy = { ...DEFAULT_POLICY, ...request.policy };
+    const problems = validatePolicy(policy, projectRoot);
+    if (problems.length > 0) throw new PolicyValidationError(problems, 'request policy');
+    return new PolicyGate(policy, projectRoot);
+  }
+
+  if (request.profile === undefined) {
+    try {
+      await Deno.stat(`${projectRoot}/${POLICY_FILE_NAME}`);
+    } catch {
+      return new PolicyGate(DEFAULT_POLICY, projectRoot);
+    }
+  }
+  return new PolicyGate(await loadPolicy(projectRoot, request.profile), projectRoot);
+}
+
+/**
+ * Audit field of ExecutionResult
+ */
+function auditTrail(gate: PolicyGate | undefined): Pick<ExecutionResult, 'audit'> {
+  const audit = gate?.takeAudit() ?? [];
+  return audit.length > 0 ? { audit } : {};
+}
+
+/**
+ * Result fields of ExecutionResult
+ */
+function encodedValue(value: unknown, request: ExecutionRequest): Pick<ExecutionResult, 'result' | 'resultTruncated'> {
+  // A snippet without a return value has no result, as before
+  if (value === undefined) return {};
+
+  const encoded = encodeResult(value, { maxSize: request.maxResultSize, maxDepth: request.maxResultDepth });
+  return { result: encoded.value, resultTruncated: encoded.truncated || undefined };
+}
+
+/**
+ * Console fields of ExecutionResult
+ */
+function capturedConsole(capture: ConsoleCapture): Pick<ExecutionResult, 'output' | 'console' | 'outputTruncated'> {
+  if (capture.entries.length === 0 && !capture.truncated) return {};
+  return {
+    output: capture.text(),
+    console: capture.entries,
+    outputTruncated: capture.truncated || undefined,
+  };
+}
 
+/**
+ * Run one execution request, capturing console output
+ */
+async function runRequest(request: ExecutionRequest, session?: ReplSession): Promise<ExecutionResult> {
   const startTime = performance.now();
   let result: ExecutionResult;
   
-  // Capture console output by overriding console.log
-  const capturedOutput: string[] = [];
-  const originalLog = console.log;
-  console.log = (...args: unknown[]) => {
-    const line = args.map(a => typeof a === 'string' ? a : JSON.stringify(a)).join(' ');
-    capturedOutput.push(line);
-    // Also write to stderr so it appears in debug output
-    console.error('[CODE OUTPUT]', line);
-  };
+  // Capture all console output while the snippet runs
+  const capture = new ConsoleCapture({
+    maxLineLength: request.maxOutputLineLength,
+    maxTotalLength: request.maxOutputLength,
+  });
+  capture.install();
+
+  const timeoutMs = effectiveTimeout(request.timeout);
+  let gate: PolicyGate | undefined;
 
   try {
-    const output = await executeCode(request.code);
-    result = {
-      success: true,
-      result: output,
-      output: capturedOutput.length > 0 ? capturedOutput.join('\n') : undefined,
-      duration: performance.now() - startTime,
-    };
+    gate = await policyGateFor(request);
+    bridge.setGate(gate);
+    // Starting a server runs a command, so it is checked against the same policy
+    await connectExternalServers(request.mcpServers ?? {}, gate);
+
+    const diagnostics = request.check ? await checkCode(request.code, session) : [];
+    if (diagnostics.length > 0) {
+      return {
+        id: request.id,
+        success: false,
+        error: `Type check failed with ${diagnostics.length} error(s)`,
+        diagnostics,
+        duration: performance.now() - startTime,
+      };
+    }
+
+    const outcome = await executeWithTimeout(request.code, timeoutMs, session);
+    result = outcome.timedOut
+      ? {
+        id: request.id,
+        success: false,
+        error: `Execution timed out after ${timeoutMs}ms`,
+        ...capturedConsole(capture),
+        ...auditTrail(gate),
+        duration: performance.now() - startTime,
+        timedOut: true,
+        inFlight: outcome.inFlight,
+      }
+      : {
+        id: request.id,
+        success: true,
+        ...encodedValue(outcome.value, request),
+        ...capturedConsole(capture),
+        ...auditTrail(gate),
+        duration: performance.now() - startTime,
+      };
   } catch (error) {
     result = {
+      id: request.id,
       success: false,
       error: error instanceof Error ? error.message : String(error),
-      output: capturedOutput.length > 0 ? capturedOutput.join('\n') : undefined,
+      errorInfo: serializeError(error),
+      ...capturedConsole(capture),
+      ...auditTrail(gate),
       duration: performance.now() - startTime,
     };
   } finally {
-    // Restore original console.log
-    console.log = originalLog;
+    capture.restore();
+    // Keep whatever the snippet declared, even if it failed or timed out
+    session?.commit();
   }
 
-  // Write result to stdout
+  return result;
+}
+
+/**
+ * Write a RESULT line to stdout
+ */
+async function writeResult(result: ExecutionResult): Promise<void> {
   const encoder = new TextEncoder();
   const resultLine = 'RESULT:' + JSON.stringify(result) + '\n';
   await Deno.stdout.write(encoder.encode(resultLine));
+}
+
+/**
+ * Session mode - run EXECUTE commands until SHUTDOWN or stdin closes,
+ * keeping top-level bindings and imports between them
+ */
+async function runSession(): Promise<void> {
+  const session = new ReplSession();
+  globalThis.__thuvu_session__ = session;
+
+  while (true) {
+    const command = await bridge.nextCommand();
+    if (!command) break;
+
+    switch (command.type) {
+      case 'execute':
+        await writeResult(await runRequest(command.request, session));
+        break;
+      case 'reset':
+        session.reset();
+        await writeResult({ id: command.id, success: true, duration: 0 });
+        break;
+      case 'shutdown':
+        await disconnectExternalServers();
+        await writeResult({ id: command.id, success: true, duration: 0 });
+        Deno.exit(0);
+    }
+  }
+
+  await disconnectExternalServers();
+  Deno.exit(0);
+}
+
+/**
+ * Main entry point - reads execution request from stdin
+ */
+async function main(): Promise<void> {
+  if (Deno.args.includes('--session')) {
+    await runSession();
+    return;
+  }
+
+  // Wait for the EXECUTE command
+  const request = await bridge.waitForExecuteCommand();
+  
+  if (!request) {
+    console.error('No EXECUTE command received');
+    Deno.exit(1);
+    return;
+  }
+
+  const result = await runRequest(request);
+  await disconnectExternalServers();
+  await writeResult(result);
   
   // Exit after execution
   Deno.exit(result.success ? 0 : 1);
@@ -0,0 +1,411 @@
+/**
+ * Persistent REPL session for the sandbox
+ *
+ * Each snippet still runs as its own module inside an async function (so
+ * `return` works at the top level), but its top-level declarations are
+ * captured into a session scope when it finishes and restored as local
+ * bindings in the next snippet. Top-level import statements are hoisted
+ * to module scope and replayed for later snippets; Deno's module cache
+ * means the imported modules are only evaluated once.
+ */
+
+/**
+ * Marks the line after which the snippet starts in a generated module.
+ * The snippet always begins at column 1 of the next line, so positions
+ * in the module map back to the snippet by a line offset alone.
+ */
+export const SNIPPET_MARKER = '// @thuvu-snippet';
+
+/** Getters registered by a running snippet, one per top-level binding */
+type BindingGetters = Record<string, () => unknown>;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const OPENERS = '{([';
+const CLOSERS = '})]';
+
+/** Characters that continue an expression onto the next line */
+const CONTINUATION = /^[.?:+\-*/%&|^,=<>]/;
+
+/** Punctuation after which a `/` starts a regex literal rather than dividing */
+const REGEX_AFTER_PUNCTUATION = /[(,=:[!&|?{};+\-*%<>~^]$/;
+
+/** Keywords after which a `/` starts a regex literal */
+const REGEX_AFTER_KEYWORD = /(?:^|[^\w$.])(?:return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await)$/;
+
+/**
+ * Whether a `/` following this (masked) code starts a regex literal
+ */
+function startsRegex(before: string): boolean {
+  const code = before.trimEnd();
+  return code === '' || REGEX_AFTER_PUNCTUATION.test(code) || REGEX_AFTER_KEYWORD.test(code);
+}
+
+/**
+ * Index just past the regex literal starting at `start`, or -1 if the
+ * line ends first
+ */
+function regexEnd(source: string, start: number): number {
+  let inClass = false;
+  for (let j = start + 1; j < source.length; j++) {
+    const ch = source[j];
+    if (ch === '\n') return -1;
+    if (ch === '\\') j++;
+    else if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    else if (ch === '/' && !inClass) return j + 1;
+  }
+  return -1;
+}
+
+/**
+ * Blank out comments and the contents of string, template and regex
+ * literals so that keyword and bracket scanning only sees code. Offsets
+ * are preserved.
+ */
+function maskNonCode(source: string): string {
+  let out = '';
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      out += ' '.repeat(stop - i);
+      i = stop;
+    } else if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      out += source.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\') j++;
+        j++;
+      }
+      const stop = Math.min(j + 1, source.length);
+      out += ch + source.slice(i + 1, stop).replace(/[^\n]/g, ' ').slice(0, -1) + ch;
+      i = stop;
+    } else if (ch === '/' && startsRegex(out) && regexEnd(source, i) !== -1) {
+      const stop = regexEnd(source, i);
+      out += '/' + ' '.repeat(stop - i - 2) + '/';
+      i = stop;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out.slice(0, source.length);
+}
+
+/**
+ * Index of the first `target` character at bracket depth 0, or -1
+ */
+function findTopLevel(text: string, target: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (OPENERS.includes(ch)) depth++;
+    else if (CLOSERS.includes(ch)) depth--;
+    else if (ch === target && depth === 0) {
+      // Skip '==', '=>', '<=', '>=' and '!='
+      if (target === '=' && ('=>'.includes(text[i + 1] ?? '') || '=!<>'.includes(text[i - 1] ?? ''))) continue;
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split text on commas at bracket depth 0
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (OPENERS.includes(ch)) depth++;
+    else if (CLOSERS.includes(ch)) depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Split a declaration list on its top-level commas. Commas inside a type
+ * annotation's generic arguments (`Map<string, number>`) do not split.
+ */
+function splitDeclarators(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let angle = 0;
+  let inType = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (OPENERS.includes(ch)) depth++;
+    else if (CLOSERS.includes(ch)) depth--;
+    else if (depth === 0 && ch === ':' && angle === 0) inType = true;
+    else if (inType && ch === '<') angle++;
+    else if (inType && ch === '>' && text[i - 1] !== '=') angle--;
+    else if (depth === 0 && angle === 0 && ch === '=') inType = false;
+    else if (depth === 0 && angle === 0 && ch === ',') {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+      inType = false;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Collect binding names from a declaration target: an identifier or a
+ * destructuring pattern such as `{ a, b: c, ...rest }` or `[x, , y = 1]`
+ */
+function collectBindingNames(target: string, names: Set<string>): void {
+  const trimmed = target.trim();
+  if (IDENTIFIER.test(trimmed)) {
+    names.add(trimmed);
+    return;
+  }
+
+  const open = trimmed[0];
+  if (open !== '{' && open !== '[') return;
+
+  for (let part of splitTopLevel(trimmed.slice(1, -1))) {
+    part = part.trim().replace(/^\.\.\./, '');
+    if (!part) continue;
+
+    const eq = findTopLevel(part, '=');
+    if (eq !== -1) part = part.slice(0, eq);
+
+    if (open === '{') {
+      const colon = findTopLevel(part, ':');
+      collectBindingNames(colon !== -1 ? part.slice(colon + 1) : part, names);
+    } else {
+      collectBindingNames(part, names);
+    }
+  }
+}
+
+/**
+ * The binding target at the start of a declarator, without its type annotation
+ */
+function declaratorTarget(declarator: string): string {
+  const text = declarator.trimStart();
+  const open = OPENERS.indexOf(text[0]);
+  if (open === -1) {
+    return text.match(/^[A-Za-z_$][\w$]*/)?.[0] ?? '';
+  }
+
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (OPENERS.includes(text[i])) depth++;
+    else if (CLOSERS.includes(text[i]) && --depth === 0) return text.slice(0, i + 1);
+  }
+  return text;
+}
+
+/**
+ * Length of a `const`/`let`/`var` statement body (after the keyword),
+ * ending at a top-level `;` or at a newline that does not continue the expression
+ */
+function statementLength(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (OPENERS.includes(ch)) depth++;
+    else if (CLOSERS.includes(ch)) {
+      if (--depth < 0) return i;
+    } else if (depth === 0 && ch === ';') {
+      return i;
+    } else if (depth === 0 && ch === '\n') {
+      const before = text.slice(0, i).trimEnd();
+      const after = text.slice(i + 1).trimStart();
+      if (before && !CONTINUATION.test(before.slice(-1)) && !CONTINUATION.test(after)) {
+        return i;
+      }
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Find the names declared at the top level of a snippet
+ * (const/let/var, function, class and enum declarations)
+ */
+export function findTopLevelDeclarations(code: string): string[] {
+  const masked = maskNonCode(code);
+  const names = new Set<string>();
+  const word = /[A-Za-z_$][\w$]*/y;
+  let depth = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i];
+    if (OPENERS.includes(ch)) { depth++; continue; }
+    if (CLOSERS.includes(ch)) { depth--; continue; }
+    if (depth !== 0 || !/[A-Za-z_$]/.test(ch) || (i > 0 && /[\w$.]/.test(masked[i - 1]))) continue;
+
+    word.lastIndex = i;
+    const keyword = word.exec(masked)![0];
+    const rest = masked.slice(i + keyword.length);
+
+    if (keyword === 'const' || keyword === 'let' || keyword === 'var') {
+      if (/^\s+enum\b/.test(rest)) {
+        // `const enum Name` is handled when the scan reaches `enum`
+        i += keyword.length - 1;
+        continue;
+      }
+      const length = statementLength(rest);
+      for (const declarator of splitDeclarators(rest.slice(0, length))) {
+        collectBindingNames(declaratorTarget(declarator), names);
+      }
+      i += keyword.length + length - 1;
+    } else if (keyword === 'function' || keyword === 'class' || keyword === 'enum') {
+      const match = rest.match(/^\s*\*?\s*([A-Za-z_$][\w$]*)/);
+      if (match) names.add(match[1]);
+      i += keyword.length - 1;
+    } else {
+      i += keyword.length - 1;
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Offset of the first closing bracket in a snippet that has no opening
+ * bracket before it. Such a bracket would close the function the snippet
+ * is wrapped in and let the code after it escape.
+ * @returns The offset, or -1 if every closer is matched
+ */
+export function findUnmatchedCloser(code: string): number {
+  const masked = maskNonCode(code);
+  let depth = 0;
+  for (let i = 0; i < masked.length; i++) {
+    if (OPENERS.includes(masked[i])) depth++;
+    else if (CLOSERS.includes(masked[i]) && --depth < 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Split top-level `import ... from '...'` statements out of a snippet.
+ * Statements are found in the masked code, so text inside strings and
+ * comments that looks like an import stays in the body.
+ */
+export function extractImports(code: string): { imports: string[]; body: string } {
+  const imports: string[] = [];
+  const pattern = /^[ \t]*import\s+(?:type\s+)?(?:[\w$*{}\s,]+\s+from\s+)?(['"])[^'"\n]+\1[ \t]*;?/gm;
+  let body = '';
+  let last = 0;
+  for (const match of maskNonCode(code).matchAll(pattern)) {
+    imports.push(code.slice(match.index, match.index + match[0].length).trim());
+    body += code.slice(last, match.index);
+    last = match.index + match[0].length;
+  }
+  return { imports, body: body + code.slice(last) };
+}
+
+/**
+ * State shared by all snippets executed in one sandbox process
+ */
+export class ReplSession {
+  /** Persisted values of top-level bindings, by name */
+  readonly scope: Record<string, unknown> = {};
+  private imports: string[] = [];
+  private pendingImports: string[] = [];
+  private getters: BindingGetters = {};
+
+  /**
+   * Names currently persisted in the session
+   */
+  get bindings(): string[] {
+    return Object.keys(this.scope);
+  }
+
+  /**
+   * Import statements replayed into every snippet
+   */
+  get importStatements(): string[] {
+    return [...this.imports];
+  }
+
+  /**
+   * Forget all persisted bindings and imports
+   */
+  reset(): void {
+    for (const name of Object.keys(this.scope)) {
+      delete this.scope[name];
+    }
+    this.imports = [];
+    this.pendingImports = [];
+    this.getters = {};
+  }
+
+  /**
+   * Build the module source for a snippet
+   * @param code - Snippet as submitted by the agent
+   * @param preamble - Tool imports injected into every snippet
+   */
+  wrap(code: string, preamble: string): string {
+    const { imports, body } = extractImports(code);
+    const declared = findTopLevelDeclarations(body);
+    const restored = this.bindings.filter(name => !declared.includes(name));
+
+    this.pendingImports = imports.filter(statement => !this.imports.includes(statement));
+
+    const restoreLines = restored.map(name => `let ${name} = __session__.scope[${JSON.stringify(name)}];`);
+    const getters = [...declared, ...restored].map(name => `${JSON.stringify(name)}: () => ${name}`);
+
+    return `
+    ${preamble}
+    ${[...this.imports, ...this.pendingImports].join('\n')}
+    const __session__ = globalThis.__thuvu_session__;
+
+    const __result__ = await (async () => {
+      ${restoreLines.join('\n')}
+      __session__.capture({ ${getters.join(', ')} });
+${SNIPPET_MARKER}
+${body}
+    })();
+    export default __result__;
+  `;
+  }
+
+  /**
+   * Called by the wrapped snippet before its body runs, which means
+   * its imports resolved and can be replayed for later snippets
+   */
+  capture(getters: BindingGetters): void {
+    this.getters = getters;
+    this.imports.push(...this.pendingImports);
+    this.pendingImports = [];
+  }
+
+  /**
+   * Copy the values of the last snippet's top-level bindings into the scope.
+   * Bindings still in their temporal dead zone (the snippet returned or threw
+   * before declaring them) keep their previous value.
+   */
+  commit(): void {
+    for (const [name, getter] of Object.entries(this.getters)) {
+      try {
+        this.scope[name] = getter();
+      } catch {
+        // Not initialized yet
+      }
+    }
+    this.getters = {};
+    this.pendingImports = [];
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Tests for finding the declarations and imports a REPL session persists
+ *
+ * Run with: deno test mcp/runtime/session_test.ts
+ */
+
+import { deepEqual } from 'node:assert/strict';
+import { extractImports, findTopLevelDeclarations } from './session.ts';
+
+Deno.test('top-level declarations of every kind are found', () => {
+  const code = `
+const a = 1, { b, c: d, ...e } = obj, [f, , g = 2] = list;
+let h: Map<string, number> = new Map(), i;
+var j
+function k() { const inner = 1; return inner; }
+async function* l() {}
+class M {}
+const enum N { X }
+if (a) { const hidden = 3; }
+`;
+  deepEqual(findTopLevelDeclarations(code), ['a', 'b', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'M', 'N']);
+});
+
+Deno.test('strings, comments and regex literals do not hide later declarations', () => {
+  const code = `
+const r = /'/;
+const after = 1;
+const s = "{ // not a comment";
+// const commented = 1;
+/* const blocked = 1; */
+const t = \`\${s} }\`;
+const halves = after / 2 / 1;
+const u = [/[/]/, /\\//g].length;
+if (r.test(s)) console.log(/"/);
+const last = true;
+`;
+  deepEqual(findTopLevelDeclarations(code), ['r', 'after', 's', 't', 'halves', 'u', 'last']);
+});
+
+Deno.test('a declaration continues over lines that carry on its expression', () => {
+  const code = `
+const total = items
+  .map(x => x.size)
+  .reduce((a, b) => a + b, 0)
+const next = 1
+`;
+  deepEqual(findTopLevelDeclarations(code), ['total', 'next']);
+});
+
+Deno.test('imports are split out and the rest of the snippet kept', () => {
+  const code = `import { parse } from 'jsr:@std/csv';
+import * as path from "node:path";
+  import type { Foo } from './foo.ts';
+import 'npm:side-effect';
+const help = \`
+import nothing from 'inside-a-string';
+\`;
+// import commented from 'nowhere';
+return parse(help);`;
+
+  const { imports, body } = extractImports(code);
+  deepEqual(imports, [
+    "import { parse } from 'jsr:@std/csv';",
+    'import * as path from "node:path";',
+    "import type { Foo } from './foo.ts';",
+    "import 'npm:side-effect';",
+  ]);
+  deepEqual(body.split('\n').filter(Boolean), [
+    'const help = `',
+    "import nothing from 'inside-a-string';",
+    '`;',
+    "// import commented from 'nowhere';",
+    'return parse(help);',
+  ]);
+});
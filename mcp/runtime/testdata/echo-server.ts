@@ -0,0 +1,134 @@
+/**
+ * A minimal MCP server on stdio for the external client tests
+ *
+ * Tools: echo, add, fail, wait (reports progress, then waits to be
+ * cancelled) and cancelled (the request ids cancelled so far). tools/list
+ * returns two tools per page to exercise pagination.
+ */
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Echo a message back',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+  },
+  { name: 'fail', description: 'Always fails', inputSchema: { type: 'object', properties: {} } },
+  { name: 'wait', description: 'Report progress and wait until cancelled', inputSchema: { type: 'object' } },
+  { name: 'cancelled', description: 'Request ids cancelled so far', inputSchema: { type: 'object' } },
+];
+
+const PAGE_SIZE = 2;
+
+/** The fields of the client's messages this server reads */
+interface ClientMessage {
+  id?: number | string;
+  method?: string;
+  params?: {
+    protocolVersion?: string;
+    cursor?: string;
+    requestId?: number | string;
+    name?: string;
+    arguments?: { text?: unknown; a?: number; b?: number };
+    _meta?: { progressToken?: number | string };
+  };
+}
+
+type ToolCallParams = NonNullable<ClientMessage['params']>;
+
+const encoder = new TextEncoder();
+const cancelled: unknown[] = [];
+
+function send(message: Record<string, unknown>): void {
+  Deno.stdout.writeSync(encoder.encode(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n'));
+}
+
+function text(value: string, isError = false) {
+  return { content: [{ type: 'text', text: value }], isError };
+}
+
+function callTool(id: unknown, params: ToolCallParams): unknown {
+  const args = params.arguments ?? {};
+  switch (params.name) {
+    case 'echo':
+      return text(String(args.text));
+    case 'add': {
+      const sum = Number(args.a) + Number(args.b);
+      return { ...text(String(sum)), structuredContent: { sum } };
+    }
+    case 'fail':
+      return text('Something went wrong', true);
+    case 'wait': {
+      const token = params._meta?.progressToken;
+      if (token !== undefined) {
+        send({ method: 'notifications/progress', params: { progressToken: token, progress: 1, total: 4, message: 'waiting' } });
+      }
+      return undefined;
+    }
+    case 'cancelled':
+      return { ...text(JSON.stringify(cancelled)), structuredContent: { ids: cancelled } };
+    default:
+      throw { code: -32602, message: `Unknown tool: ${params.name} (${id})` };
+  }
+}
+
+function handle(message: ClientMessage): void {
+  const { id, method, params = {} } = message;
+  if (id === undefined) {
+    if (method === 'notifications/cancelled') cancelled.push(params.requestId);
+    return;
+  }
+
+  try {
+    switch (method) {
+      case 'initialize':
+        send({
+          id,
+          result: {
+            protocolVersion: params.protocolVersion,
+            capabilities: { tools: {} },
+            serverInfo: { name: 'echo', version: '0.1.0' },
+          },
+        });
+        return;
+      case 'tools/list': {
+        const start = Number(params.cursor ?? 0);
+        const next = start + PAGE_SIZE;
+        send({
+          id,
+          result: { tools: TOOLS.slice(start, next), ...(next < TOOLS.length ? { nextCursor: String(next) } : {}) },
+        });
+        return;
+      }
+      case 'tools/call': {
+        const result = callTool(id, params);
+        if (result !== undefined) send({ id, result });
+        return;
+      }
+      default:
+        send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+    }
+  } catch (error) {
+    send({ id, error });
+  }
+}
+
+const decoder = new TextDecoder();
+let buffer = '';
+for await (const chunk of Deno.stdin.readable) {
+  buffer += decoder.decode(chunk, { stream: true });
+  let newline: number;
+  while ((newline = buffer.indexOf('\n')) !== -1) {
+    const line = buffer.slice(0, newline).trim();
+    buffer = buffer.slice(newline + 1);
+    if (line) handle(JSON.parse(line));
+  }
+}
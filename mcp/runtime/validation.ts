@@ -0,0 +1,172 @@
+/**
+ * Tool argument validation
+ *
+ * Before a call leaves the sandbox, the bridge checks its arguments against
+ * the parameters schema of the wrapper that builds them (the TOOL_SCHEMAS
+ * entries that name a host `tool`). Every problem is reported at once in an
+ * InvalidArgumentsError, worded for whoever wrote the call:
+ *
+ *   readFile: `path` is required (string)
+ *
+ * Defaults declared in the schema are filled in for missing arguments.
+ * Calls to host tools without a schema are sent unchecked.
+ */
+
+import { type JsonSchema, type ToolSchema, TOOL_SCHEMAS } from '../catalog.ts';
+import { InvalidArgumentsError } from './errors.ts';
+
+/** Schemas by the host tool they describe */
+const SCHEMAS_BY_TOOL = new Map<string, ToolSchema>(
+  Object.values(TOOL_SCHEMAS).filter(schema => schema.tool).map(schema => [schema.tool!, schema])
+);
+
+/**
+ * The schema for a host tool's arguments, if the catalog has one
+ */
+export function getArgumentSchema(tool: string): ToolSchema | undefined {
+  return SCHEMAS_BY_TOOL.get(tool);
+}
+
+/**
+ * Short description of the values a schema accepts: string, string[],
+ * "Debug" | "Release", object
+ */
+export function describeSchema(schema: JsonSchema): string {
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  if (schema.anyOf) return schema.anyOf.map(describeSchema).join(' | ');
+  if (schema.type === 'array') {
+    const items = schema.items ? describeSchema(schema.items) : 'unknown';
+    return items.includes(' | ') ? `(${items})[]` : `${items}[]`;
+  }
+  return schema.type ?? 'any value';
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function matchesType(type: JsonSchema['type'], value: unknown): boolean {
+  switch (type) {
+    case undefined:
+      return true;
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+}
+
+/**
+ * Check a value against a schema, collecting problems
+ * @param path - Where the value is, for messages: `paths[1]`, `options.limit`
+ * @returns The value with defaults filled in
+ */
+export function validateValue(schema: JsonSchema, value: unknown, path: string, problems: string[]): unknown {
+  if (schema.anyOf) {
+    for (const option of schema.anyOf) {
+      const optionProblems: string[] = [];
+      const result = validateValue(option, value, path, optionProblems);
+      if (optionProblems.length === 0) return result;
+    }
+    problems.push(`\`${path}\` must be ${describeSchema(schema)}, got ${describeValue(value)}`);
+    return value;
+  }
+
+  if (!matchesType(schema.type, value)) {
+    problems.push(`\`${path}\` must be ${describeSchema(schema)}, got ${describeValue(value)}`);
+    return value;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(`\`${path}\` must be ${describeSchema(schema)}, got ${describeValue(value)}`);
+    return value;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, i) => validateValue(schema.items!, item, `${path}[${i}]`, problems));
+  }
+  if (schema.type === 'object') {
+    return validateObject(schema, value as Record<string, unknown>, `${path}.`, problems);
+  }
+  return value;
+}
+
+/**
+ * Check an object's properties. Properties set to undefined count as
+ * missing, the way JSON.stringify drops them.
+ */
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  prefix: string,
+  problems: string[]
+): Record<string, unknown> {
+  const properties = schema.properties ?? {};
+  const result: Record<string, unknown> = {};
+
+  for (const [name, propertySchema] of Object.entries(properties)) {
+    if (value[name] !== undefined) {
+      result[name] = validateValue(propertySchema, value[name], `${prefix}${name}`, problems);
+    } else if (schema.required?.includes(name)) {
+      problems.push(`\`${prefix}${name}\` is required (${describeSchema(propertySchema)})`);
+    } else if (propertySchema.default !== undefined) {
+      result[name] = propertySchema.default;
+    }
+  }
+
+  for (const [name, item] of Object.entries(value)) {
+    if (name in properties || item === undefined) continue;
+    if (schema.additionalProperties === undefined || schema.additionalProperties === false) {
+      // Interfaces are closed: an unknown name is usually a misspelling
+      const expected = Object.keys(properties);
+      problems.push(`\`${prefix}${name}\` is not a known argument${expected.length > 0 ? ` (expected ${expected.join(', ')})` : ''}`);
+    } else {
+      result[name] = schema.additionalProperties === true
+        ? item
+        : validateValue(schema.additionalProperties, item, `${prefix}${name}`, problems);
+    }
+  }
+  return result;
+}
+
+/**
+ * Check arguments against a tool's parameters schema
+ * @returns The arguments with schema defaults filled in, and every problem found
+ */
+export function validateArguments(
+  schema: ToolSchema,
+  args: Record<string, unknown>
+): { args: Record<string, unknown>; problems: string[] } {
+  const problems: string[] = [];
+  const checked = validateObject(schema.parameters, args, '', problems);
+  return { args: checked, problems };
+}
+
+/**
+ * Check the arguments of a host tool call against the catalog
+ * @param tool - Host tool name (read_file)
+ * @param args - Arguments as the wrapper built them
+ * @returns The arguments with schema defaults filled in
+ * @throws InvalidArgumentsError listing every problem found
+ */
+export function checkToolArguments(tool: string, args: Record<string, unknown>): Record<string, unknown> {
+  const schema = SCHEMAS_BY_TOOL.get(tool);
+  if (!schema) return args;
+
+  const { args: checked, problems } = validateArguments(schema, args);
+  if (problems.length > 0) {
+    throw new InvalidArgumentsError(tool, args, `${schema.name}: ${problems.join('; ')}`, { data: { problems } });
+  }
+  return checked;
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for tool argument validation
+ *
+ * Run with: deno test --allow-read mcp/runtime/validation_test.ts
+ */
+
+import { deepEqual, equal, throws } from 'node:assert/strict';
+import { InvalidArgumentsError } from './errors.ts';
+import { checkToolArguments, describeSchema, getArgumentSchema } from './validation.ts';
+
+/**
+ * The message of the InvalidArgumentsError thrown for a call
+ */
+function rejection(tool: string, args: Record<string, unknown>): string {
+  try {
+    checkToolArguments(tool, args);
+  } catch (error) {
+    if (error instanceof InvalidArgumentsError) return error.message;
+    throw error;
+  }
+  throw new Error(`${tool} accepted ${JSON.stringify(args)}`);
+}
+
+Deno.test('missing required arguments name the expected type', () => {
+  equal(rejection('read_file', {}), 'readFile: `path` is required (string)');
+  equal(rejection('read_file', { path: undefined }), 'readFile: `path` is required (string)');
+});
+
+Deno.test('wrong types are reported with the value received', () => {
+  equal(rejection('rag_search', { query: 'x', top_k: '5' }), 'search: `top_k` must be number, got string "5"');
+  equal(rejection('git_status', { paths: 'src' }), 'status: `paths` must be string[], got string "src"');
+  equal(rejection('git_commit', { message: 'm', paths: ['a', 2] }), 'commit: `paths[1]` must be string, got number 2');
+});
+
+Deno.test('unknown arguments are reported with the expected names', () => {
+  equal(rejection('rag_search', { query: 'x', topK: 5 }), 'search: `topK` is not a known argument (expected query, top_k)');
+});
+
+Deno.test('every problem is reported at once', () => {
+  throws(() => checkToolArguments('write_file', { content: 1 }), (error: unknown) => {
+    equal((error as InvalidArgumentsError).kind, 'invalid_arguments');
+    deepEqual((error as InvalidArgumentsError).data, {
+      problems: ['`path` is required (string)', '`content` must be string, got number 1'],
+    });
+    return true;
+  });
+});
+
+Deno.test('defaults from the schema fill in missing arguments', () => {
+  deepEqual(checkToolArguments('search_files', { query: 'TODO' }), { glob: '**/*', query: 'TODO' });
+  deepEqual(checkToolArguments('search_files', { glob: 'src/**', query: 'TODO' }), { glob: 'src/**', query: 'TODO' });
+  deepEqual(checkToolArguments('run_process', { cmd: 'git', timeout_ms: undefined }), { cmd: 'git', timeout_ms: 120000 });
+  // The host's configured TopK applies when top_k is left out, so the schema has no default
+  deepEqual(checkToolArguments('rag_search', { query: 'x' }), { query: 'x' });
+});
+
+Deno.test('tools without a schema are passed through', () => {
+  equal(getArgumentSchema('process_write'), undefined);
+  const args = { session_id: 's', input: 42 };
+  equal(checkToolArguments('process_write', args), args);
+});
+
+Deno.test('schemas are described the way TypeScript writes them', () => {
+  equal(describeSchema({ type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'null' }] } }), '(string | null)[]');
+  equal(describeSchema({ type: 'string', enum: ['Debug', 'Release'] }), '"Debug" | "Release"');
+});
@@ -0,0 +1,599 @@
+/**
+ * Generate catalog.generated.ts from the tool wrapper sources
+ *
+ * Every function a server exports from servers/<server>/index.ts becomes a
+ * catalog entry and a schema. The description, category and examples come
+ * from the function's JSDoc (@category, @example); the signature and the
+ * parameter and return schemas come from its declarations and the
+ * interfaces in types/tools.d.ts, read with `deno doc --json`.
+ *
+ * Usage (from the repository root):
+ *   deno run --allow-read --allow-write --allow-run mcp/scripts/generate-catalog.ts
+ *   deno run --allow-read --allow-run mcp/scripts/generate-catalog.ts --check
+ *
+ * With --check nothing is written, and the exit status is 1 if the
+ * committed file differs from what the sources generate.
+ */
+
+import type { JsonSchema, ToolInfo, ToolSchema } from '../catalog.ts';
+
+const MCP_DIR = new URL('../', import.meta.url);
+const OUTPUT = new URL('catalog.generated.ts', MCP_DIR);
+
+/** Servers in catalog order; this is also the order of the sandbox preamble */
+const SERVERS = ['filesystem', 'git', 'dotnet', 'rag', 'process', 'sqlite', 'agents', 'browser', 'code'];
+
+/** Types a call resolves to; the schema and signature describe the value inside */
+const AWAITABLE_TYPES = new Set(['Promise', 'PromiseLike', 'ProgressCall']);
+
+// Just the parts of `deno doc --json` output the generator reads
+
+interface DocLiteral {
+  kind: 'string' | 'number' | 'boolean' | 'bigInt' | 'template';
+  string?: string;
+  number?: number;
+  boolean?: boolean;
+}
+
+/** Type kinds the generator does not look into; printed from their repr */
+type OpaqueTypeKind =
+  | 'this' | 'tuple' | 'intersection' | 'typeOperator' | 'typeQuery' | 'conditional'
+  | 'indexedAccess' | 'mapped' | 'infer' | 'optional' | 'rest' | 'typePredicate' | 'importType';
+
+type DocType = { repr?: string } & (
+  | { kind: 'keyword'; value: string }
+  | { kind: 'literal'; value: DocLiteral }
+  | { kind: 'array' | 'parenthesized'; value: DocType }
+  | { kind: 'union'; value: DocType[] }
+  | { kind: 'typeRef'; value: { typeName: string; typeParams?: DocType[] } }
+  | { kind: 'typeLiteral'; value: { properties: DocProperty[] } }
+  | { kind: 'fnOrConstructor'; value: { params: DocParam[]; tsType: DocType } }
+  | { kind: OpaqueTypeKind; value?: unknown }
+);
+
+type DocTypeRef = Extract<DocType, { kind: 'typeRef' }>;
+
+interface DocTag {
+  kind: string;
+  name?: string;
+  doc?: string;
+  /** Raw text of tags deno doc does not parse */
+  value?: string;
+}
+
+interface DocJs {
+  doc?: string;
+  tags?: DocTag[];
+}
+
+interface DocProperty {
+  name: string;
+  optional?: boolean;
+  tsType?: DocType;
+  jsDoc?: DocJs;
+}
+
+interface DocParam {
+  kind: 'identifier' | 'assign' | 'rest' | string;
+  name?: string;
+  optional?: boolean;
+  tsType?: DocType;
+  left?: DocParam;
+  arg?: DocParam;
+}
+
+interface DocFunctionDef {
+  params: DocParam[];
+  returnType?: DocType;
+  typeParams?: TypeParam[];
+  hasBody?: boolean;
+}
+
+interface DocInterfaceDef {
+  extends?: DocType[];
+  properties?: DocProperty[];
+  typeParams?: TypeParam[];
+}
+
+interface DocTypeAliasDef {
+  tsType: DocType;
+  typeParams?: TypeParam[];
+}
+
+interface DocClassDef {
+  implements?: DocType[];
+  typeParams?: TypeParam[];
+}
+
+type DocDeclaration = { location: { filename: string; byteIndex: number }; jsDoc?: DocJs } & (
+  | { kind: 'function'; def: DocFunctionDef }
+  | { kind: 'interface'; def: DocInterfaceDef }
+  | { kind: 'typeAlias'; def: DocTypeAliasDef }
+  | { kind: 'class'; def: DocClassDef }
+  | { kind: 'variable' | 'enum' | 'namespace' | 'import' | 'moduleDoc' | 'reference'; def?: unknown }
+);
+
+type FunctionDeclaration = Extract<DocDeclaration, { kind: 'function' }>;
+type InterfaceDeclaration = Extract<DocDeclaration, { kind: 'interface' }>;
+/** Declarations a type reference can name */
+type NamedTypeDeclaration = Extract<DocDeclaration, { kind: 'interface' | 'typeAlias' | 'class' }>;
+
+const isFunction = (declaration: DocDeclaration): declaration is FunctionDeclaration => declaration.kind === 'function';
+const isNamedType = (declaration: DocDeclaration): declaration is NamedTypeDeclaration =>
+  declaration.kind === 'interface' || declaration.kind === 'typeAlias' || declaration.kind === 'class';
+
+interface DocSymbol {
+  name: string;
+  declarations: DocDeclaration[];
+}
+
+interface DocOutput {
+  nodes: Record<string, { symbols?: DocSymbol[] }>;
+}
+
+interface TypeParam {
+  name: string;
+  constraint?: DocType;
+  default?: DocType;
+}
+
+/** Type parameter bindings while expanding a generic type */
+type Bindings = Map<string, DocType>;
+
+/**
+ * Named types the wrappers refer to, from every documented module
+ */
+class TypeIndex {
+  private readonly types = new Map<string, NamedTypeDeclaration>();
+
+  add(output: DocOutput): void {
+    for (const node of Object.values(output.nodes)) {
+      for (const symbol of node.symbols ?? []) {
+        const declaration = symbol.declarations[0];
+        if (isNamedType(declaration) && !this.types.has(symbol.name)) {
+          this.types.set(symbol.name, declaration);
+        }
+      }
+    }
+  }
+
+  get(name: string): NamedTypeDeclaration | undefined {
+    return this.types.get(name);
+  }
+}
+
+/**
+ * Run `deno doc --json` on modules relative to the mcp directory
+ */
+async function denoDoc(modules: string[]): Promise<DocOutput> {
+  const { code, stdout, stderr } = await new Deno.Command(Deno.execPath(), {
+    args: ['doc', '--json', ...modules.map(m => new URL(m, MCP_DIR).pathname)],
+    stdout: 'piped',
+    stderr: 'piped',
+  }).output();
+  const errors = new TextDecoder().decode(stderr);
+  if (code !== 0 || /Warning|error:/.test(errors)) {
+    throw new Error(`deno doc failed for ${modules.join(', ')}:\n${errors}`);
+  }
+  return JSON.parse(new TextDecoder().decode(stdout));
+}
+
+/**
+ * JSDoc text with the `*\/` escapes needed inside comments undone
+ */
+function docText(text: string | undefined): string {
+  return (text ?? '').replaceAll('*\\/', '*/').trim();
+}
+
+/**
+ * The value of a property's `@default` tag, which deno doc leaves
+ * unparsed. Values are JSON; anything else is taken as a string.
+ */
+function defaultTag(jsDoc: DocJs | undefined): unknown {
+  for (const tag of jsDoc?.tags ?? []) {
+    const [, value] = tag.kind === 'unsupported' ? /^@default\s+([\s\S]+)$/.exec(tag.value ?? '') ?? [] : [];
+    if (value === undefined) continue;
+    try {
+      return JSON.parse(docText(value));
+    } catch {
+      return docText(value);
+    }
+  }
+  return undefined;
+}
+
+const typeName = (type: DocType): string | undefined => type.kind === 'typeRef' ? type.value.typeName : undefined;
+const typeArgs = (type: DocType): DocType[] => type.kind === 'typeRef' ? type.value.typeParams ?? [] : [];
+
+const literalValue = (literal: DocLiteral): unknown =>
+  literal.kind === 'number' ? literal.number : literal.kind === 'boolean' ? literal.boolean : literal.string;
+
+function isCallOptions(type: DocType | undefined): boolean {
+  return type !== undefined && typeName(type) === 'CallOptions';
+}
+
+/**
+ * Strip Promise<>, ProgressCall<> and PromiseLike<> from a return type
+ */
+function awaited(type: DocType): DocType {
+  const name = typeName(type);
+  if (name && AWAITABLE_TYPES.has(name) && typeArgs(type).length === 1) {
+    return awaited(typeArgs(type)[0]);
+  }
+  return type;
+}
+
+function paramName(param: DocParam): string {
+  if (param.kind === 'assign') return paramName(param.left!);
+  if (param.kind === 'rest') return paramName(param.arg!);
+  return param.name ?? 'arg';
+}
+
+function paramType(param: DocParam): DocType | undefined {
+  if (param.kind === 'assign') return param.left!.tsType;
+  return param.tsType;
+}
+
+/** Whether a parameter may be left out by the caller */
+function paramOptional(param: DocParam): boolean {
+  return param.kind === 'assign' || param.kind === 'rest' || param.optional === true;
+}
+
+/**
+ * Print a type the way it is written in TypeScript
+ */
+function printType(type: DocType): string {
+  switch (type.kind) {
+    case 'keyword':
+      return type.value;
+    case 'literal':
+      return type.value.kind === 'string' ? JSON.stringify(type.value.string) : String(literalValue(type.value));
+    case 'array': {
+      const element = printType(type.value);
+      return type.value.kind === 'union' ? `(${element})[]` : `${element}[]`;
+    }
+    case 'union':
+      return type.value.map(printType).join(' | ');
+    case 'parenthesized':
+      return `(${printType(type.value)})`;
+    case 'typeRef': {
+      const args = typeArgs(type);
+      return args.length > 0 ? `${type.value.typeName}<${args.map(printType).join(', ')}>` : type.value.typeName;
+    }
+    case 'typeLiteral':
+      return printProperties(type.value.properties);
+    case 'fnOrConstructor':
+      return `(${type.value.params.map(printParam).join(', ')}) => ${printType(type.value.tsType)}`;
+    default:
+      return type.repr ?? 'unknown';
+  }
+}
+
+function printProperties(properties: DocProperty[]): string {
+  const fields = properties.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.tsType ? printType(p.tsType) : 'unknown'}`);
+  return `{ ${fields.join(', ')} }`;
+}
+
+function printTypeParam(param: TypeParam): string {
+  const constraint = param.constraint ? ` extends ${printType(param.constraint)}` : '';
+  return `${param.name}${constraint}${param.default ? ` = ${printType(param.default)}` : ''}`;
+}
+
+function printParam(param: DocParam): string {
+  const type = paramType(param);
+  const prefix = param.kind === 'rest' ? '...' : '';
+  const optional = param.kind === 'assign' || param.optional ? '?' : '';
+  return `${prefix}${paramName(param)}${optional}: ${type ? printType(type) : 'unknown'}`;
+}
+
+/**
+ * Converts TypeScript types from deno doc into JSON schemas
+ */
+class SchemaBuilder {
+  constructor(private readonly types: TypeIndex) {}
+
+  toSchema(type: DocType, bindings: Bindings = new Map(), expanding: string[] = []): JsonSchema {
+    switch (type.kind) {
+      case 'keyword':
+        return this.keyword(type.value);
+      case 'literal':
+        return { type: this.keyword(type.value.kind).type, enum: [literalValue(type.value)] };
+      case 'array':
+        return { type: 'array', items: this.toSchema(type.value, bindings, expanding) };
+      case 'parenthesized':
+        return this.toSchema(type.value, bindings, expanding);
+      case 'union':
+        return this.union(type.value, bindings, expanding);
+      case 'typeLiteral':
+        return this.object(type.value.properties, bindings, expanding);
+      case 'typeRef':
+        return this.reference(type, bindings, expanding);
+      default:
+        // Functions and `this` have no JSON form
+        return {};
+    }
+  }
+
+  private keyword(name: string): JsonSchema {
+    switch (name) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+      case 'null':
+        return { type: name };
+      case 'void':
+      case 'undefined':
+        return { type: 'null' };
+      default:
+        return {};
+    }
+  }
+
+  private union(members: DocType[], bindings: Bindings, expanding: string[]): JsonSchema {
+    // `undefined` only says a field is optional, which `required` already covers
+    const defined = members.filter(m => !(m.kind === 'keyword' && m.value === 'undefined'));
+    if (defined.length === 1) return this.toSchema(defined[0], bindings, expanding);
+
+    const schemas = defined.map(m => this.toSchema(m, bindings, expanding));
+    if (schemas.every(s => s.enum && s.type === schemas[0].type)) {
+      return { type: schemas[0].type, enum: schemas.flatMap(s => s.enum!) };
+    }
+    return { anyOf: schemas };
+  }
+
+  private object(properties: DocProperty[], bindings: Bindings, expanding: string[]): JsonSchema {
+    const schema: JsonSchema = { type: 'object', properties: {} };
+    const required: string[] = [];
+    for (const property of properties) {
+      const propertySchema = property.tsType ? this.toSchema(property.tsType, bindings, expanding) : {};
+      const description = docText(property.jsDoc?.doc);
+      if (description) propertySchema.description = description;
+      const defaultValue = defaultTag(property.jsDoc);
+      if (defaultValue !== undefined) propertySchema.default = defaultValue;
+      schema.properties![property.name] = propertySchema;
+      if (!property.optional) required.push(property.name);
+    }
+    if (required.length > 0) schema.required = required;
+    return schema;
+  }
+
+  private reference(type: DocTypeRef, bindings: Bindings, expanding: string[]): JsonSchema {
+    const name = type.value.typeName;
+    const args = typeArgs(type);
+
+    const bound = bindings.get(name);
+    if (bound) return this.toSchema(bound, new Map(), expanding);
+    if (AWAITABLE_TYPES.has(name) && args.length === 1) return this.toSchema(args[0], bindings, expanding);
+    if (name === 'Array' && args.length === 1) return { type: 'array', items: this.toSchema(args[0], bindings, expanding) };
+    if (name === 'Record' && args.length === 2) {
+      return { type: 'object', additionalProperties: this.toSchema(args[1], bindings, expanding) };
+    }
+
+    const declaration = this.types.get(name);
+    if (!declaration) return {};
+    if (declaration.kind === 'class') return { type: 'object', description: `${name} instance` };
+    if (expanding.includes(name)) return { type: 'object', description: name };
+
+    const inner = this.bind(declaration, args, bindings);
+    if (declaration.kind === 'typeAlias') {
+      return this.toSchema(declaration.def.tsType, inner, [...expanding, name]);
+    }
+    return this.object(this.properties(declaration), inner, [...expanding, name]);
+  }
+
+  /**
+   * An interface's own properties after those it extends
+   */
+  properties(declaration: InterfaceDeclaration): DocProperty[] {
+    const inherited: DocProperty[] = [];
+    for (const base of declaration.def.extends ?? []) {
+      const baseDeclaration = this.types.get(typeName(base) ?? '');
+      if (baseDeclaration?.kind === 'interface') inherited.push(...this.properties(baseDeclaration));
+    }
+    const own = declaration.def.properties ?? [];
+    return [...inherited.filter(p => !own.some(o => o.name === p.name)), ...own];
+  }
+
+  /**
+   * Bind a generic declaration's type parameters to the given arguments or
+   * their defaults
+   */
+  private bind(declaration: NamedTypeDeclaration, args: DocType[], outer: Bindings): Bindings {
+    const bindings: Bindings = new Map();
+    (declaration.def.typeParams ?? []).forEach((param, i) => {
+      const arg = args[i] ?? param.default ?? param.constraint;
+      if (arg) bindings.set(param.name, typeName(arg) && outer.has(typeName(arg)!) ? outer.get(typeName(arg)!)! : arg);
+    });
+    return bindings;
+  }
+}
+
+/** Compare parameter names across naming styles: timeoutMs matches timeout_ms */
+const normalizeName = (name: string) => name.replaceAll('_', '').toLowerCase();
+
+/**
+ * A catalog entry and schema for one exported wrapper function
+ */
+async function describeTool(
+  server: string,
+  symbol: DocSymbol,
+  types: TypeIndex,
+  schemas: SchemaBuilder,
+  problems: string[]
+): Promise<{ info: ToolInfo; schema: ToolSchema }> {
+  // Overload signatures when there are any, otherwise the implementation
+  const functions = symbol.declarations.filter(isFunction);
+  const overloads = functions.filter(d => !d.def.hasBody);
+  const signatures = overloads.length > 0 ? overloads : functions;
+  const jsDoc = symbol.declarations.find(d => d.jsDoc)?.jsDoc ?? {};
+  const tags = jsDoc.tags ?? [];
+  const where = `${server}.${symbol.name}`;
+
+  const doc = docText(jsDoc.doc);
+  const summary = doc.split(/\n\s*\n/)[0].replace(/\s*\n\s*/g, ' ');
+  if (!summary) problems.push(`${where} has no JSDoc description`);
+
+  const category = docText(tags.find(t => t.kind === 'category')?.doc);
+  if (!category) problems.push(`${where} has no @category tag`);
+
+  const examples = tags.filter(t => t.kind === 'example').map(t => docText(t.doc)).filter(Boolean);
+  const paramDocs = new Map(tags.filter(t => t.kind === 'param' && t.name).map(t => [normalizeName(t.name!), docText(t.doc)]));
+  const returnsDoc = docText(tags.find(t => t.kind === 'return')?.doc);
+
+  // The signature shows how the function is usually called: its first overload
+  const primary = signatures[0].def;
+  const params = primary.params.filter(p => !isCallOptions(paramType(p)));
+  const returnType = primary.returnType;
+  const typeParams = primary.typeParams ?? [];
+  const generics = typeParams.length > 0 ? `<${typeParams.map(printTypeParam).join(', ')}>` : '';
+  const signature = `${symbol.name}${generics}(${params.map(printParam).join(', ')}): ${returnType ? printReturn(returnType, types) : 'void'}`;
+
+  // Schemas describe a generic function at its type parameters' defaults
+  const bindings: Bindings = new Map();
+  for (const param of typeParams) {
+    const type = param.default ?? param.constraint;
+    if (type) bindings.set(param.name, type);
+  }
+
+  // The parameters schema describes the object form when there is one
+  const argsType = signatures
+    .map(s => s.def.params.at(0))
+    .map(p => p && hostArgsType(paramType(p), types))
+    .find(Boolean);
+  let parameters: JsonSchema;
+  if (argsType) {
+    parameters = schemas.toSchema(argsType, bindings);
+  } else {
+    parameters = { type: 'object', properties: {} };
+    const required = params.filter(p => !paramOptional(p)).map(paramName);
+    for (const param of params) {
+      const type = paramType(param);
+      parameters.properties![paramName(param)] = type ? schemas.toSchema(type, bindings) : {};
+    }
+    if (required.length > 0) parameters.required = required;
+  }
+  for (const [name, property] of Object.entries(parameters.properties ?? {})) {
+    const described = paramDocs.get(normalizeName(name));
+    if (!property.description && described) property.description = described;
+  }
+
+  // Arguments in the object form go to the host as they are, so the bridge
+  // can check them against this schema
+  const tool = argsType ? await hostTool(functions) : undefined;
+
+  const returns: JsonSchema = returnType ? schemas.toSchema(awaited(returnType), bindings) : { type: 'null' };
+  if (returnsDoc) returns.description = returnsDoc;
+
+  const info: ToolInfo = { name: symbol.name, server, description: summary, signature, category };
+  if (examples.length > 0) info.examples = examples;
+  const schema: ToolSchema = { name: symbol.name, description: doc, ...(tool ? { tool } : {}), parameters, returns };
+  return { info, schema };
+}
+
+/**
+ * The *Args type a parameter goes to the host as: its own type, or the
+ * *Args interface of a class whose instances carry exactly those fields
+ * (sqlite's SqlQuery)
+ */
+function hostArgsType(type: DocType | undefined, types: TypeIndex): DocType | undefined {
+  const name = type && typeName(type);
+  if (!name) return undefined;
+  if (/Args$/.test(name)) return type;
+  const declaration = types.get(name);
+  if (declaration?.kind !== 'class') return undefined;
+  return (declaration.def.implements ?? []).find(base => /Args$/.test(typeName(base) ?? ''));
+}
+
+/**
+ * The host tool a wrapper's implementation calls, found in its source
+ */
+async function hostTool(declarations: FunctionDeclaration[]): Promise<string | undefined> {
+  const implementation = declarations.find(d => d.def.hasBody);
+  if (!implementation) return undefined;
+
+  const { filename, byteIndex } = implementation.location;
+  const source = new TextDecoder().decode((await Deno.readFile(new URL(filename))).subarray(byteIndex));
+  const body = source.slice(0, source.search(/^}/m) + 1);
+  return /(?:__thuvu_bridge__\.call|callWithProgress)(?:<[^(]*>)?\(\s*'([a-z_]+)'/.exec(body)?.[1];
+}
+
+/**
+ * Print a return type with the *Result interface it resolves to written
+ * out, so the catalog shows the fields without a lookup
+ */
+function printReturn(type: DocType, types: TypeIndex): string {
+  const inner = awaited(type);
+  const name = typeName(inner) ?? '';
+  const declaration = types.get(name);
+  if (!name.endsWith('Result') || declaration?.kind !== 'interface' || typeArgs(inner).length > 0) return printType(type);
+
+  const expanded = printProperties(new SchemaBuilder(types).properties(declaration));
+  return type === inner ? expanded : `${typeName(type)}<${expanded}>`;
+}
+
+/**
+ * Build the source of catalog.generated.ts
+ * @throws Error listing every wrapper with missing documentation
+ */
+export async function generateCatalogSource(): Promise<string> {
+  const types = new TypeIndex();
+  const servers = await denoDoc(SERVERS.map(s => `servers/${s}/index.ts`));
+  types.add(servers);
+  // Interfaces the servers do not re-export are only found in tools.d.ts itself
+  types.add(await denoDoc(['types/tools.d.ts']));
+
+  const schemas = new SchemaBuilder(types);
+  const catalog: ToolInfo[] = [];
+  const toolSchemas: Record<string, ToolSchema> = {};
+  const problems: string[] = [];
+
+  for (const server of SERVERS) {
+    const module = Object.entries(servers.nodes).find(([file]) => file.endsWith(`/servers/${server}/index.ts`))?.[1];
+    for (const symbol of module?.symbols ?? []) {
+      if (symbol.declarations[0].kind !== 'function') continue;
+      const { info, schema } = await describeTool(server, symbol, types, schemas, problems);
+      catalog.push(info);
+      toolSchemas[`${server}.${symbol.name}`] = schema;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Cannot generate the catalog:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+
+  return [
+    '// Generated by scripts/generate-catalog.ts from the tool wrappers and types/tools.d.ts.',
+    '// Do not edit by hand; regenerate with:',
+    '//   deno run --allow-read --allow-write --allow-run mcp/scripts/generate-catalog.ts',
+    '',
+    "import type { ToolInfo, ToolSchema } from './catalog.ts';",
+    '',
+    `export const TOOL_CATALOG: ToolInfo[] = ${JSON.stringify(catalog, null, 2)};`,
+    '',
+    `export const TOOL_SCHEMAS: Record<string, ToolSchema> = ${JSON.stringify(toolSchemas, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+if (import.meta.main) {
+  const check = Deno.args.includes('--check');
+  const source = await generateCatalogSource();
+
+  if (check) {
+    let current = '';
+    try {
+      current = await Deno.readTextFile(OUTPUT);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    if (current !== source) {
+      console.error('mcp/catalog.generated.ts is out of date with the tool wrappers; regenerate it with:');
+      console.error('  deno run --allow-read --allow-write --allow-run mcp/scripts/generate-catalog.ts');
+      Deno.exit(1);
+    }
+    console.log('mcp/catalog.generated.ts is up to date');
+  } else {
+    await Deno.writeTextFile(OUTPUT, source);
+    console.log(`Wrote ${OUTPUT.pathname}`);
+  }
+}
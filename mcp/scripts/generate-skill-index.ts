@@ -0,0 +1,153 @@
+/**
+ * Generate skills/index.json from the skill files
+ *
+ * Every skills/*.ts file that default-exports a defineSkill() result gets
+ * an entry of kind 'module' built from its metadata, in the format
+ * SkillManager reads; *_test.ts files are left out.
+ * Entries keep the createdAt of the current index. Files saved without
+ * defineSkill are not imported, since they may be plain scripts that run
+ * tools at the top level; their current entries are kept as they are.
+ *
+ * Usage (from the repository root; skills import the SDK through the import map):
+ *   deno run --allow-read --allow-write --import-map=mcp/import_map.json mcp/scripts/generate-skill-index.ts [--skills <dir>]
+ *   deno run --allow-read --import-map=mcp/import_map.json mcp/scripts/generate-skill-index.ts --check
+ *
+ * With --check nothing is written, and the exit status is 1 if the
+ * committed index differs from what the skill files generate.
+ */
+
+import type { Skill, SkillParameter } from '../skills.ts';
+
+const DEFAULT_SKILLS_DIR = new URL('../../skills/', import.meta.url);
+
+const INDEX_VERSION = '1.0.0';
+
+/**
+ * A skill in index.json
+ */
+interface IndexEntry {
+  name: string;
+  description: string;
+  version: string;
+  file: string;
+  /** How SkillManager runs the file: 'module' for defineSkill() skills, 'script' for saved scripts */
+  kind?: 'module' | 'script';
+  createdAt: string;
+  parameters: Record<string, IndexParameter>;
+}
+
+interface IndexParameter {
+  type: SkillParameter['type'];
+  description: string;
+  required: boolean;
+  default?: unknown;
+  enum?: unknown[];
+}
+
+interface SkillIndex {
+  version: string;
+  skills: IndexEntry[];
+}
+
+async function readIndex(path: URL): Promise<SkillIndex | undefined> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+}
+
+function indexParameters(parameters: Record<string, SkillParameter> = {}): Record<string, IndexParameter> {
+  return Object.fromEntries(Object.entries(parameters).map(([name, parameter]) => [name, {
+    type: parameter.type,
+    description: parameter.description,
+    required: parameter.required === true && parameter.default === undefined,
+    ...(parameter.default !== undefined ? { default: parameter.default } : {}),
+    ...(parameter.enum ? { enum: [...parameter.enum] } : {}),
+  }]));
+}
+
+/**
+ * Build the index for a skills directory
+ * @param now - createdAt for skills the current index does not list yet
+ */
+export async function generateSkillIndex(skillsDir: URL = DEFAULT_SKILLS_DIR, now = new Date()): Promise<SkillIndex> {
+  const current = await readIndex(new URL('index.json', skillsDir));
+  const previous = new Map((current?.skills ?? []).map(entry => [entry.file, entry]));
+
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(skillsDir)) {
+    if (entry.isFile && entry.name.endsWith('.ts') && !entry.name.endsWith('_test.ts')) files.push(entry.name);
+  }
+
+  const skills: IndexEntry[] = [];
+  for (const file of files.sort()) {
+    const url = new URL(file, skillsDir);
+    const source = await Deno.readTextFile(url);
+    if (!/\bdefineSkill\s*\(/.test(source)) {
+      const kept = previous.get(file);
+      if (kept) skills.push(kept);
+      console.error(`${file}: not made with defineSkill(), ${kept ? 'keeping its current entry' : 'skipped'}`);
+      continue;
+    }
+
+    const skill = (await import(url.href)).default as Skill | undefined;
+    if (!skill?.metadata) {
+      throw new Error(`${file} calls defineSkill() but does not default-export the skill`);
+    }
+    const { name, description, version, parameters } = skill.metadata;
+    skills.push({
+      name,
+      description,
+      version,
+      file,
+      kind: 'module',
+      createdAt: previous.get(file)?.createdAt ?? now.toISOString(),
+      parameters: indexParameters(parameters),
+    });
+  }
+
+  const names = new Set<string>();
+  for (const { name, file } of skills) {
+    if (names.has(name)) throw new Error(`Two skills are named '${name}' (one in ${file})`);
+    names.add(name);
+  }
+
+  return { version: current?.version ?? INDEX_VERSION, skills: skills.sort((a, b) => a.name.localeCompare(b.name)) };
+}
+
+/**
+ * The index as SkillManager writes it: two-space indentation, no final newline
+ */
+export function formatSkillIndex(index: SkillIndex): string {
+  return JSON.stringify(index, null, 2);
+}
+
+if (import.meta.main) {
+  const check = Deno.args.includes('--check');
+  const dirIndex = Deno.args.indexOf('--skills');
+  const skillsDir = dirIndex === -1
+    ? DEFAULT_SKILLS_DIR
+    : new URL(`${Deno.args[dirIndex + 1].replace(/\/?$/, '/')}`, `file://${Deno.cwd()}/`);
+  const output = new URL('index.json', skillsDir);
+  const text = formatSkillIndex(await generateSkillIndex(skillsDir));
+
+  if (check) {
+    let current = '';
+    try {
+      current = await Deno.readTextFile(output);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    if (current !== text) {
+      console.error(`${output.pathname} is out of date with the skill files; regenerate it with:`);
+      console.error('  deno run --allow-read --allow-write --import-map=mcp/import_map.json mcp/scripts/generate-skill-index.ts');
+      Deno.exit(1);
+    }
+    console.log(`${output.pathname} is up to date`);
+  } else {
+    await Deno.writeTextFile(output, text);
+    console.log(`Wrote ${output.pathname}`);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Resolve the policy a sandbox runs under and the Deno flags that enforce it
+ *
+ * The host runs this before starting the sandbox, so that the project's
+ * .thuvu-policy.json decides which paths are readable and writable, which
+ * commands may run and how much memory the sandbox gets. Without a policy
+ * file the default policy applies, with the level and memory limit of the
+ * host's own configuration.
+ *
+ * Usage:
+ *   deno run --allow-read mcp/scripts/sandbox-flags.ts --project <dir> [--runtime-dir <dir>]
+ *     [--temp-dir <dir>] [--profile <name>] [--level <level>] [--max-memory <mb>]
+ *
+ * Prints `{ "policy": ..., "flags": [...] }` as JSON. The host passes the
+ * flags to `deno run` and the policy to the sandbox with each request, so
+ * the flags and the policy gate enforce the same policy. An invalid policy
+ * file is reported on stderr with exit status 1.
+ */
+
+import { DEFAULT_POLICY, getDenoPermissionFlags, PermissionLevel, type PermissionPolicy } from '../runtime/permissions.ts';
+import { loadPolicy, POLICY_FILE_NAME, PolicyValidationError, validatePolicy } from '../runtime/policy.ts';
+
+export interface SandboxLaunchOptions {
+  /** Directory of the MCP runtime, always readable */
+  runtimeDir?: string;
+  /** Temporary directory type checks write to */
+  tempDir?: string;
+  /** Profile to select from the policy file; defaults to its defaultProfile */
+  profile?: string;
+  /** Level of the default policy, used when the project has no policy file */
+  level?: PermissionLevel;
+  /** Memory limit of the default policy, used when the project has no policy file */
+  maxMemoryMb?: number;
+}
+
+export interface SandboxLaunch {
+  policy: PermissionPolicy;
+  flags: string[];
+}
+
+async function hasPolicyFile(projectRoot: string): Promise<boolean> {
+  try {
+    await Deno.stat(`${projectRoot.replace(/[\\/]+$/, '')}/${POLICY_FILE_NAME}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+/**
+ * Resolve the policy for a project and the flags for its sandbox
+ * @throws PolicyValidationError if the policy file or the host's settings are invalid
+ */
+export async function resolveSandboxLaunch(projectRoot: string, options: SandboxLaunchOptions = {}): Promise<SandboxLaunch> {
+  let policy: PermissionPolicy;
+  if (options.profile !== undefined || await hasPolicyFile(projectRoot)) {
+    policy = await loadPolicy(projectRoot, options.profile);
+  } else {
+    policy = {
+      ...DEFAULT_POLICY,
+      level: options.level ?? DEFAULT_POLICY.level,
+      maxMemoryMb: options.maxMemoryMb ?? DEFAULT_POLICY.maxMemoryMb,
+    };
+    const problems = validatePolicy(policy, projectRoot);
+    if (problems.length > 0) throw new PolicyValidationError(problems, 'host configuration');
+  }
+
+  const flags = getDenoPermissionFlags(policy, projectRoot, {
+    runtimeDir: options.runtimeDir,
+    denoPath: Deno.execPath(),
+    tempDir: options.tempDir,
+  });
+  return { policy, flags };
+}
+
+function option(name: string): string | undefined {
+  const index = Deno.args.indexOf(name);
+  return index === -1 ? undefined : Deno.args[index + 1];
+}
+
+if (import.meta.main) {
+  const projectRoot = option('--project') ?? Deno.cwd();
+  const level = option('--level')?.toLowerCase();
+  const maxMemory = option('--max-memory');
+
+  try {
+    const launch = await resolveSandboxLaunch(projectRoot, {
+      runtimeDir: option('--runtime-dir'),
+      tempDir: option('--temp-dir'),
+      profile: option('--profile'),
+      level: level as PermissionLevel | undefined,
+      maxMemoryMb: maxMemory === undefined ? undefined : Number(maxMemory),
+    });
+    console.log(JSON.stringify(launch));
+  } catch (error) {
+    if (!(error instanceof PolicyValidationError)) throw error;
+    console.error(error.message);
+    Deno.exit(1);
+  }
+}
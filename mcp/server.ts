@@ -0,0 +1,459 @@
+/**
+ * MCP server over stdio
+ *
+ * Serves the thuvu tool wrappers to any Model Context Protocol client:
+ *
+ * - `initialize` / `notifications/initialized` and `ping`
+ * - `tools/list`: the exported catalog (see exporters.ts)
+ * - `tools/call`: runs the wrapper in servers/<server>/index.ts, forwarding
+ *   progress as `notifications/progress`
+ * - `notifications/cancelled`: aborts the call through its AbortSignal
+ * - `resources/list` / `resources/read`: the skills in skills/
+ *
+ * Messages are newline-delimited JSON-RPC 2.0 on stdin/stdout. The
+ * wrappers reach the host through `__thuvu_bridge__`, which this server
+ * points at a ToolHost. From the command line, that is a host process
+ * speaking the bridge's JSON-RPC protocol on its stdio, the same protocol
+ * the sandbox speaks with McpBridge:
+ *
+ *   deno run --allow-read --allow-run mcp/server.ts [--skills <dir>] -- <host command> [args...]
+ *
+ * thuvu is such a host when started with --tool-host:
+ *
+ *   deno run --allow-read --allow-run mcp/server.ts -- thuvu --tool-host
+ */
+
+import type { CallOptions, ToolProgress } from './types/tools.d.ts';
+import { toMcpTools, findExportedTool, type ExportedTool } from './exporters.ts';
+import { encodeResult } from './runtime/codec.ts';
+import { ThuvuToolError, ToolAbortedError, toolErrorFromResponse } from './runtime/errors.ts';
+import { validateArguments } from './runtime/validation.ts';
+
+/** MCP protocol versions this server speaks, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const SERVER_INFO = { name: 'thuvu', version: '1.0.0' };
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/**
+ * What the wrappers call as `__thuvu_bridge__`
+ */
+export interface ToolHost {
+  call<T = unknown>(toolName: string, args: object, options?: CallOptions): Promise<T>;
+}
+
+type RequestId = number | string;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: RequestId | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * A JSON-RPC error to send back for a request
+ */
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+export interface McpServerOptions {
+  /** Where tool calls go; without one, tools/call reports an error result */
+  host?: ToolHost;
+  /** Directory of skill files served as resources */
+  skillsDir?: string | URL;
+  /** Writes one message to the client */
+  send: (message: JsonRpcMessage) => void | Promise<void>;
+}
+
+/**
+ * A skill file served as an MCP resource
+ */
+interface SkillResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+  path: string;
+}
+
+const DEFAULT_SKILLS_DIR = new URL('../skills/', import.meta.url);
+
+/**
+ * Handles MCP messages from one client. Wrappers reach the host through
+ * a global, so there is one server per process.
+ */
+export class McpServer {
+  private readonly calls = new Map<RequestId, AbortController>();
+  private readonly skillsDir: URL;
+  private clientVersion: string | undefined;
+
+  constructor(private readonly options: McpServerOptions) {
+    const dir = options.skillsDir ?? DEFAULT_SKILLS_DIR;
+    this.skillsDir = typeof dir === 'string' ? new URL(`file://${dir.replace(/\/?$/, '/')}`) : dir;
+    (globalThis as Record<string, unknown>).__thuvu_bridge__ = options.host ?? {
+      call: (tool: string) => Promise.reject(new Error(`No tool host is configured, so ${tool} cannot run`)),
+    };
+  }
+
+  /** Protocol version agreed in `initialize` */
+  get protocolVersion(): string | undefined {
+    return this.clientVersion;
+  }
+
+  /**
+   * Handle one line from the client
+   */
+  async handleLine(line: string): Promise<void> {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      await this.options.send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+    await this.handleMessage(message);
+  }
+
+  /**
+   * Handle a request or notification. Responses from the client are
+   * ignored: this server sends no requests.
+   */
+  async handleMessage(message: JsonRpcMessage): Promise<void> {
+    if (typeof message.method !== 'string') return;
+
+    const isRequest = message.id !== undefined && message.id !== null;
+    if (!isRequest) {
+      this.handleNotification(message.method, message.params ?? {});
+      return;
+    }
+
+    const id = message.id as RequestId;
+    try {
+      const result = await this.handleRequest(id, message.method, message.params ?? {});
+      // A cancelled request gets no response
+      if (result !== undefined) await this.options.send({ jsonrpc: '2.0', id, result });
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : INTERNAL_ERROR;
+      const text = error instanceof Error ? error.message : String(error);
+      await this.options.send({ jsonrpc: '2.0', id, error: { code, message: text } });
+    }
+  }
+
+  private handleNotification(method: string, params: Record<string, unknown>): void {
+    if (method === 'notifications/cancelled') {
+      const requestId = params.requestId as RequestId;
+      this.calls.get(requestId)?.abort(params.reason ?? 'Cancelled by the client');
+    }
+    // notifications/initialized and anything else need no action
+  }
+
+  private handleRequest(id: RequestId, method: string, params: Record<string, unknown>): Promise<unknown> | unknown {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: toMcpTools() };
+      case 'tools/call':
+        return this.callTool(id, params);
+      case 'resources/list':
+        return this.listResources();
+      case 'resources/read':
+        return this.readResource(params);
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>): unknown {
+    const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : undefined;
+    this.clientVersion = requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+    return {
+      protocolVersion: this.clientVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { listChanged: false },
+      },
+      serverInfo: SERVER_INFO,
+    };
+  }
+
+  /**
+   * Run a tool. Failures of the tool itself are results with `isError`,
+   * so the model sees them; an unknown tool is a protocol error.
+   */
+  private async callTool(id: RequestId, params: Record<string, unknown>): Promise<unknown> {
+    const name = params.name;
+    const tool = typeof name === 'string' ? findExportedTool(name) : undefined;
+    if (!tool) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+
+    const { args, problems } = validateArguments(tool.schema, (params.arguments ?? {}) as Record<string, unknown>);
+    if (problems.length > 0) {
+      return errorResult(`${tool.info.name}: ${problems.join('; ')}`);
+    }
+
+    const controller = new AbortController();
+    this.calls.set(id, controller);
+    const progressToken = (params._meta as { progressToken?: RequestId } | undefined)?.progressToken;
+    const onProgress = progressToken === undefined ? undefined : (progress: ToolProgress) => {
+      const message = progress.message ?? progress.stdout;
+      this.options.send({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress: progress.percent ?? 0, total: 100, ...(message ? { message } : {}) },
+      });
+    };
+
+    try {
+      const result = await invoke(tool, args, { signal: controller.signal, onProgress });
+      if (controller.signal.aborted) return undefined;
+
+      const { value } = encodeResult(result);
+      const structured = value !== null && typeof value === 'object' && !Array.isArray(value);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(value ?? null, null, 2) }],
+        ...(structured ? { structuredContent: value } : {}),
+        isError: false,
+      };
+    } catch (error) {
+      if (controller.signal.aborted) return undefined;
+      return errorResult(error instanceof Error ? error.message : String(error), error);
+    } finally {
+      this.calls.delete(id);
+    }
+  }
+
+  /**
+   * Skill files, named by their metadata when it can be read from the source
+   */
+  private async skills(): Promise<SkillResource[]> {
+    const skills: SkillResource[] = [];
+    try {
+      for await (const entry of Deno.readDir(this.skillsDir)) {
+        if (!entry.isFile || !entry.name.endsWith('.ts') || entry.name.endsWith('_test.ts')) continue;
+        const path = new URL(entry.name, this.skillsDir).pathname;
+        const source = await Deno.readTextFile(path);
+        const name = /\bname:\s*'([^']+)'/.exec(source)?.[1] ?? entry.name.replace(/\.ts$/, '');
+        const description = /\bdescription:\s*'([^']+)'/.exec(source)?.[1];
+        skills.push({ uri: `skill://${name}`, name, description, mimeType: 'text/x-typescript', path });
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    return skills.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private async listResources(): Promise<unknown> {
+    const resources = (await this.skills()).map(({ path: _, ...resource }) => resource);
+    return { resources };
+  }
+
+  private async readResource(params: Record<string, unknown>): Promise<unknown> {
+    const skill = (await this.skills()).find(s => s.uri === params.uri);
+    if (!skill) {
+      throw new RpcError(INVALID_PARAMS, `Unknown resource: ${String(params.uri)}`);
+    }
+    return {
+      contents: [{ uri: skill.uri, mimeType: skill.mimeType, text: await Deno.readTextFile(skill.path) }],
+    };
+  }
+
+  /**
+   * Read newline-delimited messages until the stream ends. Requests are
+   * handled concurrently, so a long tool call does not hold up the rest.
+   */
+  async serve(input: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    const running = new Set<Promise<void>>();
+    let buffer = '';
+    for await (const chunk of input) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        const handled = this.handleLine(line).catch(console.error);
+        running.add(handled);
+        handled.finally(() => running.delete(handled));
+      }
+    }
+    await Promise.all(running);
+  }
+}
+
+function errorResult(message: string, error?: unknown): unknown {
+  return {
+    content: [{ type: 'text', text: message }],
+    ...(error instanceof ThuvuToolError ? { structuredContent: { error: error.toJSON() } } : {}),
+    isError: true,
+  };
+}
+
+/**
+ * Call a wrapper with checked arguments: wrappers that take an object scripts
+ * build get it made from the arguments, object-form wrappers take them as
+ * they are, the others positionally in schema order
+ */
+async function invoke(tool: ExportedTool, args: Record<string, unknown>, options: CallOptions): Promise<unknown> {
+  const module = await import(`./servers/${tool.info.server}/index.ts`);
+  const wrapper = module[tool.info.name] as (...params: unknown[]) => unknown;
+  if (tool.adaptArguments) {
+    return await wrapper(tool.adaptArguments(args), options);
+  }
+  if (tool.schema.tool) {
+    return await wrapper(args, options);
+  }
+  const positional = Object.keys(tool.schema.parameters.properties ?? {}).map(name => args[name]);
+  return await wrapper(...positional, options);
+}
+
+/**
+ * A host process that answers tool calls with the bridge's JSON-RPC
+ * protocol: requests named after the tool, `$/progress` notifications and
+ * `$/cancelRequest` to abandon a call
+ */
+export class ProcessToolHost implements ToolHost {
+  private readonly process: Deno.ChildProcess;
+  private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  private readonly encoder = new TextEncoder();
+  private readonly pending = new Map<number, {
+    tool: string;
+    args: Record<string, unknown>;
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: ToolProgress) => void;
+  }>();
+  private nextId = 0;
+
+  constructor(command: string, args: string[] = []) {
+    this.process = new Deno.Command(command, { args, stdin: 'piped', stdout: 'piped', stderr: 'inherit' }).spawn();
+    this.writer = this.process.stdin.getWriter();
+    this.read();
+  }
+
+  private async read(): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of this.process.stdout) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith('{')) this.receive(line);
+      }
+    }
+    for (const [id, call] of this.pending) {
+      this.pending.delete(id);
+      call.reject(new ThuvuToolError(call.tool, call.args, `The tool host exited before ${call.tool} completed`));
+    }
+  }
+
+  private receive(line: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    if (message.method === '$/progress') {
+      const progress = message.params as unknown as ToolProgress;
+      this.pending.get(Number(progress.token))?.onProgress?.(progress);
+      return;
+    }
+
+    const call = this.pending.get(Number(message.id));
+    if (!call) return;
+    this.pending.delete(Number(message.id));
+    if (message.error) {
+      call.reject(toolErrorFromResponse(call.tool, call.args, message.error));
+    } else {
+      call.resolve(message.result);
+    }
+  }
+
+  private async write(message: JsonRpcMessage): Promise<void> {
+    await this.writer.write(this.encoder.encode(JSON.stringify(message) + '\n'));
+  }
+
+  async call<T = unknown>(toolName: string, toolArgs: object, options: CallOptions = {}): Promise<T> {
+    const args = toolArgs as Record<string, unknown>;
+    const { signal, onProgress } = options;
+    if (signal?.aborted) throw new ToolAbortedError(toolName, args, `${toolName} was aborted`);
+
+    const id = ++this.nextId;
+    const result = new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { tool: toolName, args, resolve: resolve as (value: unknown) => void, reject, onProgress });
+    });
+    const onAbort = () => {
+      const call = this.pending.get(id);
+      if (!call) return;
+      this.pending.delete(id);
+      call.reject(new ToolAbortedError(toolName, args, `${toolName} was aborted`));
+      this.write({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id } }).catch(console.error);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const params = onProgress ? { ...args, _meta: { progressToken: id } } : args;
+    await this.write({ jsonrpc: '2.0', id, method: toolName, params });
+    try {
+      return await result;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Close the host's stdin and wait for it to exit
+   */
+  async close(): Promise<void> {
+    await this.writer.close().catch(() => {});
+    await this.process.status;
+  }
+}
+
+if (import.meta.main) {
+  const separator = Deno.args.indexOf('--');
+  const own = separator === -1 ? Deno.args : Deno.args.slice(0, separator);
+  const hostCommand = separator === -1 ? [] : Deno.args.slice(separator + 1);
+  const skillsIndex = own.indexOf('--skills');
+  const skillsDir = skillsIndex === -1 ? undefined : own[skillsIndex + 1];
+
+  const host = hostCommand.length > 0 ? new ProcessToolHost(hostCommand[0], hostCommand.slice(1)) : undefined;
+  if (!host) {
+    console.error('No host command given after --; tools/call will report errors');
+  }
+
+  // stdout carries the protocol, so anything the wrappers log goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  const encoder = new TextEncoder();
+  const server = new McpServer({
+    host,
+    skillsDir,
+    send: async message => {
+      await Deno.stdout.write(encoder.encode(JSON.stringify(message) + '\n'));
+    },
+  });
+  await server.serve(Deno.stdin.readable);
+  await host?.close();
+}
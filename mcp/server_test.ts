@@ -0,0 +1,284 @@
+/**
+ * Tests for the MCP stdio server
+ *
+ * Run with: deno test --allow-read --allow-run mcp/server_test.ts
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import type { CallOptions } from './types/tools.d.ts';
+import type { JsonSchema } from './catalog.ts';
+import { getExportedTools, toMcpTools } from './exporters.ts';
+import { McpServer, ProcessToolHost, type ToolHost } from './server.ts';
+
+/** The fields of the server's messages these tests read */
+interface Message {
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result: {
+    protocolVersion: string;
+    capabilities: Record<string, unknown>;
+    serverInfo: { name: string };
+    tools: unknown[];
+    isError: boolean;
+    content: { text: string }[];
+    structuredContent: unknown;
+    resources: { uri: string; description: string }[];
+    contents: { text: string }[];
+  };
+  error: { code: number; message: string };
+}
+
+/**
+ * Records tool calls and answers them with a handler
+ */
+class FakeHost implements ToolHost {
+  readonly calls: { tool: string; args: object; options?: CallOptions }[] = [];
+
+  constructor(private readonly handler: (tool: string, args: object, options?: CallOptions) => unknown = () => ({})) {}
+
+  async call<T>(tool: string, args: object, options?: CallOptions): Promise<T> {
+    this.calls.push({ tool, args, options });
+    return await this.handler(tool, args, options) as T;
+  }
+}
+
+function createServer(host?: ToolHost) {
+  const sent: Message[] = [];
+  const server = new McpServer({
+    host,
+    skillsDir: new URL('../skills/', import.meta.url),
+    send: message => { sent.push(message as Message); },
+  });
+  let nextId = 0;
+  const request = async (method: string, params: Record<string, unknown> = {}): Promise<Message> => {
+    const id = ++nextId;
+    await server.handleMessage({ jsonrpc: '2.0', id, method, params });
+    return sent.find(m => m.id === id)!;
+  };
+  return { server, sent, request };
+}
+
+Deno.test('initialize negotiates the protocol version and capabilities', async () => {
+  const { request, server } = createServer();
+  const { result } = await request('initialize', {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '0' },
+  });
+  equal(result.protocolVersion, '2025-03-26');
+  deepEqual(Object.keys(result.capabilities).sort(), ['resources', 'tools']);
+  equal(result.serverInfo.name, 'thuvu');
+  await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+  const { result: newer } = await request('initialize', { protocolVersion: '2099-01-01' });
+  equal(newer.protocolVersion, '2025-06-18');
+  deepEqual((await request('ping')).result, {});
+});
+
+Deno.test('tools/list returns the exported catalog', async () => {
+  const { request } = createServer();
+  const { result } = await request('tools/list');
+  deepEqual(result.tools, toMcpTools());
+});
+
+Deno.test('tools/call routes to the wrapper and its host tool', async () => {
+  const host = new FakeHost(() => ({ content: 'hello', lines: 1 }));
+  const { request } = createServer(host);
+  const { result } = await request('tools/call', { name: 'filesystem_readFile', arguments: { path: 'a.txt' } });
+
+  equal(host.calls[0].tool, 'read_file');
+  deepEqual(host.calls[0].args, { path: 'a.txt' });
+  equal(result.isError, false);
+  deepEqual(result.structuredContent, { content: 'hello', lines: 1 });
+  deepEqual(JSON.parse(result.content[0].text), { content: 'hello', lines: 1 });
+});
+
+Deno.test('positional wrappers get their arguments in schema order', async () => {
+  const host = new FakeHost(() => ({ stdout: '' }));
+  const { request } = createServer(host);
+  await request('tools/call', { name: 'git_diffStaged', arguments: { paths: ['src'] } });
+  equal(host.calls[0].tool, 'git_diff');
+  deepEqual(host.calls[0].args, { paths: ['src'], staged: true, context: undefined });
+});
+
+/**
+ * A value that matches a schema, with every object's required properties
+ */
+function sampleValue(schema: JsonSchema): unknown {
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf) return sampleValue(schema.anyOf[0]);
+  switch (schema.type) {
+    case 'string': return 'a';
+    case 'number':
+    case 'integer': return 1;
+    case 'boolean': return true;
+    case 'null': return null;
+    case 'array': return schema.items ? [sampleValue(schema.items)] : [];
+    default:
+      return Object.fromEntries((schema.required ?? []).map(name => [name, sampleValue(schema.properties![name])]));
+  }
+}
+
+/**
+ * An answer with the fields every host tool's wrapper reads
+ */
+function hostAnswer(): Record<string, unknown> {
+  const symbol = { id: 1, name: 'a', kind: 'class', file: 'a.cs', line: 1 };
+  return {
+    success: true,
+    content: '', sha256: '', encoding: 'utf-8',
+    stdout: '', stderr: '', exit_code: 0,
+    rows: [{ name: 'a' }], changes: 0, last_insert_rowid: 0,
+    results: [], count: 0, enabled: true, total_chunks: 0, total_sources: 0, total_characters: 0,
+    agents: [], jobId: 'j1', status: 'completed', summary: '',
+    symbol, symbols: [symbol], references: [],
+  };
+}
+
+Deno.test('every exported tool can be called with its schema\'s arguments', async () => {
+  const host = new FakeHost(() => hostAnswer());
+  const { request } = createServer(host);
+  for (const tool of getExportedTools()) {
+    const { result } = await request('tools/call', { name: tool.name, arguments: sampleValue(tool.schema.parameters) });
+    equal(result.isError, false, `${tool.name}: ${result.content[0].text}`);
+  }
+});
+
+Deno.test('sqlite statements are bound from the text and parameters', async () => {
+  const host = new FakeHost(() => ({ rows: [{ n: 1 }] }));
+  const { request } = createServer(host);
+  const { result } = await request('tools/call', {
+    name: 'sqlite_query',
+    arguments: { sql: 'SELECT ? AS n', params: [1] },
+  });
+  deepEqual(JSON.parse(result.content[0].text), [{ n: 1 }]);
+  equal(host.calls[0].tool, 'sqlite_query');
+  deepEqual(host.calls[0].args, { sql: 'SELECT ? AS n', params: [1] });
+
+  const invalid = await request('tools/call', { name: 'sqlite_execute', arguments: { sql: 'DELETE FROM t', params: [{}] } });
+  equal(invalid.result.isError, true);
+  equal(host.calls.length, 1);
+});
+
+/**
+ * A tool host process: read_file answers with the path, dotnet_build reports
+ * progress first, and every other tool is unknown
+ */
+const HOST_SCRIPT = `
+const encoder = new TextEncoder();
+const send = message => Deno.stdout.writeSync(encoder.encode(JSON.stringify(message) + '\\n'));
+let buffer = '';
+for await (const chunk of Deno.stdin.readable.pipeThrough(new TextDecoderStream())) {
+  buffer += chunk;
+  let newline;
+  while ((newline = buffer.indexOf('\\n')) !== -1) {
+    const { id, method, params } = JSON.parse(buffer.slice(0, newline));
+    buffer = buffer.slice(newline + 1);
+    if (method === 'read_file') {
+      send({ jsonrpc: '2.0', id, result: { content: params.path, sha256: '', encoding: 'utf-8' } });
+    } else if (method === 'dotnet_build') {
+      send({ jsonrpc: '2.0', method: '$/progress', params: { token: params._meta.progressToken, percent: 50 } });
+      send({ jsonrpc: '2.0', id, result: { stdout: '', stderr: '', exit_code: 0, success: true } });
+    } else {
+      send({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Unknown tool: ' + method } });
+    }
+  }
+}
+`;
+
+Deno.test('a host process answers calls with the bridge protocol', async () => {
+  const host = new ProcessToolHost(Deno.execPath(), ['eval', HOST_SCRIPT]);
+  const { request, sent } = createServer(host);
+  try {
+    const read = await request('tools/call', { name: 'filesystem_readFile', arguments: { path: 'a.txt' } });
+    deepEqual(read.result.structuredContent, { content: 'a.txt', sha256: '', encoding: 'utf-8' });
+
+    const build = await request('tools/call', {
+      name: 'dotnet_build',
+      arguments: {},
+      _meta: { progressToken: 'b1' },
+    });
+    equal(build.result.isError, false);
+    deepEqual(sent.filter(m => m.method === 'notifications/progress').map(m => m.params?.progress), [50]);
+
+    const unknown = await request('tools/call', { name: 'git_status', arguments: {} });
+    equal(unknown.result.isError, true);
+    equal(unknown.result.content[0].text, 'Unknown tool: git_status');
+  } finally {
+    await host.close();
+  }
+});
+
+Deno.test('argument problems and host errors are error results', async () => {
+  const host = new FakeHost(() => {
+    throw new Error('disk on fire');
+  });
+  const { request } = createServer(host);
+
+  const invalid = await request('tools/call', { name: 'filesystem_readFile', arguments: { file: 'a.txt' } });
+  equal(invalid.result.isError, true);
+  equal(invalid.result.content[0].text, 'readFile: `path` is required (string); `file` is not a known argument (expected path)');
+  equal(host.calls.length, 0);
+
+  const failed = await request('tools/call', { name: 'filesystem_readFile', arguments: { path: 'a.txt' } });
+  equal(failed.result.isError, true);
+  equal(failed.result.content[0].text, 'disk on fire');
+});
+
+Deno.test('unknown tools and methods are protocol errors', async () => {
+  const { request } = createServer(new FakeHost());
+  equal((await request('tools/call', { name: 'nope', arguments: {} })).error.code, -32602);
+  equal((await request('sampling/createMessage')).error.code, -32601);
+});
+
+Deno.test('host progress is forwarded for calls with a progress token', async () => {
+  const host = new FakeHost((_tool, _args, options) => {
+    options?.onProgress?.({ token: 1, percent: 40, message: 'Building' });
+    return { success: true };
+  });
+  const { request, sent } = createServer(host);
+  await request('tools/call', {
+    name: 'dotnet_build',
+    arguments: { solution_or_project: 'App.csproj' },
+    _meta: { progressToken: 'p1' },
+  });
+
+  const progress = sent.filter(m => m.method === 'notifications/progress');
+  deepEqual(progress.map(m => m.params), [{ progressToken: 'p1', progress: 40, total: 100, message: 'Building' }]);
+});
+
+Deno.test('cancelled calls are aborted and get no response', async () => {
+  let started!: () => void;
+  const running = new Promise<void>(resolve => started = resolve);
+  const host = new FakeHost((_tool, _args, options) => new Promise((_resolve, reject) => {
+    options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    started();
+  }));
+  const { server, sent } = createServer(host);
+
+  const call = server.handleMessage({
+    jsonrpc: '2.0',
+    id: 7,
+    method: 'tools/call',
+    params: { name: 'filesystem_readFile', arguments: { path: 'big.log' } },
+  });
+  await running;
+  await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7 } });
+  await call;
+
+  ok(host.calls[0].options?.signal?.aborted);
+  equal(sent.find(m => m.id === 7), undefined);
+});
+
+Deno.test('skills are listed and read as resources', async () => {
+  const { request } = createServer();
+  const { result } = await request('resources/list');
+  const uris = result.resources.map(r => r.uri);
+  deepEqual(uris, ['skill://analyze-codebase', 'skill://run-tests-and-fix']);
+  equal(result.resources[0].description, 'Analyze project structure, file types, and code statistics');
+
+  const { result: read } = await request('resources/read', { uri: 'skill://run-tests-and-fix' });
+  ok(read.contents[0].text.includes("name: 'run-tests-and-fix'"));
+  equal((await request('resources/read', { uri: 'skill://missing' })).error.code, -32602);
+});
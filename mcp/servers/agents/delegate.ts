@@ -0,0 +1,32 @@
+import type { CallOptions, DelegateArgs, DelegateResult } from '../../types/tools.d.ts';
+
+/**
+ * Delegate a task to an in-process sub-agent role and wait for its summary
+ * @param role - Sub-agent role (coder, tester, reviewer, debugger, planner)
+ * @param task - Task description for the sub-agent
+ * @param contextFiles - Files the sub-agent should read first
+ * @param successCriteria - How the sub-agent knows it is done
+ * @returns Sub-agent summary, modified files and suggestions
+ * @category agents
+ * @example const review = await delegate("reviewer", "Review the changes in src/Parser.cs");
+ */
+export async function delegate(
+  role: string,
+  task: string,
+  contextFiles?: string[],
+  successCriteria?: string
+): Promise<DelegateResult>;
+export async function delegate(args: DelegateArgs, options?: CallOptions): Promise<DelegateResult>;
+export async function delegate(
+  roleOrArgs: string | DelegateArgs,
+  taskOrOptions?: string | CallOptions,
+  contextFiles?: string[],
+  successCriteria?: string
+): Promise<DelegateResult> {
+  const args: DelegateArgs = typeof roleOrArgs === 'string'
+    ? { role: roleOrArgs, task: taskOrOptions as string, context_files: contextFiles, success_criteria: successCriteria }
+    : roleOrArgs;
+  const options = typeof roleOrArgs === 'object' ? taskOrOptions as CallOptions | undefined : undefined;
+
+  return await __thuvu_bridge__.call<DelegateResult>('delegate_to_agent', args, options);
+}
@@ -0,0 +1,117 @@
+import type { DelegateArgs, DelegateResult } from '../../types/tools.d.ts';
+import { delegate } from './delegate.ts';
+import { submit } from './jobs.ts';
+
+/** A prompt for a named remote agent */
+export interface AgentTask {
+  agent: string;
+  prompt: string;
+}
+
+/** A task for an in-process sub-agent role */
+export type RoleTask = DelegateArgs;
+
+export type FanOutTask = AgentTask | RoleTask;
+
+export interface FanOutOptions {
+  /** Maximum number of tasks running at once (default 4) */
+  concurrency?: number;
+  /** Per-task timeout for remote agent jobs */
+  timeoutMs?: number;
+  /** Stop starting new tasks after the first failure (default false) */
+  failFast?: boolean;
+  /** Abort running tasks and skip the rest */
+  signal?: AbortSignal;
+}
+
+export interface FanOutResult {
+  /** Position of the task in the input array */
+  index: number;
+  task: FanOutTask;
+  success: boolean;
+  /** Remote agent result text, or the sub-agent summary */
+  output?: string;
+  /** Full sub-agent result for role tasks */
+  delegation?: DelegateResult;
+  error?: string;
+}
+
+function isAgentTask(task: FanOutTask): task is AgentTask {
+  return 'agent' in task;
+}
+
+/**
+ * Run tasks across several agents with bounded concurrency.
+ *
+ * Results are returned in input order regardless of completion order, so
+ * merging them is deterministic. A remote agent only runs one job at a
+ * time, so tasks for the same agent are queued behind each other.
+ *
+ * @param tasks - Remote agent prompts ({ agent, prompt }) or sub-agent tasks ({ role, task })
+ * @param options - Concurrency, timeout and failure handling
+ * @returns One result per task, in input order
+ * @category agents
+ * @example const results = await fanOut(files.map(f => ({ role: "reviewer", task: `Review ${f}` })), { concurrency: 2 });
+ */
+export async function fanOut(tasks: FanOutTask[], options: FanOutOptions = {}): Promise<FanOutResult[]> {
+  const { concurrency = 4, timeoutMs, failFast = false, signal } = options;
+  if (concurrency < 1) {
+    throw new Error('fanOut: concurrency must be at least 1');
+  }
+
+  const results: FanOutResult[] = new Array(tasks.length);
+  const agentQueues = new Map<string, Promise<unknown>>();
+  let next = 0;
+  let failed = false;
+
+  // Serialize work per remote agent while letting different agents run in parallel
+  const runOnAgent = <T>(agent: string, work: () => Promise<T>): Promise<T> => {
+    const key = agent.toLowerCase();
+    const previous = agentQueues.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => {}).then(work);
+    agentQueues.set(key, current);
+    return current;
+  };
+
+  const runTask = async (index: number): Promise<FanOutResult> => {
+    const task = tasks[index];
+    try {
+      if (isAgentTask(task)) {
+        const output = await runOnAgent(task.agent, async () => {
+          const handle = await submit(task.agent, task.prompt, { signal });
+          return await handle.result(timeoutMs, { signal });
+        });
+        return { index, task, success: true, output };
+      }
+
+      const delegation = await delegate(task, { signal });
+      return {
+        index,
+        task,
+        success: delegation.success,
+        output: delegation.summary,
+        delegation,
+        error: delegation.success ? undefined : delegation.error,
+      };
+    } catch (error) {
+      return { index, task, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length && !(failFast && failed) && !signal?.aborted) {
+      const index = next++;
+      const result = await runTask(index);
+      results[index] = result;
+      if (!result.success) failed = true;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+
+  // Tasks skipped by failFast or an abort still get a slot so indexes line up with the input
+  for (let i = 0; i < tasks.length; i++) {
+    results[i] ??= { index: i, task: tasks[i], success: false, error: signal?.aborted ? 'Skipped after abort' : 'Skipped after an earlier failure' };
+  }
+  return results;
+}
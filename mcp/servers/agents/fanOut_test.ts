@@ -0,0 +1,99 @@
+/**
+ * Tests for fanOut against a fake agent host
+ *
+ * Run with: deno test mcp/servers/agents/fanOut_test.ts
+ */
+
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import { fanOut } from './fanOut.ts';
+
+/**
+ * Serve agent_submit, agent_result and delegate_to_agent. Each job and
+ * delegation takes `delays[prompt]` ms, so tasks finish out of input order.
+ * Records the order jobs start in and any agent running two jobs at once.
+ */
+function serveAgents(delays: Record<string, number>) {
+  const started: string[] = [];
+  const overlaps: string[] = [];
+  const busy = new Set<string>();
+  const jobs = new Map<string, { agent: string; prompt: string }>();
+  const wait = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const tools: Record<string, (args: Record<string, string>) => Promise<unknown>> = {
+    agent_submit: ({ agent_name, prompt }) => {
+      if (busy.has(agent_name)) overlaps.push(agent_name);
+      busy.add(agent_name);
+      started.push(prompt);
+      const jobId = `job-${jobs.size + 1}`;
+      jobs.set(jobId, { agent: agent_name, prompt });
+      return Promise.resolve({ success: true, jobId });
+    },
+    agent_result: async ({ job_id }) => {
+      const { agent, prompt } = jobs.get(job_id)!;
+      await wait(delays[prompt]);
+      busy.delete(agent);
+      if (prompt.startsWith('fail')) return { success: true, job: { status: 'failed', error: 'tests failed' } };
+      return { success: true, job: { status: 'completed', result: `${agent}: ${prompt}` } };
+    },
+    delegate_to_agent: async ({ role, task }) => {
+      started.push(task);
+      await wait(delays[task]);
+      return { success: true, summary: `${role}: ${task}` };
+    },
+  };
+
+  (globalThis as Record<string, unknown>).__thuvu_bridge__ = {
+    call: (tool: string, args: Record<string, string>) => tools[tool](args),
+  };
+  return { started, overlaps };
+}
+
+Deno.test('results come back in input order whatever order tasks finish in', async () => {
+  serveAgents({ slow: 20, medium: 10, fast: 0 });
+  const results = await fanOut([
+    { agent: 'tester', prompt: 'slow' },
+    { role: 'reviewer', task: 'medium' },
+    { agent: 'builder', prompt: 'fast' },
+  ]);
+
+  deepEqual(results.map(r => [r.index, r.success, r.output]), [
+    [0, true, 'tester: slow'],
+    [1, true, 'reviewer: medium'],
+    [2, true, 'builder: fast'],
+  ]);
+  equal(results[1].delegation?.summary, 'reviewer: medium');
+});
+
+Deno.test('tasks for the same agent run one after another', async () => {
+  const { started, overlaps } = serveAgents({ a1: 10, a2: 0, b1: 5 });
+  const results = await fanOut([
+    { agent: 'Tester', prompt: 'a1' },
+    { agent: 'tester', prompt: 'a2' },
+    { agent: 'builder', prompt: 'b1' },
+  ], { concurrency: 3 });
+
+  deepEqual(overlaps, []);
+  // builder does not wait for tester's queue
+  deepEqual(started, ['a1', 'b1', 'a2']);
+  ok(results.every(r => r.success));
+});
+
+Deno.test('failures are reported per task and failFast skips the rest', async () => {
+  serveAgents({});
+  const tasks = [
+    { agent: 'tester', prompt: 'fail first' },
+    { agent: 'tester', prompt: 'second' },
+  ];
+
+  const all = await fanOut(tasks, { concurrency: 1 });
+  deepEqual(all.map(r => [r.success, r.error]), [
+    [false, 'Job job-1 on tester failed: tests failed'],
+    [true, undefined],
+  ]);
+
+  const stopped = await fanOut(tasks, { concurrency: 1, failFast: true });
+  deepEqual(stopped.map(r => [r.index, r.success, r.error]), [
+    [0, false, 'Job job-3 on tester failed: tests failed'],
+    [1, false, 'Skipped after an earlier failure'],
+  ]);
+});
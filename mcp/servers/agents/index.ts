@@ -0,0 +1,23 @@
+/**
+ * Agent tools for delegating work to sub-agents and remote agents
+ */
+
+export { delegate } from './delegate.ts';
+export { submit, cancel, list, AgentJobHandle } from './jobs.ts';
+export { fanOut } from './fanOut.ts';
+export type { AgentTask, RoleTask, FanOutTask, FanOutOptions, FanOutResult } from './fanOut.ts';
+
+// Re-export types
+export type {
+  AgentJobStatus,
+  AgentInfo,
+  AgentJob,
+  AgentListResult,
+  AgentSubmitResult,
+  AgentResultResult,
+  AgentCancelResult,
+  DelegateResult,
+  AgentSubmitArgs,
+  AgentJobArgs,
+  DelegateArgs,
+} from '../../types/tools.d.ts';
@@ -0,0 +1,145 @@
+import type {
+  AgentCancelResult,
+  AgentInfo,
+  AgentJob,
+  AgentListResult,
+  AgentResultResult,
+  AgentSubmitResult,
+  CallOptions,
+} from '../../types/tools.d.ts';
+import { checkToolResult, ThuvuToolError, ToolTimeoutError } from '../../runtime/errors.ts';
+
+/** Default interval between agent_result polls */
+const DEFAULT_POLL_MS = 2000;
+
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * Call an agent_* tool and throw if the host reports a failure
+ */
+async function callAgentTool<T extends { success: boolean; error?: string }>(
+  toolName: string,
+  args: Record<string, unknown>,
+  options?: CallOptions
+): Promise<T> {
+  const result = await __thuvu_bridge__.call<T>(toolName, args, options);
+  return checkToolResult(toolName, args, result);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A job submitted to a remote agent
+ */
+export class AgentJobHandle {
+  constructor(
+    readonly agent: string,
+    readonly jobId: string,
+    readonly pollMs = DEFAULT_POLL_MS
+  ) {}
+
+  /**
+   * Fetch the current state of the job
+   * @param options - Call options (abort signal)
+   */
+  async job(options?: CallOptions): Promise<AgentJob> {
+    const result = await callAgentTool<AgentResultResult>('agent_result', {
+      agent_name: this.agent,
+      job_id: this.jobId,
+    }, options);
+    return result.job;
+  }
+
+  /**
+   * Wait for the job to finish
+   * @param timeoutMs - Maximum time to wait (default: no limit)
+   * @param options - Stop waiting when the signal aborts (the job keeps running)
+   * @returns The job's result text
+   * @throws If the job failed, was cancelled or did not finish in time
+   */
+  async result(timeoutMs?: number, options?: CallOptions): Promise<string> {
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Infinity;
+
+    while (true) {
+      const job = await this.job(options);
+      if (FINISHED_STATUSES.has(job.status)) {
+        if (job.status !== 'completed') {
+          throw new ThuvuToolError(
+            'agent_result',
+            { agent_name: this.agent, job_id: this.jobId },
+            `Job ${this.jobId} on ${this.agent} ${job.status}: ${job.error ?? 'no error message'}`,
+            { data: job }
+          );
+        }
+        return job.result ?? '';
+      }
+
+      if (Date.now() >= deadline) {
+        throw new ToolTimeoutError(
+          'agent_result',
+          { agent_name: this.agent, job_id: this.jobId },
+          `Timed out after ${timeoutMs}ms waiting for job ${this.jobId} on ${this.agent}`
+        );
+      }
+      await delay(Math.min(this.pollMs, deadline - Date.now()), options?.signal);
+    }
+  }
+
+  /**
+   * Cancel the job
+   * @param options - Call options (abort signal)
+   */
+  async cancel(options?: CallOptions): Promise<AgentCancelResult> {
+    return await cancel(this.agent, this.jobId, options);
+  }
+}
+
+/**
+ * Submit a prompt to a named remote agent; await handle.result() for its answer
+ * @param agent - Agent name as listed by list()
+ * @param prompt - Prompt for the agent
+ * @param options - Call options (abort signal)
+ * @returns A handle whose result() can be awaited
+ * @category agents
+ * @example const job = await agents.submit("tester", "Run the integration tests"); const text = await job.result();
+ */
+export async function submit(agent: string, prompt: string, options?: CallOptions): Promise<AgentJobHandle> {
+  const result = await callAgentTool<AgentSubmitResult>('agent_submit', { agent_name: agent, prompt }, options);
+  return new AgentJobHandle(agent, result.jobId);
+}
+
+/**
+ * Cancel a job on a remote agent
+ * @param agent - Agent name
+ * @param jobId - Job id returned by submit()
+ * @param options - Call options (abort signal)
+ * @category agents
+ * @example await agents.cancel("tester", job.jobId);
+ */
+export async function cancel(agent: string, jobId: string, options?: CallOptions): Promise<AgentCancelResult> {
+  return await callAgentTool<AgentCancelResult>('agent_cancel', { agent_name: agent, job_id: jobId }, options);
+}
+
+/**
+ * List known remote agents and whether they are online
+ * @param options - Call options (abort signal)
+ * @category agents
+ * @example const online = (await agents.list()).filter(a => a.online);
+ */
+export async function list(options?: CallOptions): Promise<AgentInfo[]> {
+  const result = await callAgentTool<AgentListResult>('agent_list', {}, options);
+  return result.agents;
+}
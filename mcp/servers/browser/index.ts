@@ -0,0 +1,24 @@
+/**
+ * Browser automation tools (Playwright on the host)
+ */
+
+export { Page, PageActions, openPage } from './page.ts';
+export type { PageState } from './page.ts';
+
+// Re-export types
+export type {
+  BrowserNavigateResult,
+  BrowserClickResult,
+  BrowserTypeResult,
+  BrowserElement,
+  BrowserElementsResult,
+  BrowserScriptResult,
+  BrowserScreenshotResult,
+  BrowserCloseResult,
+  BrowserNavigateArgs,
+  BrowserClickArgs,
+  BrowserTypeArgs,
+  BrowserElementsArgs,
+  BrowserScriptArgs,
+  BrowserScreenshotArgs,
+} from '../../types/tools.d.ts';
@@ -0,0 +1,236 @@
+import type {
+  BrowserClickArgs,
+  BrowserClickResult,
+  BrowserCloseResult,
+  BrowserElement,
+  BrowserElementsResult,
+  BrowserNavigateArgs,
+  BrowserNavigateResult,
+  BrowserScreenshotArgs,
+  BrowserScreenshotResult,
+  BrowserScriptResult,
+  BrowserTypeArgs,
+  BrowserTypeResult,
+} from '../../types/tools.d.ts';
+import { checkToolResult } from '../../runtime/errors.ts';
+
+/**
+ * Call a browser_* tool and throw if the host reports an error.
+ * Browser tools signal failure with an `error` field rather than `success: false`.
+ */
+async function callBrowserTool<T extends { error?: string }>(
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<T> {
+  const result = await __thuvu_bridge__.call<T>(toolName, args);
+  return checkToolResult(toolName, args, result);
+}
+
+/** Current location of the page */
+export interface PageState {
+  url: string;
+  title: string;
+}
+
+/**
+ * Actions queued on a page by goto(), click() and type(). Chain more
+ * actions on it, or await it to run them and get the page back.
+ */
+export class PageActions implements PromiseLike<Page> {
+  constructor(private readonly page: Page) {}
+
+  goto(url: string, options?: { waitFor?: string; timeoutMs?: number }): PageActions {
+    return this.page.goto(url, options);
+  }
+
+  click(selector: string, options?: { timeoutMs?: number }): PageActions {
+    return this.page.click(selector, options);
+  }
+
+  type(selector: string, text: string, options?: { clear?: boolean; pressEnter?: boolean }): PageActions {
+    return this.page.type(selector, text, options);
+  }
+
+  /** Run the queued actions and return the url and title they ended on */
+  state(): Promise<PageState> {
+    return this.page.state();
+  }
+
+  then<TResult1 = Page, TResult2 = never>(
+    onfulfilled?: ((page: Page) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.page.state().then(() => this.page).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * The host's browser page with a chainable API.
+ *
+ * goto(), click() and type() queue their action and return the queued
+ * actions, so they can be chained and awaited. state() waits for the
+ * queue and returns the current url and title. $$(), evaluate(),
+ * screenshot() and text() also wait for the queue and then return their
+ * value.
+ *
+ * @example
+ * await page.goto('http://localhost:5000').type('#q', 'hello', { pressEnter: true }).state();
+ * const items = await page.$$('.result');
+ */
+export class Page {
+  private queue: Promise<void> = Promise.resolve();
+  /** The first failure since the last flush; actions queued after it are skipped */
+  private failure?: { error: unknown };
+  private current: PageState = { url: '', title: '' };
+
+  /** Url after the last completed action */
+  get url(): string {
+    return this.current.url;
+  }
+
+  /** Title after the last completed action */
+  get title(): string {
+    return this.current.title;
+  }
+
+  private enqueue(action: () => Promise<void>): PageActions {
+    // The failure is kept for the next flush, so an action nobody waits
+    // for never becomes an unhandled rejection
+    this.queue = this.queue
+      .then(() => this.failure ? undefined : action())
+      .catch(error => {
+        this.failure = { error };
+      });
+    return new PageActions(this);
+  }
+
+  /**
+   * Run all queued actions. A failed action rejects here and
+   * discards the actions queued after it.
+   */
+  private async flush(): Promise<void> {
+    await this.queue;
+    const failure = this.failure;
+    this.failure = undefined;
+    if (failure) throw failure.error;
+  }
+
+  /**
+   * Navigate to a url
+   * @param url - Url to open
+   * @param options - Selector to wait for and navigation timeout
+   */
+  goto(url: string, options: { waitFor?: string; timeoutMs?: number } = {}): PageActions {
+    return this.enqueue(async () => {
+      const args: BrowserNavigateArgs = { url, wait_for: options.waitFor, timeout_ms: options.timeoutMs };
+      const result = await callBrowserTool<BrowserNavigateResult>('browser_navigate', { ...args });
+      this.current = { url: result.url, title: result.title };
+    });
+  }
+
+  /**
+   * Click an element
+   * @param selector - CSS selector of the element
+   * @param options - Click timeout
+   */
+  click(selector: string, options: { timeoutMs?: number } = {}): PageActions {
+    return this.enqueue(async () => {
+      const args: BrowserClickArgs = { selector, timeout_ms: options.timeoutMs };
+      const result = await callBrowserTool<BrowserClickResult>('browser_click', { ...args });
+      this.current = { url: result.url, title: result.title };
+    });
+  }
+
+  /**
+   * Type text into an input
+   * @param selector - CSS selector of the input
+   * @param text - Text to type
+   * @param options - Clear the input first, press Enter afterwards
+   */
+  type(selector: string, text: string, options: { clear?: boolean; pressEnter?: boolean } = {}): PageActions {
+    return this.enqueue(async () => {
+      const args: BrowserTypeArgs = { selector, text, clear: options.clear, press_enter: options.pressEnter };
+      await callBrowserTool<BrowserTypeResult>('browser_type', { ...args });
+    });
+  }
+
+  /**
+   * Run the queued actions
+   * @returns The url and title once they have completed
+   */
+  async state(): Promise<PageState> {
+    await this.flush();
+    return { ...this.current };
+  }
+
+  /**
+   * Query elements matching a selector
+   * @param selector - CSS selector
+   * @param max - Maximum number of elements to return (default 20)
+   */
+  async $$(selector: string, max?: number): Promise<BrowserElement[]> {
+    await this.flush();
+    const result = await callBrowserTool<BrowserElementsResult>('browser_get_elements', { selector, max });
+    return result.elements;
+  }
+
+  /**
+   * Evaluate JavaScript in the page and return its JSON-serializable result
+   * @param expression - A function to run in the page, or an expression string
+   */
+  async evaluate<T = unknown>(expression: string | (() => T | Promise<T>)): Promise<T> {
+    await this.flush();
+    const source = typeof expression === 'function'
+      ? `(${expression.toString()})()`
+      : `(${expression})`;
+    // The host stringifies the value, so serialize it in the page and parse it here
+    const script = `async () => JSON.stringify(await ${source})`;
+    const result = await callBrowserTool<BrowserScriptResult>('browser_script', { script });
+    return (result.result == null ? undefined : JSON.parse(result.result)) as T;
+  }
+
+  /**
+   * Get the visible text of the page
+   */
+  async text(): Promise<string> {
+    return await this.evaluate<string>('document.body.innerText');
+  }
+
+  /**
+   * Take a screenshot of the page or of one element
+   * @param options - Full page capture or an element selector
+   * @returns PNG bytes
+   */
+  async screenshot(options: { fullPage?: boolean; selector?: string } = {}): Promise<Uint8Array> {
+    await this.flush();
+    const args: BrowserScreenshotArgs = { full_page: options.fullPage, selector: options.selector };
+    const result = await callBrowserTool<BrowserScreenshotResult>('browser_screenshot', { ...args });
+    return Uint8Array.from(atob(result.screenshot_base64), c => c.charCodeAt(0));
+  }
+
+  /**
+   * Run queued actions and close the browser
+   */
+  async close(): Promise<void> {
+    try {
+      await this.flush();
+    } finally {
+      await callBrowserTool<BrowserCloseResult>('browser_close', {});
+    }
+  }
+}
+
+/**
+ * Create a page, optionally navigating to a url.
+ * The host drives a single browser page, so all Page objects share it.
+ * @param url - Optional url to open
+ * @category browser
+ * @example const page = openPage(); await page.goto("http://localhost:5000").type("#q", "hello", { pressEnter: true }).state();
+ * @example const rows = await page.$$("table tr");
+ * @example const count = await page.evaluate(() => document.querySelectorAll(".item").length);
+ */
+export function openPage(url?: string): Page {
+  const page = new Page();
+  if (url) page.goto(url);
+  return page;
+}
@@ -0,0 +1,193 @@
+/**
+ * Tests for the chainable Page API against static pages served on localhost
+ *
+ * Run with: deno test --allow-read --allow-net=127.0.0.1 mcp/servers/browser/page_test.ts
+ */
+
+import { deepEqual, equal, ok, rejects } from 'node:assert/strict';
+import { ThuvuToolError } from '../../runtime/errors.ts';
+import { openPage, Page } from './page.ts';
+
+const SITE_DIR = new URL('./testdata/', import.meta.url);
+
+/** An element as found in the page source: tag, attributes and its own text */
+interface SourceElement {
+  tag: string;
+  attributes: Record<string, string>;
+  text: string;
+}
+
+function parseElements(html: string): SourceElement[] {
+  return [...html.matchAll(/<(\w+)([^>]*)>([^<]*)/g)].map(([, tag, attributes, text]) => ({
+    tag,
+    attributes: Object.fromEntries([...attributes.matchAll(/(\w+)="([^"]*)"/g)].map(([, name, value]) => [name, value])),
+    text: text.trim(),
+  }));
+}
+
+/** Match #id, .class and tag selectors */
+function select(html: string, selector: string): SourceElement[] {
+  return parseElements(html).filter(e =>
+    selector.startsWith('#') ? e.attributes.id === selector.slice(1)
+    : selector.startsWith('.') ? (e.attributes.class ?? '').split(' ').includes(selector.slice(1))
+    : e.tag === selector
+  );
+}
+
+/**
+ * Serve testdata/ on 127.0.0.1 and answer browser_* tools by loading its
+ * pages over HTTP, standing in for the host's Playwright page
+ */
+async function serveSite(): Promise<{ origin: string; calls: string[]; [Symbol.asyncDispose](): Promise<void> }> {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async request => {
+    try {
+      return new Response(await Deno.readFile(new URL(`.${new URL(request.url).pathname}`, SITE_DIR)), {
+        headers: { 'content-type': 'text/html' },
+      });
+    } catch {
+      return new Response('Not found', { status: 404 });
+    }
+  });
+  const origin = `http://127.0.0.1:${server.addr.port}`;
+
+  const calls: string[] = [];
+  let url = '';
+  let html = '';
+  let typed = '';
+  const title = () => html.match(/<title>([^<]*)<\/title>/)?.[1] ?? '';
+  const load = async (target: string) => {
+    const response = await fetch(target);
+    const body = await response.text();
+    if (!response.ok) return `HTTP ${response.status} at ${target}`;
+    url = target;
+    html = body;
+    typed = '';
+    return undefined;
+  };
+
+  const tools: Record<string, (args: Record<string, unknown>) => unknown> = {
+    browser_navigate: async args => {
+      const error = await load(args.url as string).catch(() => `net::ERR_CONNECTION_REFUSED at ${args.url}`);
+      return error ? { url: args.url, title: '', error } : { url, title: title() };
+    },
+    browser_type: async args => {
+      const [input] = select(html, args.selector as string);
+      if (!input) return { success: false, error: `No element matches ${args.selector}` };
+      typed = args.clear ? args.text as string : typed + args.text;
+      if (args.press_enter) {
+        const action = html.match(/<form action="([^"]*)"/)?.[1] ?? url;
+        await load(new URL(`${action}?${input.attributes.name}=${encodeURIComponent(typed)}`, url).href);
+      }
+      return { success: true };
+    },
+    browser_click: async args => {
+      const [element] = select(html, args.selector as string);
+      if (!element) return { success: false, url, title: title(), error: `No element matches ${args.selector}` };
+      if (element.attributes.href) await load(new URL(element.attributes.href, url).href);
+      return { success: true, url, title: title() };
+    },
+    browser_get_elements: args => {
+      const elements = select(html, args.selector as string).map(e => ({
+        tag: e.tag,
+        text: e.text,
+        href: e.attributes.href ?? null,
+        id: e.attributes.id ?? null,
+        class: e.attributes.class ?? null,
+      }));
+      return { count: elements.length, showing: elements.length, elements };
+    },
+    browser_script: args => {
+      // Run the script with the page's text as its document, as the browser would
+      const body = html.match(/<body>([\s\S]*)<\/body>/)?.[1] ?? '';
+      const innerText = body.replace(/<[^>]*>/g, '').split('\n').map(l => l.trim()).filter(Boolean).join('\n');
+      const document = { title: title(), body: { innerText } };
+      const run = new Function('document', `return (${args.script})()`);
+      return Promise.resolve(run(document)).then(result => ({ success: true, result }));
+    },
+    browser_screenshot: () => ({ success: true, screenshot_base64: btoa('\x89PNG'), size_bytes: 4 }),
+    browser_close: () => {
+      url = '';
+      html = '';
+      return { success: true };
+    },
+  };
+
+  (globalThis as Record<string, unknown>).__thuvu_bridge__ = {
+    call: async (tool: string, args: Record<string, unknown>) => {
+      calls.push(tool);
+      return await tools[tool](args);
+    },
+  };
+  return { origin, calls, [Symbol.asyncDispose]: () => server.shutdown() };
+}
+
+Deno.test('chained actions run in order and state() reports where they ended', async () => {
+  await using site = await serveSite();
+  const page = openPage(`${site.origin}/index.html`);
+  ok(page instanceof Page);
+
+  const state = await page.type('#q', 'hello', { pressEnter: true }).click('.result').state();
+  deepEqual(state, { url: `${site.origin}/world.html`, title: 'World' });
+  deepEqual(site.calls, ['browser_navigate', 'browser_type', 'browser_click']);
+  equal(page.title, 'World');
+});
+
+Deno.test('awaiting queued actions runs them and returns the page', async () => {
+  await using site = await serveSite();
+  const page = new Page();
+
+  equal(await page.goto(`${site.origin}/index.html`), page);
+  equal(page.title, 'Search');
+  const results = await openPage(`${site.origin}/index.html`).type('#q', 'hello', { pressEnter: true });
+  equal((await results.$$('.result')).length, 2);
+});
+
+Deno.test('queries wait for queued actions', async () => {
+  await using site = await serveSite();
+  const page = openPage(`${site.origin}/index.html`);
+  page.type('#q', 'hello', { pressEnter: true });
+
+  const results = await page.$$('.result');
+  deepEqual(results.map(r => [r.text, r.href]), [['hello world', '/world.html'], ['hello again', '/again.html']]);
+  equal(await page.text(), 'hello world\nhello again');
+  equal(await page.evaluate(() => 6 * 7), 42);
+  deepEqual(await page.evaluate('{ title: document.title }'), { title: 'Results' });
+  deepEqual(await page.screenshot(), new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+});
+
+Deno.test('a failed action rejects and discards the actions after it', async () => {
+  await using site = await serveSite();
+  const page = openPage(`${site.origin}/index.html`);
+
+  await rejects(page.click('#missing').type('#q', 'never').state(), (error: unknown) => {
+    ok(error instanceof ThuvuToolError);
+    equal(error.message, 'browser_click failed: No element matches #missing');
+    return true;
+  });
+  deepEqual(site.calls, ['browser_navigate', 'browser_click']);
+
+  // The page is usable again afterwards
+  deepEqual(await page.goto(`${site.origin}/world.html`).state(), {
+    url: `${site.origin}/world.html`,
+    title: 'World',
+  });
+});
+
+Deno.test('a failure nobody waits for is reported by the next query', async () => {
+  await using site = await serveSite();
+  const page = openPage(`${site.origin}/missing.html`);
+
+  // Give the navigation time to fail without anything waiting for it
+  await new Promise(resolve => setTimeout(resolve, 50));
+  await rejects(page.$$('p'), /HTTP 404/);
+  equal(site.calls.length, 1);
+  deepEqual(await page.$$('p'), []);
+});
+
+Deno.test('close runs the queue and closes the browser even when an action fails', async () => {
+  await using site = await serveSite();
+  const page = openPage('http://127.0.0.1:1/');
+
+  await rejects(page.close());
+  deepEqual(site.calls, ['browser_navigate', 'browser_close']);
+});
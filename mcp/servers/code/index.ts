@@ -0,0 +1,17 @@
+/**
+ * Code index tools for symbol-based navigation
+ */
+
+export { indexCode } from './indexCode.ts';
+export { queryCode, findSymbol, getSymbol, findReferences, listSymbolsInFile } from './query.ts';
+
+// Re-export types
+export type {
+  CodeSymbol,
+  CodeReference,
+  CodeIndexResult,
+  CodeQueryResult,
+  CodeReferencesResult,
+  CodeIndexArgs,
+  CodeQueryArgs,
+} from '../../types/tools.d.ts';
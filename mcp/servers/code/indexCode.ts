@@ -0,0 +1,24 @@
+import type { CallOptions, CodeIndexArgs, CodeIndexResult } from '../../types/tools.d.ts';
+
+/**
+ * Index source files so their symbols can be queried
+ * @param path - File or directory to index (defaults to the work directory)
+ * @param force - Re-index files even if they are unchanged
+ * @returns Index result with file counts
+ * @category index
+ * @example await indexCode("src/");
+ * @example await indexCode(".", true);
+ */
+export async function indexCode(path?: string, force?: boolean): Promise<CodeIndexResult>;
+export async function indexCode(args: CodeIndexArgs, options?: CallOptions): Promise<CodeIndexResult>;
+export async function indexCode(
+  pathOrArgs?: string | CodeIndexArgs,
+  forceOrOptions?: boolean | CallOptions
+): Promise<CodeIndexResult> {
+  const args: CodeIndexArgs = typeof pathOrArgs === 'string' || pathOrArgs === undefined
+    ? { path: pathOrArgs, force: forceOrOptions as boolean | undefined }
+    : pathOrArgs;
+  const options = typeof pathOrArgs === 'object' ? forceOrOptions as CallOptions | undefined : undefined;
+
+  return await __thuvu_bridge__.call<CodeIndexResult>('code_index', args, options);
+}
@@ -0,0 +1,105 @@
+import type {
+  CallOptions,
+  CodeQueryArgs,
+  CodeQueryResult,
+  CodeReferencesResult,
+  CodeSymbol,
+} from '../../types/tools.d.ts';
+import { checkToolResult, NotFoundError } from '../../runtime/errors.ts';
+
+/**
+ * Query the code index directly
+ * @param args - Query options (search, kind, file, symbol_id, find_references, limit)
+ * @param options - Call options (abort signal)
+ * @returns Raw query result from the host
+ * @category navigation
+ * @example const { symbols } = await queryCode({ search: "Parse", kind: "method" });
+ */
+export async function queryCode(args: CodeQueryArgs, options?: CallOptions): Promise<CodeQueryResult> {
+  const result = await __thuvu_bridge__.call<CodeQueryResult>('code_query', args, options);
+  return checkToolResult('code_query', { ...args }, result);
+}
+
+/**
+ * Find class, method, property or other symbol definitions by name
+ * @param name - Symbol name or partial name to search for
+ * @param kind - Optional symbol kind filter (class, method, property, field, interface, enum)
+ * @param limit - Maximum number of symbols to return
+ * @param options - Call options (abort signal)
+ * @returns Matching symbols
+ * @category navigation
+ * @example const [cls] = await findSymbol("McpBridge", "class");
+ * @example const methods = await findSymbol("Execute", "method", 10);
+ */
+export async function findSymbol(
+  name: string,
+  kind?: string,
+  limit?: number,
+  options?: CallOptions
+): Promise<CodeSymbol[]> {
+  const result = await queryCode({ search: name, kind, limit }, options);
+  return result.symbols ?? [];
+}
+
+/**
+ * Get a single symbol by its index id
+ * @param id - Symbol id as returned by findSymbol
+ * @param options - Call options (abort signal)
+ * @returns The symbol
+ * @category navigation
+ * @example const symbol = await getSymbol(42);
+ */
+export async function getSymbol(id: number, options?: CallOptions): Promise<CodeSymbol> {
+  const result = await queryCode({ symbol_id: id }, options);
+  return result.symbol!;
+}
+
+/**
+ * Find all references to a symbol by id or name
+ * @param symbol - Symbol id, a symbol returned by findSymbol, or a symbol name
+ * @param kind - Optional kind filter used when resolving a symbol name
+ * @param options - Call options (abort signal)
+ * @returns The resolved symbol and its references
+ * @category navigation
+ * @example const { references } = await findReferences("HandleRequestAsync");
+ * @example const refs = await findReferences(symbol.id);
+ */
+export async function findReferences(
+  symbol: number | string | CodeSymbol,
+  kind?: string,
+  options?: CallOptions
+): Promise<CodeReferencesResult> {
+  let id: number;
+  if (typeof symbol === 'number') {
+    id = symbol;
+  } else if (typeof symbol === 'string') {
+    // Prefer an exact name match over the first fuzzy hit
+    const candidates = await findSymbol(symbol, kind, undefined, options);
+    const match = candidates.find(s => s.name === symbol) ?? candidates[0];
+    if (!match) {
+      throw new NotFoundError('code_query', { search: symbol, kind }, `Symbol not found: ${symbol}`);
+    }
+    id = match.id;
+  } else {
+    id = symbol.id;
+  }
+
+  const result = await queryCode({ symbol_id: id, find_references: true }, options);
+  return {
+    symbol: result.symbol!,
+    references: result.references ?? [],
+  };
+}
+
+/**
+ * List all symbols declared in a file
+ * @param file - Path to the file
+ * @param options - Call options (abort signal)
+ * @returns Symbols in the file
+ * @category navigation
+ * @example const symbols = await listSymbolsInFile("Models/McpBridge.cs");
+ */
+export async function listSymbolsInFile(file: string, options?: CallOptions): Promise<CodeSymbol[]> {
+  const result = await queryCode({ file }, options);
+  return result.symbols ?? [];
+}
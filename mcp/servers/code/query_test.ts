@@ -0,0 +1,105 @@
+/**
+ * Tests for the code server's argument and result mapping
+ *
+ * Run with: deno test mcp/servers/code/query_test.ts
+ */
+
+import { deepEqual, equal, rejects } from 'node:assert/strict';
+import type { CallOptions, CodeSymbol } from '../../types/tools.d.ts';
+import { NotFoundError, ThuvuToolError } from '../../runtime/errors.ts';
+import { indexCode } from './indexCode.ts';
+import { findReferences, findSymbol, getSymbol, listSymbolsInFile, queryCode } from './query.ts';
+
+const symbol = (id: number, name: string): CodeSymbol => ({
+  id,
+  name,
+  kind: 'class',
+  file: `src/${name}.cs`,
+  line: 1,
+  lineEnd: 10,
+  isStatic: false,
+});
+
+/**
+ * Answer code_index and code_query with a handler and record each call
+ */
+function serve(handler: (tool: string, args: Record<string, unknown>) => unknown) {
+  const calls: { tool: string; args: Record<string, unknown>; options?: CallOptions }[] = [];
+  (globalThis as Record<string, unknown>).__thuvu_bridge__ = {
+    call: (tool: string, args: Record<string, unknown>, options?: CallOptions) => {
+      calls.push({ tool, args, options });
+      return Promise.resolve(handler(tool, args));
+    },
+  };
+  return calls;
+}
+
+Deno.test('indexCode maps positional and object arguments', async () => {
+  const calls = serve(() => ({ success: true, indexedFiles: 3 }));
+  const options = { signal: new AbortController().signal };
+
+  deepEqual(await indexCode('src', true), { success: true, indexedFiles: 3 });
+  await indexCode();
+  await indexCode({ path: 'docs' }, options);
+
+  deepEqual(calls.map(c => [c.tool, c.args, c.options]), [
+    ['code_index', { path: 'src', force: true }, undefined],
+    ['code_index', { path: undefined, force: undefined }, undefined],
+    ['code_index', { path: 'docs' }, options],
+  ]);
+});
+
+Deno.test('finders unwrap the symbols of a query', async () => {
+  const service = symbol(7, 'UserService');
+  const calls = serve((_tool, args) => args.symbol_id === 7 ? { success: true, symbol: service } : { success: true });
+
+  deepEqual(await findSymbol('User', 'class', 5), []);
+  deepEqual(await listSymbolsInFile('src/UserService.cs'), []);
+  deepEqual(await getSymbol(7), service);
+
+  deepEqual(calls.map(c => c.args), [
+    { search: 'User', kind: 'class', limit: 5 },
+    { file: 'src/UserService.cs' },
+    { symbol_id: 7 },
+  ]);
+});
+
+Deno.test('findReferences resolves a name to the exact match first', async () => {
+  const exact = symbol(2, 'Parser');
+  const calls = serve((_tool, args) => {
+    if (args.search) return { success: true, symbols: [symbol(1, 'ParserTests'), exact] };
+    return { success: true, symbol: exact, references: [{ file: 'src/App.cs', line: 4, column: 9 }] };
+  });
+
+  deepEqual(await findReferences('Parser', 'class'), {
+    symbol: exact,
+    references: [{ file: 'src/App.cs', line: 4, column: 9 }],
+  });
+  deepEqual(calls.map(c => c.args), [
+    { search: 'Parser', kind: 'class', limit: undefined },
+    { symbol_id: 2, find_references: true },
+  ]);
+
+  await findReferences(exact);
+  await findReferences(9);
+  deepEqual(calls.slice(2).map(c => c.args.symbol_id), [2, 9]);
+});
+
+Deno.test('missing symbols and failed queries throw', async () => {
+  serve(() => ({ success: true, symbols: [] }));
+  await rejects(findReferences('Nope'), (error: unknown) =>
+    error instanceof NotFoundError && error.message === 'Symbol not found: Nope'
+  );
+
+  serve(() => ({ success: false, message: 'Index is empty' }));
+  await rejects(queryCode({ search: 'x' }), (error: unknown) =>
+    error instanceof ThuvuToolError && error.tool === 'code_query'
+  );
+});
+
+Deno.test('call options reach the host', async () => {
+  const calls = serve(() => ({ success: true, symbols: [symbol(3, 'Cache')] }));
+  const options = { signal: new AbortController().signal };
+  equal((await findSymbol('Cache', undefined, undefined, options))[0].id, 3);
+  equal(calls[0].options, options);
+});
@@ -1,23 +1,29 @@
-import type { DotnetBuildArgs, DotnetBuildResult } from '../../types/tools.d.ts';
+import type { CallOptions, DotnetBuildArgs, DotnetBuildResult } from '../../types/tools.d.ts';
+import { callWithProgress, type ProgressCall } from '../progress.ts';
 
 /**
  * Build a .NET solution or project
  * @param solutionOrProject - Optional path to solution or project file
  * @param configuration - Build configuration (Debug, Release)
- * @returns Build result with stdout/stderr and exit code
+ * @returns Build result with stdout/stderr and exit code; iterate it to stream build output
+ * @category build
+ * @example await dotnet.build();
+ * @example await dotnet.build("MyApp.sln", "Release");
+ * @example for await (const p of dotnet.build()) console.log(p.stdout);
  */
-export async function build(
+export function build(
   solutionOrProject?: string,
   configuration?: string
-): Promise<DotnetBuildResult>;
-export async function build(args: DotnetBuildArgs): Promise<DotnetBuildResult>;
-export async function build(
+): ProgressCall<DotnetBuildResult>;
+export function build(args: DotnetBuildArgs, options?: CallOptions): ProgressCall<DotnetBuildResult>;
+export function build(
   solutionOrProjectOrArgs?: string | DotnetBuildArgs,
-  configuration?: string
-): Promise<DotnetBuildResult> {
+  configurationOrOptions?: string | CallOptions
+): ProgressCall<DotnetBuildResult> {
   const args: DotnetBuildArgs = typeof solutionOrProjectOrArgs === 'string' || solutionOrProjectOrArgs === undefined
-    ? { solution_or_project: solutionOrProjectOrArgs, configuration }
+    ? { solution_or_project: solutionOrProjectOrArgs, configuration: configurationOrOptions as string | undefined }
     : solutionOrProjectOrArgs;
+  const options = typeof solutionOrProjectOrArgs === 'object' ? configurationOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<DotnetBuildResult>('dotnet_build', args);
+  return callWithProgress<DotnetBuildResult>('dotnet_build', args, options);
 }
@@ -5,6 +5,7 @@
 export { build } from './build.ts';
 export { test } from './test.ts';
 export { newProject } from './new.ts';
+export type { ProgressCall } from '../progress.ts';
 
 // Re-export types
 export type {
@@ -14,4 +15,5 @@ export type {
   DotnetBuildArgs,
   DotnetTestArgs,
   DotnetNewArgs,
+  ToolProgress,
 } from '../../types/tools.d.ts';
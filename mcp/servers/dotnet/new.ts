@@ -1,4 +1,4 @@
-import type { DotnetNewArgs, DotnetNewResult } from '../../types/tools.d.ts';
+import type { CallOptions, DotnetNewArgs, DotnetNewResult } from '../../types/tools.d.ts';
 
 /**
  * Create a new .NET project from a template
@@ -6,21 +6,25 @@ import type { DotnetNewArgs, DotnetNewResult } from '../../types/tools.d.ts';
  * @param name - Project name
  * @param output - Output directory
  * @returns Result with stdout/stderr and exit code
+ * @category scaffold
+ * @example await newProject("console", "MyApp");
+ * @example await newProject("webapi", "MyApi", "./src");
  */
 export async function newProject(
   template: string,
   name?: string,
   output?: string
 ): Promise<DotnetNewResult>;
-export async function newProject(args: DotnetNewArgs): Promise<DotnetNewResult>;
+export async function newProject(args: DotnetNewArgs, options?: CallOptions): Promise<DotnetNewResult>;
 export async function newProject(
   templateOrArgs: string | DotnetNewArgs,
-  name?: string,
+  nameOrOptions?: string | CallOptions,
   output?: string
 ): Promise<DotnetNewResult> {
   const args: DotnetNewArgs = typeof templateOrArgs === 'string'
-    ? { template: templateOrArgs, name, output }
+    ? { template: templateOrArgs, name: nameOrOptions as string | undefined, output }
     : templateOrArgs;
+  const options = typeof templateOrArgs === 'object' ? nameOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<DotnetNewResult>('dotnet_new', args);
+  return await __thuvu_bridge__.call<DotnetNewResult>('dotnet_new', args, options);
 }
@@ -1,26 +1,31 @@
-import type { DotnetTestArgs, DotnetTestResult } from '../../types/tools.d.ts';
+import type { CallOptions, DotnetTestArgs, DotnetTestResult } from '../../types/tools.d.ts';
+import { callWithProgress, type ProgressCall } from '../progress.ts';
 
 /**
- * Run .NET tests
+ * Run .NET tests and get results
  * @param solutionOrProject - Optional path to solution or project file
  * @param filter - Optional test filter expression
  * @param logger - Logger type (trx, console)
- * @returns Test result with pass/fail counts
+ * @returns Test result with pass/fail counts; iterate it to stream test output
+ * @category test
+ * @example const results = await dotnet.test();
+ * @example await dotnet.test(undefined, "FullyQualifiedName~MyTest");
  */
-export async function test(
+export function test(
   solutionOrProject?: string,
   filter?: string,
   logger?: string
-): Promise<DotnetTestResult>;
-export async function test(args: DotnetTestArgs): Promise<DotnetTestResult>;
-export async function test(
+): ProgressCall<DotnetTestResult>;
+export function test(args: DotnetTestArgs, options?: CallOptions): ProgressCall<DotnetTestResult>;
+export function test(
   solutionOrProjectOrArgs?: string | DotnetTestArgs,
-  filter?: string,
+  filterOrOptions?: string | CallOptions,
   logger?: string
-): Promise<DotnetTestResult> {
+): ProgressCall<DotnetTestResult> {
   const args: DotnetTestArgs = typeof solutionOrProjectOrArgs === 'string' || solutionOrProjectOrArgs === undefined
-    ? { solution_or_project: solutionOrProjectOrArgs, filter, logger }
+    ? { solution_or_project: solutionOrProjectOrArgs, filter: filterOrOptions as string | undefined, logger }
     : solutionOrProjectOrArgs;
+  const options = typeof solutionOrProjectOrArgs === 'object' ? filterOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<DotnetTestResult>('dotnet_test', args);
+  return callWithProgress<DotnetTestResult>('dotnet_test', args, options);
 }
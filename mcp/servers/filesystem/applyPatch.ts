@@ -1,16 +1,22 @@
-import type { ApplyPatchArgs, ApplyPatchResult } from '../../types/tools.d.ts';
+import type { ApplyPatchArgs, CallOptions, ApplyPatchResult } from '../../types/tools.d.ts';
 
 /**
- * Apply a unified diff patch to files
+ * Apply a unified diff patch to modify files
  * @param patch - Unified diff patch content
+ * @param options - Call options (abort signal)
  * @returns Result indicating success and files modified
+ * @category io
+ * @example await applyPatch(unifiedDiff);
  */
-export async function applyPatch(patch: string): Promise<ApplyPatchResult>;
-export async function applyPatch(args: ApplyPatchArgs): Promise<ApplyPatchResult>;
-export async function applyPatch(patchOrArgs: string | ApplyPatchArgs): Promise<ApplyPatchResult> {
+export async function applyPatch(patch: string, options?: CallOptions): Promise<ApplyPatchResult>;
+export async function applyPatch(args: ApplyPatchArgs, options?: CallOptions): Promise<ApplyPatchResult>;
+export async function applyPatch(
+  patchOrArgs: string | ApplyPatchArgs,
+  options?: CallOptions
+): Promise<ApplyPatchResult> {
   const args: ApplyPatchArgs = typeof patchOrArgs === 'string'
     ? { patch: patchOrArgs }
     : patchOrArgs;
 
-  return await __thuvu_bridge__.call<ApplyPatchResult>('apply_patch', args);
+  return await __thuvu_bridge__.call<ApplyPatchResult>('apply_patch', args, options);
 }
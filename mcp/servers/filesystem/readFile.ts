@@ -1,16 +1,23 @@
-import type { ReadFileArgs, ReadFileResult } from '../../types/tools.d.ts';
+import type { CallOptions, ReadFileArgs, ReadFileResult } from '../../types/tools.d.ts';
+import { checkToolResult } from '../../runtime/errors.ts';
 
 /**
- * Read the contents of a file
+ * Read the contents of a file and get its SHA256 hash
  * @param path - Path to the file to read
+ * @param options - Call options (abort signal)
  * @returns File content, SHA256 hash, and encoding
+ * @throws NotFoundError if the file does not exist
+ * @category io
+ * @example const file = await readFile("src/main.ts");
+ * @example const { content } = await readFile(path);
  */
-export async function readFile(path: string): Promise<ReadFileResult>;
-export async function readFile(args: ReadFileArgs): Promise<ReadFileResult>;
-export async function readFile(pathOrArgs: string | ReadFileArgs): Promise<ReadFileResult> {
+export async function readFile(path: string, options?: CallOptions): Promise<ReadFileResult>;
+export async function readFile(args: ReadFileArgs, options?: CallOptions): Promise<ReadFileResult>;
+export async function readFile(pathOrArgs: string | ReadFileArgs, options?: CallOptions): Promise<ReadFileResult> {
   const args: ReadFileArgs = typeof pathOrArgs === 'string' 
     ? { path: pathOrArgs } 
     : pathOrArgs;
   
-  return await __thuvu_bridge__.call<ReadFileResult>('read_file', args);
+  const result = await __thuvu_bridge__.call<ReadFileResult>('read_file', args, options);
+  return checkToolResult('read_file', { ...args }, result);
 }
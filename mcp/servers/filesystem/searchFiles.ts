@@ -1,21 +1,25 @@
-import type { SearchFilesArgs, SearchFilesResult } from '../../types/tools.d.ts';
+import type { CallOptions, SearchFilesArgs, SearchFilesResult } from '../../types/tools.d.ts';
 
 /**
- * Search for files matching a glob pattern and/or containing specific text
+ * Search for files matching a glob pattern and optionally containing specific text
  * @param glob - Glob pattern to match files (e.g., "**\/*.cs")
  * @param query - Optional text to search for within files
  * @returns Array of matching file paths
+ * @category search
+ * @example const csFiles = await searchFiles("**\/*.cs");
+ * @example const files = await searchFiles("src/**\/*.ts", "import");
  */
 export async function searchFiles(glob?: string, query?: string): Promise<string[]>;
-export async function searchFiles(args: SearchFilesArgs): Promise<string[]>;
+export async function searchFiles(args: SearchFilesArgs, options?: CallOptions): Promise<string[]>;
 export async function searchFiles(
   globOrArgs?: string | SearchFilesArgs,
-  query?: string
+  queryOrOptions?: string | CallOptions
 ): Promise<string[]> {
   const args: SearchFilesArgs = typeof globOrArgs === 'string' || globOrArgs === undefined
-    ? { glob: globOrArgs, query }
+    ? { glob: globOrArgs, query: queryOrOptions as string | undefined }
     : globOrArgs;
+  const options = typeof globOrArgs === 'object' ? queryOrOptions as CallOptions | undefined : undefined;
 
-  const result = await __thuvu_bridge__.call<SearchFilesResult>('search_files', args);
+  const result = await __thuvu_bridge__.call<SearchFilesResult>('search_files', args, options);
   return result.matches;
 }
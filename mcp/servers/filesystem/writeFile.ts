@@ -1,26 +1,32 @@
-import type { WriteFileArgs, WriteFileResult } from '../../types/tools.d.ts';
+import type { CallOptions, WriteFileArgs, WriteFileResult } from '../../types/tools.d.ts';
+import { checkToolResult } from '../../runtime/errors.ts';
 
 /**
- * Write content to a file
+ * Write content to a file with optional optimistic locking via SHA256
  * @param path - Path to the file to write
  * @param content - Content to write
  * @param expectedSha256 - Optional SHA256 of expected current content (for optimistic locking)
  * @returns Write result with new SHA256 hash
+ * @throws ConflictError if the file no longer matches expectedSha256
+ * @category io
+ * @example await writeFile("output.txt", "Hello World");
  */
 export async function writeFile(
   path: string, 
   content: string, 
   expectedSha256?: string
 ): Promise<WriteFileResult>;
-export async function writeFile(args: WriteFileArgs): Promise<WriteFileResult>;
+export async function writeFile(args: WriteFileArgs, options?: CallOptions): Promise<WriteFileResult>;
 export async function writeFile(
   pathOrArgs: string | WriteFileArgs,
-  content?: string,
+  contentOrOptions?: string | CallOptions,
   expectedSha256?: string
 ): Promise<WriteFileResult> {
   const args: WriteFileArgs = typeof pathOrArgs === 'string'
-    ? { path: pathOrArgs, content: content!, expected_sha256: expectedSha256 }
+    ? { path: pathOrArgs, content: contentOrOptions as string, expected_sha256: expectedSha256 }
     : pathOrArgs;
+  const options = typeof pathOrArgs === 'object' ? contentOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<WriteFileResult>('write_file', args);
+  const result = await __thuvu_bridge__.call<WriteFileResult>('write_file', args, options);
+  return checkToolResult('write_file', { ...args }, result);
 }
@@ -1,26 +1,29 @@
-import type { GitCommitArgs, GitCommitResult } from '../../types/tools.d.ts';
+import type { CallOptions, GitCommitArgs, GitCommitResult } from '../../types/tools.d.ts';
 
 /**
- * Create a git commit
+ * Create a git commit with a message
  * @param message - Commit message
  * @param paths - Optional paths to commit
  * @param root - Optional repository root path
  * @returns Commit result
+ * @category vcs
+ * @example await commit("Fix bug in parser");
  */
 export async function commit(
   message: string,
   paths?: string[],
   root?: string
 ): Promise<GitCommitResult>;
-export async function commit(args: GitCommitArgs): Promise<GitCommitResult>;
+export async function commit(args: GitCommitArgs, options?: CallOptions): Promise<GitCommitResult>;
 export async function commit(
   messageOrArgs: string | GitCommitArgs,
-  paths?: string[],
+  pathsOrOptions?: string[] | CallOptions,
   root?: string
 ): Promise<GitCommitResult> {
   const args: GitCommitArgs = typeof messageOrArgs === 'string'
-    ? { message: messageOrArgs, paths, root }
+    ? { message: messageOrArgs, paths: pathsOrOptions as string[] | undefined, root }
     : messageOrArgs;
+  const options = typeof messageOrArgs === 'object' ? pathsOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<GitCommitResult>('git_commit', args);
+  return await __thuvu_bridge__.call<GitCommitResult>('git_commit', args, options);
 }
@@ -1,16 +1,24 @@
-import type { GitDiffArgs, GitDiffResult } from '../../types/tools.d.ts';
+import type { CallOptions, GitDiffArgs, GitDiffResult } from '../../types/tools.d.ts';
 
 /**
- * Get git diff for the repository
+ * Get git diff for staged or unstaged changes
  * @param args - Diff options (paths, staged, context, root)
+ * @param options - Call options (abort signal)
  * @returns Git diff output
+ * @category vcs
+ * @example const { stdout } = await diff({ staged: true });
+ * @example const changes = await diff({ paths: ["src/"] });
  */
-export async function diff(args?: GitDiffArgs): Promise<GitDiffResult> {
-  return await __thuvu_bridge__.call<GitDiffResult>('git_diff', args ?? {});
+export async function diff(args?: GitDiffArgs, options?: CallOptions): Promise<GitDiffResult> {
+  return await __thuvu_bridge__.call<GitDiffResult>('git_diff', args ?? {}, options);
 }
 
 /**
  * Get staged changes diff
+ * @param paths - Optional paths to diff
+ * @param context - Lines of context around each change
+ * @category vcs
+ * @example const { stdout } = await diffStaged();
  */
 export async function diffStaged(paths?: string[], context?: number): Promise<GitDiffResult> {
   return await diff({ paths, staged: true, context });
@@ -18,6 +26,10 @@ export async function diffStaged(paths?: string[], context?: number): Promise<Gi
 
 /**
  * Get unstaged changes diff
+ * @param paths - Optional paths to diff
+ * @param context - Lines of context around each change
+ * @category vcs
+ * @example const { stdout } = await diffUnstaged(["src"]);
  */
 export async function diffUnstaged(paths?: string[], context?: number): Promise<GitDiffResult> {
   return await diff({ paths, staged: false, context });
@@ -1,20 +1,23 @@
-import type { GitStatusArgs, GitStatusResult } from '../../types/tools.d.ts';
+import type { CallOptions, GitStatusArgs, GitStatusResult } from '../../types/tools.d.ts';
 
 /**
- * Get git status for the repository
+ * Get git repository status
  * @param paths - Optional paths to check status for
  * @param root - Optional repository root path
  * @returns Git status output
+ * @category vcs
+ * @example const { stdout } = await status();
  */
 export async function status(paths?: string[], root?: string): Promise<GitStatusResult>;
-export async function status(args: GitStatusArgs): Promise<GitStatusResult>;
+export async function status(args: GitStatusArgs, options?: CallOptions): Promise<GitStatusResult>;
 export async function status(
   pathsOrArgs?: string[] | GitStatusArgs,
-  root?: string
+  rootOrOptions?: string | CallOptions
 ): Promise<GitStatusResult> {
   const args: GitStatusArgs = Array.isArray(pathsOrArgs) || pathsOrArgs === undefined
-    ? { paths: pathsOrArgs, root }
+    ? { paths: pathsOrArgs, root: rootOrOptions as string | undefined }
     : pathsOrArgs;
+  const options = Array.isArray(pathsOrArgs) || pathsOrArgs === undefined ? undefined : rootOrOptions as CallOptions | undefined;
 
-  return await __thuvu_bridge__.call<GitStatusResult>('git_status', args);
+  return await __thuvu_bridge__.call<GitStatusResult>('git_status', args, options);
 }
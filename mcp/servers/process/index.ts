@@ -3,9 +3,20 @@
  */
 
 export { run, git, dotnet } from './run.ts';
+export { start, ProcessSession } from './session.ts';
 
 // Re-export types
 export type {
   RunProcessResult,
   RunProcessArgs,
+  ProcessStartResult,
+  ProcessReadResult,
+  ProcessWriteResult,
+  ProcessStatusResult,
+  ProcessStopResult,
+  ProcessStartArgs,
+  ProcessReadArgs,
+  ProcessWriteArgs,
+  ProcessStatusArgs,
+  ProcessStopArgs,
 } from '../../types/tools.d.ts';
@@ -1,4 +1,4 @@
-import type { RunProcessArgs, RunProcessResult } from '../../types/tools.d.ts';
+import type { CallOptions, RunProcessArgs, RunProcessResult } from '../../types/tools.d.ts';
 
 /**
  * Run a whitelisted process
@@ -7,6 +7,9 @@ import type { RunProcessArgs, RunProcessResult } from '../../types/tools.d.ts';
  * @param cwd - Working directory
  * @param timeoutMs - Timeout in milliseconds
  * @returns Process result with stdout/stderr and exit code
+ * @category shell
+ * @example await process.run("dotnet", ["build"]);
+ * @example await process.run("git", ["log", "--oneline", "-5"]);
  */
 export async function run(
   cmd: string,
@@ -14,22 +17,27 @@ export async function run(
   cwd?: string,
   timeoutMs?: number
 ): Promise<RunProcessResult>;
-export async function run(processArgs: RunProcessArgs): Promise<RunProcessResult>;
+export async function run(processArgs: RunProcessArgs, options?: CallOptions): Promise<RunProcessResult>;
 export async function run(
   cmdOrArgs: string | RunProcessArgs,
-  args?: string[],
+  argsOrOptions?: string[] | CallOptions,
   cwd?: string,
   timeoutMs?: number
 ): Promise<RunProcessResult> {
   const processArgs: RunProcessArgs = typeof cmdOrArgs === 'string'
-    ? { cmd: cmdOrArgs, args, cwd, timeout_ms: timeoutMs }
+    ? { cmd: cmdOrArgs, args: argsOrOptions as string[] | undefined, cwd, timeout_ms: timeoutMs }
     : cmdOrArgs;
+  const options = typeof cmdOrArgs === 'object' ? argsOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<RunProcessResult>('run_process', processArgs);
+  return await __thuvu_bridge__.call<RunProcessResult>('run_process', processArgs, options);
 }
 
 /**
  * Run a git command
+ * @param args - git arguments
+ * @param cwd - Working directory
+ * @category shell
+ * @example await process.git(["log", "--oneline", "-10"]);
  */
 export async function git(args: string[], cwd?: string): Promise<RunProcessResult> {
   return await run('git', args, cwd);
@@ -37,6 +45,10 @@ export async function git(args: string[], cwd?: string): Promise<RunProcessResul
 
 /**
  * Run a dotnet command
+ * @param args - dotnet arguments
+ * @param cwd - Working directory
+ * @category shell
+ * @example await process.dotnet(["nuget", "list"]);
  */
 export async function dotnet(args: string[], cwd?: string): Promise<RunProcessResult> {
   return await run('dotnet', args, cwd);
@@ -0,0 +1,241 @@
+import type {
+  CallOptions,
+  ProcessReadResult,
+  ProcessStartArgs,
+  ProcessStartResult,
+  ProcessStatusResult,
+  ProcessStopResult,
+  ProcessWriteResult,
+} from '../../types/tools.d.ts';
+import { checkToolResult, ToolTimeoutError } from '../../runtime/errors.ts';
+
+/** Default interval the host waits for new output on each poll */
+const DEFAULT_POLL_MS = 250;
+
+/** Default timeout for readUntil */
+const DEFAULT_READ_UNTIL_TIMEOUT_MS = 30000;
+
+/**
+ * Call a process_* tool and throw if the host reports a failure
+ */
+async function callProcessTool<T extends { success: boolean; error?: string }>(
+  toolName: string,
+  args: Record<string, unknown>,
+  options?: CallOptions
+): Promise<T> {
+  const result = await __thuvu_bridge__.call<T>(toolName, args, options);
+  return checkToolResult(toolName, args, result);
+}
+
+/**
+ * An interactive background process (dev server, REPL, watcher)
+ * started through the host's process session manager.
+ *
+ * Output is buffered on the sandbox side: readUntil() and the line
+ * iterator consume from the same buffer, so every chunk of output is
+ * returned exactly once.
+ */
+export class ProcessSession {
+  /** Unconsumed output (stdout followed by stderr of each poll) */
+  private pending = '';
+  private running = true;
+  /** Set by stop(): the host has removed the session, so there is nothing to poll */
+  private stopped = false;
+  private lastExitCode: number | null = null;
+
+  private constructor(
+    readonly id: string,
+    readonly pid: number,
+    readonly command: string,
+    readonly pollMs: number
+  ) {}
+
+  /**
+   * Start a new background process
+   * @param args - Command, arguments and working directory
+   * @param pollMs - How long each poll waits for new output
+   * @param options - Call options (abort signal, progress)
+   */
+  static async start(args: ProcessStartArgs, pollMs = DEFAULT_POLL_MS, options?: CallOptions): Promise<ProcessSession> {
+    const result = await callProcessTool<ProcessStartResult>('process_start', { ...args }, options);
+    return new ProcessSession(result.session_id, result.pid, result.command, pollMs);
+  }
+
+  /** Whether the process was still running at the last poll */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Exit code observed at the last poll (null while running) */
+  get exitCode(): number | null {
+    return this.lastExitCode;
+  }
+
+  /**
+   * Write input to the process
+   * @param input - Text to write
+   * @param newline - Append a newline (default true)
+   * @param options - Call options (abort signal, progress)
+   */
+  async write(input: string, newline = true, options?: CallOptions): Promise<ProcessWriteResult> {
+    return await callProcessTool<ProcessWriteResult>('process_write', {
+      session_id: this.id,
+      input,
+      no_newline: !newline,
+    }, options);
+  }
+
+  /**
+   * Fetch new output from the host and append it to the buffer
+   * @param waitMs - How long the host waits before reading
+   * @param options - Call options (abort signal, progress)
+   * @returns The raw read result
+   */
+  async poll(waitMs = this.pollMs, options?: CallOptions): Promise<ProcessReadResult> {
+    const result = await callProcessTool<ProcessReadResult>('process_read', {
+      session_id: this.id,
+      wait_ms: waitMs,
+    }, options);
+    this.pending += (result.stdout ?? '') + (result.stderr ?? '');
+    this.running = result.is_running;
+    this.lastExitCode = result.exit_code;
+    return result;
+  }
+
+  /**
+   * Read and consume all output buffered so far (polling once first,
+   * unless the session was stopped)
+   */
+  async read(waitMs = 0, options?: CallOptions): Promise<string> {
+    if (!this.stopped) await this.poll(waitMs, options);
+    const output = this.pending;
+    this.pending = '';
+    return output;
+  }
+
+  /**
+   * Wait until the output matches a pattern
+   * @param pattern - Regex or literal text to wait for
+   * @param timeoutMs - Maximum time to wait
+   * @param options - Call options; aborting the signal stops the wait
+   * @returns The match and all output consumed up to and including it
+   */
+  async readUntil(
+    pattern: RegExp | string,
+    timeoutMs = DEFAULT_READ_UNTIL_TIMEOUT_MS,
+    options?: CallOptions
+  ): Promise<{ match: RegExpExecArray; output: string }> {
+    const regex = typeof pattern === 'string'
+      ? new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      : new RegExp(pattern.source, pattern.flags.replace('g', ''));
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const match = regex.exec(this.pending);
+      if (match) {
+        const end = match.index + match[0].length;
+        const output = this.pending.slice(0, end);
+        this.pending = this.pending.slice(end);
+        return { match, output };
+      }
+
+      if (!this.running) {
+        throw new Error(
+          `Process ${this.command} exited with code ${this.lastExitCode} before output matched ${regex}`
+        );
+      }
+      if (Date.now() >= deadline) {
+        throw new ToolTimeoutError(
+          'process_read',
+          { session_id: this.id },
+          `Timed out after ${timeoutMs}ms waiting for ${regex}. Output so far:\n${this.pending}`
+        );
+      }
+
+      await this.poll(Math.min(this.pollMs, Math.max(0, deadline - Date.now())), options);
+    }
+  }
+
+  /**
+   * Iterate over output lines until the process exits.
+   * A trailing line without a newline is yielded once the process has exited.
+   * @param options - Call options; aborting the signal ends the iteration with an error
+   */
+  async *lines(options?: CallOptions): AsyncGenerator<string> {
+    while (true) {
+      let newlineIndex: number;
+      while ((newlineIndex = this.pending.indexOf('\n')) !== -1) {
+        const line = this.pending.slice(0, newlineIndex).replace(/\r$/, '');
+        this.pending = this.pending.slice(newlineIndex + 1);
+        yield line;
+      }
+
+      if (!this.running) {
+        if (this.pending) {
+          const rest = this.pending;
+          this.pending = '';
+          yield rest;
+        }
+        return;
+      }
+
+      await this.poll(this.pollMs, options);
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<string> {
+    return this.lines();
+  }
+
+  /**
+   * Get the host-side status of the process
+   */
+  async status(options?: CallOptions): Promise<ProcessStatusResult> {
+    const result = await callProcessTool<ProcessStatusResult>('process_status', { session_id: this.id }, options);
+    this.running = result.is_running;
+    this.lastExitCode = result.exit_code;
+    return result;
+  }
+
+  /**
+   * Stop the process and remove its session. Output the process printed
+   * before it stopped is appended to the buffer, so read() and lines()
+   * still return it.
+   * @param force - Kill the process tree instead of a graceful stop
+   * @param options - Call options (abort signal, progress)
+   */
+  async stop(force = false, options?: CallOptions): Promise<ProcessStopResult> {
+    const result = await callProcessTool<ProcessStopResult>('process_stop', { session_id: this.id, force }, options);
+    this.pending += (result.final_stdout ?? '') + (result.final_stderr ?? '');
+    this.running = false;
+    this.stopped = true;
+    this.lastExitCode = result.exit_code;
+    return result;
+  }
+}
+
+/**
+ * Start an interactive background process (dev server, REPL, watcher) and drive it with write/readUntil/lines/stop
+ * @param cmd - Command to run (must be in the host's whitelist)
+ * @param args - Command arguments
+ * @param cwd - Working directory
+ * @returns A session for writing input and reading output
+ * @category shell
+ * @example const srv = await process.start("dotnet", ["watch", "run"]); await srv.readUntil(/Now listening on/, 60000);
+ * @example for await (const line of session) { if (line.includes("error")) break; }
+ * @example await session.stop();
+ */
+export async function start(cmd: string, args?: string[], cwd?: string): Promise<ProcessSession>;
+export async function start(startArgs: ProcessStartArgs, options?: CallOptions): Promise<ProcessSession>;
+export async function start(
+  cmdOrArgs: string | ProcessStartArgs,
+  argsOrOptions?: string[] | CallOptions,
+  cwd?: string
+): Promise<ProcessSession> {
+  const startArgs: ProcessStartArgs = typeof cmdOrArgs === 'string'
+    ? { cmd: cmdOrArgs, args: argsOrOptions as string[] | undefined, cwd }
+    : cmdOrArgs;
+  const options = typeof cmdOrArgs === 'object' ? argsOrOptions as CallOptions | undefined : undefined;
+
+  return await ProcessSession.start(startArgs, undefined, options);
+}
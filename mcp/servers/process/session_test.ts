@@ -0,0 +1,67 @@
+/**
+ * Tests for ProcessSession against a fake process host
+ *
+ * Run with: deno test mcp/servers/process/session_test.ts
+ */
+
+import { deepEqual, equal, rejects } from 'node:assert/strict';
+import type { CallOptions } from '../../types/tools.d.ts';
+import { ToolAbortedError } from '../../runtime/errors.ts';
+import { start } from './session.ts';
+
+/**
+ * Serve process_* tools for a process that prints `output` on the first read
+ * and then nothing. Reads wait a moment, as the host's do, and calls whose
+ * signal has aborted are rejected as the bridge does.
+ */
+function serveProcess(output: string) {
+  const calls: { tool: string; options?: CallOptions }[] = [];
+  let printed = false;
+  const tools: Record<string, () => unknown> = {
+    process_start: () => ({ success: true, session_id: 's1', pid: 42, command: 'dotnet run' }),
+    process_read: () => {
+      const stdout = printed ? '' : output;
+      printed = true;
+      return { success: true, stdout, stderr: '', is_running: true, exit_code: null };
+    },
+    process_write: () => ({ success: true }),
+    process_stop: () => ({ success: true, exit_code: 0, final_stdout: 'bye\n' }),
+  };
+  (globalThis as Record<string, unknown>).__thuvu_bridge__ = {
+    call: async (tool: string, args: Record<string, unknown>, options?: CallOptions) => {
+      calls.push({ tool, options });
+      if (tool === 'process_read') await new Promise(resolve => setTimeout(resolve, 1));
+      if (options?.signal?.aborted) throw new ToolAbortedError(tool, args, `${tool} was aborted`);
+      return tools[tool]();
+    },
+  };
+  return calls;
+}
+
+Deno.test('every session call forwards its call options', async () => {
+  const calls = serveProcess('Now listening on http://localhost:5000\n');
+  const options = { onProgress: () => {} };
+
+  const session = await start({ cmd: 'dotnet', args: ['run'] }, options);
+  equal((await session.readUntil(/listening on (\S+)/, 1000, options)).match[1], 'http://localhost:5000');
+  await session.write('q', true, options);
+  await session.stop(false, options);
+
+  deepEqual(calls.map(c => [c.tool, c.options === options]), [
+    ['process_start', true],
+    ['process_read', true],
+    ['process_write', true],
+    ['process_stop', true],
+  ]);
+  equal(await session.read(), '\nbye\n');
+});
+
+Deno.test('aborting the signal ends a readUntil wait', async () => {
+  serveProcess('Building...\n');
+  const session = await start('dotnet', ['run']);
+  const controller = new AbortController();
+
+  const waiting = session.readUntil('Now listening', 60000, { signal: controller.signal });
+  setTimeout(() => controller.abort(), 0);
+  await rejects(waiting, ToolAbortedError);
+});
@@ -0,0 +1,105 @@
+import type { CallOptions, ToolProgress } from '../types/tools.d.ts';
+
+/**
+ * A long-running tool call that can be awaited for its result or iterated
+ * for the host's progress notifications. It is a Promise, so `.catch()`
+ * and `.finally()` work as well.
+ *
+ * The host reports the output of run_process, dotnet_build and dotnet_test
+ * line by line; other tools, such as rag_index, only deliver their result.
+ *
+ * @example
+ * const result = await dotnet.build();
+ *
+ * const call = dotnet.build();
+ * for await (const progress of call) {
+ *   if (progress.stdout) console.log(progress.stdout);
+ * }
+ * const result = await call;
+ */
+export class ProgressCall<T> implements Promise<T>, AsyncIterable<ToolProgress> {
+  readonly [Symbol.toStringTag] = 'ProgressCall';
+  private readonly result: Promise<T>;
+  private events: ToolProgress[] = [];
+  private waiters: Array<() => void> = [];
+  private done = false;
+
+  /**
+   * @param start - Starts the call, reporting progress through the given callback
+   * @param onProgress - Caller's own progress callback, also invoked for every event
+   */
+  constructor(
+    start: (onProgress: (progress: ToolProgress) => void) => Promise<T>,
+    onProgress?: (progress: ToolProgress) => void
+  ) {
+    this.result = start(progress => {
+      onProgress?.(progress);
+      this.events.push(progress);
+      this.wake();
+    });
+
+    const finish = () => {
+      this.done = true;
+      this.wake();
+    };
+    this.result.then(finish, finish);
+  }
+
+  private wake(): void {
+    for (const waiter of this.waiters.splice(0)) {
+      waiter();
+    }
+  }
+
+  /**
+   * Yield progress events until the call finishes. Events that arrived
+   * before iteration started are yielded first. Rethrows the call's error.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<ToolProgress> {
+    while (true) {
+      const next = this.events.shift();
+      if (next) {
+        yield next;
+        continue;
+      }
+      if (this.done) break;
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+
+    await this.result;
+  }
+
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.result.catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.result.finally(onfinally);
+  }
+}
+
+/**
+ * Call a host tool with progress reporting
+ * @param toolName - Tool name as registered on the host
+ * @param args - Tool arguments
+ * @param options - Call options; options.onProgress still receives every event
+ */
+export function callWithProgress<T>(
+  toolName: string,
+  args: object,
+  options: CallOptions = {}
+): ProgressCall<T> {
+  return new ProgressCall<T>(
+    onProgress => __thuvu_bridge__.call<T>(toolName, args, { ...options, onProgress }),
+    options.onProgress
+  );
+}
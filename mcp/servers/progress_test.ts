@@ -0,0 +1,59 @@
+/**
+ * Tests for awaiting and iterating long-running tool calls
+ *
+ * Run with: deno test mcp/servers/progress_test.ts
+ */
+
+import { deepEqual, equal, rejects } from 'node:assert/strict';
+import type { ToolProgress } from '../types/tools.d.ts';
+import { ProgressCall } from './progress.ts';
+
+/**
+ * A call that reports each of `lines` as progress and then settles
+ */
+function callPrinting(lines: string[], outcome: { result: string } | { error: Error }) {
+  return new ProgressCall<string>(async onProgress => {
+    for (const line of lines) {
+      await Promise.resolve();
+      onProgress({ token: 1, stdout: `${line}\n` });
+    }
+    if ('error' in outcome) throw outcome.error;
+    return outcome.result;
+  });
+}
+
+Deno.test('progress is iterated in order before the result', async () => {
+  const seen: ToolProgress[] = [];
+  const call = new ProgressCall<string>(async onProgress => {
+    await Promise.resolve();
+    onProgress({ token: 1, stdout: 'Restoring\n' });
+    onProgress({ token: 1, stdout: 'Build succeeded\n' });
+    return 'done';
+  }, progress => seen.push(progress));
+
+  const lines: string[] = [];
+  for await (const progress of call) lines.push(progress.stdout!);
+  deepEqual(lines, ['Restoring\n', 'Build succeeded\n']);
+  equal(seen.length, 2);
+  equal(await call, 'done');
+});
+
+Deno.test('catch and finally work as on a promise', async () => {
+  let finished = false;
+  const failed = callPrinting(['error CS1002'], { error: new Error('build failed') });
+  equal(await failed.catch(error => (error as Error).message).finally(() => finished = true), 'build failed');
+  equal(finished, true);
+
+  equal(await callPrinting([], { result: 'ok' }).finally(() => {}), 'ok');
+  equal(await Promise.all([callPrinting(['a'], { result: 'x' })]).then(([x]) => x), 'x');
+  await rejects(Promise.race([callPrinting([], { error: new Error('boom') })]), /boom/);
+});
+
+Deno.test('iterating a failed call rethrows its error', async () => {
+  const call = callPrinting(['one'], { error: new Error('tests failed') });
+  const lines: string[] = [];
+  await rejects(async () => {
+    for await (const progress of call) lines.push(progress.stdout!);
+  }, /tests failed/);
+  deepEqual(lines, ['one\n']);
+});
@@ -1,55 +1,71 @@
-import type { RagIndexArgs, RagIndexResult, RagClearArgs, RagClearResult, RagStatsResult } from '../../types/tools.d.ts';
+import type { CallOptions, RagIndexArgs, RagIndexResult, RagClearArgs, RagClearResult, RagStatsResult } from '../../types/tools.d.ts';
+import { callWithProgress, type ProgressCall } from '../progress.ts';
 
 /**
  * Index files for semantic search
  * @param path - Path to file or directory to index
  * @param recursive - Whether to recursively index directories
  * @param pattern - Glob pattern to filter files
- * @returns Index result with file and chunk counts
+ * @returns Index result with file and chunk counts; iterate it to stream indexing progress
+ * @category index
+ * @example await rag.index("src/", true, "*.cs");
+ * @example for await (const p of rag.index("src/")) console.log(p.percent, p.message);
  */
-export async function index(
+export function index(
   path: string,
   recursive?: boolean,
   pattern?: string
-): Promise<RagIndexResult>;
-export async function index(args: RagIndexArgs): Promise<RagIndexResult>;
-export async function index(
+): ProgressCall<RagIndexResult>;
+export function index(args: RagIndexArgs, options?: CallOptions): ProgressCall<RagIndexResult>;
+export function index(
   pathOrArgs: string | RagIndexArgs,
-  recursive?: boolean,
+  recursiveOrOptions?: boolean | CallOptions,
   pattern?: string
-): Promise<RagIndexResult> {
+): ProgressCall<RagIndexResult> {
   const args: RagIndexArgs = typeof pathOrArgs === 'string'
-    ? { path: pathOrArgs, recursive, pattern }
+    ? { path: pathOrArgs, recursive: recursiveOrOptions as boolean | undefined, pattern }
     : pathOrArgs;
+  const options = typeof pathOrArgs === 'object' ? recursiveOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<RagIndexResult>('rag_index', args);
+  return callWithProgress<RagIndexResult>('rag_index', args, options);
 }
 
 /**
  * Clear indexed content
  * @param sourcePath - Optional source path to clear (clears all if not specified)
+ * @param options - Call options (abort signal)
  * @returns Clear result with deleted chunk count
+ * @category index
+ * @example await rag.clear();
+ * @example await rag.clear("src/old/");
  */
-export async function clear(sourcePath?: string): Promise<RagClearResult>;
-export async function clear(args: RagClearArgs): Promise<RagClearResult>;
-export async function clear(sourcePathOrArgs?: string | RagClearArgs): Promise<RagClearResult> {
+export async function clear(sourcePath?: string, options?: CallOptions): Promise<RagClearResult>;
+export async function clear(args: RagClearArgs, options?: CallOptions): Promise<RagClearResult>;
+export async function clear(
+  sourcePathOrArgs?: string | RagClearArgs,
+  options?: CallOptions
+): Promise<RagClearResult> {
   const args: RagClearArgs = typeof sourcePathOrArgs === 'string' || sourcePathOrArgs === undefined
     ? { source_path: sourcePathOrArgs }
     : sourcePathOrArgs;
 
-  return await __thuvu_bridge__.call<RagClearResult>('rag_clear', args);
+  return await __thuvu_bridge__.call<RagClearResult>('rag_clear', args, options);
 }
 
 /**
  * Get RAG index statistics
+ * @param options - Call options (abort signal)
  * @returns Stats including total chunks, sources, and characters
+ * @category info
+ * @example const { total_chunks } = await rag.stats();
  */
-export async function stats(): Promise<RagStatsResult> {
-  return await __thuvu_bridge__.call<RagStatsResult>('rag_stats', {});
+export async function stats(options?: CallOptions): Promise<RagStatsResult> {
+  return await __thuvu_bridge__.call<RagStatsResult>('rag_stats', {}, options);
 }
 
 // Re-export search from separate file
 export { search } from './search.ts';
+export type { ProgressCall } from '../progress.ts';
 
 // Re-export types
 export type {
@@ -60,4 +76,5 @@ export type {
   RagSearchArgs,
   RagIndexArgs,
   RagClearArgs,
+  ToolProgress,
 } from '../../types/tools.d.ts';
@@ -1,20 +1,23 @@
-import type { RagSearchArgs, RagSearchResult } from '../../types/tools.d.ts';
+import type { CallOptions, RagSearchArgs, RagSearchResult } from '../../types/tools.d.ts';
 
 /**
  * Search indexed content using semantic similarity
  * @param query - Search query
  * @param topK - Number of results to return
  * @returns Search results with similarity scores
+ * @category search
+ * @example const results = await rag.search("HTTP request handling");
  */
 export async function search(query: string, topK?: number): Promise<RagSearchResult>;
-export async function search(args: RagSearchArgs): Promise<RagSearchResult>;
+export async function search(args: RagSearchArgs, options?: CallOptions): Promise<RagSearchResult>;
 export async function search(
   queryOrArgs: string | RagSearchArgs,
-  topK?: number
+  topKOrOptions?: number | CallOptions
 ): Promise<RagSearchResult> {
   const args: RagSearchArgs = typeof queryOrArgs === 'string'
-    ? { query: queryOrArgs, top_k: topK }
+    ? { query: queryOrArgs, top_k: topKOrOptions as number | undefined }
     : queryOrArgs;
+  const options = typeof queryOrArgs === 'object' ? topKOrOptions as CallOptions | undefined : undefined;
 
-  return await __thuvu_bridge__.call<RagSearchResult>('rag_search', args);
+  return await __thuvu_bridge__.call<RagSearchResult>('rag_search', args, options);
 }
@@ -1,9 +1,10 @@
-import type { RagStatsResult } from '../../types/tools.d.ts';
+import type { CallOptions, RagStatsResult } from '../../types/tools.d.ts';
 
 /**
  * Get RAG index statistics
+ * @param options - Call options (abort signal)
  * @returns Stats including total chunks, sources, and characters
  */
-export async function stats(): Promise<RagStatsResult> {
-  return await __thuvu_bridge__.call<RagStatsResult>('rag_stats', {});
+export async function stats(options?: CallOptions): Promise<RagStatsResult> {
+  return await __thuvu_bridge__.call<RagStatsResult>('rag_stats', {}, options);
 }
@@ -0,0 +1,16 @@
+/**
+ * SQLite tools for querying the host's database with bound parameters
+ */
+
+export { sql, SqlQuery } from './sql.ts';
+export { query, execute, listTables, describeTable } from './query.ts';
+
+// Re-export types
+export type {
+  SqlValue,
+  SqlRow,
+  SqliteQueryResult,
+  SqliteExecuteResult,
+  SqliteColumnInfo,
+  SqliteQueryArgs,
+} from '../../types/tools.d.ts';
@@ -0,0 +1,77 @@
+import type {
+  CallOptions,
+  SqliteColumnInfo,
+  SqliteExecuteResult,
+  SqliteQueryResult,
+  SqlRow,
+} from '../../types/tools.d.ts';
+import { sql, SqlQuery } from './sql.ts';
+import { checkToolResult, InvalidArgumentsError } from '../../runtime/errors.ts';
+
+/**
+ * Refuse anything but a statement built with the sql`` tag, so SQL text
+ * with values spliced in never reaches the host
+ */
+function checkStatement(tool: string, statement: SqlQuery): SqlQuery {
+  if (!(statement instanceof SqlQuery)) {
+    throw new InvalidArgumentsError(tool, {}, `${tool}: the statement must be built with the sql\`\` tag`);
+  }
+  return statement;
+}
+
+/**
+ * Run a SQL SELECT with bound parameters and return rows as records
+ * @param statement - A query built with the sql`` tag
+ * @param options - Call options (abort signal)
+ * @returns Rows keyed by column name
+ * @category database
+ * @example const rows = await sqlite.query(sql`SELECT name, kind FROM symbols WHERE kind = ${kind} LIMIT ${10}`);
+ */
+export async function query<T extends SqlRow = SqlRow>(statement: SqlQuery, options?: CallOptions): Promise<T[]> {
+  const { sql: text, params } = checkStatement('sqlite_query', statement);
+  const args = { sql: text, params };
+  const result = await __thuvu_bridge__.call<SqliteQueryResult<T>>('sqlite_query', args, options);
+  return checkToolResult('sqlite_query', args, result).rows;
+}
+
+/**
+ * Run an INSERT, UPDATE, DELETE or DDL statement with bound parameters
+ * @param statement - A statement built with the sql`` tag
+ * @param options - Call options (abort signal)
+ * @returns Number of changed rows and the last inserted rowid
+ * @category database
+ * @example await sqlite.execute(sql`DELETE FROM context WHERE key = ${key}`);
+ */
+export async function execute(statement: SqlQuery, options?: CallOptions): Promise<SqliteExecuteResult> {
+  const { sql: text, params } = checkStatement('sqlite_execute', statement);
+  const args = { sql: text, params };
+  const result = await __thuvu_bridge__.call<SqliteExecuteResult>('sqlite_execute', args, options);
+  return checkToolResult('sqlite_execute', args, result);
+}
+
+/**
+ * List the tables in the database
+ * @param options - Call options (abort signal)
+ * @returns Table names, sorted
+ * @category database
+ * @example const tables = await listTables();
+ */
+export async function listTables(options?: CallOptions): Promise<string[]> {
+  const rows = await query<{ name: string }>(
+    sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`,
+    options
+  );
+  return rows.map(r => r.name);
+}
+
+/**
+ * Describe the columns of a table
+ * @param table - Table name
+ * @param options - Call options (abort signal)
+ * @returns Column definitions as reported by PRAGMA table_info
+ * @category database
+ * @example const columns = await describeTable("symbols");
+ */
+export async function describeTable(table: string, options?: CallOptions): Promise<SqliteColumnInfo[]> {
+  return await query<SqliteColumnInfo & SqlRow>(sql`SELECT * FROM pragma_table_info(${table})`, options);
+}
@@ -0,0 +1,140 @@
+import type { SqliteQueryArgs, SqlValue } from '../../types/tools.d.ts';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Held only by this module, so only the sql`` tag, sql.join(),
+ * sql.identifier() and boundStatement() can construct statements and identifiers
+ */
+const CONSTRUCT = Symbol('sql');
+
+/**
+ * A SQL statement with its bound parameters, in the form the sqlite_query
+ * and sqlite_execute host tools take.
+ * Only the sql`` tag and sql.join() create these, so the text never
+ * contains interpolated values.
+ */
+export class SqlQuery implements SqliteQueryArgs {
+  readonly sql: string;
+  readonly params: SqlValue[];
+
+  constructor(key: typeof CONSTRUCT, sql: string, params: SqlValue[]) {
+    if (key !== CONSTRUCT) throw new TypeError('SqlQuery: build statements with the sql`` tag');
+    this.sql = sql;
+    this.params = params;
+    Object.freeze(this);
+  }
+}
+
+/**
+ * A validated, quoted identifier (table or column name)
+ */
+class SqlIdentifier {
+  readonly quoted: string;
+
+  constructor(key: typeof CONSTRUCT, quoted: string) {
+    if (key !== CONSTRUCT) throw new TypeError('SqlIdentifier: build identifiers with sql.identifier()');
+    this.quoted = quoted;
+    Object.freeze(this);
+  }
+}
+
+type SqlInterpolation = SqlValue | SqlValue[] | SqlQuery | SqlIdentifier;
+
+function isSqlValue(value: unknown): value is SqlValue {
+  return value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean';
+}
+
+/**
+ * Tagged template that turns every interpolation into a bound parameter.
+ *
+ * - Scalars become `?` placeholders
+ * - Arrays become `(?, ?, ...)` lists for IN clauses
+ * - Nested sql`` fragments are spliced in with their parameters
+ * - sql.identifier(name) inserts a validated, quoted identifier
+ *
+ * @category database
+ * @example sql`SELECT * FROM ${sql.identifier(table)} WHERE id IN ${ids}`
+ * @example
+ * const rows = await query(sql`SELECT * FROM symbols WHERE kind = ${kind} AND name IN ${names}`);
+ */
+export function sql(strings: TemplateStringsArray, ...values: SqlInterpolation[]): SqlQuery {
+  let text = strings[0];
+  const params: SqlValue[] = [];
+
+  values.forEach((value, i) => {
+    if (value instanceof SqlQuery) {
+      text += value.sql;
+      params.push(...value.params);
+    } else if (value instanceof SqlIdentifier) {
+      text += value.quoted;
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        throw new Error('sql: cannot interpolate an empty array');
+      }
+      if (!value.every(isSqlValue)) {
+        throw new Error('sql: arrays may only contain strings, numbers, booleans or null');
+      }
+      text += `(${value.map(() => '?').join(', ')})`;
+      params.push(...value);
+    } else if (value === undefined) {
+      throw new Error(`sql: interpolation ${i} is undefined`);
+    } else if (isSqlValue(value)) {
+      text += '?';
+      params.push(value);
+    } else {
+      throw new Error(`sql: unsupported interpolation type ${typeof value}`);
+    }
+    text += strings[i + 1];
+  });
+
+  return new SqlQuery(CONSTRUCT, text, params);
+}
+
+/**
+ * Insert a table or column name. Only plain identifiers are accepted.
+ * @param name - Identifier, optionally schema-qualified (main.symbols)
+ */
+sql.identifier = (name: string): SqlIdentifier => {
+  const parts = name.split('.');
+  if (parts.length > 2 || !parts.every(p => IDENTIFIER_PATTERN.test(p))) {
+    throw new Error(`sql.identifier: invalid identifier '${name}'`);
+  }
+  return new SqlIdentifier(CONSTRUCT, parts.map(p => `"${p}"`).join('.'));
+};
+
+/**
+ * Join fragments with a separator, e.g. for dynamic WHERE clauses
+ * @param fragments - sql`` fragments to join
+ * @param separator - ', ', ' AND ' or ' OR ' (default ', ')
+ */
+sql.join = (fragments: SqlQuery[], separator = ', '): SqlQuery => {
+  if (!/^\s*(,|AND|OR)\s*$/i.test(separator)) {
+    throw new Error(`sql.join: unsupported separator '${separator}'`);
+  }
+  return new SqlQuery(
+    CONSTRUCT,
+    fragments.map(f => f.sql).join(separator),
+    fragments.flatMap(f => f.params)
+  );
+};
+
+/**
+ * A statement from SQL text with `?` placeholders and its parameters, for
+ * the exported sqlite_query and sqlite_execute tools, whose clients send
+ * the text and the values separately. Scripts build statements with the
+ * sql`` tag instead; this is not part of the server's exports.
+ */
+export function boundStatement(args: SqliteQueryArgs): SqlQuery {
+  const params = args.params ?? [];
+  if (typeof args.sql !== 'string') {
+    throw new Error('sql: the statement text must be a string');
+  }
+  if (!Array.isArray(params) || !params.every(isSqlValue)) {
+    throw new Error('sql: params may only contain strings, numbers, booleans or null');
+  }
+  return new SqlQuery(CONSTRUCT, args.sql, [...params]);
+}
@@ -0,0 +1,50 @@
+/**
+ * Tests for the sql`` tag, identifiers and joins
+ *
+ * Run with: deno test mcp/servers/sqlite/sql_test.ts
+ */
+
+import { deepEqual, equal, throws } from 'node:assert/strict';
+import { sql, SqlQuery } from './sql.ts';
+
+Deno.test('interpolations become placeholders with parameters in order', () => {
+  const kinds = ['class', 'interface'];
+  const inner = sql`file = ${'a.cs'} AND line > ${10}`;
+  const query = sql`SELECT * FROM symbols WHERE kind IN ${kinds} AND ${inner} AND static = ${true} AND doc IS ${null}`;
+
+  equal(query.sql, 'SELECT * FROM symbols WHERE kind IN (?, ?) AND file = ? AND line > ? AND static = ? AND doc IS ?');
+  deepEqual(query.params, ['class', 'interface', 'a.cs', 10, true, null]);
+  equal(query.sql.split('?').length - 1, query.params.length);
+});
+
+Deno.test('values that cannot be bound are rejected', () => {
+  throws(() => sql`SELECT ${[]}`, /cannot interpolate an empty array/);
+  throws(() => sql`SELECT ${undefined as unknown as string}`, /interpolation 0 is undefined/);
+  throws(() => sql`SELECT ${{} as unknown as string}`, /unsupported interpolation type object/);
+  throws(() => sql`SELECT ${[{}] as unknown as string[]}`, /arrays may only contain/);
+});
+
+Deno.test('identifiers are validated and quoted', () => {
+  equal(sql`SELECT * FROM ${sql.identifier('main.symbols')}`.sql, 'SELECT * FROM "main"."symbols"');
+  deepEqual(sql`SELECT ${sql.identifier('name')} FROM t`.params, []);
+
+  for (const name of ['symbols; DROP TABLE x', 'a"b', 'a.b.c', '1st', '']) {
+    throws(() => sql.identifier(name), /invalid identifier/, name);
+  }
+});
+
+Deno.test('join splices fragments with their parameters', () => {
+  const conditions = sql.join([sql`kind = ${'class'}`, sql`name LIKE ${'User%'}`], ' AND ');
+  const query = sql`SELECT * FROM symbols WHERE ${conditions} LIMIT ${5}`;
+
+  equal(query.sql, 'SELECT * FROM symbols WHERE kind = ? AND name LIKE ? LIMIT ?');
+  deepEqual(query.params, ['class', 'User%', 5]);
+  equal(sql.join([sql`a`, sql`b`]).sql, 'a, b');
+  throws(() => sql.join([sql`a`], '; DROP '), /unsupported separator/);
+});
+
+Deno.test('statements can only be built through the tag', () => {
+  const query = sql`SELECT 1`;
+  throws(() => new (SqlQuery as unknown as new (...args: unknown[]) => SqlQuery)(Symbol('sql'), 'DROP TABLE t', []));
+  throws(() => (query as { sql: string }).sql = 'DROP TABLE t');
+});
@@ -0,0 +1,232 @@
+/**
+ * Skill SDK
+ *
+ * A skill is a reusable script saved in the skills/ directory. Each skill
+ * file default-exports the result of defineSkill():
+ *
+ *   import { defineSkill } from 'thuvu/skills.ts';
+ *   import { searchFiles } from 'thuvu/servers/filesystem/index.ts';
+ *
+ *   export default defineSkill({
+ *     name: 'count-todos',
+ *     description: 'Count TODO comments',
+ *     version: '1.0.0',
+ *     parameters: {
+ *       glob: { type: 'string', description: 'Files to search', default: '**\/*.cs' },
+ *     },
+ *     async execute({ glob }, context) {
+ *       const files = await searchFiles(glob, 'TODO');
+ *       return files.length;
+ *     },
+ *   });
+ *
+ * The declared parameters type execute()'s arguments. run() checks the
+ * parameters it is given against them, fills in defaults, and lets the
+ * skill run other skills by name through context.invoke(). skills/index.json
+ * is generated from the same metadata by scripts/generate-skill-index.ts.
+ *
+ * Skills import this SDK and the tool wrappers as `thuvu/...`, which
+ * import_map.json maps to this directory. The host passes the map to Deno,
+ * so a skill works wherever its skills directory is.
+ */
+
+import type { JsonSchema } from './catalog.ts';
+import { InvalidArgumentsError, NotFoundError, ThuvuToolError } from './runtime/errors.ts';
+import { validateArguments } from './runtime/validation.ts';
+
+/**
+ * A skill parameter, in the format of skills/index.json
+ */
+export interface SkillParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description: string;
+  /** The caller must pass a value (parameters with a default never need one) */
+  required?: boolean;
+  default?: unknown;
+  /** The only values accepted */
+  enum?: readonly unknown[];
+  /** Type of the items of an array parameter */
+  items?: JsonSchema;
+}
+
+export type SkillParameters = Record<string, SkillParameter>;
+
+export interface SkillMetadata<P extends SkillParameters = SkillParameters> {
+  /** Name the skill is invoked by, in kebab-case */
+  name: string;
+  description: string;
+  version: string;
+  parameters?: P;
+}
+
+/** The TypeScript type of a parameter's values */
+type ParameterValue<S extends SkillParameter> = S extends { enum: readonly (infer E)[] } ? E
+  : S['type'] extends 'string' ? string
+  : S['type'] extends 'number' | 'integer' ? number
+  : S['type'] extends 'boolean' ? boolean
+  : S['type'] extends 'array' ? unknown[]
+  : Record<string, unknown>;
+
+type RequiredKeys<P extends SkillParameters> = { [K in keyof P]: P[K] extends { required: true } ? K : never }[keyof P];
+type DefaultedKeys<P extends SkillParameters> = { [K in keyof P]: P[K] extends { default: unknown } ? K : never }[keyof P];
+
+/**
+ * Parameters as a caller passes them: required ones must be given
+ */
+export type SkillInput<P extends SkillParameters> =
+  & { [K in RequiredKeys<P>]: ParameterValue<P[K]> }
+  & { [K in Exclude<keyof P, RequiredKeys<P>>]?: ParameterValue<P[K]> };
+
+/**
+ * Parameters as execute() receives them: defaults are filled in
+ */
+export type SkillParams<P extends SkillParameters> =
+  & { [K in RequiredKeys<P> | DefaultedKeys<P>]: ParameterValue<P[K]> }
+  & { [K in Exclude<keyof P, RequiredKeys<P> | DefaultedKeys<P>>]?: ParameterValue<P[K]> };
+
+/**
+ * What a running skill can do besides calling tools
+ */
+export interface SkillContext {
+  /** Run another skill by name, with its parameters checked the same way */
+  invoke<T = unknown>(name: string, params?: Record<string, unknown>): Promise<T>;
+  /** Names of the skills running, outermost first, ending with this one */
+  readonly stack: readonly string[];
+}
+
+export interface SkillDefinition<P extends SkillParameters, R> extends SkillMetadata<P> {
+  execute(params: SkillParams<P>, context: SkillContext): Promise<R>;
+}
+
+/**
+ * A defined skill, as default-exported by a skill file
+ */
+export interface Skill<P extends SkillParameters = SkillParameters, R = unknown> {
+  readonly metadata: SkillMetadata<P>;
+  /**
+   * Check the parameters, fill in defaults and run the skill
+   * @throws InvalidArgumentsError listing every problem with the parameters
+   */
+  run(params?: SkillInput<P>, options?: SkillRunOptions): Promise<R>;
+}
+
+export interface SkillRunOptions {
+  /** Skills already running, for context.invoke() (internal) */
+  stack?: readonly string[];
+  /** Where context.invoke() finds skills that are not defined yet */
+  skillsDir?: string | URL;
+}
+
+/** Skills defined so far in this process, by name */
+const registry = new Map<string, Skill>();
+
+const DEFAULT_SKILLS_DIR = new URL('../skills/', import.meta.url);
+
+/**
+ * The parameters as an object schema, for validation and the index
+ */
+export function skillParametersSchema(parameters: SkillParameters = {}): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const [name, { type, description, default: defaultValue, enum: values, items }] of Object.entries(parameters)) {
+    properties[name] = {
+      type,
+      description,
+      ...(values ? { enum: [...values] } : {}),
+      ...(items ? { items } : {}),
+      ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+    };
+  }
+  const required = Object.entries(parameters)
+    .filter(([, parameter]) => parameter.required && parameter.default === undefined)
+    .map(([name]) => name);
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/**
+ * Define a skill. The result is also registered so other skills in the
+ * same process can invoke it by name.
+ */
+export function defineSkill<const P extends SkillParameters = Record<never, SkillParameter>, R = unknown>(
+  definition: SkillDefinition<P, R>
+): Skill<P, R> {
+  const { execute, ...metadata } = definition;
+  const schema = {
+    name: metadata.name,
+    description: metadata.description,
+    parameters: skillParametersSchema(metadata.parameters),
+    returns: {},
+  };
+
+  const skill: Skill<P, R> = {
+    metadata,
+    async run(input, options = {}) {
+      const params = (input ?? {}) as Record<string, unknown>;
+      const stack = [...(options.stack ?? []), metadata.name];
+      const { args, problems } = validateArguments(schema, params);
+      if (problems.length > 0) {
+        throw new InvalidArgumentsError(metadata.name, params, `${metadata.name}: ${problems.join('; ')}`, {
+          data: { problems },
+        });
+      }
+
+      const context: SkillContext = {
+        stack,
+        invoke: <T>(name: string, invokeParams?: Record<string, unknown>) =>
+          invokeSkill<T>(name, invokeParams, { stack, skillsDir: options.skillsDir }),
+      };
+      return await execute(args as SkillParams<P>, context);
+    },
+  };
+  registry.set(metadata.name, skill as unknown as Skill);
+  return skill;
+}
+
+/**
+ * Find a skill by name: one already defined, or the default export of
+ * <skillsDir>/<name>.ts
+ * @throws NotFoundError if there is no such skill
+ */
+export async function loadSkill(name: string, skillsDir: string | URL = DEFAULT_SKILLS_DIR): Promise<Skill> {
+  const defined = registry.get(name);
+  if (defined) return defined;
+
+  const dir = typeof skillsDir === 'string' ? new URL(`file://${skillsDir.replace(/\/?$/, '/')}`) : skillsDir;
+  const url = new URL(`${name}.ts`, dir);
+  let module: { default?: Skill };
+  try {
+    module = await import(url.href);
+  } catch (error) {
+    if (error instanceof TypeError && /Module not found/.test(error.message)) {
+      throw new NotFoundError(name, {}, `No skill named '${name}' in ${dir.pathname}`);
+    }
+    throw error;
+  }
+
+  const skill = module.default;
+  if (!skill || typeof skill.run !== 'function') {
+    throw new ThuvuToolError(name, {}, `${url.pathname} does not default-export a skill made with defineSkill()`);
+  }
+  if (skill.metadata.name !== name) {
+    throw new ThuvuToolError(name, {}, `${url.pathname} defines the skill '${skill.metadata.name}', not '${name}'`);
+  }
+  return skill;
+}
+
+/**
+ * Run a skill by name
+ * @throws NotFoundError if there is no such skill; ThuvuToolError if it is
+ *   already running in the same chain of invocations
+ */
+export async function invokeSkill<T = unknown>(
+  name: string,
+  params: Record<string, unknown> = {},
+  options: SkillRunOptions = {}
+): Promise<T> {
+  const stack = options.stack ?? [];
+  if (stack.includes(name)) {
+    throw new ThuvuToolError(name, params, `Skill '${name}' invokes itself: ${[...stack, name].join(' -> ')}`);
+  }
+  const skill = await loadSkill(name, options.skillsDir);
+  // The parameters of a skill found by name are only known when run() checks them
+  return await skill.run(params as SkillInput<SkillParameters>, options) as T;
+}
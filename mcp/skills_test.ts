@@ -0,0 +1,117 @@
+/**
+ * Tests for the skill SDK and the skill index generator
+ *
+ * Run with: deno test --allow-read --allow-write --import-map=mcp/import_map.json mcp/skills_test.ts
+ */
+
+import { deepEqual, equal, ok, rejects } from 'node:assert/strict';
+import { InvalidArgumentsError, NotFoundError, ThuvuToolError } from './runtime/errors.ts';
+import { defineSkill, invokeSkill, loadSkill } from './skills.ts';
+import { formatSkillIndex, generateSkillIndex } from './scripts/generate-skill-index.ts';
+
+const greet = defineSkill({
+  name: 'test-greet',
+  description: 'Greet someone',
+  version: '1.0.0',
+  parameters: {
+    who: { type: 'string', description: 'Who to greet', required: true },
+    punctuation: { type: 'string', description: 'Ending', enum: ['!', '.'], default: '!' },
+    times: { type: 'integer', description: 'Repetitions' },
+  },
+  execute({ who, punctuation, times }) {
+    return Promise.resolve(`Hello ${who}${punctuation}`.repeat(times ?? 1));
+  },
+});
+
+Deno.test('run fills in defaults and checks parameters', async () => {
+  equal(await greet.run({ who: 'Ada' }), 'Hello Ada!');
+  equal(await greet.run({ who: 'Ada', punctuation: '.', times: 2 }), 'Hello Ada.Hello Ada.');
+
+  await rejects(
+    // @ts-expect-error: who is required
+    greet.run({ punctuation: '?', extra: 1 }),
+    (error: unknown) => {
+      ok(error instanceof InvalidArgumentsError);
+      equal(
+        error.message,
+        'test-greet: `who` is required (string); `punctuation` must be "!" | ".", got string "?"; ' +
+          '`extra` is not a known argument (expected who, punctuation, times)'
+      );
+      return true;
+    }
+  );
+});
+
+Deno.test('skills invoke other skills by name', async () => {
+  const greetAll = defineSkill({
+    name: 'test-greet-all',
+    description: 'Greet everyone',
+    version: '1.0.0',
+    parameters: { names: { type: 'array', description: 'Names', items: { type: 'string' }, default: [] } },
+    async execute({ names }, context) {
+      deepEqual(context.stack, ['test-greet-all']);
+      const greetings: string[] = [];
+      for (const who of names) greetings.push(await context.invoke<string>('test-greet', { who }));
+      return greetings;
+    },
+  });
+
+  deepEqual(await greetAll.run({ names: ['Ada', 'Alan'] }), ['Hello Ada!', 'Hello Alan!']);
+  equal(await invokeSkill('test-greet', { who: 'Grace' }), 'Hello Grace!');
+});
+
+Deno.test('a skill invoking itself is stopped', async () => {
+  const loop = defineSkill({
+    name: 'test-loop',
+    description: 'Invokes itself',
+    version: '1.0.0',
+    execute: (_params, context) => context.invoke('test-loop'),
+  });
+  await rejects(loop.run(), (error: unknown) => {
+    ok(error instanceof ThuvuToolError);
+    equal(error.message, "Skill 'test-loop' invokes itself: test-loop -> test-loop");
+    return true;
+  });
+});
+
+Deno.test('skills are loaded from the skills directory', async () => {
+  const skill = await loadSkill('analyze-codebase');
+  equal(skill.metadata.description, 'Analyze project structure, file types, and code statistics');
+  await rejects(loadSkill('no-such-skill'), NotFoundError);
+});
+
+Deno.test('the index lists every skill made with defineSkill', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/b-skill.ts`, `
+      import { defineSkill } from 'thuvu/skills.ts';
+      export default defineSkill({
+        name: 'b-skill',
+        description: 'B',
+        version: '2.0.0',
+        parameters: { path: { type: 'string', description: 'File', required: true } },
+        execute: async () => 1,
+      });
+    `);
+    await Deno.writeTextFile(`${dir}/legacy.ts`, `export const metadata = { name: 'legacy' };\nawait fetch('x');\n`);
+    await Deno.writeTextFile(`${dir}/index.json`, JSON.stringify({
+      version: '1.0.0',
+      skills: [{ name: 'legacy', description: 'Saved by the host', version: '1.0.0', file: 'legacy.ts', createdAt: '2024-01-01T00:00:00Z', parameters: {} }],
+    }));
+
+    const index = await generateSkillIndex(new URL(`file://${dir}/`), new Date('2025-05-01T00:00:00Z'));
+    deepEqual(index.skills.map(s => [s.name, s.file, s.kind, s.createdAt]), [
+      ['b-skill', 'b-skill.ts', 'module', '2025-05-01T00:00:00.000Z'],
+      ['legacy', 'legacy.ts', undefined, '2024-01-01T00:00:00Z'],
+    ]);
+    deepEqual(index.skills[0].parameters, { path: { type: 'string', description: 'File', required: true } });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('the committed index is up to date', async () => {
+  const skillsDir = new URL('../skills/', import.meta.url);
+  const committed = await Deno.readTextFile(new URL('index.json', skillsDir));
+  equal(formatSkillIndex(await generateSkillIndex(skillsDir)), committed);
+});
@@ -5,10 +5,33 @@
 // Bridge interface for calling back to C#
 declare global {
   const __thuvu_bridge__: {
-    call<T = unknown>(toolName: string, args: Record<string, unknown>): Promise<T>;
+    call<T = unknown>(toolName: string, args: object, options?: CallOptions): Promise<T>;
   };
 }
 
+/**
+ * Per-call options accepted by the bridge and the tool wrappers
+ */
+export interface CallOptions {
+  /** Abandon the call when this signal aborts */
+  signal?: AbortSignal;
+  /** Receives $/progress notifications the host sends while the call runs */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+/**
+ * A `$/progress` notification from a long-running host tool
+ */
+export interface ToolProgress {
+  /** Progress token of the call, the JSON-RPC id of its request */
+  token: number | string;
+  message?: string;
+  /** Completion from 0 to 100, if the tool knows it */
+  percent?: number;
+  /** Output produced since the previous notification */
+  stdout?: string;
+}
+
 // ============================================================================
 // Filesystem Tools
 // ============================================================================
@@ -127,6 +150,282 @@ export interface RunProcessResult {
   exit_code: number;
 }
 
+export interface ProcessStartResult {
+  success: boolean;
+  session_id: string;
+  pid: number;
+  command: string;
+  arguments: string[];
+  working_directory: string;
+  started_at: string;
+  error?: string;
+}
+
+export interface ProcessReadResult {
+  success: boolean;
+  session_id: string;
+  is_running: boolean;
+  exit_code: number | null;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+export interface ProcessWriteResult {
+  success: boolean;
+  session_id: string;
+  bytes_written: number;
+  error?: string;
+}
+
+export interface ProcessStatusResult {
+  success: boolean;
+  session_id: string;
+  pid: number;
+  command: string;
+  arguments: string[];
+  working_directory: string;
+  is_running: boolean;
+  exit_code: number | null;
+  started_at: string;
+  runtime_seconds: number;
+  error?: string;
+}
+
+export interface ProcessStopResult {
+  success: boolean;
+  session_id: string;
+  exit_code: number | null;
+  final_stdout: string | null;
+  final_stderr: string | null;
+  message: string;
+  error?: string;
+}
+
+// ============================================================================
+// Code Index Tools
+// ============================================================================
+
+export interface CodeSymbol {
+  id: number;
+  name: string;
+  fullName?: string;
+  kind: string;
+  file: string;
+  line: number;
+  lineEnd: number;
+  signature?: string;
+  returnType?: string;
+  visibility?: string;
+  isStatic: boolean;
+  documentation?: string;
+}
+
+export interface CodeReference {
+  file: string;
+  line: number;
+  column: number;
+  context?: string;
+  kind?: string;
+}
+
+export interface CodeIndexResult {
+  success: boolean;
+  path?: string;
+  totalFiles?: number;
+  indexedFiles?: number;
+  skippedFiles?: number;
+  indexed?: boolean;
+  message?: string;
+  errors?: string[];
+  error?: string;
+}
+
+export interface CodeQueryResult {
+  success: boolean;
+  query?: string;
+  kind?: string;
+  file?: string;
+  count?: number;
+  symbol?: CodeSymbol;
+  symbols?: CodeSymbol[];
+  references?: CodeReference[];
+  message?: string;
+  stats?: {
+    totalSymbols: number;
+    totalFiles: number;
+    totalReferences: number;
+    symbolsByKind: Record<string, number>;
+    databaseSize: string;
+  };
+  error?: string;
+}
+
+export interface CodeReferencesResult {
+  symbol: CodeSymbol;
+  references: CodeReference[];
+}
+
+// ============================================================================
+// SQLite Tools
+// ============================================================================
+
+export type SqlValue = string | number | boolean | null;
+
+export type SqlRow = Record<string, unknown>;
+
+export interface SqliteQueryResult<T extends SqlRow = SqlRow> {
+  success: boolean;
+  columns: string[];
+  rows: T[];
+  row_count: number;
+  error?: string;
+}
+
+export interface SqliteExecuteResult {
+  success: boolean;
+  changes: number;
+  last_insert_rowid: number;
+  error?: string;
+}
+
+export interface SqliteColumnInfo {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+// ============================================================================
+// Agent Tools
+// ============================================================================
+
+export type AgentJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AgentInfo {
+  name: string;
+  url: string;
+  description?: string;
+  status: string;
+  currentJob: string | null;
+  online: boolean;
+}
+
+export interface AgentListResult {
+  success: boolean;
+  agents: AgentInfo[];
+  error?: string;
+}
+
+export interface AgentSubmitResult {
+  success: boolean;
+  jobId: string;
+  status: AgentJobStatus;
+  submittedAt: string;
+  error?: string;
+}
+
+export interface AgentJob {
+  id: string;
+  status: AgentJobStatus;
+  prompt: string;
+  result: string | null;
+  error: string | null;
+  submittedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationSeconds: number | null;
+  journal: Array<{ timestamp: string; entry: string }>;
+}
+
+export interface AgentResultResult {
+  success: boolean;
+  job: AgentJob;
+  error?: string;
+}
+
+export interface AgentCancelResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface DelegateResult {
+  success: boolean;
+  status: string;
+  summary: string;
+  details?: string;
+  files_modified?: string[];
+  files_created?: string[];
+  suggestions?: string[];
+  error?: string;
+  iteration_count: number;
+  duration_ms: number;
+  bailout_reason?: string;
+  role: string;
+}
+
+// ============================================================================
+// Browser Tools
+// ============================================================================
+
+export interface BrowserNavigateResult {
+  url: string;
+  title: string;
+  text?: string;
+  html?: string;
+  screenshot_base64?: string;
+  error?: string;
+}
+
+export interface BrowserClickResult {
+  success: boolean;
+  url: string;
+  title: string;
+  error?: string;
+}
+
+export interface BrowserTypeResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface BrowserElement {
+  tag: string;
+  text: string | null;
+  href: string | null;
+  id: string | null;
+  class: string | null;
+}
+
+export interface BrowserElementsResult {
+  count: number;
+  showing: number;
+  elements: BrowserElement[];
+  error?: string;
+}
+
+export interface BrowserScriptResult {
+  success: boolean;
+  result: string | null;
+  error?: string;
+}
+
+export interface BrowserScreenshotResult {
+  success: boolean;
+  screenshot_base64: string;
+  size_bytes: number;
+  error?: string;
+}
+
+export interface BrowserCloseResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
 // ============================================================================
 // Tool Input Types
 // ============================================================================
@@ -142,6 +441,10 @@ export interface WriteFileArgs {
 }
 
 export interface SearchFilesArgs {
+  /**
+   * Glob pattern to match files
+   * @default "**\/*"
+   */
   glob?: string;
   query?: string;
 }
@@ -158,6 +461,10 @@ export interface GitStatusArgs {
 export interface GitDiffArgs {
   paths?: string[];
   staged?: boolean;
+  /**
+   * Lines of context around each change
+   * @default 3
+   */
   context?: number;
   root?: string;
 }
@@ -170,12 +477,20 @@ export interface GitCommitArgs {
 
 export interface DotnetBuildArgs {
   solution_or_project?: string;
+  /**
+   * Build configuration (Debug, Release)
+   * @default "Debug"
+   */
   configuration?: string;
 }
 
 export interface DotnetTestArgs {
   solution_or_project?: string;
   filter?: string;
+  /**
+   * Logger type (trx, console); console output is always reported as well
+   * @default "trx"
+   */
   logger?: string;
 }
 
@@ -187,12 +502,23 @@ export interface DotnetNewArgs {
 
 export interface RagSearchArgs {
   query: string;
+  /**
+   * Number of results to return (default: the TopK in the host's RAG settings)
+   */
   top_k?: number;
 }
 
 export interface RagIndexArgs {
   path: string;
+  /**
+   * Whether to recursively index directories
+   * @default false
+   */
   recursive?: boolean;
+  /**
+   * Simple file pattern like *.cs
+   * @default "*.cs"
+   */
   pattern?: string;
 }
 
@@ -204,7 +530,108 @@ export interface RunProcessArgs {
   cmd: string;
   args?: string[];
   cwd?: string;
+  /**
+   * Timeout in milliseconds
+   * @default 120000
+   */
   timeout_ms?: number;
 }
 
+export interface ProcessStartArgs {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+}
+
+export interface ProcessReadArgs {
+  session_id: string;
+  all?: boolean;
+  wait_ms?: number;
+}
+
+export interface ProcessWriteArgs {
+  session_id: string;
+  input: string;
+  no_newline?: boolean;
+}
+
+export interface ProcessStatusArgs {
+  session_id: string;
+}
+
+export interface ProcessStopArgs {
+  session_id: string;
+  force?: boolean;
+}
+
+export interface SqliteQueryArgs {
+  sql: string;
+  params?: SqlValue[];
+}
+
+export interface AgentSubmitArgs {
+  agent_name: string;
+  prompt: string;
+}
+
+export interface AgentJobArgs {
+  agent_name: string;
+  job_id: string;
+}
+
+export interface DelegateArgs {
+  role: string;
+  task: string;
+  context_files?: string[];
+  success_criteria?: string;
+}
+
+export interface BrowserNavigateArgs {
+  url: string;
+  extract_text?: boolean;
+  screenshot?: boolean;
+  wait_for?: string;
+  timeout_ms?: number;
+}
+
+export interface BrowserClickArgs {
+  selector: string;
+  timeout_ms?: number;
+}
+
+export interface BrowserTypeArgs {
+  selector: string;
+  text: string;
+  clear?: boolean;
+  press_enter?: boolean;
+}
+
+export interface BrowserElementsArgs {
+  selector: string;
+  max?: number;
+}
+
+export interface BrowserScriptArgs {
+  script: string;
+}
+
+export interface BrowserScreenshotArgs {
+  full_page?: boolean;
+  selector?: string;
+}
+
+export interface CodeIndexArgs {
+  path?: string;
+  force?: boolean;
+}
+
+export interface CodeQueryArgs {
+  search?: string;
+  kind?: string;
+  file?: string;
+  symbol_id?: number;
+  find_references?: boolean;
+  limit?: number;
+}
+
 export {};
@@ -3,22 +3,8 @@
  * Analyzes project structure, file types, and basic statistics
  */
 
-import { searchFiles, readFile } from '../mcp/servers/filesystem';
-
-export const metadata = {
-  name: 'analyze-codebase',
-  description: 'Analyze project structure, file types, and code statistics',
-  version: '1.0.0',
-  parameters: {
-    depth: { type: 'number', description: 'Directory depth to analyze', default: 3 },
-    includeContent: { type: 'boolean', description: 'Include file content analysis', default: false }
-  }
-};
-
-export interface AnalyzeParams {
-  depth?: number;
-  includeContent?: boolean;
-}
+import { defineSkill } from 'thuvu/skills.ts';
+import { searchFiles, readFile } from 'thuvu/servers/filesystem/index.ts';
 
 export interface AnalyzeResult {
   totalFiles: number;
@@ -28,57 +14,65 @@ export interface AnalyzeResult {
   totalLines: number;
 }
 
-export async function execute(params: AnalyzeParams = {}): Promise<AnalyzeResult> {
-  const { depth = 3, includeContent = false } = params;
+export default defineSkill({
+  name: 'analyze-codebase',
+  description: 'Analyze project structure, file types, and code statistics',
+  version: '1.0.0',
+  parameters: {
+    depth: { type: 'number', description: 'Directory depth to analyze', default: 3 },
+    includeContent: { type: 'boolean', description: 'Include file content analysis', default: false }
+  },
+
+  async execute({ includeContent }): Promise<AnalyzeResult> {
+    // Find all files
+    const allFiles = await searchFiles('**/*');
 
-  // Find all files
-  const allFiles = await searchFiles('**/*');
-  
-  // Group by extension
-  const filesByExtension: Record<string, number> = {};
-  const directories = new Set<string>();
+    // Group by extension
+    const filesByExtension: Record<string, number> = {};
+    const directories = new Set<string>();
 
-  for (const file of allFiles) {
-    // Get extension
-    const ext = file.includes('.') ? file.split('.').pop()! : 'no-ext';
-    filesByExtension[ext] = (filesByExtension[ext] || 0) + 1;
+    for (const file of allFiles) {
+      // Get extension
+      const ext = file.includes('.') ? file.split('.').pop()! : 'no-ext';
+      filesByExtension[ext] = (filesByExtension[ext] || 0) + 1;
 
-    // Get directory
-    const dir = file.split(/[/\\]/).slice(0, -1).join('/');
-    if (dir) directories.add(dir);
-  }
+      // Get directory
+      const dir = file.split(/[/\\]/).slice(0, -1).join('/');
+      if (dir) directories.add(dir);
+    }
 
-  let totalLines = 0;
-  const largestFiles: Array<{ path: string; lines: number }> = [];
+    let totalLines = 0;
+    const largestFiles: Array<{ path: string; lines: number }> = [];
 
-  // Analyze content for code files if requested
-  if (includeContent) {
-    const codeExtensions = ['cs', 'ts', 'js', 'py', 'java', 'cpp', 'c', 'h'];
-    const codeFiles = allFiles.filter(f => {
-      const ext = f.split('.').pop()?.toLowerCase();
-      return ext && codeExtensions.includes(ext);
-    }).slice(0, 50); // Limit to 50 files
+    // Analyze content for code files if requested
+    if (includeContent) {
+      const codeExtensions = ['cs', 'ts', 'js', 'py', 'java', 'cpp', 'c', 'h'];
+      const codeFiles = allFiles.filter(f => {
+        const ext = f.split('.').pop()?.toLowerCase();
+        return ext && codeExtensions.includes(ext);
+      }).slice(0, 50); // Limit to 50 files
 
-    for (const file of codeFiles) {
-      try {
-        const content = await readFile(file);
-        const lines = content.content.split('\n').length;
-        totalLines += lines;
-        largestFiles.push({ path: file, lines });
-      } catch {
-        // Skip files that can't be read
+      for (const file of codeFiles) {
+        try {
+          const content = await readFile(file);
+          const lines = content.content.split('\n').length;
+          totalLines += lines;
+          largestFiles.push({ path: file, lines });
+        } catch {
+          // Skip files that can't be read
+        }
       }
-    }
 
-    // Sort by lines descending
-    largestFiles.sort((a, b) => b.lines - a.lines);
-  }
+      // Sort by lines descending
+      largestFiles.sort((a, b) => b.lines - a.lines);
+    }
 
-  return {
-    totalFiles: allFiles.length,
-    filesByExtension,
-    directories: Array.from(directories).slice(0, 20),
-    largestFiles: largestFiles.slice(0, 10),
-    totalLines
-  };
-}
+    return {
+      totalFiles: allFiles.length,
+      filesByExtension,
+      directories: Array.from(directories).slice(0, 20),
+      largestFiles: largestFiles.slice(0, 10),
+      totalLines
+    };
+  },
+});
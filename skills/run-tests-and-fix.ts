@@ -1,27 +1,52 @@
 /**
  * Skill: Run Tests and Analyze Failures
  * Runs tests and provides detailed analysis of failures
+ *
+ * Results are read from the TRX files `dotnet test` writes with its default
+ * trx logger, not from the console output, so localized output and
+ * parameterized test names do not matter. Each failure is resolved to the
+ * file and line that threw, with the source around it.
  */
 
-import { test, build } from '../mcp/servers/dotnet';
-import { readFile, searchFiles } from '../mcp/servers/filesystem';
-import { diff, status } from '../mcp/servers/git';
+import { defineSkill } from 'thuvu/skills.ts';
+import { test, build } from 'thuvu/servers/dotnet/index.ts';
+import { readFile, searchFiles } from 'thuvu/servers/filesystem/index.ts';
+import { status } from 'thuvu/servers/git/index.ts';
 
-export const metadata = {
-  name: 'run-tests-and-fix',
-  description: 'Run tests, analyze failures, and suggest fixes',
-  version: '1.0.0',
-  parameters: {
-    project: { type: 'string', description: 'Project or solution to test' },
-    filter: { type: 'string', description: 'Test filter expression' },
-    buildFirst: { type: 'boolean', description: 'Build before testing', default: true }
-  }
-};
+/**
+ * One frame of a .NET stack trace
+ */
+export interface StackFrame {
+  method: string;
+  file?: string;
+  line?: number;
+  /** `file:line`, when the frame has source information */
+  location?: string;
+}
 
-export interface TestParams {
-  project?: string;
-  filter?: string;
-  buildFirst?: boolean;
+/**
+ * Source lines around a failing line
+ */
+export interface SourceSnippet {
+  location: string;
+  /** The lines with their numbers, the failing one marked with `>` */
+  text: string;
+}
+
+/**
+ * One test result from a TRX file
+ */
+export interface TestRecord {
+  /** Test name as the framework reports it, with data-driven arguments */
+  name: string;
+  className?: string;
+  /** TRX outcome: Passed, Failed, NotExecuted, Timeout, Error, ... */
+  outcome: string;
+  durationMs?: number;
+  message?: string;
+  stackTrace?: string;
+  frames: StackFrame[];
+  source?: SourceSnippet;
 }
 
 export interface TestAnalysis {
@@ -30,86 +55,287 @@ export interface TestAnalysis {
   testsPassed: number;
   testsFailed: number;
   testsSkipped: number;
-  failures: Array<{
-    name: string;
-    error: string;
-    stackTrace?: string;
-  }>;
+  /** TRX files the results were read from */
+  resultFiles: string[];
+  failures: TestRecord[];
   suggestions: string[];
   gitStatus: string;
 }
 
-export async function execute(params: TestParams = {}): Promise<TestAnalysis> {
-  const { project, filter, buildFirst = true } = params;
+/** Failures that get a source snippet; each costs a readFile call */
+const MAX_SNIPPETS = 10;
 
-  const result: TestAnalysis = {
-    buildSuccess: true,
-    testsPassed: 0,
-    testsFailed: 0,
-    testsSkipped: 0,
-    failures: [],
-    suggestions: [],
-    gitStatus: ''
-  };
+/** Lines shown before and after the failing line */
+const SNIPPET_CONTEXT = 3;
+
+const FAILED_OUTCOMES = new Set(['Failed', 'Error', 'Timeout', 'Aborted']);
+const SKIPPED_OUTCOMES = new Set(['NotExecuted', 'Inconclusive', 'NotRunnable', 'Pending', 'Disconnected']);
+
+// ============================================================================
+// XML
+// ============================================================================
+
+/**
+ * An XML element, by local name (namespace prefixes dropped)
+ */
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
 
-  // Build first if requested
-  if (buildFirst) {
-    const buildResult = await build(project);
-    result.buildSuccess = buildResult.exit_code === 0;
-    
-    if (!result.buildSuccess) {
-      result.buildOutput = buildResult.stderr || buildResult.stdout;
-      result.suggestions.push('Fix build errors before running tests');
-      return result;
+/**
+ * Parse the subset of XML a TRX file uses: elements, attributes, text,
+ * CDATA and character references. Comments, processing instructions and
+ * the doctype are skipped.
+ */
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const open: XmlElement[] = [root];
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  for (const match of source.matchAll(token)) {
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+    const current = open[open.length - 1];
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing !== undefined) {
+      if (open.length > 1) open.pop();
+    } else if (opening !== undefined) {
+      const element: XmlElement = { name: localName(opening), attributes: {}, children: [], text: '' };
+      for (const [, name, , value] of attributeText.matchAll(/([^\s=]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+        element.attributes[localName(name)] = decodeEntities(value);
+      }
+      current.children.push(element);
+      if (!selfClosing) open.push(element);
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
     }
   }
 
-  // Run tests
-  const testResult = await test(project, filter);
-  
-  // Parse test output
-  const output = testResult.stdout;
-  
-  // Extract counts from output
-  const passedMatch = output.match(/Passed:\s*(\d+)/);
-  const failedMatch = output.match(/Failed:\s*(\d+)/);
-  const skippedMatch = output.match(/Skipped:\s*(\d+)/);
-  
-  result.testsPassed = passedMatch ? parseInt(passedMatch[1]) : 0;
-  result.testsFailed = failedMatch ? parseInt(failedMatch[1]) : 0;
-  result.testsSkipped = skippedMatch ? parseInt(skippedMatch[1]) : 0;
-
-  // If tests failed, analyze
-  if (result.testsFailed > 0) {
-    // Extract failure details (simplified parsing)
-    const failureBlocks = output.split(/Failed\s+/g).slice(1);
-    
-    for (const block of failureBlocks.slice(0, 5)) {
-      const lines = block.split('\n');
-      const name = lines[0]?.trim() || 'Unknown';
-      const error = lines.slice(1).join('\n').trim();
-      
-      result.failures.push({
-        name,
-        error: error.slice(0, 500)
-      });
+  const [document] = root.children;
+  if (!document) throw new Error('Not an XML document');
+  return document;
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+function descendants(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(c => c.name === name ? [c] : descendants(c, name));
+}
+
+// ============================================================================
+// TRX
+// ============================================================================
+
+/**
+ * Milliseconds in a TimeSpan: `00:00:01.2345678` or `1.02:03:04.5`
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+  const match = value?.match(/^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  const [, days = '0', hours, minutes, seconds] = match;
+  const ms = (((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+  return Math.round(ms * 1000) / 1000;
+}
+
+/**
+ * The frames of a .NET stack trace. Frames read
+ * `at Namespace.Type.Method(args) in /path/File.cs:line 42`, with the
+ * words "at", "in" and "line" localized, so only the shape is matched.
+ */
+export function parseStackTrace(stackTrace: string | undefined): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const text of (stackTrace ?? '').split(/\r?\n/)) {
+    const withSource = text.match(/^\s*\S+\s+(.+?\))\s+\S+\s+(.+):\S+\s+(\d+)\s*$/);
+    if (withSource) {
+      const [, method, file, line] = withSource;
+      frames.push({ method, file, line: Number(line), location: `${file}:${line}` });
+      continue;
     }
+    const withoutSource = text.match(/^\s*\S+\s+(\S.*\))\s*$/);
+    if (withoutSource) frames.push({ method: withoutSource[1] });
+  }
+  return frames;
+}
+
+/**
+ * The test results in a TRX file. Data-driven tests that report their rows
+ * as inner results are listed row by row.
+ */
+export function parseTrx(xml: string): TestRecord[] {
+  const run = parseXml(xml);
+  const classNames = new Map<string, string>();
+  for (const definition of descendants(run, 'UnitTest')) {
+    const className = child(definition, 'TestMethod')?.attributes.className;
+    if (className) classNames.set(definition.attributes.id, className);
+  }
+
+  const toRecord = (result: XmlElement): TestRecord[] => {
+    const inner = child(result, 'InnerResults')?.children.filter(c => c.name === 'UnitTestResult') ?? [];
+    if (inner.length > 0) return inner.flatMap(toRecord);
+
+    const errorInfo = child(child(result, 'Output'), 'ErrorInfo');
+    const message = child(errorInfo, 'Message')?.text.trim() || undefined;
+    const stackTrace = child(errorInfo, 'StackTrace')?.text.trimEnd() || undefined;
+    return [{
+      name: result.attributes.testName ?? 'Unknown',
+      className: classNames.get(result.attributes.testId),
+      outcome: result.attributes.outcome ?? 'Unknown',
+      durationMs: parseDuration(result.attributes.duration),
+      message,
+      stackTrace,
+      frames: parseStackTrace(stackTrace),
+    }];
+  };
+
+  return (child(run, 'Results')?.children ?? []).filter(c => c.name === 'UnitTestResult').flatMap(toRecord);
+}
+
+/**
+ * TRX files named in the output of `dotnet test`, one per test project:
+ * lines like `Results File: /src/TestResults/x.trx`, in any language. If
+ * none are named, the newest file in each TestResults directory (TRX
+ * names end with a timestamp).
+ */
+export async function findTrxFiles(stdout: string): Promise<string[]> {
+  const named = [...stdout.matchAll(/^[^:\n]*:\s*(.+\.trx)\s*$/gm)].map(match => match[1].trim());
+  if (named.length > 0) return [...new Set(named)];
+
+  const newest = new Map<string, string>();
+  for (const file of await searchFiles('**/TestResults/*.trx')) {
+    const dir = file.slice(0, file.replace(/\\/g, '/').lastIndexOf('/'));
+    if ((newest.get(dir) ?? '') < file) newest.set(dir, file);
+  }
+  return [...newest.values()];
+}
+
+/**
+ * The source around the line a frame points at
+ */
+export async function sourceSnippet(frame: StackFrame, context = SNIPPET_CONTEXT): Promise<SourceSnippet | undefined> {
+  if (!frame.file || !frame.line) return undefined;
+  let content: string;
+  try {
+    ({ content } = await readFile(frame.file));
+  } catch {
+    // Outside the project, or no longer there
+    return undefined;
+  }
+
+  const lines = content.split(/\r?\n/);
+  if (frame.line > lines.length) return undefined;
+  const first = Math.max(1, frame.line - context);
+  const last = Math.min(lines.length, frame.line + context);
+
+  const width = String(last).length;
+  const text = lines.slice(first - 1, last)
+    .map((line, i) => `${first + i === frame.line ? '>' : ' '} ${String(first + i).padStart(width)} | ${line}`)
+    .join('\n');
+  return { location: frame.location!, text };
+}
 
-    // Generate suggestions
-    if (output.includes('NullReferenceException')) {
-      result.suggestions.push('Check for null values before accessing object properties');
+function suggestionsFor(failures: TestRecord[]): string[] {
+  const details = failures.map(f => `${f.message ?? ''}\n${f.stackTrace ?? ''}`).join('\n');
+  const suggestions: string[] = [];
+  if (details.includes('NullReferenceException')) {
+    suggestions.push('Check for null values before accessing object properties');
+  }
+  if (details.includes('Assert.')) {
+    suggestions.push('Review assertion values - expected vs actual may be swapped');
+  }
+  if (failures.some(f => f.outcome === 'Timeout') || /timeout|timed out/i.test(details)) {
+    suggestions.push('Consider increasing test timeout or checking for async issues');
+  }
+  return suggestions;
+}
+
+export default defineSkill({
+  name: 'run-tests-and-fix',
+  description: 'Run tests, analyze failures, and suggest fixes',
+  version: '1.0.0',
+  parameters: {
+    project: { type: 'string', description: 'Project or solution to test' },
+    filter: { type: 'string', description: 'Test filter expression' },
+    buildFirst: { type: 'boolean', description: 'Build before testing', default: true }
+  },
+
+  async execute({ project, filter, buildFirst }): Promise<TestAnalysis> {
+    const result: TestAnalysis = {
+      buildSuccess: true,
+      testsPassed: 0,
+      testsFailed: 0,
+      testsSkipped: 0,
+      resultFiles: [],
+      failures: [],
+      suggestions: [],
+      gitStatus: ''
+    };
+
+    // Build first if requested
+    if (buildFirst) {
+      const buildResult = await build(project);
+      result.buildSuccess = buildResult.exit_code === 0;
+
+      if (!result.buildSuccess) {
+        result.buildOutput = buildResult.stderr || buildResult.stdout;
+        result.suggestions.push('Fix build errors before running tests');
+        return result;
+      }
     }
-    if (output.includes('Assert.')) {
-      result.suggestions.push('Review assertion values - expected vs actual may be swapped');
+
+    // Run tests with the trx logger
+    const testResult = await test(project, filter, 'trx');
+
+    const records: TestRecord[] = [];
+    for (const file of await findTrxFiles(testResult.stdout)) {
+      try {
+        records.push(...parseTrx((await readFile(file)).content));
+        result.resultFiles.push(file);
+      } catch {
+        // Unreadable or not a TRX file; the host's counts still apply
+      }
     }
-    if (output.includes('timeout')) {
-      result.suggestions.push('Consider increasing test timeout or checking for async issues');
+
+    if (result.resultFiles.length > 0) {
+      result.testsPassed = records.filter(r => r.outcome === 'Passed').length;
+      result.testsFailed = records.filter(r => FAILED_OUTCOMES.has(r.outcome)).length;
+      result.testsSkipped = records.filter(r => SKIPPED_OUTCOMES.has(r.outcome)).length;
+    } else {
+      result.testsPassed = testResult.passed;
+      result.testsFailed = testResult.failed;
+      result.testsSkipped = testResult.skipped;
     }
-  }
 
-  // Get git status for context
-  const statusResult = await status();
-  result.gitStatus = statusResult.stdout;
+    // Show the source where each failure was thrown, at the first frame with a file
+    result.failures = records.filter(r => FAILED_OUTCOMES.has(r.outcome));
+    for (const failure of result.failures.slice(0, MAX_SNIPPETS)) {
+      const frame = failure.frames.find(f => f.file);
+      if (frame) failure.source = await sourceSnippet(frame);
+    }
+    result.suggestions.push(...suggestionsFor(result.failures));
 
-  return result;
-}
+    // Get git status for context
+    const statusResult = await status();
+    result.gitStatus = statusResult.stdout;
+
+    return result;
+  },
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the TRX parsing in run-tests-and-fix
+ *
+ * Run with: deno test --allow-read --import-map=mcp/import_map.json skills/run-tests-and-fix_test.ts
+ */
+
+import { deepEqual, equal } from 'node:assert/strict';
+import { findTrxFiles, parseDuration, parseStackTrace, parseTrx, sourceSnippet } from './run-tests-and-fix.ts';
+
+const TRX = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="1" name="run" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Results>
+    <UnitTestResult testId="t1" testName="Add(a: 1, b: 2)" duration="00:00:00.0123450" outcome="Passed" />
+    <UnitTestResult testId="t2" testName="Divide_ByZero" duration="00:00:01.5" outcome="Failed">
+      <Output>
+        <ErrorInfo>
+          <Message>Assert.Equal() Failure: Values differ
+Expected: &lt;null&gt;
+Actual:   "x &amp; y"</Message>
+          <StackTrace>   at Calc.Tests.MathTests.Divide_ByZero() in /src/Calc.Tests/MathTests.cs:line 5
+   at System.RuntimeMethodHandle.InvokeMethod(Object target, Void** arguments)</StackTrace>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+    <UnitTestResult testId="t3" testName="Rows" outcome="Failed" resultType="DataDrivenTest">
+      <InnerResults>
+        <UnitTestResult testId="t3" testName="Rows (1)" outcome="Passed" />
+        <UnitTestResult testId="t3" testName="Rows (2)" outcome="Failed">
+          <Output><ErrorInfo><Message><![CDATA[Row <2> failed]]></Message></ErrorInfo></Output>
+        </UnitTestResult>
+      </InnerResults>
+    </UnitTestResult>
+    <UnitTestResult testId="t4" testName="Later" outcome="NotExecuted" />
+  </Results>
+  <TestDefinitions>
+    <UnitTest name="Divide_ByZero" id="t2">
+      <TestMethod className="Calc.Tests.MathTests" name="Divide_ByZero" />
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>`;
+
+Deno.test('TRX results become per-test records', () => {
+  const records = parseTrx(TRX);
+  deepEqual(records.map(r => [r.name, r.outcome]), [
+    ['Add(a: 1, b: 2)', 'Passed'],
+    ['Divide_ByZero', 'Failed'],
+    ['Rows (1)', 'Passed'],
+    ['Rows (2)', 'Failed'],
+    ['Later', 'NotExecuted'],
+  ]);
+
+  const failure = records[1];
+  equal(failure.className, 'Calc.Tests.MathTests');
+  equal(failure.durationMs, 1500);
+  equal(failure.message, 'Assert.Equal() Failure: Values differ\nExpected: <null>\nActual:   "x & y"');
+  equal(failure.frames[0].location, '/src/Calc.Tests/MathTests.cs:5');
+  equal(records[3].message, 'Row <2> failed');
+});
+
+Deno.test('stack frames resolve to file:line in any language', () => {
+  deepEqual(parseStackTrace([
+    '   at App.Service.Run(String name) in C:\\src\\App\\Service.cs:line 42',
+    '   bei App.Worker.<Start>b__0_0() in /src/App/Worker.cs:Zeile 7',
+    '--- End of stack trace from previous location ---',
+    '   at System.Threading.Tasks.Task.Wait()',
+  ].join('\n')), [
+    { method: 'App.Service.Run(String name)', file: 'C:\\src\\App\\Service.cs', line: 42, location: 'C:\\src\\App\\Service.cs:42' },
+    { method: 'App.Worker.<Start>b__0_0()', file: '/src/App/Worker.cs', line: 7, location: '/src/App/Worker.cs:7' },
+    { method: 'System.Threading.Tasks.Task.Wait()' },
+  ]);
+});
+
+Deno.test('durations are TimeSpans in milliseconds', () => {
+  equal(parseDuration('00:00:00.0123450'), 12.345);
+  equal(parseDuration('1.00:00:01'), 86_401_000);
+  equal(parseDuration(undefined), undefined);
+});
+
+Deno.test('failing lines get the source around them', async () => {
+  const source = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5', 'line 6', 'line 7', 'line 8', 'line 9', 'line 10'].join('\n');
+  (globalThis as Record<string, unknown>).__thuvu_bridge__ = {
+    call: (tool: string, args: { path?: string; glob?: string }) => {
+      if (tool === 'read_file' && args.path === '/src/Calc.Tests/MathTests.cs') return Promise.resolve({ content: source });
+      if (tool === 'search_files') return Promise.resolve({ matches: ['a/TestResults/u_2024-01-01_10_00_00.trx', 'a/TestResults/u_2024-03-01_09_00_00.trx'] });
+      return Promise.reject(new Error(`not found: ${args.path}`));
+    },
+  };
+
+  const [frame] = parseStackTrace('   at T.M() in /src/Calc.Tests/MathTests.cs:line 9');
+  deepEqual(await sourceSnippet(frame), {
+    location: '/src/Calc.Tests/MathTests.cs:9',
+    text: '   6 | line 6\n   7 | line 7\n   8 | line 8\n>  9 | line 9\n  10 | line 10',
+  });
+  equal(await sourceSnippet({ method: 'M', file: '/elsewhere.cs', line: 1, location: '/elsewhere.cs:1' }), undefined);
+
+  deepEqual(await findTrxFiles('Ergebnisdatei: /src/TestResults/run.trx\nPassed!'), ['/src/TestResults/run.trx']);
+  deepEqual(await findTrxFiles('no results named'), ['a/TestResults/u_2024-03-01_09_00_00.trx']);
+});
@@ -146,7 +146,7 @@ Emit 'thuvu Finished Tasks' when you have completed all your tasks.";
 You are a coding agent with access to tools via TypeScript code execution.
 
 Instead of calling tools one at a time, write TypeScript code that:
-1. Imports needed tools from the servers/ directory
+1. Calls the tools the sandbox injects (no imports needed)
 2. Composes operations efficiently (batch reads, parallel operations)
 3. Processes data locally and returns only relevant results
 
@@ -156,9 +156,9 @@ Use the catalog to find tools:
 ```typescript
 import { searchTools, getToolsByServer, getToolSchema } from './catalog';
 
-// Search for tools by keyword
+// Search for tools by keyword or description, best matches first
 const ioTools = searchTools('file');     // Find file-related tools
-const buildTools = searchTools('build'); // Find build tools
+const testTools = searchTools('run unit tests', { topK: 3 }); // Each has score and matchedFields
 
 // Get all tools from a server
 const gitTools = getToolsByServer('git');
@@ -167,59 +167,82 @@ const gitTools = getToolsByServer('git');
 const schema = getToolSchema('filesystem', 'readFile');
 ```
 
+Each result's `server` is the namespace to call it through: `process.run`, `sqlite.query`.
+
 ## Available Servers
 
+Every server is injected as a namespace named after it (`git.status()`, `rag.search()`, `process.start()`);
+`fs` is short for `filesystem`. The process tools are added to Node's `process`, so `process.env` still works.
+Tools with unambiguous names are also injected on their own (`readFile`, `commit`, `findSymbol`, `openPage`);
+generic names (`build`, `test`, `run`, `search`, `query`) are only reachable through their namespace.
+`git(args)` and `dotnet(args)` still run a git or dotnet command line, and `runCommand` is `process.run`.
+
 | Server | Tools | Purpose |
 |--------|-------|---------|
 | filesystem | readFile, writeFile, searchFiles, applyPatch | File operations |
-| git | status, diff, commit | Version control |
+| git | status, diff, diffStaged, diffUnstaged, commit | Version control |
 | dotnet | build, test, newProject | .NET development |
 | rag | search, index, stats, clear | Semantic search |
-| process | run, start, read, write, status, stop | Command execution (blocking and background) |
+| process | run, git, dotnet, start | Command execution (blocking and background) |
+| sqlite | sql, query, execute, listTables, describeTable | Parameterized SQL on the project database |
+| agents | delegate, fanOut, submit, list, cancel | Sub-agents and remote agents |
+| browser | openPage | Browser automation |
+| code | indexCode, queryCode, findSymbol, getSymbol, findReferences, listSymbolsInFile | Symbol index navigation |
+| ext.<server> | tools of configured MCP servers | External tools |
+
+Errors are thrown as classes you can test with `instanceof`: ThuvuToolError, PermissionDeniedError,
+ConflictError, NotFoundError, ToolTimeoutError, ToolAbortedError, UnknownToolError, InvalidArgumentsError.
 
 ## Quick Reference
 
 ```typescript
 // File operations
-import { readFile, writeFile, searchFiles, applyPatch } from './servers/filesystem';
 const files = await searchFiles('**/*.cs');
 const content = await readFile('path/to/file.cs');
 
 // Git operations
-import { status, diff, commit } from './servers/git';
 const changes = await diff({ staged: true });
+await commit('Fix parser');
 
 // Build & test
-import { build, test } from './servers/dotnet';
-const result = await build();
-const tests = await test();
+const result = await dotnet.build();
+const tests = await dotnet.test();
 
 // Run commands (blocking)
-import { run } from './servers/process';
-await run('dotnet', ['build', '-c', 'Release']);
+await process.run('dotnet', ['build', '-c', 'Release']);
+await git(['log', '--oneline', '-5']);
 
 // Background processes (for long-running apps)
-import { start, read, write, stop } from './servers/process';
-const session = await start('dotnet', ['run']);  // Returns session_id
-await sleep(2000);  // Wait for app to start
-const output = await read(session.session_id);   // Get stdout/stderr
-await stop(session.session_id);                  // Terminate
+const server = await process.start('dotnet', ['run']);
+await server.readUntil(/Now listening on/, 60000);  // Wait for app to start
+const output = await server.read();                 // New stdout/stderr
+await server.stop();                                // Terminate
+
+// Database (values are bound as parameters)
+const rows = await sqlite.query(sql`SELECT name FROM symbols WHERE kind = ${'class'}`);
+
+// Code navigation
+await indexCode('.');
+const [service] = await findSymbol('UserService', 'class');
+const { references } = await findReferences(service);
+
+// Sub-agents
+const review = await delegate('reviewer', 'Review the changes in src/Parser.cs');
+
+// Browser
+const state = await openPage('http://localhost:5000').click('#login').state();
 ```
 
 ## Example: Find and modify code
 
 ```typescript
-import { searchFiles, readFile, applyPatch } from './servers/filesystem';
-import { build, test } from './servers/dotnet';
-import { commit } from './servers/git';
-
 // 1. Find files
 const files = await searchFiles('**/*.cs', 'HttpClient');
 
 // 2. Read and analyze
 const contents = await Promise.all(files.slice(0, 5).map(f => readFile(f)));
-const summary = contents.map(c => ({
-  path: c.path,
+const summary = contents.map((c, i) => ({
+  path: files[i],
   lines: c.content.split('\n').length,
   hasHttpClient: c.content.includes('HttpClient')
 }));
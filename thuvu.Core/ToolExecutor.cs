@@ -347,7 +347,7 @@ namespace thuvu
         /// <summary>
         /// Execute code_index tool
         /// </summary>
-        private static async Task<string> ExecuteCodeIndexAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteCodeIndexAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -368,7 +368,7 @@ namespace thuvu
         /// <summary>
         /// Execute code_query tool
         /// </summary>
-        private static async Task<string> ExecuteCodeQueryAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteCodeQueryAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -444,7 +444,7 @@ namespace thuvu
 
         #region Agent Communication Helpers
 
-        private static async Task<string> ExecuteAgentSubmitAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentSubmitAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -467,7 +467,7 @@ namespace thuvu
             }
         }
 
-        private static async Task<string> ExecuteAgentStatusAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentStatusAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -487,7 +487,7 @@ namespace thuvu
             }
         }
 
-        private static async Task<string> ExecuteAgentResultAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentResultAsync(string argsJson, CancellationToken ct)
         {
             try
             {
@@ -510,7 +510,7 @@ namespace thuvu
             }
         }
 
-        private static async Task<string> ExecuteAgentCancelAsync(string argsJson, CancellationToken ct)
+        internal static async Task<string> ExecuteAgentCancelAsync(string argsJson, CancellationToken ct)
         {
             try
             {
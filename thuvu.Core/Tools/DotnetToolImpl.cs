@@ -3,6 +3,7 @@ using System.Collections.Generic;
 using System.Linq;
 using System.Text;
 using System.Text.Json;
+using System.Threading;
 using System.Threading.Tasks;
 
 namespace thuvu.Tools
@@ -37,9 +38,9 @@ namespace thuvu.Tools
         }
 
         /// <summary>
-        /// Run dotnet build
+        /// Run dotnet build. onOutput, if given, receives each output line as it is printed.
         /// </summary>
-        public static Task<string> DotnetBuildTool(string rawArgs)
+        public static Task<string> DotnetBuildTool(string rawArgs, CancellationToken ct = default, Action<string>? onOutput = null)
         {
             try
             {
@@ -64,7 +65,7 @@ namespace thuvu.Tools
                 { 
                     cmd = "dotnet", 
                     args = argList.ToArray() 
-                }));
+                }), ct, onOutput);
             }
             catch (Exception ex)
             {
@@ -77,9 +78,9 @@ namespace thuvu.Tools
         }
 
         /// <summary>
-        /// Run dotnet test
+        /// Run dotnet test. onOutput, if given, receives each output line as it is printed.
         /// </summary>
-        public static Task<string> DotnetTestTool(string rawArgs)
+        public static Task<string> DotnetTestTool(string rawArgs, CancellationToken ct = default, Action<string>? onOutput = null)
         {
             try
             {
@@ -91,11 +92,19 @@ namespace thuvu.Tools
                 var noBuild = root.TryGetProperty("no_build", out var nb) && nb.ValueKind == JsonValueKind.True;
                 var verbosity = root.TryGetProperty("verbosity", out var v) && v.ValueKind == JsonValueKind.String 
                     ? v.GetString() : null;
+                var logger = root.TryGetProperty("logger", out var l) && l.ValueKind == JsonValueKind.String 
+                    ? l.GetString() : "trx";
 
                 var args = new List<string> { "test" };
                 if (!string.IsNullOrWhiteSpace(path)) args.Add(path);
+                // Console output is always kept for streaming; the requested logger (trx by default) is added alongside it
                 args.Add("--logger");
                 args.Add("console;verbosity=normal");
+                if (!string.IsNullOrWhiteSpace(logger) && !logger.StartsWith("console", StringComparison.OrdinalIgnoreCase))
+                {
+                    args.Add("--logger");
+                    args.Add(logger);
+                }
                 if (!string.IsNullOrWhiteSpace(filter)) { args.Add("--filter"); args.Add(filter); }
                 if (noBuild) args.Add("--no-build");
                 if (!string.IsNullOrWhiteSpace(verbosity)) { args.Add("-v"); args.Add(verbosity); }
@@ -105,7 +114,7 @@ namespace thuvu.Tools
                     cmd = "dotnet", 
                     args = args.ToArray(),
                     timeout_ms = 300000 // 5 minutes for tests
-                }));
+                }), ct, onOutput);
             }
             catch (Exception ex)
             {
@@ -2,6 +2,7 @@ using System;
 using System.Collections.Generic;
 using System.IO;
 using System.Linq;
+using System.Text;
 using System.Text.Json;
 using System.Threading;
 using System.Threading.Tasks;
@@ -328,6 +329,198 @@ namespace thuvu.Tools
             }
         }
 
+        /// <summary>
+        /// Run a SELECT with bound parameters (sqlite_query).
+        /// Expects { sql, params } where each ? in sql is bound to the next value in params.
+        /// </summary>
+        public static async Task<string> SqliteQueryAsync(string argsJson, CancellationToken ct = default)
+        {
+            try
+            {
+                if (!SqliteConfig.Instance.Enabled)
+                {
+                    return JsonSerializer.Serialize(new { success = false, error = "SQLite is disabled" }, _jsonOptions);
+                }
+
+                var (sql, parameters) = ParseStatement(argsJson);
+                await using var conn = await SqliteService.Instance.GetConnectionAsync(ct);
+
+                // sqlite_query is classified read-only, so refuse statements that write
+                await SetQueryOnlyAsync(conn, true, ct);
+                var columns = new List<string>();
+                var rows = new List<Dictionary<string, object?>>();
+                try
+                {
+                    await using var cmd = conn.CreateCommand();
+                    BindStatement(cmd, sql, parameters);
+
+                    await using var reader = await cmd.ExecuteReaderAsync(ct);
+                    columns.AddRange(Enumerable.Range(0, reader.FieldCount).Select(reader.GetName));
+                    while (await reader.ReadAsync(ct))
+                    {
+                        var row = new Dictionary<string, object?>();
+                        for (var i = 0; i < reader.FieldCount; i++)
+                        {
+                            row[columns[i]] = reader.IsDBNull(i) ? null : reader.GetValue(i) switch
+                            {
+                                byte[] blob => Convert.ToBase64String(blob),
+                                var value => value
+                            };
+                        }
+                        rows.Add(row);
+                    }
+                }
+                finally
+                {
+                    // The connection goes back to the pool, where later writes would fail
+                    await SetQueryOnlyAsync(conn, false, CancellationToken.None);
+                }
+
+                return JsonSerializer.Serialize(new
+                {
+                    success = true,
+                    columns,
+                    rows,
+                    row_count = rows.Count
+                }, _jsonOptions);
+            }
+            catch (Exception ex)
+            {
+                AgentLogger.LogError(ex, "sqlite_query failed");
+                return JsonSerializer.Serialize(new { success = false, error = ex.Message }, _jsonOptions);
+            }
+        }
+
+        /// <summary>
+        /// Switch the connection's query_only pragma on or off
+        /// </summary>
+        private static async Task SetQueryOnlyAsync(System.Data.Common.DbConnection conn, bool on, CancellationToken ct)
+        {
+            await using var pragma = conn.CreateCommand();
+            pragma.CommandText = on ? "PRAGMA query_only = ON;" : "PRAGMA query_only = OFF;";
+            await pragma.ExecuteNonQueryAsync(ct);
+        }
+
+                /// <summary>
+        /// Run an INSERT, UPDATE, DELETE or DDL statement with bound parameters (sqlite_execute).
+        /// </summary>
+        public static async Task<string> SqliteExecuteAsync(string argsJson, CancellationToken ct = default)
+        {
+            try
+            {
+                if (!SqliteConfig.Instance.Enabled)
+                {
+                    return JsonSerializer.Serialize(new { success = false, error = "SQLite is disabled" }, _jsonOptions);
+                }
+
+                var (sql, parameters) = ParseStatement(argsJson);
+                await using var conn = await SqliteService.Instance.GetConnectionAsync(ct);
+                await using var cmd = conn.CreateCommand();
+                BindStatement(cmd, sql, parameters);
+                var changes = await cmd.ExecuteNonQueryAsync(ct);
+
+                await using var rowidCmd = conn.CreateCommand();
+                rowidCmd.CommandText = "SELECT last_insert_rowid()";
+                var lastInsertRowid = (long)(await rowidCmd.ExecuteScalarAsync(ct) ?? 0L);
+
+                return JsonSerializer.Serialize(new
+                {
+                    success = true,
+                    changes,
+                    last_insert_rowid = lastInsertRowid
+                }, _jsonOptions);
+            }
+            catch (Exception ex)
+            {
+                AgentLogger.LogError(ex, "sqlite_execute failed");
+                return JsonSerializer.Serialize(new { success = false, error = ex.Message }, _jsonOptions);
+            }
+        }
+
+        /// <summary>
+        /// Read { sql, params } from the tool arguments.
+        /// </summary>
+        private static (string Sql, List<object> Parameters) ParseStatement(string argsJson)
+        {
+            using var doc = JsonDocument.Parse(argsJson);
+            var root = doc.RootElement;
+
+            if (!root.TryGetProperty("sql", out var sqlProp) || sqlProp.ValueKind != JsonValueKind.String)
+                throw new ArgumentException("Missing 'sql' parameter");
+
+            var parameters = new List<object>();
+            if (root.TryGetProperty("params", out var paramsProp) && paramsProp.ValueKind == JsonValueKind.Array)
+            {
+                foreach (var value in paramsProp.EnumerateArray())
+                {
+                    parameters.Add(value.ValueKind switch
+                    {
+                        JsonValueKind.String => value.GetString()!,
+                        JsonValueKind.Number => value.TryGetInt64(out var integer) ? integer : value.GetDouble(),
+                        JsonValueKind.True => 1L,
+                        JsonValueKind.False => 0L,
+                        JsonValueKind.Null => DBNull.Value,
+                        _ => throw new ArgumentException($"Unsupported parameter type: {value.ValueKind}")
+                    });
+                }
+            }
+
+            return (sqlProp.GetString()!, parameters);
+        }
+
+        /// <summary>
+        /// Set the command text, naming each ? placeholder $p1, $p2, ... and binding
+        /// it to the matching parameter. Placeholders inside string literals, quoted
+        /// identifiers and comments are left alone.
+        /// </summary>
+        private static void BindStatement(System.Data.Common.DbCommand cmd, string sql, List<object> parameters)
+        {
+            var text = new StringBuilder(sql.Length + parameters.Count * 3);
+            var count = 0;
+            for (var i = 0; i < sql.Length; i++)
+            {
+                var c = sql[i];
+                var close = c switch
+                {
+                    '\'' => "'",
+                    '"' => "\"",
+                    '`' => "`",
+                    '[' => "]",
+                    '-' when i + 1 < sql.Length && sql[i + 1] == '-' => "\n",
+                    '/' when i + 1 < sql.Length && sql[i + 1] == '*' => "*/",
+                    _ => null
+                };
+
+                if (close != null)
+                {
+                    var end = sql.IndexOf(close, i + 1, StringComparison.Ordinal);
+                    end = end == -1 ? sql.Length : end + close.Length;
+                    text.Append(sql, i, end - i);
+                    i = end - 1;
+                }
+                else if (c == '?')
+                {
+                    text.Append("$p").Append(++count);
+                }
+                else
+                {
+                    text.Append(c);
+                }
+            }
+
+            if (count != parameters.Count)
+                throw new ArgumentException($"The statement has {count} placeholders but {parameters.Count} parameters were given");
+
+            cmd.CommandText = text.ToString();
+            for (var i = 0; i < parameters.Count; i++)
+            {
+                var parameter = cmd.CreateParameter();
+                parameter.ParameterName = $"$p{i + 1}";
+                parameter.Value = parameters[i];
+                cmd.Parameters.Add(parameter);
+            }
+        }
+
         private static object FormatSymbol(CodeSymbol s)
         {
             return new